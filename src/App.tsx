@@ -1,17 +1,40 @@
-import React, { useState } from 'react'
+import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AuthProvider, useAuthContext } from './contexts/AuthContext'
 import { AuthForm } from './components/Auth/AuthForm'
 import { Header } from './components/Layout/Header'
 import { Sidebar } from './components/Layout/Sidebar'
 import { Dashboard } from './components/Dashboard/Dashboard'
 import { CourseList } from './components/Courses/CourseList'
+import { CourseDetail } from './components/Courses/CourseDetail'
+import { MyCourses } from './components/Courses/MyCourses'
 import { CreateCourse } from './components/Courses/CreateCourse'
+import { EditCourse } from './components/Courses/EditCourse'
 import { UserProfile } from './components/Profile/UserProfile'
 import { LearningCommunity } from './components/Community/LearningCommunity'
+import { MyStudents } from './components/Mentor/MyStudents'
+import { MentorApplication } from './components/Mentor/MentorApplication'
+import { Earnings } from './components/Mentor/Earnings'
+import { MentorCourses } from './components/Mentor/MentorCourses'
+import { MentorRequests } from './components/Admin/MentorRequests'
+import { CourseReviews } from './components/Admin/CourseReviews'
+import { BadgeRules } from './components/Admin/BadgeRules'
+import { Payouts } from './components/Admin/Payouts'
+import { Reviews } from './components/Reviews/Reviews'
+import { Schedule } from './components/Sessions/Schedule'
+import { CheckIn } from './components/Sessions/CheckIn'
+import { Orders } from './components/Orders/Orders'
+import { Achievements } from './components/Achievements/Achievements'
+import { CertificateView } from './components/Certificates/CertificateView'
+import { VerifyCertificate } from './components/Certificates/VerifyCertificate'
+import { Notifications } from './components/Notifications/Notifications'
+import { Settings } from './components/Settings/Settings'
+import { RouteGuard } from './components/Layout/RouteGuard'
+import { NotFound } from './components/Layout/NotFound'
+import { routes } from './lib/routes'
+import { canMentor, isAdmin } from './lib/permissions'
 
 function AppContent() {
   const { user, profile, loading, error } = useAuthContext()
-  const [activeView, setActiveView] = useState('dashboard')
 
   if (loading) {
     return (
@@ -53,44 +76,71 @@ function AppContent() {
     return <AuthForm />
   }
 
-  const renderContent = () => {
-    switch (activeView) {
-      case 'dashboard':
-        return <Dashboard />
-      case 'courses':
-        return <CourseList />
-      case 'create-course':
-        return <CreateCourse />
-      case 'profile':
-        return <UserProfile />
-      case 'community':
-        return <LearningCommunity />
-      case 'my-courses':
-        return <div className="p-6">My Courses (Coming Soon)</div>
-      case 'achievements':
-        return <div className="p-6">Achievements (Coming Soon)</div>
-      case 'reviews':
-        return <div className="p-6">Reviews (Coming Soon)</div>
-      case 'my-students':
-        return <div className="p-6">My Students (Coming Soon)</div>
-      case 'analytics':
-        return <div className="p-6">Analytics (Coming Soon)</div>
-      case 'mentor-requests':
-        return <div className="p-6">Mentor Requests (Coming Soon)</div>
-      case 'settings':
-        return <div className="p-6">Settings (Coming Soon)</div>
-      default:
-        return <Dashboard />
-    }
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-100 via-blue-50 to-indigo-100">
       <Header />
       <div className="flex">
-        <Sidebar activeView={activeView} onViewChange={setActiveView} />
+        <Sidebar />
         <main className="flex-1 overflow-auto">
-          {renderContent()}
+          <Routes>
+            <Route path={routes.dashboard} element={<Dashboard />} />
+            <Route path={routes.courses} element={<CourseList />} />
+            <Route path={routes.course} element={<CourseDetail />} />
+            {/* CreateCourse explains the year requirement and links to the mentor application */}
+            <Route path={routes.createCourse} element={<CreateCourse />} />
+            <Route path={routes.profile} element={<UserProfile />} />
+            <Route path={routes.userProfile} element={<UserProfile />} />
+            <Route path={routes.community} element={<LearningCommunity />} />
+            <Route path={routes.communityDetail} element={<LearningCommunity />} />
+            <Route path={routes.communityThread} element={<LearningCommunity />} />
+            <Route path={routes.myCourses} element={<MyCourses />} />
+            <Route path={routes.schedule} element={<Schedule />} />
+            <Route path={routes.checkIn} element={<CheckIn />} />
+            <Route path={routes.certificate} element={<CertificateView />} />
+            <Route path={routes.mentorApplication} element={<MentorApplication />} />
+            <Route path={routes.achievements} element={<Achievements />} />
+            <Route path={routes.reviews} element={<Reviews />} />
+            <Route path={routes.orders} element={<Orders />} />
+            <Route
+              path={routes.editCourse}
+              element={<RouteGuard allow={canMentor}><EditCourse /></RouteGuard>}
+            />
+            <Route
+              path={routes.mentorCourses}
+              element={<RouteGuard allow={canMentor}><MentorCourses /></RouteGuard>}
+            />
+            <Route
+              path={routes.myStudents}
+              element={<RouteGuard allow={canMentor}><MyStudents /></RouteGuard>}
+            />
+            <Route
+              path={routes.earnings}
+              element={<RouteGuard allow={canMentor}><Earnings /></RouteGuard>}
+            />
+            <Route
+              path={routes.analytics}
+              element={<RouteGuard allow={isAdmin}><div className="p-6">Analytics (Coming Soon)</div></RouteGuard>}
+            />
+            <Route
+              path={routes.mentorRequests}
+              element={<RouteGuard allow={isAdmin}><MentorRequests /></RouteGuard>}
+            />
+            <Route
+              path={routes.courseReviews}
+              element={<RouteGuard allow={isAdmin}><CourseReviews /></RouteGuard>}
+            />
+            <Route
+              path={routes.badgeRules}
+              element={<RouteGuard allow={isAdmin}><BadgeRules /></RouteGuard>}
+            />
+            <Route
+              path={routes.payouts}
+              element={<RouteGuard allow={isAdmin}><Payouts /></RouteGuard>}
+            />
+            <Route path={routes.settings} element={<Settings />} />
+            <Route path={routes.notifications} element={<Notifications />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
         </main>
       </div>
     </div>
@@ -99,9 +149,16 @@ function AppContent() {
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <Routes>
+          {/* Public pages that work without signing in */}
+          <Route path={routes.verify} element={<VerifyCertificate />} />
+          <Route path={routes.verifyCertificate} element={<VerifyCertificate />} />
+          <Route path="*" element={<AppContent />} />
+        </Routes>
+      </AuthProvider>
+    </BrowserRouter>
   )
 }
 
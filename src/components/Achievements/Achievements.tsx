@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react'
+import { Award, Lock, Trophy, Zap } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import type { BadgeMetric, Database } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { formatBadgeProgress } from '../../lib/badges'
+
+type Badge = Database['public']['Tables']['badges']['Row']
+type XpTransaction = Database['public']['Tables']['xp_transactions']['Row']
+
+interface BadgeCondition {
+  badge_id: string
+  metric: BadgeMetric
+  current_value: number
+  target_value: number
+}
+
+const xpSourceLabels: Record<XpTransaction['source'], string> = {
+  enrollment: 'Enrollment',
+  course_completion: 'Course completion',
+  review: 'Review',
+  resource_upload: 'Resource upload',
+  session_hosted: 'Hosted session',
+  adjustment: 'Adjustment',
+}
+
+export function Achievements() {
+  const { profile } = useAuthContext()
+  const [badges, setBadges] = useState<Badge[]>([])
+  const [earned, setEarned] = useState<Record<string, string>>({})
+  const [progress, setProgress] = useState<BadgeCondition[]>([])
+  const [xpHistory, setXpHistory] = useState<XpTransaction[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchAchievements()
+  }, [profile])
+
+  const fetchAchievements = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [badgesRes, earnedRes, progressRes, xpRes] = await Promise.all([
+        supabase.from('badges').select('*').order('created_at'),
+        supabase.from('user_badges').select('badge_id, earned_at').eq('user_id', profile.id),
+        supabase.rpc('badge_progress', { p_user_id: profile.id }),
+        supabase
+          .from('xp_transactions')
+          .select('*')
+          .eq('user_id', profile.id)
+          .order('created_at', { ascending: false })
+      ])
+
+      if (badgesRes.error) throw badgesRes.error
+
+      setBadges(badgesRes.data || [])
+      setEarned(Object.fromEntries(earnedRes.data?.map(ub => [ub.badge_id, ub.earned_at]) || []))
+      setProgress(progressRes.data || [])
+      setXpHistory(xpRes.data || [])
+    } catch (error) {
+      console.error('Error fetching achievements:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!profile) return null
+
+  if (loading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="bg-gray-200 rounded-2xl h-32 animate-pulse" />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[1, 2, 3, 4, 5, 6].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-40 animate-pulse" />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const earnedCount = badges.filter(b => earned[b.id]).length
+  const sections = [
+    { type: 'learner' as const, title: 'Learner Badges' },
+    { type: 'mentor' as const, title: 'Mentor Badges' },
+  ]
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="bg-gradient-to-r from-purple-500 to-blue-500 rounded-2xl p-8 text-white">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Achievements</h1>
+            <p className="opacity-90">Earn badges as you learn and mentor</p>
+          </div>
+          <div className="flex space-x-4">
+            <div className="bg-white/20 backdrop-blur-lg rounded-xl p-4 text-center">
+              <Trophy className="w-6 h-6 mx-auto mb-1" />
+              <p className="text-2xl font-bold">{earnedCount}/{badges.length}</p>
+              <p className="text-xs opacity-80">Badges</p>
+            </div>
+            <div className="bg-white/20 backdrop-blur-lg rounded-xl p-4 text-center">
+              <Zap className="w-6 h-6 mx-auto mb-1" />
+              <p className="text-2xl font-bold">{profile.xp_points}</p>
+              <p className="text-xs opacity-80">Level {profile.level_number}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {sections.map(section => (
+        <div key={section.type}>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">{section.title}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {badges.filter(b => b.badge_type === section.type).map(badge => {
+              const earnedAt = earned[badge.id]
+              const conditions = progress.filter(p => p.badge_id === badge.id)
+
+              return (
+                <div
+                  key={badge.id}
+                  className={`rounded-2xl p-6 border ${
+                    earnedAt
+                      ? 'bg-white/70 backdrop-blur-lg border-yellow-200'
+                      : 'bg-white/40 border-white/20'
+                  }`}
+                >
+                  <div className="flex items-start space-x-3 mb-3">
+                    <span className={`text-4xl ${earnedAt ? '' : 'grayscale opacity-50'}`}>{badge.icon}</span>
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900">{badge.name.replace(badge.icon, '').trim()}</h3>
+                      <p className="text-sm text-gray-600">{badge.description}</p>
+                    </div>
+                    {!earnedAt && <Lock className="w-4 h-4 text-gray-400" />}
+                  </div>
+
+                  {earnedAt ? (
+                    <p className="text-sm text-yellow-700 flex items-center space-x-1">
+                      <Award className="w-4 h-4" />
+                      <span>Earned {new Date(earnedAt).toLocaleDateString()}</span>
+                    </p>
+                  ) : conditions.length > 0 ? (
+                    <div className="space-y-2">
+                      {conditions.map(condition => (
+                        <div key={condition.metric}>
+                          <p className="text-xs text-gray-600 mb-1">
+                            {formatBadgeProgress(condition.metric, condition.current_value, condition.target_value)}
+                          </p>
+                          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+                              style={{ width: `${Math.min(100, (condition.current_value / condition.target_value) * 100)}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">{badge.criteria}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+
+      {/* XP History */}
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4 flex items-center">
+          <Zap className="w-6 h-6 mr-2 text-purple-500" />
+          XP History
+        </h2>
+        {xpHistory.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {xpHistory.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900">{entry.description || xpSourceLabels[entry.source]}</p>
+                  <p className="text-xs text-gray-500">
+                    {xpSourceLabels[entry.source]} • {new Date(entry.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className={`font-semibold ${entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {entry.amount >= 0 ? '+' : ''}{entry.amount} XP
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-6">Enroll in a course to earn your first XP</p>
+        )}
+      </div>
+    </div>
+  )
+}
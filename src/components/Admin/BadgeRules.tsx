@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react'
+import { Award, Eye, Play } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import type { Database } from '../../lib/supabase'
+import { describeBadgeRule } from '../../lib/badges'
+
+type Badge = Database['public']['Tables']['badges']['Row']
+
+interface BadgePreview {
+  user_id: string
+  full_name: string
+  badge_id: string
+  badge_name: string
+  already_earned: boolean
+}
+
+export function BadgeRules() {
+  const [badges, setBadges] = useState<Badge[]>([])
+  const [preview, setPreview] = useState<BadgePreview[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+
+  useEffect(() => {
+    fetchBadges()
+  }, [])
+
+  const fetchBadges = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('badges')
+        .select('*')
+        .order('badge_type')
+        .order('name')
+
+      if (error) throw error
+      setBadges(data || [])
+    } catch (error) {
+      console.error('Error fetching badges:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    setRunning(true)
+    try {
+      const { data, error } = await supabase.rpc('preview_badge_awards')
+      if (error) throw error
+      setPreview(data || [])
+    } catch (error) {
+      console.error('Error previewing badge awards:', error)
+      alert('Error running the dry run. Please try again.')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleAwardAll = async () => {
+    if (!confirm('Award every badge that users currently qualify for?')) return
+
+    setRunning(true)
+    try {
+      const { data, error } = await supabase.rpc('award_all_badges')
+      if (error) throw error
+      alert(`Awarded ${data} new badge${data === 1 ? '' : 's'}.`)
+      setPreview(null)
+    } catch (error) {
+      console.error('Error awarding badges:', error)
+      alert('Error awarding badges. Please try again.')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const qualifiersFor = (badgeId: string) => preview?.filter(p => p.badge_id === badgeId) || []
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Badge Rules</h1>
+          <p className="text-gray-600">Badges are awarded automatically when these rules are met</p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handlePreview}
+            disabled={running}
+            className="flex items-center space-x-2 px-4 py-2 border border-purple-300 text-purple-700 rounded-xl hover:bg-purple-50 transition-colors disabled:opacity-50"
+          >
+            <Eye className="w-4 h-4" />
+            <span>Dry Run</span>
+          </button>
+          <button
+            onClick={handleAwardAll}
+            disabled={running}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            <span>Award Now</span>
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-32 animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {badges.map(badge => {
+            const qualifiers = qualifiersFor(badge.id)
+            const newAwards = qualifiers.filter(q => !q.already_earned)
+
+            return (
+              <div key={badge.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+                <div className="flex items-start space-x-3">
+                  <span className="text-3xl">{badge.icon}</span>
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold text-gray-900">{badge.name}</h3>
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs capitalize">
+                        {badge.badge_type}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600">{badge.description}</p>
+                    <p className="text-sm text-purple-700 mt-2">Rule: {describeBadgeRule(badge.rule)}</p>
+                  </div>
+                </div>
+
+                {preview && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 text-sm">
+                    <p className="text-gray-700 mb-2">
+                      {qualifiers.length} qualify • {newAwards.length} would be newly awarded
+                    </p>
+                    {newAwards.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {newAwards.map(q => (
+                          <span key={q.user_id} className="px-2 py-1 bg-green-50 text-green-700 rounded-full text-xs">
+                            {q.full_name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          {badges.length === 0 && (
+            <div className="md:col-span-2 text-center py-12">
+              <Award className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No badges defined yet.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
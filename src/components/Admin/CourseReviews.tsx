@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { CheckCircle, ClipboardCheck, Clock, Eye, User, XCircle } from 'lucide-react'
+import { paths } from '../../lib/routes'
+import {
+  getCourseSettings,
+  listCoursesInReview,
+  setCourseStatus,
+  updateCourseSettings,
+  type CourseForReview
+} from '../../lib/repositories/courses'
+
+export function CourseReviews() {
+  const [courses, setCourses] = useState<CourseForReview[]>([])
+  const [requireApproval, setRequireApproval] = useState(false)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [savingSettings, setSavingSettings] = useState(false)
+
+  useEffect(() => {
+    fetchCourses()
+  }, [])
+
+  const fetchCourses = async () => {
+    try {
+      setLoading(true)
+
+      const [coursesData, settings] = await Promise.all([
+        listCoursesInReview(),
+        getCourseSettings()
+      ])
+
+      setCourses(coursesData)
+      setRequireApproval(!!settings?.require_approval)
+    } catch (error) {
+      console.error('Error fetching courses in review:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleApproval = async (enabled: boolean) => {
+    setSavingSettings(true)
+    try {
+      await updateCourseSettings({ require_approval: enabled })
+      setRequireApproval(enabled)
+    } catch (error) {
+      console.error('Error updating course settings:', error)
+      alert('Error saving the setting. Please try again.')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const handleDecision = async (course: CourseForReview, approved: boolean) => {
+    const verb = approved ? 'Publish' : 'Return'
+    if (!confirm(`${verb} "${course.title}"${approved ? '' : ' to its mentor as a draft'}?`)) return
+
+    setSavingId(course.id)
+    try {
+      // The status trigger stamps the reviewer and notifies the mentor
+      await setCourseStatus(course.id, approved ? 'published' : 'draft', notes[course.id] || '')
+      fetchCourses()
+    } catch (error) {
+      console.error('Error reviewing course:', error)
+      alert((error as { message?: string }).message || 'Error saving the decision. Please try again.')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Course Reviews</h1>
+        <p className="text-gray-600">Check new courses before they reach the catalog</p>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+        <label className="flex items-start space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={requireApproval}
+            disabled={loading || savingSettings}
+            onChange={(e) => toggleApproval(e.target.checked)}
+            className="mt-1 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+          />
+          <div>
+            <p className="font-medium text-gray-900">Require approval before publishing</p>
+            <p className="text-sm text-gray-600">
+              When on, publishing sends a course here instead of straight to the catalog.
+              Courses already published stay live.
+            </p>
+          </div>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-48 animate-pulse" />
+          ))}
+        </div>
+      ) : courses.length > 0 ? (
+        <div className="space-y-4">
+          {courses.map(course => (
+            <div key={course.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{course.title}</h3>
+                  <p className="text-sm text-gray-600">
+                    {course.domain} • {course.price === 0 ? 'Free' : `₹${course.price}`} • {course.duration_hours} hours
+                    {course.max_students ? ` • ${course.max_students} seats` : ''}
+                  </p>
+                </div>
+                <Link
+                  to={paths.course(course.id)}
+                  className="flex items-center space-x-1 px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-xl text-sm font-medium"
+                >
+                  <Eye className="w-4 h-4" />
+                  <span>Preview</span>
+                </Link>
+              </div>
+
+              <p className="text-gray-700 whitespace-pre-wrap line-clamp-4 mb-4">{course.description}</p>
+
+              <div className="flex items-center justify-between mb-4">
+                <Link to={paths.userProfile(course.mentor.id)} className="flex items-center space-x-3 group">
+                  <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl flex items-center justify-center">
+                    {course.mentor.profile_picture ? (
+                      <img
+                        src={course.mentor.profile_picture}
+                        alt={course.mentor.full_name}
+                        className="w-10 h-10 rounded-xl object-cover"
+                      />
+                    ) : (
+                      <User className="w-5 h-5 text-white" />
+                    )}
+                  </div>
+                  <p className="font-medium text-gray-900 group-hover:text-purple-600">
+                    {course.mentor.full_name}
+                    {course.mentor.is_verified && <span className="ml-1 text-blue-500">✓</span>}
+                  </p>
+                </Link>
+                {course.submitted_at && (
+                  <p className="flex items-center space-x-1 text-sm text-gray-500">
+                    <Clock className="w-4 h-4" />
+                    <span>Submitted {new Date(course.submitted_at).toLocaleDateString()}</span>
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-3 border-t border-gray-200 pt-4">
+                <textarea
+                  rows={2}
+                  placeholder="Notes for the mentor (required when returning a course)"
+                  value={notes[course.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [course.id]: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => handleDecision(course, true)}
+                    disabled={savingId === course.id}
+                    className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-colors disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                    <span>Approve & Publish</span>
+                  </button>
+                  <button
+                    onClick={() => handleDecision(course, false)}
+                    disabled={savingId === course.id || !notes[course.id]?.trim()}
+                    className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-600 rounded-xl hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>Request Changes</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <ClipboardCheck className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No courses waiting for review</h3>
+          <p className="text-gray-600">Courses submitted by mentors will show up here.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  CheckCircle,
+  Crown,
+  ExternalLink,
+  Github,
+  Globe,
+  User,
+  XCircle
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { paths } from '../../lib/routes'
+import { listProjectsById, type Project } from '../../lib/repositories/profiles'
+
+type RequestStatus = 'pending' | 'approved' | 'rejected'
+
+interface MentorRequestEntry {
+  id: string
+  student_id: string
+  request_message?: string
+  status: RequestStatus
+  links: string[]
+  project_ids: string[]
+  review_notes?: string
+  reviewed_at?: string
+  created_at: string
+  applicant?: {
+    id: string
+    full_name: string
+    email: string
+    department: string
+    year_of_study: number
+    xp_points: number
+    profile_picture?: string
+  }
+  reviewer?: {
+    full_name: string
+  }
+}
+
+const statusTabs: { status: RequestStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+]
+
+export function MentorRequests() {
+  const [requests, setRequests] = useState<MentorRequestEntry[]>([])
+  const [projects, setProjects] = useState<Record<string, Project>>({})
+  const [activeStatus, setActiveStatus] = useState<RequestStatus>('pending')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchRequests()
+  }, [activeStatus])
+
+  const fetchRequests = async () => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await supabase
+        .from('mentor_requests')
+        .select(`
+          *,
+          applicant:users!mentor_requests_student_id_fkey (
+            id,
+            full_name,
+            email,
+            department,
+            year_of_study,
+            xp_points,
+            profile_picture
+          ),
+          reviewer:users!mentor_requests_reviewed_by_fkey (
+            full_name
+          )
+        `)
+        .eq('status', activeStatus)
+        .order('created_at', { ascending: activeStatus === 'pending' })
+
+      if (error) throw error
+
+      const projectIds = Array.from(new Set(data?.flatMap(r => r.project_ids || []) || []))
+      if (projectIds.length > 0) {
+        const projectsData = await listProjectsById(projectIds)
+        setProjects(Object.fromEntries(projectsData.map(p => [p.id, p])))
+      }
+
+      setRequests(data || [])
+    } catch (error) {
+      console.error('Error fetching mentor requests:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecision = async (request: MentorRequestEntry, status: 'approved' | 'rejected') => {
+    const verb = status === 'approved' ? 'Approve' : 'Reject'
+    if (!confirm(`${verb} ${request.applicant?.full_name}'s application?`)) return
+
+    setSavingId(request.id)
+    try {
+      // Triggers stamp the reviewer, log the history and promote approved applicants
+      const { error } = await supabase
+        .from('mentor_requests')
+        .update({
+          status,
+          review_notes: notes[request.id] || null
+        })
+        .eq('id', request.id)
+        .eq('status', 'pending')
+
+      if (error) throw error
+      fetchRequests()
+    } catch (error) {
+      console.error('Error reviewing mentor request:', error)
+      alert('Error saving the decision. Please try again.')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Mentor Requests</h1>
+        <p className="text-gray-600">Review students who want to mentor on PeerLearn</p>
+      </div>
+
+      <div className="flex justify-center gap-2">
+        {statusTabs.map(tab => (
+          <button
+            key={tab.status}
+            onClick={() => setActiveStatus(tab.status)}
+            className={`px-4 py-2 rounded-xl font-medium transition-colors ${
+              activeStatus === tab.status
+                ? 'bg-purple-500 text-white'
+                : 'bg-white/70 text-gray-700 hover:bg-white'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-48 animate-pulse" />
+          ))}
+        </div>
+      ) : requests.length > 0 ? (
+        <div className="space-y-4">
+          {requests.map(request => (
+            <div key={request.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className="flex items-start justify-between mb-4">
+                {request.applicant && (
+                  <Link to={paths.userProfile(request.applicant.id)} className="flex items-center space-x-3 group">
+                    <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl flex items-center justify-center">
+                      {request.applicant.profile_picture ? (
+                        <img
+                          src={request.applicant.profile_picture}
+                          alt={request.applicant.full_name}
+                          className="w-12 h-12 rounded-xl object-cover"
+                        />
+                      ) : (
+                        <User className="w-6 h-6 text-white" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="font-semibold text-gray-900 group-hover:text-purple-600">{request.applicant.full_name}</p>
+                      <p className="text-sm text-gray-600">
+                        {request.applicant.department} • Year {request.applicant.year_of_study} • {request.applicant.xp_points} XP
+                      </p>
+                    </div>
+                  </Link>
+                )}
+                <p className="text-sm text-gray-500">{new Date(request.created_at).toLocaleDateString()}</p>
+              </div>
+
+              {request.request_message && (
+                <p className="text-gray-700 whitespace-pre-wrap mb-4">{request.request_message}</p>
+              )}
+
+              {request.links?.length > 0 && (
+                <div className="flex flex-wrap gap-3 mb-4">
+                  {request.links.map(link => (
+                    <a
+                      key={link}
+                      href={link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center space-x-1 px-3 py-1 bg-purple-50 text-purple-700 rounded-full text-sm hover:bg-purple-100"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      <span className="truncate max-w-xs">{link}</span>
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {request.project_ids?.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                  {request.project_ids.map(id => projects[id]).filter(Boolean).map(project => (
+                    <div key={project.id} className="p-4 bg-gray-50 rounded-xl">
+                      <p className="font-medium text-gray-900">{project.title}</p>
+                      {project.description && <p className="text-sm text-gray-600 line-clamp-2">{project.description}</p>}
+                      <div className="flex space-x-3 mt-2">
+                        {project.project_url && (
+                          <a href={project.project_url} target="_blank" rel="noopener noreferrer" className="flex items-center space-x-1 text-purple-600 text-sm">
+                            <Globe className="w-4 h-4" />
+                            <span>Live</span>
+                          </a>
+                        )}
+                        {project.github_url && (
+                          <a href={project.github_url} target="_blank" rel="noopener noreferrer" className="flex items-center space-x-1 text-gray-600 text-sm">
+                            <Github className="w-4 h-4" />
+                            <span>Code</span>
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {request.status === 'pending' ? (
+                <div className="space-y-3 border-t border-gray-200 pt-4">
+                  <textarea
+                    rows={2}
+                    placeholder="Notes for the applicant (optional)"
+                    value={notes[request.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={() => handleDecision(request, 'approved')}
+                      disabled={savingId === request.id}
+                      className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-colors disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => handleDecision(request, 'rejected')}
+                      disabled={savingId === request.id}
+                      className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-600 rounded-xl hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      <span>Reject</span>
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="border-t border-gray-200 pt-4 text-sm text-gray-600">
+                  <p>
+                    {request.status === 'approved' ? 'Approved' : 'Rejected'} by {request.reviewer?.full_name || 'an admin'}
+                    {request.reviewed_at && ` on ${new Date(request.reviewed_at).toLocaleDateString()}`}
+                  </p>
+                  {request.review_notes && <p className="mt-1 text-gray-700">{request.review_notes}</p>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Crown className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No {activeStatus} requests</h3>
+          <p className="text-gray-600">New applications will show up here.</p>
+        </div>
+      )}
+    </div>
+  )
+}
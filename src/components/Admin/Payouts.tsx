@@ -0,0 +1,230 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { CheckCircle, User, Wallet, XCircle } from 'lucide-react'
+import { supabase, type Database, type PayoutStatus } from '../../lib/supabase'
+import { paths } from '../../lib/routes'
+import { StatementDownload } from '../Mentor/StatementDownload'
+
+type Payout = Database['public']['Tables']['payouts']['Row']
+
+interface PayoutEntry extends Payout {
+  mentor?: {
+    id: string
+    full_name: string
+    email: string
+    profile_picture?: string
+  }
+  reviewer?: {
+    full_name: string
+  }
+}
+
+const statusTabs: { status: PayoutStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+]
+
+export function Payouts() {
+  const [payouts, setPayouts] = useState<PayoutEntry[]>([])
+  const [available, setAvailable] = useState<Record<string, number>>({})
+  const [activeStatus, setActiveStatus] = useState<PayoutStatus>('pending')
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPayouts()
+  }, [activeStatus])
+
+  const fetchPayouts = async () => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await supabase
+        .from('payouts')
+        .select(`
+          *,
+          mentor:users!payouts_mentor_id_fkey (
+            id,
+            full_name,
+            email,
+            profile_picture
+          ),
+          reviewer:users!payouts_reviewed_by_fkey (
+            full_name
+          )
+        `)
+        .eq('status', activeStatus)
+        .order('created_at', { ascending: activeStatus === 'pending' })
+
+      if (error) throw error
+
+      // Pending requests are already held back from the available balance
+      if (activeStatus === 'pending') {
+        const mentorIds = Array.from(new Set(data?.map(p => p.mentor_id) || []))
+        const balances = await Promise.all(
+          mentorIds.map(id => supabase.rpc('payout_balance', { p_mentor_id: id }))
+        )
+        setAvailable(Object.fromEntries(
+          mentorIds.map((id, i) => [id, Number(balances[i].data?.[0]?.available ?? 0)])
+        ))
+      }
+
+      setPayouts(data || [])
+    } catch (error) {
+      console.error('Error fetching payouts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecision = async (payout: PayoutEntry, status: 'approved' | 'rejected') => {
+    const verb = status === 'approved' ? 'Approve' : 'Reject'
+    if (!confirm(`${verb} the ₹${payout.amount} payout to ${payout.mentor?.full_name}?`)) return
+
+    setSavingId(payout.id)
+    try {
+      // The review trigger stamps the reviewer and locks the other fields
+      const { error } = await supabase
+        .from('payouts')
+        .update({
+          status,
+          review_notes: notes[payout.id] || null
+        })
+        .eq('id', payout.id)
+        .eq('status', 'pending')
+
+      if (error) throw error
+      fetchPayouts()
+    } catch (error) {
+      console.error('Error reviewing payout:', error)
+      alert('Error saving the decision. Please try again.')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Payouts</h1>
+        <p className="text-gray-600">Review mentors' withdrawal requests</p>
+      </div>
+
+      <div className="flex justify-center gap-2">
+        {statusTabs.map(tab => (
+          <button
+            key={tab.status}
+            onClick={() => setActiveStatus(tab.status)}
+            className={`px-4 py-2 rounded-xl font-medium transition-colors ${
+              activeStatus === tab.status
+                ? 'bg-purple-500 text-white'
+                : 'bg-white/70 text-gray-700 hover:bg-white'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-40 animate-pulse" />
+          ))}
+        </div>
+      ) : payouts.length > 0 ? (
+        <div className="space-y-4">
+          {payouts.map(payout => (
+            <div key={payout.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-4">
+                {payout.mentor && (
+                  <Link to={paths.userProfile(payout.mentor.id)} className="flex items-center space-x-3 group">
+                    <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl flex items-center justify-center">
+                      {payout.mentor.profile_picture ? (
+                        <img
+                          src={payout.mentor.profile_picture}
+                          alt={payout.mentor.full_name}
+                          className="w-12 h-12 rounded-xl object-cover"
+                        />
+                      ) : (
+                        <User className="w-6 h-6 text-white" />
+                      )}
+                    </div>
+                    <div>
+                      <p className="font-semibold text-gray-900 group-hover:text-purple-600">{payout.mentor.full_name}</p>
+                      <p className="text-sm text-gray-600">{payout.mentor.email}</p>
+                    </div>
+                  </Link>
+                )}
+
+                <div className="text-right">
+                  <p className="text-2xl font-bold text-gray-900">₹{payout.amount}</p>
+                  <p className="text-xs text-gray-500">Requested {new Date(payout.created_at).toLocaleDateString()}</p>
+                  {activeStatus === 'pending' && available[payout.mentor_id] !== undefined && (
+                    <p className="text-xs text-gray-500">₹{available[payout.mentor_id].toFixed(2)} still available</p>
+                  )}
+                </div>
+              </div>
+
+              {payout.payout_details && (
+                <div className="mb-4 p-3 bg-gray-50 rounded-xl text-sm text-gray-700 whitespace-pre-wrap">
+                  {payout.payout_details}
+                </div>
+              )}
+
+              <div className="mb-4">
+                <StatementDownload mentorId={payout.mentor_id} defaultMonth={payout.created_at.slice(0, 7)} />
+              </div>
+
+              {payout.status === 'pending' ? (
+                <div className="border-t border-gray-200 pt-4 space-y-3">
+                  <textarea
+                    value={notes[payout.id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [payout.id]: e.target.value })}
+                    placeholder="Notes for the mentor, e.g. transfer reference (optional)"
+                    rows={2}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      onClick={() => handleDecision(payout, 'rejected')}
+                      disabled={savingId === payout.id}
+                      className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-600 rounded-xl hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      <span>Reject</span>
+                    </button>
+                    <button
+                      onClick={() => handleDecision(payout, 'approved')}
+                      disabled={savingId === payout.id}
+                      className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-colors disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      <span>Approve</span>
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="border-t border-gray-200 pt-4 text-sm text-gray-600">
+                  <p>
+                    {payout.status === 'approved' ? 'Approved' : 'Rejected'} by {payout.reviewer?.full_name || 'an admin'}
+                    {payout.reviewed_at && ` on ${new Date(payout.reviewed_at).toLocaleDateString()}`}
+                  </p>
+                  {payout.review_notes && <p className="mt-1 text-gray-700">{payout.review_notes}</p>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Wallet className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No {activeStatus} payouts</h3>
+          <p className="text-gray-600">Payout requests from mentors will show up here.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, Download, FileImage, Link2, ShieldCheck } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { routes } from '../../lib/routes'
+import { downloadFile } from '../../lib/download'
+import {
+  certificatePdf,
+  certificatePng,
+  renderCertificate,
+  verificationUrl,
+  type CertificateRecord
+} from '../../lib/certificates'
+import { NotFound } from '../Layout/NotFound'
+
+export function CertificateView() {
+  const { certificateId } = useParams()
+  const [certificate, setCertificate] = useState<CertificateRecord | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [downloading, setDownloading] = useState(false)
+
+  useEffect(() => {
+    if (certificateId) {
+      fetchCertificate(certificateId)
+    }
+  }, [certificateId])
+
+  const fetchCertificate = async (id: string) => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await supabase.rpc('verify_certificate', { p_certificate_id: id })
+      if (error) throw error
+
+      let record: CertificateRecord | null = data?.[0] ?? null
+
+      // Sign on first view so downloads carry an offline-verifiable signature
+      if (record && !record.signature) {
+        const { data: signed, error: signError } = await supabase.functions.invoke('sign-certificate', {
+          body: { certificate_id: record.certificate_id }
+        })
+        if (signError) {
+          console.error('Error signing certificate:', signError)
+        } else if (signed?.signature) {
+          record = { ...record, signature: signed.signature, signed_payload: signed.payload }
+        }
+      }
+
+      setCertificate(record)
+      setPreview(record ? renderCertificate(record).toDataURL('image/png') : null)
+    } catch (error) {
+      console.error('Error fetching certificate:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDownload = async (format: 'pdf' | 'png') => {
+    if (!certificate) return
+
+    setDownloading(true)
+    try {
+      if (format === 'pdf') {
+        downloadFile(`${certificate.certificate_id}.pdf`, await certificatePdf(certificate), 'application/pdf')
+      } else {
+        downloadFile(`${certificate.certificate_id}.png`, await certificatePng(certificate), 'image/png')
+      }
+    } catch (error) {
+      console.error('Error downloading certificate:', error)
+      alert('Error preparing the download. Please try again.')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const copyVerificationLink = async () => {
+    if (!certificate) return
+    await navigator.clipboard.writeText(verificationUrl(certificate.certificate_id))
+    alert('Verification link copied!')
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="bg-gray-200 rounded-2xl h-[32rem] animate-pulse" />
+      </div>
+    )
+  }
+
+  if (!certificate) return <NotFound />
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      <Link
+        to={routes.myCourses}
+        className="inline-flex items-center space-x-2 text-purple-600 hover:text-purple-700 font-medium"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to My Courses</span>
+      </Link>
+
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+        {preview && (
+          <img
+            src={preview}
+            alt={`Certificate ${certificate.certificate_id}`}
+            className="w-full rounded-xl shadow-lg"
+          />
+        )}
+
+        <div className="flex flex-wrap gap-3 mt-6">
+          <button
+            onClick={() => handleDownload('pdf')}
+            disabled={downloading}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-xl hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download PDF</span>
+          </button>
+          <button
+            onClick={() => handleDownload('png')}
+            disabled={downloading}
+            className="flex items-center space-x-2 px-4 py-2 border border-purple-300 text-purple-700 rounded-xl hover:bg-purple-50 transition-colors disabled:opacity-50"
+          >
+            <FileImage className="w-4 h-4" />
+            <span>Download PNG</span>
+          </button>
+          <button
+            onClick={copyVerificationLink}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+          >
+            <Link2 className="w-4 h-4" />
+            <span>Copy Verification Link</span>
+          </button>
+        </div>
+
+        <p className="flex items-center space-x-2 text-sm text-gray-600 mt-4">
+          <ShieldCheck className={`w-4 h-4 ${certificate.signature ? 'text-green-600' : 'text-gray-400'}`} />
+          <span>
+            {certificate.signature
+              ? 'Downloads are digitally signed and can be verified offline.'
+              : 'Anyone can confirm this certificate using its ID on the verification page.'}
+          </span>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { BookOpen, CheckCircle, FileCheck, Search, XCircle } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { paths, routes } from '../../lib/routes'
+import {
+  parseCertificatePayload,
+  readCertificateFile,
+  verifyCertificateSignature,
+  type CertificateRecord
+} from '../../lib/certificates'
+
+type FileCheckResult =
+  | { status: 'valid' | 'invalid'; certificate: CertificateRecord }
+  | { status: 'unsigned' | 'no-key' }
+
+function CertificateDetails({ certificate }: { certificate: CertificateRecord }) {
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 text-sm">
+      <div>
+        <dt className="text-gray-500">Awarded to</dt>
+        <dd className="font-semibold text-gray-900">{certificate.student_name}</dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Course</dt>
+        <dd className="font-semibold text-gray-900">{certificate.course_title}</dd>
+      </div>
+      {certificate.mentor_name && (
+        <div>
+          <dt className="text-gray-500">Mentor</dt>
+          <dd className="font-semibold text-gray-900">{certificate.mentor_name}</dd>
+        </div>
+      )}
+      <div>
+        <dt className="text-gray-500">Issued</dt>
+        <dd className="font-semibold text-gray-900">
+          {new Date(certificate.issued_at).toLocaleDateString(undefined, { dateStyle: 'long' })}
+        </dd>
+      </div>
+      <div>
+        <dt className="text-gray-500">Certificate ID</dt>
+        <dd className="font-mono font-semibold text-gray-900">{certificate.certificate_id}</dd>
+      </div>
+    </dl>
+  )
+}
+
+export function VerifyCertificate() {
+  const { certificateId } = useParams()
+  const navigate = useNavigate()
+  const [query, setQuery] = useState(certificateId || '')
+  const [result, setResult] = useState<CertificateRecord | null>(null)
+  const [looking, setLooking] = useState(false)
+  const [fileResult, setFileResult] = useState<FileCheckResult | null>(null)
+
+  useEffect(() => {
+    if (certificateId) {
+      setQuery(certificateId)
+      lookup(certificateId)
+    }
+  }, [certificateId])
+
+  const lookup = async (id: string) => {
+    setLooking(true)
+    try {
+      const { data, error } = await supabase.rpc('verify_certificate', { p_certificate_id: id })
+      if (error) throw error
+      setResult(data?.[0] ?? null)
+    } catch (error) {
+      console.error('Error verifying certificate:', error)
+      setResult(null)
+    } finally {
+      setLooking(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (query.trim()) navigate(paths.verifyCertificate(query.trim().toUpperCase()))
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const signed = await readCertificateFile(file)
+    if (!signed) {
+      setFileResult({ status: 'unsigned' })
+      return
+    }
+
+    const valid = await verifyCertificateSignature(signed)
+    if (valid === null) {
+      setFileResult({ status: 'no-key' })
+      return
+    }
+
+    setFileResult({
+      status: valid ? 'valid' : 'invalid',
+      certificate: parseCertificatePayload(signed.payload)
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-100 via-blue-50 to-indigo-100 p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Link to={routes.dashboard} className="flex items-center justify-center space-x-3">
+          <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl flex items-center justify-center">
+            <BookOpen className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+            PeerLearn
+          </h1>
+        </Link>
+
+        <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Verify a Certificate</h2>
+          <p className="text-gray-600 mb-6">Enter the certificate ID printed at the bottom of the certificate.</p>
+
+          <form onSubmit={handleSubmit} className="flex gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="CERT-XXXXXXXX"
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl font-mono focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={looking || !query.trim()}
+              className="px-6 py-3 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+            >
+              {looking ? 'Checking...' : 'Verify'}
+            </button>
+          </form>
+
+          {certificateId && !looking && (
+            result ? (
+              <div className="mt-6 p-6 bg-green-50 border border-green-200 rounded-xl">
+                <p className="flex items-center space-x-2 text-green-800 font-semibold">
+                  <CheckCircle className="w-5 h-5" />
+                  <span>This certificate is genuine</span>
+                </p>
+                <CertificateDetails certificate={result} />
+              </div>
+            ) : (
+              <div className="mt-6 p-6 bg-red-50 border border-red-200 rounded-xl">
+                <p className="flex items-center space-x-2 text-red-800 font-semibold">
+                  <XCircle className="w-5 h-5" />
+                  <span>No certificate found with ID {certificateId}</span>
+                </p>
+              </div>
+            )
+          )}
+        </div>
+
+        <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
+          <h2 className="text-xl font-bold text-gray-900 mb-2 flex items-center">
+            <FileCheck className="w-5 h-5 mr-2 text-purple-500" />
+            Check a downloaded file
+          </h2>
+          <p className="text-gray-600 mb-4">
+            Signed PDF and PNG certificates can be checked in your browser without contacting our servers.
+          </p>
+          <input
+            type="file"
+            accept="application/pdf,image/png"
+            onChange={handleFile}
+            className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100"
+          />
+
+          {fileResult?.status === 'valid' && (
+            <div className="mt-6 p-6 bg-green-50 border border-green-200 rounded-xl">
+              <p className="flex items-center space-x-2 text-green-800 font-semibold">
+                <CheckCircle className="w-5 h-5" />
+                <span>Signature is valid and the details have not been altered</span>
+              </p>
+              <CertificateDetails certificate={fileResult.certificate} />
+            </div>
+          )}
+          {fileResult?.status === 'invalid' && (
+            <div className="mt-6 p-6 bg-red-50 border border-red-200 rounded-xl">
+              <p className="flex items-center space-x-2 text-red-800 font-semibold">
+                <XCircle className="w-5 h-5" />
+                <span>Signature does not match. This file may have been modified.</span>
+              </p>
+            </div>
+          )}
+          {fileResult?.status === 'unsigned' && (
+            <p className="mt-4 text-sm text-gray-600">
+              This file has no signature. Look up its certificate ID above instead.
+            </p>
+          )}
+          {fileResult?.status === 'no-key' && (
+            <p className="mt-4 text-sm text-gray-600">
+              Offline verification is not available on this site. Look up the certificate ID above instead.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
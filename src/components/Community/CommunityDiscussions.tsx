@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { CheckCircle, MessageSquare, Pin, Plus } from 'lucide-react'
+import { supabase, type Database } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths } from '../../lib/routes'
+import { listCommunityMembers, type CommunityRole } from '../../lib/repositories/communities'
+import { DiscussionThread } from './DiscussionThread'
+import { PostComposer, type CommunityMember } from './PostComposer'
+
+type Post = Database['public']['Tables']['community_posts']['Row']
+
+type ThreadSummary = Post & {
+  author?: { full_name: string }
+  reply_count: number
+}
+
+interface CommunityDiscussionsProps {
+  communityId: string
+  // Undefined when the viewer hasn't joined the community
+  memberRole?: CommunityRole
+  threadId?: string
+}
+
+export function CommunityDiscussions({ communityId, memberRole, threadId }: CommunityDiscussionsProps) {
+  const { profile } = useAuthContext()
+  const navigate = useNavigate()
+  const [threads, setThreads] = useState<ThreadSummary[]>([])
+  const [members, setMembers] = useState<CommunityMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [title, setTitle] = useState('')
+  const [body, setBody] = useState('')
+  const [posting, setPosting] = useState(false)
+
+  useEffect(() => {
+    if (memberRole) {
+      fetchMembers()
+    }
+  }, [communityId, memberRole])
+
+  useEffect(() => {
+    if (memberRole && !threadId) {
+      fetchThreads()
+    }
+  }, [communityId, memberRole, threadId])
+
+  const fetchMembers = async () => {
+    try {
+      setMembers(await listCommunityMembers(communityId))
+    } catch (error) {
+      console.error('Error fetching community members:', error)
+    }
+  }
+
+  const fetchThreads = async () => {
+    try {
+      setLoading(true)
+
+      const [threadsRes, repliesRes] = await Promise.all([
+        supabase
+          .from('community_posts')
+          .select('*, author:users!community_posts_author_id_fkey (full_name)')
+          .eq('community_id', communityId)
+          .is('parent_id', null)
+          .order('is_pinned', { ascending: false })
+          .order('last_activity_at', { ascending: false }),
+        supabase
+          .from('community_posts')
+          .select('thread_id')
+          .eq('community_id', communityId)
+          .not('parent_id', 'is', null)
+      ])
+
+      if (threadsRes.error) throw threadsRes.error
+
+      const replyCounts = repliesRes.data?.reduce((acc, reply) => {
+        acc[reply.thread_id] = (acc[reply.thread_id] || 0) + 1
+        return acc
+      }, {} as Record<string, number>) || {}
+
+      setThreads((threadsRes.data || []).map(thread => ({
+        ...thread,
+        reply_count: replyCounts[thread.id] || 0
+      })))
+    } catch (error) {
+      console.error('Error fetching discussions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreateThread = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile || !title.trim() || !body.trim()) return
+
+    setPosting(true)
+    try {
+      const { data, error } = await supabase
+        .from('community_posts')
+        .insert({
+          community_id: communityId,
+          author_id: profile.id,
+          title: title.trim(),
+          body: body.trim()
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      setTitle('')
+      setBody('')
+      setShowForm(false)
+      navigate(paths.communityThread(communityId, data.id))
+    } catch (error) {
+      console.error('Error creating thread:', error)
+      alert('Error posting your question. Please try again.')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  if (!memberRole) {
+    return (
+      <div className="text-center py-12">
+        <MessageSquare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Members only</h3>
+        <p className="text-gray-600">Join this community to read and start discussions.</p>
+      </div>
+    )
+  }
+
+  if (threadId) {
+    return (
+      <DiscussionThread
+        communityId={communityId}
+        threadId={threadId}
+        isCommunityAdmin={memberRole === 'admin'}
+        members={members}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Discussion</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreateThread} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 space-y-4">
+          <input
+            type="text"
+            placeholder="What's your question or topic?"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            required
+          />
+          <PostComposer
+            value={body}
+            onChange={setBody}
+            members={members}
+            placeholder="Add details, code or @mention someone who can help"
+            rows={6}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={posting || !title.trim() || !body.trim()}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+            >
+              {posting ? 'Posting...' : 'Post'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-20 animate-pulse" />
+          ))}
+        </div>
+      ) : threads.length > 0 ? (
+        <div className="space-y-3">
+          {threads.map(thread => (
+            <Link
+              key={thread.id}
+              to={paths.communityThread(communityId, thread.id)}
+              className="block bg-white/70 backdrop-blur-lg rounded-2xl p-4 border border-white/20 hover:shadow-lg transition-all"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="font-semibold text-gray-900 flex items-center">
+                    {thread.is_pinned && <Pin className="w-4 h-4 mr-1 text-purple-500" />}
+                    {thread.title}
+                  </h3>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {thread.author?.full_name} · last activity {new Date(thread.last_activity_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 text-sm flex-shrink-0">
+                  {thread.answer_post_id && (
+                    <span className="flex items-center space-x-1 px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">
+                      <CheckCircle className="w-3 h-3" />
+                      <span>Answered</span>
+                    </span>
+                  )}
+                  <span className="flex items-center space-x-1 text-gray-500">
+                    <MessageSquare className="w-4 h-4" />
+                    <span>{thread.reply_count}</span>
+                  </span>
+                </div>
+              </div>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <MessageSquare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No discussions yet</h3>
+          <p className="text-gray-600">Ask a question and the seniors in this community can help.</p>
+        </div>
+      )}
+    </div>
+  )
+}
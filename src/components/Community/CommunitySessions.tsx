@@ -0,0 +1,522 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Calendar,
+  CheckCircle,
+  Clock,
+  Film,
+  Play,
+  Plus,
+  UserCheck,
+  Users,
+  Video,
+  XCircle
+} from 'lucide-react'
+import { supabase, type Database, type RsvpStatus } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { addCommunityResource, type CommunityRole } from '../../lib/repositories/communities'
+import {
+  formatSessionTime,
+  isCheckInOpen,
+  isJoinable,
+  sessionEnd,
+  type CommunitySession
+} from '../../lib/sessions'
+import { AttendancePanel } from '../Sessions/AttendancePanel'
+import { CheckInLink } from '../Sessions/CheckInLink'
+
+type Rsvp = Database['public']['Tables']['community_session_rsvps']['Row']
+
+type SessionWithDetails = CommunitySession & {
+  host?: { full_name: string }
+  recording?: { title: string; resource_url: string }
+}
+
+interface CommunitySessionsProps {
+  communityId: string
+  // Undefined when the viewer hasn't joined the community
+  memberRole?: CommunityRole
+  onResourceAdded: () => void
+}
+
+const rsvpLabels: Record<RsvpStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  declined: "Can't go",
+}
+
+const emptyForm = {
+  title: '',
+  description: '',
+  start: '',
+  duration: 60,
+  meet_link: '',
+  capacity: '',
+}
+
+export function CommunitySessions({ communityId, memberRole, onResourceAdded }: CommunitySessionsProps) {
+  const { profile } = useAuthContext()
+  const [sessions, setSessions] = useState<SessionWithDetails[]>([])
+  const [rsvps, setRsvps] = useState<Rsvp[]>([])
+  const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<'upcoming' | 'past'>('upcoming')
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [attendanceId, setAttendanceId] = useState<string | null>(null)
+
+  const canHost = memberRole === 'senior' || memberRole === 'admin'
+
+  useEffect(() => {
+    if (memberRole) {
+      fetchSessions()
+    } else {
+      setLoading(false)
+    }
+  }, [communityId, memberRole])
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('community_sessions')
+        .select(`
+          *,
+          host:users!community_sessions_host_id_fkey (full_name),
+          recording:community_resources (title, resource_url)
+        `)
+        .eq('community_id', communityId)
+        .order('session_date', { ascending: true })
+
+      if (error) throw error
+
+      const sessionIds = data?.map(s => s.id) || []
+      const { data: rsvpData, error: rsvpError } = sessionIds.length > 0
+        ? await supabase
+          .from('community_session_rsvps')
+          .select('*')
+          .in('session_id', sessionIds)
+        : { data: [], error: null }
+
+      if (rsvpError) throw rsvpError
+
+      setSessions(data || [])
+      setRsvps(rsvpData || [])
+    } catch (error) {
+      console.error('Error fetching community sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile || !form.title.trim() || !form.start) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('community_sessions')
+        .insert({
+          community_id: communityId,
+          host_id: profile.id,
+          title: form.title.trim(),
+          description: form.description.trim() || null,
+          session_date: new Date(form.start).toISOString(),
+          duration_minutes: form.duration,
+          meet_link: form.meet_link.trim() || null,
+          capacity: form.capacity ? parseInt(form.capacity) : null
+        })
+
+      if (error) throw error
+
+      setForm(emptyForm)
+      setShowForm(false)
+      setView('upcoming')
+      fetchSessions()
+    } catch (error) {
+      console.error('Error scheduling community session:', error)
+      alert('Error scheduling the session. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRsvp = async (session: SessionWithDetails, status: RsvpStatus) => {
+    if (!profile) return
+
+    try {
+      const { error } = await supabase
+        .from('community_session_rsvps')
+        .upsert(
+          { session_id: session.id, user_id: profile.id, status },
+          { onConflict: 'session_id,user_id' }
+        )
+
+      if (error) throw error
+      fetchSessions()
+    } catch (error) {
+      console.error('Error saving RSVP:', error)
+      alert((error as { message?: string }).message === 'This session is full'
+        ? 'This session is full.'
+        : 'Error saving your RSVP. Please try again.')
+    }
+  }
+
+  const handleCancel = async (session: SessionWithDetails) => {
+    const reason = prompt('Cancel this session?\n\nReason (optional):')
+    if (reason === null) return
+
+    try {
+      const { error } = await supabase
+        .from('community_sessions')
+        .update({
+          cancelled_at: new Date().toISOString(),
+          cancel_reason: reason.trim() || null
+        })
+        .eq('id', session.id)
+
+      if (error) throw error
+      fetchSessions()
+    } catch (error) {
+      console.error('Error cancelling community session:', error)
+      alert('Error cancelling the session. Please try again.')
+    }
+  }
+
+  const handleComplete = async (session: SessionWithDetails) => {
+    try {
+      const { error } = await supabase
+        .from('community_sessions')
+        .update({ is_completed: true })
+        .eq('id', session.id)
+
+      if (error) throw error
+      fetchSessions()
+    } catch (error) {
+      console.error('Error completing community session:', error)
+      alert('Error marking the session completed. Please try again.')
+    }
+  }
+
+  // The recording becomes a regular community resource, linked back from
+  // the session
+  const handleAddRecording = async (session: SessionWithDetails) => {
+    if (!profile) return
+    const url = prompt('Recording URL:')
+    if (!url?.trim()) return
+
+    try {
+      const resource = await addCommunityResource({
+        community_id: communityId,
+        uploaded_by: profile.id,
+        title: `Recording: ${session.title}`,
+        description: `Recording of the session on ${new Date(session.session_date).toLocaleDateString()}`,
+        resource_type: 'video',
+        resource_url: url.trim(),
+        is_featured: false
+      })
+
+      const { error: linkError } = await supabase
+        .from('community_sessions')
+        .update({ recording_resource_id: resource.id })
+        .eq('id', session.id)
+
+      if (linkError) throw linkError
+
+      fetchSessions()
+      onResourceAdded()
+    } catch (error) {
+      console.error('Error adding recording:', error)
+      alert('Error adding the recording. Please try again.')
+    }
+  }
+
+  if (!memberRole) {
+    return (
+      <div className="text-center py-12">
+        <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Members only</h3>
+        <p className="text-gray-600">Join this community to see and RSVP to its sessions.</p>
+      </div>
+    )
+  }
+
+  const now = new Date()
+  const isPast = (session: SessionWithDetails) => session.is_completed || sessionEnd(session) < now
+  const visibleSessions = view === 'upcoming'
+    ? sessions.filter(session => !isPast(session))
+    : sessions.filter(session => isPast(session) && !session.cancelled_at).reverse()
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          {(['upcoming', 'past'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-4 py-2 rounded-xl text-sm font-medium capitalize transition-colors ${
+                view === option ? 'bg-purple-500 text-white' : 'bg-white/70 text-gray-700 hover:bg-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        {canHost && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Schedule Session</span>
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSchedule} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 space-y-3">
+          <input
+            type="text"
+            placeholder="Session title"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            className={inputClass}
+            required
+          />
+          <textarea
+            placeholder="What will you cover?"
+            rows={2}
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className={inputClass}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="datetime-local"
+              value={form.start}
+              onChange={(e) => setForm({ ...form, start: e.target.value })}
+              className={inputClass}
+              required
+            />
+            <input
+              type="number"
+              min="15"
+              step="15"
+              value={form.duration}
+              onChange={(e) => setForm({ ...form, duration: Number(e.target.value) })}
+              title="Duration in minutes"
+              className={inputClass}
+              required
+            />
+            <input
+              type="number"
+              min="1"
+              value={form.capacity}
+              onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+              placeholder="Capacity (optional)"
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="url"
+            placeholder="Meet link (Google Meet, Zoom...)"
+            value={form.meet_link}
+            onChange={(e) => setForm({ ...form, meet_link: e.target.value })}
+            className={inputClass}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Scheduling...' : 'Schedule Session'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-32 animate-pulse" />
+          ))}
+        </div>
+      ) : visibleSessions.length > 0 ? (
+        <div className="space-y-4">
+          {visibleSessions.map(session => {
+            const isHost = session.host_id === profile?.id
+            const sessionRsvps = rsvps.filter(r => r.session_id === session.id)
+            const goingCount = sessionRsvps.filter(r => r.status === 'going').length
+            const maybeCount = sessionRsvps.filter(r => r.status === 'maybe').length
+            const myRsvp = sessionRsvps.find(r => r.user_id === profile?.id)
+            const isFull = session.capacity != null && goingCount >= session.capacity
+            const started = new Date(session.session_date) <= now
+            const past = isPast(session)
+
+            return (
+              <div key={session.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div className={session.cancelled_at ? 'opacity-60' : ''}>
+                    <h3 className={`text-lg font-semibold text-gray-900 ${session.cancelled_at ? 'line-through' : ''}`}>
+                      {session.title}
+                    </h3>
+                    <p className="text-sm text-gray-600 flex items-center space-x-1 mt-1">
+                      <Clock className="w-4 h-4" />
+                      <span>{formatSessionTime(session)}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">Hosted by {session.host?.full_name}</p>
+                    {session.description && <p className="text-sm text-gray-700 mt-2">{session.description}</p>}
+                    {session.cancelled_at && (
+                      <p className="text-xs text-red-600 mt-1">
+                        Cancelled{session.cancel_reason && `: ${session.cancel_reason}`}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col items-start md:items-end gap-2 text-sm">
+                    <span className="flex items-center space-x-1 text-gray-600">
+                      <Users className="w-4 h-4" />
+                      <span>
+                        {goingCount}{session.capacity ? ` / ${session.capacity}` : ''} going
+                        {maybeCount > 0 && ` · ${maybeCount} maybe`}
+                      </span>
+                    </span>
+                    {isFull && !past && !session.cancelled_at && (
+                      <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">Full</span>
+                    )}
+                    {session.is_completed && (
+                      <span className="flex items-center space-x-1 text-green-700">
+                        <CheckCircle className="w-4 h-4" />
+                        <span>Completed</span>
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                {!session.cancelled_at && (
+                  <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-gray-100">
+                    {!past && !isHost && (
+                      <div className="flex space-x-2">
+                        {(Object.keys(rsvpLabels) as RsvpStatus[]).map(status => (
+                          <button
+                            key={status}
+                            onClick={() => handleRsvp(session, status)}
+                            disabled={status === 'going' && isFull && myRsvp?.status !== 'going'}
+                            className={`px-3 py-1 rounded-xl text-sm transition-colors disabled:opacity-50 ${
+                              myRsvp?.status === status
+                                ? 'bg-purple-500 text-white'
+                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {rsvpLabels[status]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {session.meet_link && !past && (isHost || isJoinable(session, now)) && (
+                      <a
+                        href={session.meet_link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+                      >
+                        <Video className="w-4 h-4" />
+                        <span>{isHost ? 'Start' : 'Join'}</span>
+                      </a>
+                    )}
+
+                    {!isHost && <CheckInLink kind="community" session={session} />}
+
+                    {session.recording && (
+                      <a
+                        href={session.recording.resource_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+                      >
+                        <Play className="w-4 h-4" />
+                        <span>Watch recording</span>
+                      </a>
+                    )}
+
+                    {isHost && (
+                      <div className="flex items-center gap-3 md:ml-auto">
+                        {(started || isCheckInOpen(session, now)) && (
+                          <button
+                            onClick={() => setAttendanceId(attendanceId === session.id ? null : session.id)}
+                            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-purple-600"
+                          >
+                            <UserCheck className="w-4 h-4" />
+                            <span>Attendance</span>
+                          </button>
+                        )}
+                        {started && !session.is_completed && (
+                          <button
+                            onClick={() => handleComplete(session)}
+                            className="flex items-center space-x-1 text-green-600 hover:text-green-700 text-sm font-medium"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                            <span>Mark completed</span>
+                          </button>
+                        )}
+                        {past && !session.recording_resource_id && (
+                          <button
+                            onClick={() => handleAddRecording(session)}
+                            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-purple-600"
+                          >
+                            <Film className="w-4 h-4" />
+                            <span>Add recording</span>
+                          </button>
+                        )}
+                        {!started && (
+                          <button
+                            onClick={() => handleCancel(session)}
+                            className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700"
+                          >
+                            <XCircle className="w-4 h-4" />
+                            <span>Cancel</span>
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {attendanceId === session.id && (
+                  <AttendancePanel
+                    kind="community"
+                    sessionId={session.id}
+                    groupId={communityId}
+                    showCode={isCheckInOpen(session, now)}
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {view === 'upcoming' ? 'No upcoming sessions' : 'No past sessions yet'}
+          </h3>
+          <p className="text-gray-600">
+            {canHost ? 'Schedule one to get the community together.' : 'Senior members can schedule sessions here.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { CheckCircle, Edit, MessageSquare, Pin, Trash2, User } from 'lucide-react'
+import { supabase, type Database } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths } from '../../lib/routes'
+import { NotFound } from '../Layout/NotFound'
+import { Markdown } from './Markdown'
+import { PostComposer, type CommunityMember } from './PostComposer'
+
+type Post = Database['public']['Tables']['community_posts']['Row'] & {
+  author?: {
+    full_name: string
+    profile_picture?: string
+  }
+}
+
+interface DiscussionThreadProps {
+  communityId: string
+  threadId: string
+  isCommunityAdmin: boolean
+  members: CommunityMember[]
+}
+
+// Replies deeper than this are shown flat under the last indented level
+const MAX_INDENT_DEPTH = 4
+
+export function DiscussionThread({ communityId, threadId, isCommunityAdmin, members }: DiscussionThreadProps) {
+  const { profile } = useAuthContext()
+  const navigate = useNavigate()
+  const [posts, setPosts] = useState<Post[]>([])
+  const [loading, setLoading] = useState(true)
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchPosts()
+  }, [threadId])
+
+  const fetchPosts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('community_posts')
+        .select('*, author:users!community_posts_author_id_fkey (full_name, profile_picture)')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      setPosts(data || [])
+    } catch (error) {
+      console.error('Error fetching thread:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const root = posts.find(post => post.id === threadId)
+
+  const childrenOf = posts.reduce((acc, post) => {
+    if (post.parent_id) {
+      acc[post.parent_id] = [...(acc[post.parent_id] || []), post]
+    }
+    return acc
+  }, {} as Record<string, Post[]>)
+
+  const startReply = (postId: string) => {
+    setEditing(null)
+    setReplyTo(postId)
+    setDraft('')
+  }
+
+  const startEdit = (post: Post) => {
+    setReplyTo(null)
+    setEditing(post.id)
+    setDraft(post.body)
+  }
+
+  const cancelDraft = () => {
+    setReplyTo(null)
+    setEditing(null)
+    setDraft('')
+  }
+
+  const handleReply = async () => {
+    if (!profile || !replyTo || !draft.trim()) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('community_posts')
+        .insert({
+          community_id: communityId,
+          author_id: profile.id,
+          parent_id: replyTo,
+          body: draft.trim()
+        })
+
+      if (error) throw error
+
+      cancelDraft()
+      fetchPosts()
+    } catch (error) {
+      console.error('Error posting reply:', error)
+      alert('Error posting your reply. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEdit = async () => {
+    if (!editing || !draft.trim()) return
+
+    setSaving(true)
+    try {
+      const { error } = await supabase
+        .from('community_posts')
+        .update({ body: draft.trim() })
+        .eq('id', editing)
+
+      if (error) throw error
+
+      cancelDraft()
+      fetchPosts()
+    } catch (error) {
+      console.error('Error editing post:', error)
+      alert('Error saving your changes. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (post: Post) => {
+    const isRoot = post.id === threadId
+    if (!confirm(isRoot
+      ? 'Delete this discussion and all of its replies?'
+      : 'Delete this reply and any replies to it?')) return
+
+    try {
+      const { error } = await supabase
+        .from('community_posts')
+        .delete()
+        .eq('id', post.id)
+
+      if (error) throw error
+
+      if (isRoot) {
+        navigate(paths.community(communityId))
+      } else {
+        fetchPosts()
+      }
+    } catch (error) {
+      console.error('Error deleting post:', error)
+      alert('Error deleting post. Please try again.')
+    }
+  }
+
+  const updateRoot = async (updates: { is_pinned?: boolean; answer_post_id?: string | null }) => {
+    try {
+      const { error } = await supabase
+        .from('community_posts')
+        .update(updates)
+        .eq('id', threadId)
+
+      if (error) throw error
+      fetchPosts()
+    } catch (error) {
+      console.error('Error updating thread:', error)
+      alert((error as { message?: string }).message || 'Error updating thread. Please try again.')
+    }
+  }
+
+  const renderComposer = (onSubmit: () => void, submitLabel: string) => (
+    <div className="mt-3 space-y-3">
+      <PostComposer value={draft} onChange={setDraft} members={members} placeholder="Write a reply" />
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={cancelDraft}
+          className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onSubmit}
+          disabled={saving || !draft.trim()}
+          className="px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  )
+
+  const renderPost = (post: Post, depth: number) => {
+    const isAuthor = post.author_id === profile?.id
+    const isRoot = post.id === threadId
+    const isAnswer = root?.answer_post_id === post.id
+    const replies = childrenOf[post.id] || []
+
+    return (
+      <div key={post.id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-6 pl-4 border-l-2 border-purple-100' : ''}>
+        <div className={`rounded-2xl p-4 ${
+          isAnswer ? 'bg-green-50 border border-green-200' : isRoot ? '' : 'bg-white/70 border border-white/20'
+        }`}>
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center space-x-2">
+              {post.author?.profile_picture ? (
+                <img src={post.author.profile_picture} alt={post.author.full_name} className="w-8 h-8 rounded-full object-cover" />
+              ) : (
+                <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
+                  <User className="w-4 h-4 text-white" />
+                </div>
+              )}
+              <div>
+                <Link to={paths.userProfile(post.author_id)} className="text-sm font-medium text-gray-900 hover:text-purple-600">
+                  {post.author?.full_name}
+                </Link>
+                <p className="text-xs text-gray-500">
+                  {new Date(post.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                  {post.edited_at && ' · edited'}
+                </p>
+              </div>
+            </div>
+            {isAnswer && (
+              <span className="flex items-center space-x-1 px-2 py-1 bg-green-100 text-green-800 rounded-full text-xs">
+                <CheckCircle className="w-3 h-3" />
+                <span>Answer</span>
+              </span>
+            )}
+          </div>
+
+          {editing === post.id ? (
+            renderComposer(handleEdit, 'Save')
+          ) : (
+            <Markdown text={post.body} />
+          )}
+
+          {editing !== post.id && (
+            <div className="flex items-center flex-wrap gap-3 mt-3 text-xs">
+              <button
+                onClick={() => startReply(post.id)}
+                className="flex items-center space-x-1 text-gray-500 hover:text-purple-600"
+              >
+                <MessageSquare className="w-3 h-3" />
+                <span>Reply</span>
+              </button>
+              {isAuthor && (
+                <button
+                  onClick={() => startEdit(post)}
+                  className="flex items-center space-x-1 text-gray-500 hover:text-purple-600"
+                >
+                  <Edit className="w-3 h-3" />
+                  <span>Edit</span>
+                </button>
+              )}
+              {!isRoot && root?.author_id === profile?.id && (
+                <button
+                  onClick={() => updateRoot({ answer_post_id: isAnswer ? null : post.id })}
+                  className="flex items-center space-x-1 text-gray-500 hover:text-green-600"
+                >
+                  <CheckCircle className="w-3 h-3" />
+                  <span>{isAnswer ? 'Unmark answer' : 'Mark as answer'}</span>
+                </button>
+              )}
+              {(isAuthor || isCommunityAdmin) && (
+                <button
+                  onClick={() => handleDelete(post)}
+                  className="flex items-center space-x-1 text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Delete</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {replyTo === post.id && renderComposer(handleReply, 'Reply')}
+        </div>
+
+        {replies.length > 0 && (
+          <div className="mt-3 space-y-3">
+            {replies.map(reply => renderPost(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (loading) {
+    return <div className="bg-gray-200 rounded-2xl h-48 animate-pulse" />
+  }
+
+  if (!root) {
+    return <NotFound />
+  }
+
+  return (
+    <div className="space-y-4">
+      <Link to={paths.community(communityId)} className="text-purple-600 hover:text-purple-700 font-medium">
+        ← All discussions
+      </Link>
+
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+        <div className="flex items-start justify-between gap-4 mb-2">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center">
+            {root.is_pinned && <Pin className="w-5 h-5 mr-2 text-purple-500" />}
+            {root.title}
+          </h2>
+          {isCommunityAdmin && (
+            <button
+              onClick={() => updateRoot({ is_pinned: !root.is_pinned })}
+              className="flex items-center space-x-1 px-3 py-1 text-sm text-purple-600 hover:bg-purple-50 rounded-lg transition-colors flex-shrink-0"
+            >
+              <Pin className="w-4 h-4" />
+              <span>{root.is_pinned ? 'Unpin' : 'Pin'}</span>
+            </button>
+          )}
+        </div>
+        {renderPost(root, 0)}
+      </div>
+    </div>
+  )
+}
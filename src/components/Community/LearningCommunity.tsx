@@ -12,54 +12,35 @@ import {
   Download,
   ExternalLink
 } from 'lucide-react'
+import { useNavigate, useParams } from 'react-router-dom'
 import { useAuthContext } from '../../contexts/AuthContext'
-import { supabase } from '../../lib/supabase'
-
-interface Community {
-  id: string
-  name: string
-  description: string
-  category: string
-  created_by: string
-  course_id: string
-  is_active: boolean
-  created_at: string
-  creator?: {
-    full_name: string
-    year_of_study: number
-  }
-  course?: {
-    title: string
-    domain: string
-  }
-  member_count?: number
-  is_member?: boolean
-}
-
-interface Resource {
-  id: string
-  title: string
-  description: string
-  resource_type: 'video' | 'document' | 'link' | 'meet_link'
-  resource_url: string
-  is_featured: boolean
-  created_at: string
-  uploader?: {
-    full_name: string
-    year_of_study: number
-  }
-}
+import { useRealtime } from '../../hooks/useRealtime'
+import {
+  addCommunityResource,
+  createCommunity,
+  joinCommunity,
+  listCommunities,
+  listCommunityResources,
+  type Community,
+  type CommunityResource
+} from '../../lib/repositories/communities'
+import { paths, routes } from '../../lib/routes'
+import { NotFound } from '../Layout/NotFound'
+import { CommunitySessions } from './CommunitySessions'
+import { CommunityDiscussions } from './CommunityDiscussions'
 
 export function LearningCommunity() {
   const { profile } = useAuthContext()
+  const { id: communityId, threadId } = useParams()
+  const navigate = useNavigate()
   const [communities, setCommunities] = useState<Community[]>([])
-  const [selectedCommunity, setSelectedCommunity] = useState<Community | null>(null)
-  const [resources, setResources] = useState<Resource[]>([])
+  const [resources, setResources] = useState<CommunityResource[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('')
   const [showCreateCommunity, setShowCreateCommunity] = useState(false)
   const [showAddResource, setShowAddResource] = useState(false)
+  const [activeTab, setActiveTab] = useState<'resources' | 'sessions' | 'discussions'>(threadId ? 'discussions' : 'resources')
 
   const [newCommunity, setNewCommunity] = useState({
     name: '',
@@ -86,66 +67,43 @@ export function LearningCommunity() {
     fetchCommunities()
   }, [profile])
 
+  // The open community comes from the URL so it can be bookmarked and shared
+  const selectedCommunity = communities.find(c => c.id === communityId) ?? null
+
   useEffect(() => {
-    if (selectedCommunity) {
-      fetchResources(selectedCommunity.id)
+    if (communityId) {
+      fetchResources(communityId)
+    }
+  }, [communityId])
+
+  // New resources and joins from other members show up without a reload
+  useRealtime({
+    table: 'community_resources',
+    filter: `community_id=eq.${communityId}`,
+    enabled: !!communityId,
+    onChange: () => communityId && fetchResources(communityId),
+    onReconnect: () => communityId && fetchResources(communityId)
+  })
+
+  useRealtime({
+    table: 'community_members',
+    enabled: !!profile,
+    onChange: () => fetchCommunities(false),
+    onReconnect: () => fetchCommunities(false)
+  })
+
+  // Thread links (e.g. from mentions) open straight into discussions
+  useEffect(() => {
+    if (threadId) {
+      setActiveTab('discussions')
     }
-  }, [selectedCommunity])
+  }, [threadId])
 
-  const fetchCommunities = async () => {
+  const fetchCommunities = async (showLoading = true) => {
     try {
-      setLoading(true)
-      
-      const { data: communitiesData, error } = await supabase
-        .from('learning_communities')
-        .select(`
-          *,
-          users!learning_communities_created_by_fkey (
-            full_name,
-            year_of_study
-          ),
-          courses (
-            title,
-            domain
-          )
-        `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-
-      // Get member counts and check membership
-      if (communitiesData && profile) {
-        const communityIds = communitiesData.map(c => c.id)
-        
-        const [memberCountsRes, membershipsRes] = await Promise.all([
-          supabase
-            .from('community_members')
-            .select('community_id')
-            .in('community_id', communityIds),
-          supabase
-            .from('community_members')
-            .select('community_id')
-            .eq('user_id', profile.id)
-            .in('community_id', communityIds)
-        ])
-
-        const memberCounts = memberCountsRes.data?.reduce((acc, member) => {
-          acc[member.community_id] = (acc[member.community_id] || 0) + 1
-          return acc
-        }, {} as Record<string, number>) || {}
-
-        const userMemberships = new Set(membershipsRes.data?.map(m => m.community_id) || [])
-
-        const enrichedCommunities = communitiesData.map(community => ({
-          ...community,
-          creator: community.users,
-          course: community.courses,
-          member_count: memberCounts[community.id] || 0,
-          is_member: userMemberships.has(community.id)
-        }))
-
-        setCommunities(enrichedCommunities)
+      if (showLoading) setLoading(true)
+      if (profile) {
+        setCommunities(await listCommunities(profile.id))
       }
     } catch (error) {
       console.error('Error fetching communities:', error)
@@ -156,25 +114,7 @@ export function LearningCommunity() {
 
   const fetchResources = async (communityId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('community_resources')
-        .select(`
-          *,
-          users!community_resources_uploaded_by_fkey (
-            full_name,
-            year_of_study
-          )
-        `)
-        .eq('community_id', communityId)
-        .order('is_featured', { ascending: false })
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-
-      setResources(data?.map(resource => ({
-        ...resource,
-        uploader: resource.users
-      })) || [])
+      setResources(await listCommunityResources(communityId))
     } catch (error) {
       console.error('Error fetching resources:', error)
     }
@@ -184,15 +124,7 @@ export function LearningCommunity() {
     if (!profile) return
 
     try {
-      const { error } = await supabase
-        .from('community_members')
-        .insert({
-          community_id: communityId,
-          user_id: profile.id,
-          role: profile.year_of_study >= 2 ? 'senior' : 'member'
-        })
-
-      if (error) throw error
+      await joinCommunity(communityId, profile.id, profile.year_of_study >= 2 ? 'senior' : 'member')
       fetchCommunities()
     } catch (error) {
       console.error('Error joining community:', error)
@@ -203,25 +135,11 @@ export function LearningCommunity() {
     if (!profile || !newCommunity.name || !newCommunity.category) return
 
     try {
-      const { data, error } = await supabase
-        .from('learning_communities')
-        .insert({
-          ...newCommunity,
-          created_by: profile.id,
-        })
-        .select()
-        .single()
-
-      if (error) throw error
-
-      // Auto-join the creator
-      await supabase
-        .from('community_members')
-        .insert({
-          community_id: data.id,
-          user_id: profile.id,
-          role: 'admin'
-        })
+      await createCommunity({
+        ...newCommunity,
+        course_id: newCommunity.course_id || null,
+        created_by: profile.id,
+      })
 
       setNewCommunity({
         name: '',
@@ -240,15 +158,11 @@ export function LearningCommunity() {
     if (!profile || !selectedCommunity || !newResource.title || !newResource.resource_url) return
 
     try {
-      const { error } = await supabase
-        .from('community_resources')
-        .insert({
-          community_id: selectedCommunity.id,
-          uploaded_by: profile.id,
-          ...newResource,
-        })
-
-      if (error) throw error
+      await addCommunityResource({
+        community_id: selectedCommunity.id,
+        uploaded_by: profile.id,
+        ...newResource,
+      })
 
       setNewResource({
         title: '',
@@ -284,6 +198,10 @@ export function LearningCommunity() {
     }
   }
 
+  if (communityId && !loading && !selectedCommunity) {
+    return <NotFound />
+  }
+
   if (selectedCommunity) {
     return (
       <div className="p-6 space-y-6">
@@ -291,13 +209,13 @@ export function LearningCommunity() {
         <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
           <div className="flex items-center justify-between mb-4">
             <button
-              onClick={() => setSelectedCommunity(null)}
+              onClick={() => navigate(routes.community)}
               className="text-purple-600 hover:text-purple-700 font-medium"
             >
               ← Back to Communities
             </button>
             
-            {profile?.year_of_study >= 2 && selectedCommunity.is_member && (
+            {activeTab === 'resources' && profile?.year_of_study >= 2 && selectedCommunity.is_member && (
               <button
                 onClick={() => setShowAddResource(true)}
                 className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
@@ -322,8 +240,42 @@ export function LearningCommunity() {
           </div>
         </div>
 
+        {/* Tabs */}
+        <div className="flex space-x-2">
+          {(['resources', 'sessions', 'discussions'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => {
+                setActiveTab(tab)
+                if (threadId) navigate(paths.community(selectedCommunity.id))
+              }}
+              className={`px-4 py-2 rounded-xl font-medium capitalize transition-colors ${
+                activeTab === tab ? 'bg-purple-500 text-white' : 'bg-white/70 text-gray-700 hover:bg-white'
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'discussions' && (
+          <CommunityDiscussions
+            communityId={selectedCommunity.id}
+            memberRole={selectedCommunity.member_role}
+            threadId={threadId}
+          />
+        )}
+
+        {activeTab === 'sessions' && (
+          <CommunitySessions
+            communityId={selectedCommunity.id}
+            memberRole={selectedCommunity.member_role}
+            onResourceAdded={() => fetchResources(selectedCommunity.id)}
+          />
+        )}
+
         {/* Add Resource Form */}
-        {showAddResource && (
+        {activeTab === 'resources' && showAddResource && (
           <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Add New Resource</h3>
             
@@ -398,53 +350,55 @@ export function LearningCommunity() {
         )}
 
         {/* Resources Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {resources.map((resource) => {
-            const IconComponent = getResourceIcon(resource.resource_type)
+        {activeTab === 'resources' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {resources.map((resource) => {
+              const IconComponent = getResourceIcon(resource.resource_type)
             
-            return (
-              <div key={resource.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 hover:shadow-lg transition-all">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-10 h-10 bg-purple-100 rounded-xl flex items-center justify-center">
-                      <IconComponent className="w-5 h-5 text-purple-600" />
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-gray-900">{resource.title}</h3>
-                      <p className="text-sm text-gray-500 capitalize">{resource.resource_type.replace('_', ' ')}</p>
+              return (
+                <div key={resource.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 hover:shadow-lg transition-all">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-10 h-10 bg-purple-100 rounded-xl flex items-center justify-center">
+                        <IconComponent className="w-5 h-5 text-purple-600" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-gray-900">{resource.title}</h3>
+                        <p className="text-sm text-gray-500 capitalize">{resource.resource_type.replace('_', ' ')}</p>
+                      </div>
                     </div>
-                  </div>
                   
-                  {resource.is_featured && (
-                    <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">
-                      Featured
-                    </span>
-                  )}
-                </div>
+                    {resource.is_featured && (
+                      <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">
+                        Featured
+                      </span>
+                    )}
+                  </div>
                 
-                <p className="text-gray-600 text-sm mb-4">{resource.description}</p>
+                  <p className="text-gray-600 text-sm mb-4">{resource.description}</p>
                 
-                <div className="flex items-center justify-between">
-                  <div className="text-xs text-gray-500">
-                    By {resource.uploader?.full_name} (Year {resource.uploader?.year_of_study})
-                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs text-gray-500">
+                      By {resource.uploader?.full_name} (Year {resource.uploader?.year_of_study})
+                    </div>
                   
-                  <a
-                    href={resource.resource_url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
-                  >
-                    {resource.resource_type === 'video' ? <Play className="w-4 h-4" /> : <ExternalLink className="w-4 h-4" />}
-                    <span>{resource.resource_type === 'video' ? 'Watch' : 'Open'}</span>
-                  </a>
+                    <a
+                      href={resource.resource_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+                    >
+                      {resource.resource_type === 'video' ? <Play className="w-4 h-4" /> : <ExternalLink className="w-4 h-4" />}
+                      <span>{resource.resource_type === 'video' ? 'Watch' : 'Open'}</span>
+                    </a>
+                  </div>
                 </div>
-              </div>
-            )
-          })}
-        </div>
+              )
+            })}
+          </div>
+        )}
 
-        {resources.length === 0 && (
+        {activeTab === 'resources' && resources.length === 0 && (
           <div className="text-center py-12">
             <Video className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-xl font-semibold text-gray-900 mb-2">No resources yet</h3>
@@ -589,7 +543,7 @@ export function LearningCommunity() {
               <div className="flex space-x-2">
                 {community.is_member ? (
                   <button
-                    onClick={() => setSelectedCommunity(community)}
+                    onClick={() => navigate(paths.community(community.id))}
                     className="flex-1 bg-green-500 text-white px-4 py-2 rounded-xl font-medium hover:bg-green-600 transition-colors"
                   >
                     Enter Community
@@ -603,7 +557,7 @@ export function LearningCommunity() {
                       Join Community
                     </button>
                     <button
-                      onClick={() => setSelectedCommunity(community)}
+                      onClick={() => navigate(paths.community(community.id))}
                       className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
                     >
                       Preview
@@ -0,0 +1,156 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { paths } from '../../lib/routes'
+
+// A small markdown subset for discussion posts: paragraphs, headings,
+// quotes, lists, fenced code blocks, inline code, bold, italics, links and
+// member mentions. Everything is rendered as React elements, never as raw
+// HTML, so post bodies can't inject markup.
+
+const INLINE_PATTERN = /(`[^`\n]+`)|@\[([^\]]+)\]\(([0-9a-fA-F-]{36})\)|\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|\*([^*\n]+)\*|_([^_\n]+)_/
+
+function isSafeUrl(url: string) {
+  return /^(https?:|mailto:)/i.test(url)
+}
+
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = []
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  // A fresh regex per call, since bold and italic text recurse
+  const pattern = new RegExp(INLINE_PATTERN.source, 'g')
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) nodes.push(text.slice(lastIndex, match.index))
+    const key = `${keyPrefix}-${match.index}`
+    const [whole, code, mentionName, mentionId, linkText, linkUrl, bold, italic, underscored] = match
+
+    if (code) {
+      nodes.push(<code key={key} className="px-1 py-0.5 bg-gray-100 rounded text-purple-700 font-mono text-xs">{code.slice(1, -1)}</code>)
+    } else if (mentionId) {
+      nodes.push(
+        <Link key={key} to={paths.userProfile(mentionId)} className="text-purple-600 font-medium hover:underline">
+          @{mentionName}
+        </Link>
+      )
+    } else if (linkText) {
+      nodes.push(isSafeUrl(linkUrl) ? (
+        <a key={key} href={linkUrl} target="_blank" rel="noopener noreferrer" className="text-purple-600 hover:underline">
+          {linkText}
+        </a>
+      ) : whole)
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold, key)}</strong>)
+    } else {
+      nodes.push(<em key={key}>{renderInline(italic ?? underscored, key)}</em>)
+    }
+
+    lastIndex = match.index + whole.length
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex))
+  return nodes
+}
+
+// Single line breaks inside a paragraph are kept
+function renderLines(lines: string[], keyPrefix: string) {
+  return lines.flatMap((line, i) => [
+    ...(i > 0 ? [<br key={`${keyPrefix}-br-${i}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${i}`)
+  ])
+}
+
+export function Markdown({ text }: { text: string }) {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const blocks: React.ReactNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const key = `block-${i}`
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    const fence = /^```\s*([\w+-]*)\s*$/.exec(line)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !/^```\s*$/.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      i++
+      blocks.push(
+        <pre key={key} className="bg-gray-900 text-gray-100 rounded-xl p-4 overflow-x-auto text-xs">
+          <code data-language={fence[1] || undefined}>{code.join('\n')}</code>
+        </pre>
+      )
+      continue
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line)
+    if (heading) {
+      const sizes = ['text-lg', 'text-base', 'text-sm']
+      blocks.push(
+        <p key={key} className={`font-semibold text-gray-900 ${sizes[heading[1].length - 1]}`}>
+          {renderInline(heading[2], key)}
+        </p>
+      )
+      i++
+      continue
+    }
+
+    if (/^>\s?/.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && /^>\s?/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^>\s?/, ''))
+        i++
+      }
+      blocks.push(
+        <blockquote key={key} className="border-l-4 border-purple-200 pl-3 text-gray-600">
+          {renderLines(quoted, key)}
+        </blockquote>
+      )
+      continue
+    }
+
+    const listPattern = /^\s*([-*]|\d+\.)\s+/
+    if (listPattern.test(line)) {
+      const ordered = /^\s*\d+\./.test(line)
+      const items: string[] = []
+      while (i < lines.length && listPattern.test(lines[i])) {
+        items.push(lines[i].replace(listPattern, ''))
+        i++
+      }
+      const ListTag = ordered ? 'ol' : 'ul'
+      blocks.push(
+        <ListTag key={key} className={`${ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+          {items.map((item, j) => <li key={j}>{renderInline(item, `${key}-${j}`)}</li>)}
+        </ListTag>
+      )
+      continue
+    }
+
+    // The first line always belongs to the paragraph, so text that merely
+    // looks like a block start still makes progress
+    const paragraph: string[] = [line]
+    i++
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !/^```/.test(lines[i]) &&
+      !/^#{1,3}\s/.test(lines[i]) &&
+      !/^>\s?/.test(lines[i]) &&
+      !listPattern.test(lines[i])
+    ) {
+      paragraph.push(lines[i])
+      i++
+    }
+    blocks.push(<p key={key}>{renderLines(paragraph, key)}</p>)
+  }
+
+  return <div className="space-y-3 text-sm text-gray-800 leading-relaxed break-words">{blocks}</div>
+}
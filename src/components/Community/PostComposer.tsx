@@ -0,0 +1,107 @@
+import { useRef, useState } from 'react'
+import { User } from 'lucide-react'
+import { activeMentionQuery, insertMention } from '../../lib/mentions'
+import { Markdown } from './Markdown'
+
+export interface CommunityMember {
+  id: string
+  full_name: string
+  profile_picture?: string
+}
+
+interface PostComposerProps {
+  value: string
+  onChange: (value: string) => void
+  members: CommunityMember[]
+  placeholder?: string
+  rows?: number
+}
+
+export function PostComposer({ value, onChange, members, placeholder, rows = 4 }: PostComposerProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [cursor, setCursor] = useState(0)
+  const [preview, setPreview] = useState(false)
+
+  const mention = activeMentionQuery(value, cursor)
+  const suggestions = mention
+    ? members
+      .filter(member => member.full_name.toLowerCase().includes(mention.query.toLowerCase()))
+      .slice(0, 5)
+    : []
+
+  const handleSelect = (member: CommunityMember) => {
+    if (!mention) return
+    const result = insertMention(value, mention.start, cursor, member.full_name, member.id)
+    onChange(result.text)
+    setCursor(result.cursor)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(result.cursor, result.cursor)
+    })
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex space-x-2 mb-2 text-xs">
+        {[false, true].map(isPreview => (
+          <button
+            key={String(isPreview)}
+            type="button"
+            onClick={() => setPreview(isPreview)}
+            className={`px-3 py-1 rounded-lg transition-colors ${
+              preview === isPreview ? 'bg-purple-100 text-purple-700' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            {isPreview ? 'Preview' : 'Write'}
+          </button>
+        ))}
+      </div>
+
+      {preview ? (
+        <div className="min-h-[6rem] px-4 py-3 border border-gray-200 rounded-xl bg-white">
+          {value.trim() ? <Markdown text={value} /> : <p className="text-sm text-gray-400">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          rows={rows}
+          value={value}
+          placeholder={placeholder}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCursor(e.target.selectionStart)
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono text-sm"
+        />
+      )}
+
+      {!preview && suggestions.length > 0 && (
+        <div className="absolute z-10 left-4 mt-1 w-64 bg-white border border-gray-200 rounded-xl shadow-lg overflow-hidden">
+          {suggestions.map(member => (
+            <button
+              key={member.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSelect(member)}
+              className="w-full flex items-center space-x-2 px-3 py-2 text-left text-sm hover:bg-purple-50"
+            >
+              {member.profile_picture ? (
+                <img src={member.profile_picture} alt={member.full_name} className="w-6 h-6 rounded-full object-cover" />
+              ) : (
+                <div className="w-6 h-6 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
+                  <User className="w-3 h-3 text-white" />
+                </div>
+              )}
+              <span>{member.full_name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-1">
+        Markdown supported: **bold**, *italics*, `code` and ``` for code blocks. Type @ to mention a member.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react'
+import type { AutosaveState } from '../../hooks/useAutosave'
+
+interface AutosaveIndicatorProps {
+  state: AutosaveState
+  savedAt: Date | null
+  dirty: boolean
+}
+
+export function AutosaveIndicator({ state, savedAt, dirty }: AutosaveIndicatorProps) {
+  if (state === 'saving') {
+    return (
+      <span className="flex items-center space-x-1 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Saving...</span>
+      </span>
+    )
+  }
+
+  if (state === 'error') {
+    return (
+      <span className="flex items-center space-x-1 text-sm text-red-600">
+        <AlertCircle className="w-4 h-4" />
+        <span>Couldn't save your changes</span>
+      </span>
+    )
+  }
+
+  if (dirty) {
+    return <span className="text-sm text-gray-500">Unsaved changes</span>
+  }
+
+  if (savedAt) {
+    return (
+      <span className="flex items-center space-x-1 text-sm text-green-600">
+        <CheckCircle className="w-4 h-4" />
+        <span>Saved at {savedAt.toLocaleTimeString(undefined, { timeStyle: 'short' })}</span>
+      </span>
+    )
+  }
+
+  return null
+}
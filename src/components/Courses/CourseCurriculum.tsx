@@ -0,0 +1,506 @@
+import { useState, useEffect } from 'react'
+import {
+  ChevronDown,
+  ChevronUp,
+  CheckCircle,
+  Circle,
+  FileText,
+  Lock,
+  Paperclip,
+  Plus,
+  Trash2,
+  Video
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import type { Database } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+
+type Module = Database['public']['Tables']['course_modules']['Row']
+type Lesson = Database['public']['Tables']['course_lessons']['Row']
+
+interface CourseCurriculumProps {
+  courseId: string
+  isMentor: boolean
+  isEnrolled: boolean
+  onCourseCompleted?: () => void
+}
+
+const emptyLesson = {
+  title: '',
+  content: '',
+  video_url: '',
+  attachment_url: '',
+}
+
+export function CourseCurriculum({ courseId, isMentor, isEnrolled, onCourseCompleted }: CourseCurriculumProps) {
+  const { profile } = useAuthContext()
+  const [modules, setModules] = useState<Module[]>([])
+  const [lessons, setLessons] = useState<Lesson[]>([])
+  const [completedLessonIds, setCompletedLessonIds] = useState<Set<string>>(new Set())
+  const [expandedLessonId, setExpandedLessonId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showAddModule, setShowAddModule] = useState(false)
+  const [newModule, setNewModule] = useState({ title: '', description: '' })
+  const [addingLessonTo, setAddingLessonTo] = useState<string | null>(null)
+  const [newLesson, setNewLesson] = useState(emptyLesson)
+
+  useEffect(() => {
+    fetchCurriculum()
+  }, [courseId, isEnrolled])
+
+  const fetchCurriculum = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [modulesRes, lessonsRes, progressRes] = await Promise.all([
+        supabase
+          .from('course_modules')
+          .select('*')
+          .eq('course_id', courseId)
+          .order('position', { ascending: true }),
+        supabase
+          .from('course_lessons')
+          .select('*')
+          .eq('course_id', courseId)
+          .order('position', { ascending: true }),
+        isEnrolled
+          ? supabase
+              .from('lesson_progress')
+              .select('lesson_id')
+              .eq('course_id', courseId)
+              .eq('student_id', profile.id)
+          : Promise.resolve({ data: [] as { lesson_id: string }[], error: null })
+      ])
+
+      if (modulesRes.error) throw modulesRes.error
+      if (lessonsRes.error) throw lessonsRes.error
+
+      setModules(modulesRes.data || [])
+      setLessons(lessonsRes.data || [])
+      setCompletedLessonIds(new Set(progressRes.data?.map(p => p.lesson_id) || []))
+    } catch (error) {
+      console.error('Error fetching curriculum:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggleLesson = async (lesson: Lesson) => {
+    if (!profile || !isEnrolled) return
+
+    const isCompleted = completedLessonIds.has(lesson.id)
+
+    try {
+      if (isCompleted) {
+        const { error } = await supabase
+          .from('lesson_progress')
+          .delete()
+          .eq('lesson_id', lesson.id)
+          .eq('student_id', profile.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('lesson_progress')
+          .insert({
+            lesson_id: lesson.id,
+            course_id: courseId,
+            student_id: profile.id
+          })
+
+        if (error) throw error
+      }
+
+      const updated = new Set(completedLessonIds)
+      if (isCompleted) {
+        updated.delete(lesson.id)
+      } else {
+        updated.add(lesson.id)
+      }
+      setCompletedLessonIds(updated)
+
+      // The database completes the enrollment once the last lesson is done
+      if (!isCompleted && updated.size === lessons.length) {
+        onCourseCompleted?.()
+      }
+    } catch (error) {
+      console.error('Error updating lesson progress:', error)
+    }
+  }
+
+  const handleAddModule = async () => {
+    if (!newModule.title) return
+
+    try {
+      const { error } = await supabase
+        .from('course_modules')
+        .insert({
+          course_id: courseId,
+          title: newModule.title,
+          description: newModule.description || undefined,
+          position: modules.length
+        })
+
+      if (error) throw error
+
+      setNewModule({ title: '', description: '' })
+      setShowAddModule(false)
+      fetchCurriculum()
+    } catch (error) {
+      console.error('Error adding module:', error)
+    }
+  }
+
+  const handleAddLesson = async (moduleId: string) => {
+    if (!newLesson.title) return
+
+    try {
+      const { error } = await supabase
+        .from('course_lessons')
+        .insert({
+          module_id: moduleId,
+          course_id: courseId,
+          title: newLesson.title,
+          content: newLesson.content || undefined,
+          video_url: newLesson.video_url || undefined,
+          attachment_url: newLesson.attachment_url || undefined,
+          position: lessons.filter(l => l.module_id === moduleId).length
+        })
+
+      if (error) throw error
+
+      setNewLesson(emptyLesson)
+      setAddingLessonTo(null)
+      fetchCurriculum()
+    } catch (error) {
+      console.error('Error adding lesson:', error)
+    }
+  }
+
+  const handleDelete = async (table: 'course_modules' | 'course_lessons', id: string) => {
+    const label = table === 'course_modules' ? 'module and all of its lessons' : 'lesson'
+    if (!confirm(`Delete this ${label}?`)) return
+
+    try {
+      const { error } = await supabase.from(table).delete().eq('id', id)
+      if (error) throw error
+      fetchCurriculum()
+    } catch (error) {
+      console.error('Error deleting curriculum item:', error)
+    }
+  }
+
+  // Swap positions with the neighbouring item to reorder
+  const handleMove = async (
+    table: 'course_modules' | 'course_lessons',
+    items: (Module | Lesson)[],
+    index: number,
+    direction: -1 | 1
+  ) => {
+    const current = items[index]
+    const neighbour = items[index + direction]
+    if (!current || !neighbour) return
+
+    try {
+      const results = await Promise.all([
+        supabase.from(table).update({ position: neighbour.position }).eq('id', current.id),
+        supabase.from(table).update({ position: current.position }).eq('id', neighbour.id)
+      ])
+
+      const failed = results.find(r => r.error)
+      if (failed?.error) throw failed.error
+      fetchCurriculum()
+    } catch (error) {
+      console.error('Error reordering curriculum:', error)
+    }
+  }
+
+  const canViewContent = isMentor || isEnrolled
+  const progressPercent = lessons.length
+    ? Math.round((completedLessonIds.size / lessons.length) * 100)
+    : 0
+
+  if (loading) {
+    return <div className="bg-gray-200 rounded-2xl h-48 animate-pulse" />
+  }
+
+  return (
+    <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900">Syllabus</h2>
+        <span className="text-sm text-gray-500">
+          {modules.length} modules • {lessons.length} lessons
+        </span>
+      </div>
+
+      {isEnrolled && lessons.length > 0 && (
+        <div className="mb-6">
+          <div className="flex justify-between text-sm text-gray-600 mb-2">
+            <span>Your progress</span>
+            <span>{completedLessonIds.size} of {lessons.length} lessons • {progressPercent}%</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all duration-500"
+              style={{ width: `${progressPercent}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {modules.length === 0 && (
+        <p className="text-gray-500 text-center py-6">
+          {isMentor ? 'Add your first module to build the syllabus.' : 'The mentor has not published a syllabus yet.'}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {modules.map((module, moduleIndex) => {
+          const moduleLessons = lessons.filter(l => l.module_id === module.id)
+
+          return (
+            <div key={module.id} className="border border-gray-200 rounded-xl overflow-hidden">
+              <div className="flex items-start justify-between p-4 bg-gray-50">
+                <div>
+                  <p className="text-xs font-medium text-purple-600 uppercase">Module {moduleIndex + 1}</p>
+                  <h3 className="font-semibold text-gray-900">{module.title}</h3>
+                  {module.description && <p className="text-sm text-gray-600 mt-1">{module.description}</p>}
+                </div>
+
+                {isMentor && (
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleMove('course_modules', modules, moduleIndex, -1)}
+                      disabled={moduleIndex === 0}
+                      className="p-1 text-gray-500 hover:text-purple-600 disabled:opacity-30"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove('course_modules', modules, moduleIndex, 1)}
+                      disabled={moduleIndex === modules.length - 1}
+                      className="p-1 text-gray-500 hover:text-purple-600 disabled:opacity-30"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete('course_modules', module.id)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="divide-y divide-gray-100">
+                {moduleLessons.map((lesson, lessonIndex) => {
+                  const isCompleted = completedLessonIds.has(lesson.id)
+                  const isExpanded = expandedLessonId === lesson.id
+
+                  return (
+                    <div key={lesson.id} className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          {isEnrolled ? (
+                            <button
+                              onClick={() => handleToggleLesson(lesson)}
+                              className={isCompleted ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}
+                              title={isCompleted ? 'Mark as not done' : 'Mark as done'}
+                            >
+                              {isCompleted ? <CheckCircle className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
+                            </button>
+                          ) : !canViewContent ? (
+                            <Lock className="w-4 h-4 text-gray-400" />
+                          ) : (
+                            <FileText className="w-4 h-4 text-gray-400" />
+                          )}
+
+                          <button
+                            onClick={() => canViewContent && setExpandedLessonId(isExpanded ? null : lesson.id)}
+                            className={`text-left ${canViewContent ? 'hover:text-purple-600' : 'cursor-default'} ${isCompleted ? 'text-gray-500 line-through' : 'text-gray-900'}`}
+                          >
+                            {lesson.title}
+                          </button>
+
+                          {lesson.video_url && <Video className="w-4 h-4 text-gray-400" />}
+                          {lesson.attachment_url && <Paperclip className="w-4 h-4 text-gray-400" />}
+                        </div>
+
+                        {isMentor && (
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() => handleMove('course_lessons', moduleLessons, lessonIndex, -1)}
+                              disabled={lessonIndex === 0}
+                              className="p-1 text-gray-500 hover:text-purple-600 disabled:opacity-30"
+                            >
+                              <ChevronUp className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleMove('course_lessons', moduleLessons, lessonIndex, 1)}
+                              disabled={lessonIndex === moduleLessons.length - 1}
+                              className="p-1 text-gray-500 hover:text-purple-600 disabled:opacity-30"
+                            >
+                              <ChevronDown className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete('course_lessons', lesson.id)}
+                              className="p-1 text-gray-500 hover:text-red-600"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
+                      {isExpanded && canViewContent && (
+                        <div className="mt-3 ml-8 space-y-3">
+                          {lesson.content && (
+                            <p className="text-sm text-gray-700 whitespace-pre-wrap">{lesson.content}</p>
+                          )}
+                          <div className="flex flex-wrap gap-3">
+                            {lesson.video_url && (
+                              <a
+                                href={lesson.video_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+                              >
+                                <Video className="w-4 h-4" />
+                                <span>Watch video</span>
+                              </a>
+                            )}
+                            {lesson.attachment_url && (
+                              <a
+                                href={lesson.attachment_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+                              >
+                                <Paperclip className="w-4 h-4" />
+                                <span>Download attachment</span>
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+
+                {isMentor && (
+                  addingLessonTo === module.id ? (
+                    <div className="p-4 space-y-3 bg-purple-50/50">
+                      <input
+                        type="text"
+                        placeholder="Lesson title"
+                        value={newLesson.title}
+                        onChange={(e) => setNewLesson({ ...newLesson, title: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <textarea
+                        placeholder="Lesson notes (optional)"
+                        rows={3}
+                        value={newLesson.content}
+                        onChange={(e) => setNewLesson({ ...newLesson, content: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <input
+                          type="url"
+                          placeholder="Video URL (optional)"
+                          value={newLesson.video_url}
+                          onChange={(e) => setNewLesson({ ...newLesson, video_url: e.target.value })}
+                          className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                        <input
+                          type="url"
+                          placeholder="Attachment URL (optional)"
+                          value={newLesson.attachment_url}
+                          onChange={(e) => setNewLesson({ ...newLesson, attachment_url: e.target.value })}
+                          className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                      </div>
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={() => handleAddLesson(module.id)}
+                          disabled={!newLesson.title}
+                          className="px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors disabled:opacity-50"
+                        >
+                          Add Lesson
+                        </button>
+                        <button
+                          onClick={() => setAddingLessonTo(null)}
+                          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setNewLesson(emptyLesson)
+                        setAddingLessonTo(module.id)
+                      }}
+                      className="w-full flex items-center space-x-2 p-4 text-sm text-purple-600 hover:bg-purple-50 transition-colors"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add lesson</span>
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {isMentor && (
+        showAddModule ? (
+          <div className="mt-4 p-4 bg-gray-50 rounded-xl space-y-3">
+            <input
+              type="text"
+              placeholder="Module title"
+              value={newModule.title}
+              onChange={(e) => setNewModule({ ...newModule, title: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+            <textarea
+              placeholder="What does this module cover? (optional)"
+              rows={2}
+              value={newModule.description}
+              onChange={(e) => setNewModule({ ...newModule, description: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+            <div className="flex space-x-3">
+              <button
+                onClick={handleAddModule}
+                disabled={!newModule.title}
+                className="px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors disabled:opacity-50"
+              >
+                Add Module
+              </button>
+              <button
+                onClick={() => setShowAddModule(false)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowAddModule(true)}
+            className="mt-4 flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Module</span>
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,602 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import {
+  ArrowLeft,
+  BookOpen,
+  Calendar,
+  CalendarPlus,
+  CheckCircle,
+  Clock,
+  Edit3,
+  ExternalLink,
+  Hourglass,
+  Play,
+  Star,
+  UserCheck,
+  Users,
+  Video
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths, routes } from '../../lib/routes'
+import {
+  getCourse,
+  getCourseSessionLink,
+  listCourseRevisions,
+  listCourseStats,
+  type CourseRevision,
+  type CourseStats,
+  type CourseWithMentor
+} from '../../lib/repositories/courses'
+import {
+  enroll,
+  getEnrollment,
+  getSeatHoldExpiry,
+  getWaitlistPosition,
+  joinWaitlist,
+  leaveWaitlist,
+  type Enrollment
+} from '../../lib/repositories/enrollments'
+import { checkoutCourse, PaymentCancelledError } from '../../lib/payments'
+import { NotFound } from '../Layout/NotFound'
+import { CourseCurriculum } from './CourseCurriculum'
+import { CourseHistory } from './CourseHistory'
+import { ReviewCard, type CourseReview } from '../Reviews/ReviewCard'
+import { ReviewForm } from '../Reviews/ReviewForm'
+import { SessionManager } from '../Sessions/SessionManager'
+import { JoinSessionButton } from '../Sessions/JoinSessionButton'
+import { CheckInLink } from '../Sessions/CheckInLink'
+import { formatSessionTime, sessionColumns, sessionIcsEvent, type CourseSession } from '../../lib/sessions'
+import { downloadIcs } from '../../lib/ics'
+import { courseStatusLabels, courseStatusStyles } from '../../lib/courseLifecycle'
+
+export function CourseDetail() {
+  const { id } = useParams()
+  const { profile } = useAuthContext()
+  const [course, setCourse] = useState<CourseWithMentor | null>(null)
+  const [reviews, setReviews] = useState<CourseReview[]>([])
+  const [sessions, setSessions] = useState<CourseSession[]>([])
+  const [stats, setStats] = useState<CourseStats | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null)
+  const [seatHeldUntil, setSeatHeldUntil] = useState<string | null>(null)
+  const [sessionLink, setSessionLink] = useState<string | null>(null)
+  const [revisions, setRevisions] = useState<CourseRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [enrolling, setEnrolling] = useState(false)
+  const [editingReview, setEditingReview] = useState(false)
+
+  useEffect(() => {
+    if (id && profile) {
+      fetchCourse(id)
+    }
+  }, [id, profile])
+
+  const fetchCourse = async (courseId: string) => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [courseData, link, reviewsRes, statsById, sessionsRes, enrollmentData, position, heldUntil, revisionsData] = await Promise.all([
+        getCourse(courseId),
+        getCourseSessionLink(courseId),
+        supabase
+          .from('reviews')
+          .select(`
+            *,
+            users!reviews_student_id_fkey (
+              id,
+              full_name,
+              profile_picture
+            ),
+            review_votes (
+              user_id
+            )
+          `)
+          .eq('course_id', courseId)
+          .eq('review_votes.user_id', profile.id)
+          .order('created_at', { ascending: false }),
+        listCourseStats([courseId]),
+        supabase
+          .from('sessions')
+          .select(sessionColumns)
+          .eq('course_id', courseId)
+          .eq('is_completed', false)
+          .is('cancelled_at', null)
+          .gte('session_date', new Date().toISOString())
+          .order('session_date', { ascending: true }),
+        getEnrollment(courseId, profile.id),
+        getWaitlistPosition(courseId),
+        getSeatHoldExpiry(courseId, profile.id),
+        listCourseRevisions(courseId)
+      ])
+
+      setCourse(courseData)
+      setSessionLink(link)
+      setReviews(reviewsRes.data?.map(review => ({
+        ...review,
+        student: review.users
+      })) || [])
+      setStats(statsById.get(courseId) ?? null)
+      setSessions(sessionsRes.data || [])
+      setEnrollment(enrollmentData)
+      setWaitlistPosition(position)
+      setSeatHeldUntil(heldUntil)
+      setRevisions(revisionsData)
+    } catch (error) {
+      console.error('Error fetching course:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleEnroll = async () => {
+    if (!profile || !course) return
+
+    setEnrolling(true)
+    try {
+      if (course.price > 0) {
+        const order = await checkoutCourse(course.id)
+        if (order.status !== 'paid') {
+          alert(`Payment failed: ${order.failure_reason || 'please try again.'}`)
+          return
+        }
+      } else {
+        await enroll(profile.id, course.id)
+      }
+
+      fetchCourse(course.id)
+    } catch (error) {
+      if (error instanceof PaymentCancelledError) return
+      console.error('Error enrolling in course:', error)
+      alert(error instanceof Error ? error.message : 'Could not enroll in this course')
+      // The last seat may have just been taken
+      fetchCourse(course.id)
+    } finally {
+      setEnrolling(false)
+    }
+  }
+
+  const handleJoinWaitlist = async () => {
+    if (!course) return
+
+    setEnrolling(true)
+    try {
+      setWaitlistPosition(await joinWaitlist(course.id))
+    } catch (error) {
+      console.error('Error joining waitlist:', error)
+      alert(error instanceof Error ? error.message : 'Could not join the waitlist')
+      fetchCourse(course.id)
+    } finally {
+      setEnrolling(false)
+    }
+  }
+
+  const handleLeaveWaitlist = async () => {
+    if (!profile || !course) return
+    if (!confirm('Leave the waitlist? You will lose your place in line.')) return
+
+    setEnrolling(true)
+    try {
+      await leaveWaitlist(course.id, profile.id)
+      fetchCourse(course.id)
+    } catch (error) {
+      console.error('Error leaving waitlist:', error)
+      alert('Could not leave the waitlist')
+    } finally {
+      setEnrolling(false)
+    }
+  }
+
+  if (!profile) return null
+
+  if (loading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="bg-gray-200 rounded-2xl h-64 animate-pulse" />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-gray-200 rounded-2xl h-96 animate-pulse" />
+          <div className="bg-gray-200 rounded-2xl h-96 animate-pulse" />
+        </div>
+      </div>
+    )
+  }
+
+  if (!course) return <NotFound />
+
+  // Hidden reviews are only returned to their author and admins
+  const visibleReviews = reviews.filter(r => !r.is_hidden)
+  const averageRating = visibleReviews.length
+    ? visibleReviews.reduce((sum, r) => sum + r.rating, 0) / visibleReviews.length
+    : 0
+  const ratingBreakdown = [5, 4, 3, 2, 1].map(stars => ({
+    stars,
+    count: visibleReviews.filter(r => r.rating === stars).length
+  }))
+  const isMentor = course.mentor_id === profile.id
+  const isEnrolled = !!enrollment
+  const enrollmentCount = stats?.enrollment_count ?? 0
+  const waitlistCount = stats?.waitlist_count ?? 0
+  // Students only see what changed after they joined
+  const visibleRevisions = isMentor
+    ? revisions
+    : revisions.filter(r => enrollment && r.created_at > enrollment.enrolled_at)
+  const ownReview = reviews.find(r => r.student_id === profile.id)
+  const handleReviewSaved = () => {
+    setEditingReview(false)
+    fetchCourse(course.id)
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <Link
+        to={routes.courses}
+        className="inline-flex items-center space-x-2 text-purple-600 hover:text-purple-700 font-medium"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to Courses</span>
+      </Link>
+
+      {course.status !== 'published' && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-white/70 backdrop-blur-lg rounded-2xl border border-white/20">
+          <div className="flex items-center gap-3">
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${courseStatusStyles[course.status]}`}>
+              {courseStatusLabels[course.status]}
+            </span>
+            <p className="text-sm text-gray-600">
+              {course.status === 'archived'
+                ? 'This course is no longer taking enrollments. Enrolled students keep access.'
+                : 'This course is not in the catalog yet. Only you and admins can see this page.'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Course Header */}
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl overflow-hidden border border-white/20">
+        <div className="relative h-56 bg-gradient-to-r from-purple-500 to-blue-500">
+          {course.course_image ? (
+            <img
+              src={course.course_image}
+              alt={course.title}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <BookOpen className="w-16 h-16 text-white" />
+            </div>
+          )}
+
+          <div className="absolute top-4 left-4">
+            <div className="bg-white/20 backdrop-blur-lg rounded-full px-3 py-1 text-white text-xs font-medium">
+              {course.domain}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 flex flex-col lg:flex-row lg:items-end lg:justify-between gap-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-3">{course.title}</h1>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <div className="flex items-center space-x-1">
+                <Clock className="w-4 h-4" />
+                <span>{course.duration_hours} hours</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Users className="w-4 h-4" />
+                <span>
+                  {enrollmentCount} enrolled
+                  {course.max_students ? ` of ${course.max_students}` : ''}
+                  {waitlistCount > 0 && ` · ${waitlistCount} waiting`}
+                </span>
+              </div>
+              {course.min_attendance_percent > 0 && (
+                <div className="flex items-center space-x-1">
+                  <UserCheck className="w-4 h-4" />
+                  <span>{course.min_attendance_percent}% attendance required</span>
+                </div>
+              )}
+              {averageRating > 0 && (
+                <div className="flex items-center space-x-1">
+                  <Star className="w-4 h-4 text-yellow-500" />
+                  <span>{averageRating.toFixed(1)} ({visibleReviews.length} reviews)</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Enrollment State */}
+          <div className="lg:w-72">
+            <p className="text-2xl font-bold text-gray-900 mb-3">
+              {course.price === 0 ? 'Free' : `₹${course.price}`}
+            </p>
+            {isMentor ? (
+              <div className="space-y-2">
+                <div className="px-4 py-3 bg-purple-50 text-purple-700 rounded-xl text-center font-medium">
+                  You're mentoring this course
+                </div>
+                <Link
+                  to={paths.editCourse(course.id)}
+                  className="w-full border border-purple-300 text-purple-700 px-4 py-2 rounded-xl font-medium flex items-center justify-center space-x-2 hover:bg-purple-50 transition-colors"
+                >
+                  <Edit3 className="w-4 h-4" />
+                  <span>Edit Course</span>
+                </Link>
+              </div>
+            ) : enrollment?.is_completed ? (
+              <div className="px-4 py-3 bg-green-50 text-green-700 rounded-xl flex items-center justify-center space-x-2 font-medium">
+                <CheckCircle className="w-5 h-5" />
+                <span>
+                  Completed
+                  {enrollment.completed_at && ` on ${new Date(enrollment.completed_at).toLocaleDateString()}`}
+                </span>
+              </div>
+            ) : isEnrolled ? (
+              <a
+                href="#syllabus"
+                className="w-full bg-green-500 text-white px-4 py-3 rounded-xl font-medium flex items-center justify-center space-x-2 hover:bg-green-600 transition-colors"
+              >
+                <Play className="w-4 h-4" />
+                <span>Continue Learning</span>
+              </a>
+            ) : course.status !== 'published' ? (
+              <div className="px-4 py-3 bg-gray-100 text-gray-600 rounded-xl text-center font-medium">
+                Not open for enrollment
+              </div>
+            ) : seatHeldUntil ? (
+              <div className="space-y-2">
+                <button
+                  onClick={handleEnroll}
+                  disabled={enrolling}
+                  className="w-full bg-gradient-to-r from-purple-500 to-blue-500 text-white px-4 py-3 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+                >
+                  {enrolling ? 'Processing payment...' : `Buy for ₹${course.price}`}
+                </button>
+                <p className="text-xs text-gray-500 text-center">
+                  A seat is held for you until {new Date(seatHeldUntil).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              </div>
+            ) : waitlistPosition !== null ? (
+              <div className="space-y-2">
+                <div className="px-4 py-3 bg-amber-50 text-amber-700 rounded-xl flex items-center justify-center space-x-2 font-medium">
+                  <Hourglass className="w-5 h-5" />
+                  <span>#{waitlistPosition} on the waitlist</span>
+                </div>
+                <button
+                  onClick={handleLeaveWaitlist}
+                  disabled={enrolling}
+                  className="w-full text-sm text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  Leave waitlist
+                </button>
+              </div>
+            ) : stats?.seats_left === 0 ? (
+              <div className="space-y-2">
+                <button
+                  onClick={handleJoinWaitlist}
+                  disabled={enrolling}
+                  className="w-full border border-purple-300 text-purple-700 px-4 py-3 rounded-xl font-medium hover:bg-purple-50 transition-colors disabled:opacity-50"
+                >
+                  {enrolling ? 'Joining...' : 'Join Waitlist'}
+                </button>
+                <p className="text-xs text-gray-500 text-center">
+                  This course is full. {course.price > 0
+                    ? "We'll let you know when a seat opens up."
+                    : "You'll be enrolled automatically when a seat opens up."}
+                </p>
+              </div>
+            ) : (
+              <button
+                onClick={handleEnroll}
+                disabled={enrolling}
+                className="w-full bg-gradient-to-r from-purple-500 to-blue-500 text-white px-4 py-3 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+              >
+                {course.price > 0
+                  ? (enrolling ? 'Processing payment...' : `Buy for ₹${course.price}`)
+                  : (enrolling ? 'Enrolling...' : 'Enroll Now')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">About this course</h2>
+            <p className="text-gray-600 whitespace-pre-wrap">{course.description}</p>
+          </div>
+
+          {/* Syllabus */}
+          <div id="syllabus">
+            <CourseCurriculum
+              courseId={course.id}
+              isMentor={isMentor}
+              isEnrolled={isEnrolled}
+              onCourseCompleted={() => fetchCourse(course.id)}
+            />
+          </div>
+
+          {/* Upcoming Sessions */}
+          {isMentor ? (
+            <SessionManager courseId={course.id} mentorId={course.mentor_id} />
+          ) : (
+            <div id="sessions" className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                <Calendar className="w-5 h-5 mr-2 text-blue-500" />
+                Upcoming Sessions
+              </h2>
+
+              {isEnrolled && sessionLink && (
+                <a
+                  href={sessionLink}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center justify-between p-4 mb-4 bg-purple-50 rounded-xl text-purple-700 hover:bg-purple-100 transition-colors"
+                >
+                  <div className="flex items-center space-x-2">
+                    <Video className="w-5 h-5" />
+                    <span className="font-medium">Course session link</span>
+                  </div>
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+              )}
+
+              {sessions.length > 0 ? (
+                <div className="space-y-3">
+                  {sessions.map(session => (
+                    <div key={session.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                      <div>
+                        <p className="font-medium text-gray-900">{session.title || formatSessionTime(session)}</p>
+                        <p className="text-sm text-gray-600">
+                          {session.title ? formatSessionTime(session) : `${session.duration_minutes} minutes`}
+                        </p>
+                      </div>
+                      {isEnrolled && (
+                        <div className="flex items-center gap-3">
+                          <JoinSessionButton session={session} />
+                          <CheckInLink kind="course" session={session} />
+                          <button
+                            onClick={() => downloadIcs(`session-${session.id}.ics`, [sessionIcsEvent(session, course.title)])}
+                            title="Add to calendar"
+                            className="p-2 text-gray-500 hover:text-purple-600 hover:bg-purple-50 rounded-xl transition-colors"
+                          >
+                            <CalendarPlus className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-center py-6">No upcoming sessions scheduled yet</p>
+              )}
+
+              {!isEnrolled && (
+                <p className="text-xs text-gray-500 mt-4">Session links are shared with enrolled students.</p>
+              )}
+            </div>
+          )}
+
+          {/* Change History */}
+          {(isMentor || isEnrolled) && visibleRevisions.length > 0 && (
+            <CourseHistory
+              revisions={visibleRevisions}
+              title={isMentor ? 'Change History' : 'Course Updates'}
+              description={isMentor ? 'Edits made after students had enrolled' : 'What the mentor changed since you enrolled'}
+            />
+          )}
+
+          {/* Reviews */}
+          <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+            <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+              <Star className="w-5 h-5 mr-2 text-yellow-500" />
+              Reviews
+            </h2>
+
+            {isEnrolled && !isMentor && (!ownReview || editingReview) && (
+              <div className="mb-6">
+                <ReviewForm
+                  courseId={course.id}
+                  mentorId={course.mentor_id}
+                  review={editingReview ? ownReview : undefined}
+                  onSaved={handleReviewSaved}
+                  onCancel={editingReview ? () => setEditingReview(false) : undefined}
+                />
+              </div>
+            )}
+
+            {visibleReviews.length > 0 && (
+              <div className="flex flex-col sm:flex-row gap-6 mb-6">
+                <div className="text-center sm:w-32">
+                  <p className="text-4xl font-bold text-gray-900">{averageRating.toFixed(1)}</p>
+                  <p className="text-sm text-gray-500">{visibleReviews.length} reviews</p>
+                </div>
+                <div className="flex-1 space-y-1">
+                  {ratingBreakdown.map(({ stars, count }) => (
+                    <div key={stars} className="flex items-center space-x-2 text-sm">
+                      <span className="w-4 text-gray-600">{stars}</span>
+                      <Star className="w-3 h-3 text-yellow-500" />
+                      <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-yellow-400"
+                          style={{ width: `${(count / visibleReviews.length) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-6 text-right text-gray-500">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {reviews.length > 0 ? (
+              <div className="space-y-4">
+                {reviews
+                  .filter(review => !(editingReview && review.id === ownReview?.id))
+                  .map(review => (
+                    <ReviewCard
+                      key={review.id}
+                      review={review}
+                      onEdit={() => setEditingReview(true)}
+                      onChanged={() => fetchCourse(course.id)}
+                    />
+                  ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-center py-6">No reviews yet</p>
+            )}
+          </div>
+        </div>
+
+        {/* Mentor Bio */}
+        <div className="space-y-6">
+          <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Your Mentor</h2>
+            {course.mentor && (
+              <>
+                <div className="flex items-center space-x-3 mb-4">
+                  <div className="w-14 h-14 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl flex items-center justify-center">
+                    {course.mentor.profile_picture ? (
+                      <img
+                        src={course.mentor.profile_picture}
+                        alt={course.mentor.full_name}
+                        className="w-14 h-14 rounded-xl object-cover"
+                      />
+                    ) : (
+                      <Users className="w-6 h-6 text-white" />
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-semibold text-gray-900 flex items-center">
+                      {course.mentor.full_name}
+                      {course.mentor.is_verified && <span className="ml-1 text-blue-500">✓</span>}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {course.mentor.department} • Year {course.mentor.year_of_study}
+                    </p>
+                  </div>
+                </div>
+
+                {course.mentor.bio && <p className="text-gray-600 text-sm mb-3">{course.mentor.bio}</p>}
+                {course.mentor.experience_description && (
+                  <p className="text-gray-600 text-sm whitespace-pre-wrap mb-3">
+                    {course.mentor.experience_description}
+                  </p>
+                )}
+
+                <Link
+                  to={paths.userProfile(course.mentor.id)}
+                  className="text-purple-600 hover:text-purple-700 text-sm font-medium"
+                >
+                  View full profile →
+                </Link>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import React from 'react'
+import { Upload, DollarSign, Clock, Users, Link, UserCheck } from 'lucide-react'
+import { catalogDomains } from '../../lib/catalog'
+import type { CourseFormValues } from '../../lib/courseForm'
+
+interface CourseFormProps {
+  values: CourseFormValues
+  onChange: (values: CourseFormValues) => void
+  onSubmit: () => void
+  // Action buttons; the submit button should be type="submit" so the
+  // required fields are checked
+  children: React.ReactNode
+}
+
+// The course fields shared by the create and edit pages
+export function CourseForm({ values, onChange, onSubmit, children }: CourseFormProps) {
+  const set = (changes: Partial<CourseFormValues>) => onChange({ ...values, ...changes })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSubmit()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Course Title */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Course Title *
+        </label>
+        <input
+          type="text"
+          required
+          value={values.title}
+          onChange={(e) => set({ title: e.target.value })}
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="e.g., Complete Python for Beginners"
+        />
+      </div>
+
+      {/* Course Description */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Course Description *
+        </label>
+        <textarea
+          required
+          rows={4}
+          value={values.description}
+          onChange={(e) => set({ description: e.target.value })}
+          className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Describe what students will learn in this course..."
+        />
+      </div>
+
+      {/* Domain and Price Row */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Domain *
+          </label>
+          <select
+            required
+            value={values.domain}
+            onChange={(e) => set({ domain: e.target.value })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Select a domain</option>
+            {catalogDomains.map(domain => (
+              <option key={domain} value={domain}>{domain}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Price (₹) *
+          </label>
+          <div className="relative">
+            <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="number"
+              min="0"
+              required
+              value={values.price}
+              onChange={(e) => set({ price: parseFloat(e.target.value) || 0 })}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="0 for free course"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Duration and Max Students Row */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Duration (hours) *
+          </label>
+          <div className="relative">
+            <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="number"
+              min="1"
+              required
+              value={values.duration_hours}
+              onChange={(e) => set({ duration_hours: parseInt(e.target.value) || 1 })}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Duration in hours"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Max Students (optional)
+          </label>
+          <div className="relative">
+            <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="number"
+              min="1"
+              value={values.max_students}
+              onChange={(e) => set({ max_students: e.target.value })}
+              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Leave empty for unlimited"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Session Link */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Session Link (Google Meet, Zoom, etc.)
+        </label>
+        <div className="relative">
+          <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="url"
+            value={values.session_link}
+            onChange={(e) => set({ session_link: e.target.value })}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder="https://meet.google.com/..."
+          />
+        </div>
+      </div>
+
+      {/* Minimum Attendance */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Minimum Attendance (%)
+        </label>
+        <div className="relative">
+          <UserCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={values.min_attendance_percent}
+            onChange={(e) => set({ min_attendance_percent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder="0 for no requirement"
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Share of held sessions a student must attend before their enrollment can be completed. 0 means no requirement.
+        </p>
+      </div>
+
+      {/* Course Image */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Course Image URL (optional)
+        </label>
+        <div className="relative">
+          <Upload className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="url"
+            value={values.course_image}
+            onChange={(e) => set({ course_image: e.target.value })}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder="https://example.com/image.jpg"
+          />
+        </div>
+        {values.course_image && (
+          <div className="mt-2">
+            <img
+              src={values.course_image}
+              alt="Course preview"
+              className="w-32 h-20 object-cover rounded-lg border border-gray-200"
+              onError={(e) => {
+                const target = e.target as HTMLImageElement
+                target.style.display = 'none'
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {children}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,63 @@
+import { History } from 'lucide-react'
+import type { CourseRevision } from '../../lib/repositories/courses'
+import { courseFieldLabels, formatCourseFieldValue, longCourseFields } from '../../lib/courseLifecycle'
+
+interface CourseHistoryProps {
+  revisions: CourseRevision[]
+  title?: string
+  description?: string
+}
+
+export function CourseHistory({
+  revisions,
+  title = 'Change History',
+  description = 'Edits made after students had enrolled'
+}: CourseHistoryProps) {
+  return (
+    <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <h2 className="text-xl font-bold text-gray-900 mb-1 flex items-center">
+        <History className="w-5 h-5 mr-2 text-purple-500" />
+        {title}
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">{description}</p>
+
+      {revisions.length > 0 ? (
+        <div className="space-y-4">
+          {revisions.map(revision => (
+            <div key={revision.id} className="p-4 bg-gray-50 rounded-xl">
+              <p className="text-sm text-gray-500 mb-2">
+                {new Date(revision.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                {revision.editor && ` by ${revision.editor.full_name}`}
+                {' • '}
+                {revision.enrolled_count} enrolled at the time
+              </p>
+              <ul className="space-y-1 text-sm">
+                {Object.keys(courseFieldLabels)
+                  .filter(field => field in revision.changes)
+                  .map(field => (
+                    <li key={field} className="text-gray-700">
+                      <span className="font-medium">{courseFieldLabels[field]}</span>
+                      {longCourseFields.has(field) ? (
+                        <span className="text-gray-500"> was updated</span>
+                      ) : (
+                        <>
+                          {': '}
+                          <span className="text-gray-500 line-through">
+                            {formatCourseFieldValue(field, revision.changes[field].from)}
+                          </span>
+                          {' → '}
+                          <span>{formatCourseFieldValue(field, revision.changes[field].to)}</span>
+                        </>
+                      )}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-6">No changes since students enrolled</p>
+      )}
+    </div>
+  )
+}
@@ -1,107 +1,136 @@
-import React, { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { 
   BookOpen, 
   Clock, 
   Users, 
   Star, 
-  DollarSign,
   Search,
   Filter,
   Heart,
+  Hourglass,
   Play
 } from 'lucide-react'
-import { supabase } from '../../lib/supabase'
+import { Link, useSearchParams } from 'react-router-dom'
 import { useAuthContext } from '../../contexts/AuthContext'
+import { useRealtime } from '../../hooks/useRealtime'
+import { paths } from '../../lib/routes'
+import {
+  catalogDomains,
+  catalogSearchParams,
+  catalogSorts,
+  countAdvancedFilters,
+  parseCatalogFilters,
+  type CatalogFilters,
+  type CatalogSort
+} from '../../lib/catalog'
+import { searchCatalog, type CatalogCourse } from '../../lib/repositories/courses'
+import { enroll, joinWaitlist } from '../../lib/repositories/enrollments'
 
-interface Course {
-  id: string
-  title: string
-  description: string
-  domain: string
-  price: number
-  duration_hours: number
-  max_students?: number
-  course_image?: string
-  mentor_id: string
-  mentor?: {
-    full_name: string
-    profile_picture?: string
-    is_verified: boolean
-  }
-  enrollments?: { count: number }[]
-  reviews?: { rating: number }[]
-  is_enrolled?: boolean
+const PAGE_SIZE = 12
+
+const ratingFloors = [4.5, 4, 3]
+
+function parseNumberInput(value: string) {
+  return value === '' ? undefined : Number(value)
 }
 
 export function CourseList() {
-  const [courses, setCourses] = useState<Course[]>([])
-  const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [selectedDomain, setSelectedDomain] = useState('')
-  const [priceFilter, setPriceFilter] = useState('')
   const { profile } = useAuthContext()
-
-  const domains = [
-    'Python', 'JavaScript', 'React', 'UI/UX Design', 'Data Science', 
-    'Machine Learning', 'Web Development', 'Mobile Development', 
-    'DevOps', 'Cybersecurity', 'Resume Building', 'Interview Prep'
-  ]
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams])
+  const [courses, setCourses] = useState<CatalogCourse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [searchTerm, setSearchTerm] = useState(filters.query)
+  const [showMoreFilters, setShowMoreFilters] = useState(countAdvancedFilters(filters) > 0)
+  // Results of superseded requests are dropped when filters change mid-fetch
+  const latestRequest = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     fetchCourses()
-  }, [profile])
+  }, [profile, filters])
+
+  // Keep the box in step with the URL, e.g. after navigating back
+  useEffect(() => {
+    setSearchTerm(filters.query)
+  }, [filters.query])
+
+  // Typing only updates the URL (and searches) once the user pauses
+  useEffect(() => {
+    if (searchTerm === filters.query) return
+    const timeout = setTimeout(() => updateFilters({ query: searchTerm }), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  // Fetch the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || loading || loadingMore) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore()
+    }, { rootMargin: '200px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loading, loadingMore, courses.length])
+
+  // Keep ratings and enrollment status current while the catalog is open
+  useRealtime({
+    table: 'reviews',
+    onChange: () => fetchCourses(false),
+    onReconnect: () => fetchCourses(false)
+  })
+
+  useRealtime({
+    table: 'enrollments',
+    filter: `student_id=eq.${profile?.id}`,
+    enabled: !!profile,
+    onChange: () => fetchCourses(false)
+  })
+
+  const updateFilters = (changes: Partial<CatalogFilters>) => {
+    setSearchParams(catalogSearchParams({ ...filters, ...changes }), { replace: true })
+  }
 
-  const fetchCourses = async () => {
+  const clearFilters = () => {
+    setSearchTerm('')
+    setSearchParams(new URLSearchParams(), { replace: true })
+  }
+
+  const fetchCourses = async (showLoading = true) => {
+    const request = ++latestRequest.current
     try {
-      setLoading(true)
-      
-      // Fetch courses with mentor info and enrollment count
-      const { data: coursesData, error } = await supabase
-        .from('courses')
-        .select(`
-          *,
-          users!courses_mentor_id_fkey (
-            full_name,
-            profile_picture,
-            is_verified
-          ),
-          enrollments (count),
-          reviews (rating)
-        `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-
-      // Check enrollment status for current user
-      if (profile && coursesData) {
-        const courseIds = coursesData.map(c => c.id)
-        const { data: enrollmentData } = await supabase
-          .from('enrollments')
-          .select('course_id')
-          .eq('student_id', profile.id)
-          .in('course_id', courseIds)
-
-        const enrolledCourseIds = new Set(enrollmentData?.map(e => e.course_id) || [])
-
-        const coursesWithEnrollment = coursesData.map(course => ({
-          ...course,
-          mentor: course.users,
-          is_enrolled: enrolledCourseIds.has(course.id)
-        }))
-
-        setCourses(coursesWithEnrollment)
-      } else {
-        setCourses(coursesData?.map(course => ({
-          ...course,
-          mentor: course.users,
-          is_enrolled: false
-        })) || [])
-      }
+      if (showLoading) setLoading(true)
+
+      // Quiet refreshes reload every page already on screen
+      const limit = showLoading ? PAGE_SIZE : Math.max(courses.length, PAGE_SIZE)
+      const page = await searchCatalog(filters, 0, limit, profile?.id)
+      if (request !== latestRequest.current) return
+
+      setCourses(page)
+      setHasMore(page.length === limit)
     } catch (error) {
       console.error('Error fetching courses:', error)
     } finally {
-      setLoading(false)
+      if (request === latestRequest.current) setLoading(false)
+    }
+  }
+
+  const loadMore = async () => {
+    const request = latestRequest.current
+    setLoadingMore(true)
+    try {
+      const page = await searchCatalog(filters, courses.length, PAGE_SIZE, profile?.id)
+      if (request !== latestRequest.current) return
+
+      setCourses(prev => [...prev, ...page])
+      setHasMore(page.length === PAGE_SIZE)
+    } catch (error) {
+      console.error('Error fetching more courses:', error)
+    } finally {
+      setLoadingMore(false)
     }
   }
 
@@ -109,42 +138,32 @@ export function CourseList() {
     if (!profile) return
 
     try {
-      const { error } = await supabase
-        .from('enrollments')
-        .insert({
-          student_id: profile.id,
-          course_id: courseId
-        })
-
-      if (error) throw error
+      await enroll(profile.id, courseId)
 
       // Refresh courses to update enrollment status
-      fetchCourses()
+      fetchCourses(false)
     } catch (error) {
       console.error('Error enrolling in course:', error)
+      alert(error instanceof Error ? error.message : 'Could not enroll in this course')
+      // The last seat may have just been taken
+      fetchCourses(false)
     }
   }
 
-  const filteredCourses = courses.filter(course => {
-    const matchesSearch = course.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         course.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         course.domain.toLowerCase().includes(searchTerm.toLowerCase())
-    
-    const matchesDomain = !selectedDomain || course.domain === selectedDomain
-    
-    const matchesPrice = !priceFilter || 
-                        (priceFilter === 'free' && course.price === 0) ||
-                        (priceFilter === 'paid' && course.price > 0)
-
-    return matchesSearch && matchesDomain && matchesPrice
-  })
+  const handleJoinWaitlist = async (courseId: string) => {
+    try {
+      const position = await joinWaitlist(courseId)
+      alert(`You're #${position} on the waitlist. We'll let you know when a seat opens up.`)
+      fetchCourses(false)
+    } catch (error) {
+      console.error('Error joining waitlist:', error)
+      alert(error instanceof Error ? error.message : 'Could not join the waitlist')
+      fetchCourses(false)
+    }
+  }
 
-  const CourseCard = ({ course }: { course: Course }) => {
-    const averageRating = course.reviews?.length 
-      ? course.reviews.reduce((sum, r) => sum + r.rating, 0) / course.reviews.length 
-      : 0
-    
-    const enrollmentCount = course.enrollments?.[0]?.count || 0
+  const CourseCard = ({ course }: { course: CatalogCourse }) => {
+    const { enrollment_count, seats_left, average_rating } = course
 
     return (
       <div className="bg-white/70 backdrop-blur-lg rounded-2xl overflow-hidden border border-white/20 hover:shadow-xl transition-all duration-300 group">
@@ -180,7 +199,7 @@ export function CourseList() {
         {/* Course Content */}
         <div className="p-6">
           <h3 className="text-xl font-bold text-gray-900 mb-2 group-hover:text-purple-600 transition-colors">
-            {course.title}
+            <Link to={paths.course(course.id)}>{course.title}</Link>
           </h3>
           
           <p className="text-gray-600 text-sm mb-4 line-clamp-2">
@@ -190,10 +209,10 @@ export function CourseList() {
           {/* Mentor Info */}
           <div className="flex items-center space-x-3 mb-4">
             <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center">
-              {course.mentor?.profile_picture ? (
+              {course.mentor_picture ? (
                 <img 
-                  src={course.mentor.profile_picture} 
-                  alt={course.mentor.full_name}
+                  src={course.mentor_picture} 
+                  alt={course.mentor_name}
                   className="w-8 h-8 rounded-full object-cover"
                 />
               ) : (
@@ -202,8 +221,8 @@ export function CourseList() {
             </div>
             <div>
               <p className="text-sm font-medium text-gray-900 flex items-center">
-                {course.mentor?.full_name}
-                {course.mentor?.is_verified && (
+                {course.mentor_name}
+                {course.mentor_verified && (
                   <span className="ml-1 text-blue-500">✓</span>
                 )}
               </p>
@@ -219,24 +238,55 @@ export function CourseList() {
               </div>
               <div className="flex items-center space-x-1">
                 <Users className="w-4 h-4" />
-                <span>{enrollmentCount}</span>
+                <span>{enrollment_count}</span>
               </div>
-              {averageRating > 0 && (
+              {average_rating !== null && (
                 <div className="flex items-center space-x-1">
                   <Star className="w-4 h-4 text-yellow-500" />
-                  <span>{averageRating.toFixed(1)}</span>
+                  <span>{Number(average_rating).toFixed(1)}</span>
                 </div>
               )}
             </div>
+            {seats_left !== null && !course.is_enrolled && (
+              <span className={seats_left === 0 ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                {seats_left === 0 ? 'Full' : `${seats_left} seats left`}
+              </span>
+            )}
           </div>
 
           {/* Action Button */}
           <div className="flex space-x-2">
             {course.is_enrolled ? (
-              <button className="flex-1 bg-green-500 text-white px-4 py-2 rounded-xl font-medium flex items-center justify-center space-x-2 hover:bg-green-600 transition-colors">
+              <Link
+                to={paths.course(course.id)}
+                className="flex-1 bg-green-500 text-white px-4 py-2 rounded-xl font-medium flex items-center justify-center space-x-2 hover:bg-green-600 transition-colors"
+              >
                 <Play className="w-4 h-4" />
                 <span>Continue Learning</span>
+              </Link>
+            ) : course.is_waitlisted ? (
+              <Link
+                to={paths.course(course.id)}
+                className="flex-1 bg-amber-50 text-amber-700 px-4 py-2 rounded-xl font-medium flex items-center justify-center space-x-2 hover:bg-amber-100 transition-colors"
+              >
+                <Hourglass className="w-4 h-4" />
+                <span>On Waitlist</span>
+              </Link>
+            ) : seats_left === 0 ? (
+              <button
+                onClick={() => handleJoinWaitlist(course.id)}
+                className="flex-1 border border-purple-300 text-purple-700 px-4 py-2 rounded-xl font-medium hover:bg-purple-50 transition-colors"
+              >
+                Join Waitlist
               </button>
+            ) : course.price > 0 ? (
+              // Paid courses go through checkout on the course page
+              <Link
+                to={paths.course(course.id)}
+                className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white px-4 py-2 rounded-xl font-medium text-center hover:from-purple-600 hover:to-blue-600 transition-all"
+              >
+                Buy for ₹{course.price}
+              </Link>
             ) : (
               <button 
                 onClick={() => handleEnroll(course.id)}
@@ -255,6 +305,9 @@ export function CourseList() {
     )
   }
 
+  const advancedCount = countAdvancedFilters(filters)
+  const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
@@ -264,7 +317,7 @@ export function CourseList() {
       </div>
 
       {/* Filters */}
-      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 space-y-4">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           {/* Search */}
           <div className="relative">
@@ -280,33 +333,123 @@ export function CourseList() {
 
           {/* Domain Filter */}
           <select
-            value={selectedDomain}
-            onChange={(e) => setSelectedDomain(e.target.value)}
+            value={filters.domain}
+            onChange={(e) => updateFilters({ domain: e.target.value })}
             className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
           >
             <option value="">All Domains</option>
-            {domains.map(domain => (
+            {catalogDomains.map(domain => (
               <option key={domain} value={domain}>{domain}</option>
             ))}
           </select>
 
-          {/* Price Filter */}
+          {/* Sort */}
           <select
-            value={priceFilter}
-            onChange={(e) => setPriceFilter(e.target.value)}
+            value={filters.sort}
+            onChange={(e) => updateFilters({ sort: e.target.value as CatalogSort })}
             className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
           >
-            <option value="">All Prices</option>
-            <option value="free">Free</option>
-            <option value="paid">Paid</option>
+            {catalogSorts.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
           </select>
 
           {/* Filter Button */}
-          <button className="flex items-center justify-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors">
+          <button
+            onClick={() => setShowMoreFilters(!showMoreFilters)}
+            className={`flex items-center justify-center space-x-2 px-4 py-2 rounded-xl transition-colors ${
+              showMoreFilters ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+          >
             <Filter className="w-4 h-4" />
-            <span>More Filters</span>
+            <span>More Filters{advancedCount > 0 ? ` (${advancedCount})` : ''}</span>
           </button>
         </div>
+
+        {showMoreFilters && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-4 border-t border-gray-200">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price (₹)</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Min"
+                  value={filters.minPrice ?? ''}
+                  onChange={(e) => updateFilters({ minPrice: parseNumberInput(e.target.value) })}
+                  className={inputClassName}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Max"
+                  value={filters.maxPrice ?? ''}
+                  onChange={(e) => updateFilters({ maxPrice: parseNumberInput(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Duration (hours)</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Min"
+                  value={filters.minHours ?? ''}
+                  onChange={(e) => updateFilters({ minHours: parseNumberInput(e.target.value) })}
+                  className={inputClassName}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Max"
+                  value={filters.maxHours ?? ''}
+                  onChange={(e) => updateFilters({ maxHours: parseNumberInput(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rating</label>
+              <select
+                value={filters.minRating ?? ''}
+                onChange={(e) => updateFilters({ minRating: parseNumberInput(e.target.value) })}
+                className={inputClassName}
+              >
+                <option value="">Any rating</option>
+                {ratingFloors.map(rating => (
+                  <option key={rating} value={rating}>{rating}+ stars</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2 md:pt-6">
+              <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.verifiedOnly}
+                  onChange={(e) => updateFilters({ verifiedOnly: e.target.checked })}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Verified mentors only</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.seatsAvailable}
+                  onChange={(e) => updateFilters({ seatsAvailable: e.target.checked })}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Seats available</span>
+              </label>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Course Grid */}
@@ -316,19 +459,38 @@ export function CourseList() {
             <div key={i} className="bg-gray-200 rounded-2xl h-96 animate-pulse" />
           ))}
         </div>
-      ) : filteredCourses.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredCourses.map(course => (
-            <CourseCard key={course.id} course={course} />
-          ))}
-        </div>
+      ) : courses.length > 0 ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {courses.map(course => (
+              <CourseCard key={course.id} course={course} />
+            ))}
+          </div>
+
+          <div ref={sentinelRef} />
+          {loadingMore && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="bg-gray-200 rounded-2xl h-96 animate-pulse" />
+              ))}
+            </div>
+          )}
+        </>
       ) : (
         <div className="text-center py-12">
           <BookOpen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No courses found</h3>
-          <p className="text-gray-600">Try adjusting your search criteria</p>
+          <p className="text-gray-600 mb-4">Try adjusting your search criteria</p>
+          {searchParams.toString() && (
+            <button
+              onClick={clearFilters}
+              className="px-4 py-2 text-purple-600 hover:bg-purple-50 rounded-xl transition-colors"
+            >
+              Clear all filters
+            </button>
+          )}
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,63 +1,58 @@
-import React, { useState } from 'react'
-import { Upload, BookOpen, DollarSign, Clock, Users, Link } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { BookOpen } from 'lucide-react'
 import { useAuthContext } from '../../contexts/AuthContext'
-import { supabase } from '../../lib/supabase'
+import { useAutosave } from '../../hooks/useAutosave'
+import { paths, routes } from '../../lib/routes'
+import { createCourse, getCourseSettings } from '../../lib/repositories/courses'
+import { courseFormPayload, emptyCourseForm, type CourseFormValues } from '../../lib/courseForm'
+import type { CourseStatus } from '../../lib/supabase'
+import { CourseForm } from './CourseForm'
+import { AutosaveIndicator } from './AutosaveIndicator'
 
 export function CreateCourse() {
   const { profile } = useAuthContext()
+  const navigate = useNavigate()
   const [loading, setLoading] = useState(false)
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    domain: '',
-    price: 0,
-    duration_hours: 1,
-    max_students: '',
-    session_link: '',
-    course_image: '',
-  })
+  const [formData, setFormData] = useState<CourseFormValues>(emptyCourseForm)
+  const [requireApproval, setRequireApproval] = useState(false)
+
+  useEffect(() => {
+    getCourseSettings()
+      .then(settings => setRequireApproval(!!settings?.require_approval))
+      .catch(error => console.error('Error fetching course settings:', error))
+  }, [])
+
+  const saveCourse = async (values: CourseFormValues, status: CourseStatus) => {
+    if (!profile) throw new Error('Not signed in')
+
+    return createCourse({
+      mentor_id: profile.id,
+      ...courseFormPayload(values),
+      status
+    })
+  }
 
-  const domains = [
-    'Python', 'JavaScript', 'React', 'UI/UX Design', 'Data Science', 
-    'Machine Learning', 'Web Development', 'Mobile Development', 
-    'DevOps', 'Cybersecurity', 'Resume Building', 'Interview Prep'
-  ]
+  // The first autosave creates the draft; the edit page keeps saving it
+  const autosave = useAutosave(formData, async values => {
+    const course = await saveCourse(values, 'draft')
+    navigate(paths.editCourse(course.id), { replace: true })
+  }, { enabled: !loading && formData.title.trim() !== '' })
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!profile) return
+  const handleSubmit = async () => {
+    // The draft is being created; it can be published from the edit page
+    if (autosave.state === 'saving') return
 
     setLoading(true)
     try {
-      const { error } = await supabase
-        .from('courses')
-        .insert({
-          mentor_id: profile.id,
-          title: formData.title,
-          description: formData.description,
-          domain: formData.domain,
-          price: formData.price,
-          duration_hours: formData.duration_hours,
-          max_students: formData.max_students ? parseInt(formData.max_students) : null,
-          session_link: formData.session_link,
-          course_image: formData.course_image || null,
-        })
-
-      if (error) throw error
-
-      // Reset form
-      setFormData({
-        title: '',
-        description: '',
-        domain: '',
-        price: 0,
-        duration_hours: 1,
-        max_students: '',
-        session_link: '',
-        course_image: '',
-      })
-
-      alert('Course created successfully!')
+      const course = await saveCourse(formData, 'published')
+
+      if (course.status === 'in_review') {
+        alert('Course submitted for review. You will be notified when an admin has looked at it.')
+        navigate(paths.editCourse(course.id))
+      } else {
+        navigate(paths.course(course.id))
+      }
     } catch (error) {
       console.error('Error creating course:', error)
       alert('Error creating course. Please try again.')
@@ -66,6 +61,25 @@ export function CreateCourse() {
     }
   }
 
+  const handleSaveDraft = async () => {
+    if (!formData.title.trim()) {
+      alert('Give your course a title before saving it as a draft.')
+      return
+    }
+    if (autosave.state === 'saving') return
+
+    setLoading(true)
+    try {
+      const course = await saveCourse(formData, 'draft')
+      navigate(paths.editCourse(course.id), { replace: true })
+    } catch (error) {
+      console.error('Error saving draft:', error)
+      alert('Error saving draft. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   if (profile?.role !== 'mentor' && profile?.role !== 'admin') {
     // Allow 2nd year+ students to create courses
     if (profile?.year_of_study < 2) {
@@ -77,7 +91,10 @@ export function CreateCourse() {
             <p className="text-gray-600 mb-4">
               You need to be in 2nd year or above to create courses and mentor juniors.
             </p>
-            <button className="bg-purple-500 text-white px-6 py-2 rounded-xl hover:bg-purple-600 transition-colors">
+            <button
+              onClick={() => navigate(routes.mentorApplication)}
+              className="bg-purple-500 text-white px-6 py-2 rounded-xl hover:bg-purple-600 transition-colors"
+            >
               Request Early Access
             </button>
           </div>
@@ -94,179 +111,35 @@ export function CreateCourse() {
       </div>
 
       <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Course Title */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Course Title *
-            </label>
-            <input
-              type="text"
-              required
-              value={formData.title}
-              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              placeholder="e.g., Complete Python for Beginners"
-            />
-          </div>
-
-          {/* Course Description */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Course Description *
-            </label>
-            <textarea
-              required
-              rows={4}
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              placeholder="Describe what students will learn in this course..."
-            />
-          </div>
-
-          {/* Domain and Price Row */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Domain *
-              </label>
-              <select
-                required
-                value={formData.domain}
-                onChange={(e) => setFormData({ ...formData, domain: e.target.value })}
-                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              >
-                <option value="">Select a domain</option>
-                {domains.map(domain => (
-                  <option key={domain} value={domain}>{domain}</option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Price (₹) *
-              </label>
-              <div className="relative">
-                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  type="number"
-                  min="0"
-                  required
-                  value={formData.price}
-                  onChange={(e) => setFormData({ ...formData, price: parseFloat(e.target.value) || 0 })}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  placeholder="0 for free course"
-                />
-              </div>
-            </div>
-          </div>
-
-          {/* Duration and Max Students Row */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Duration (hours) *
-              </label>
-              <div className="relative">
-                <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  type="number"
-                  min="1"
-                  required
-                  value={formData.duration_hours}
-                  onChange={(e) => setFormData({ ...formData, duration_hours: parseInt(e.target.value) || 1 })}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  placeholder="Duration in hours"
-                />
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Max Students (optional)
-              </label>
-              <div className="relative">
-                <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  type="number"
-                  min="1"
-                  value={formData.max_students}
-                  onChange={(e) => setFormData({ ...formData, max_students: e.target.value })}
-                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  placeholder="Leave empty for unlimited"
-                />
-              </div>
-            </div>
-          </div>
-
-          {/* Session Link */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Session Link (Google Meet, Zoom, etc.)
-            </label>
-            <div className="relative">
-              <Link className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-              <input
-                type="url"
-                value={formData.session_link}
-                onChange={(e) => setFormData({ ...formData, session_link: e.target.value })}
-                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                placeholder="https://meet.google.com/..."
-              />
-            </div>
-          </div>
-
-          {/* Course Image */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Course Image URL (optional)
-            </label>
-            <div className="relative">
-              <Upload className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-              <input
-                type="url"
-                value={formData.course_image}
-                onChange={(e) => setFormData({ ...formData, course_image: e.target.value })}
-                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                placeholder="https://example.com/image.jpg"
-              />
-            </div>
-            {formData.course_image && (
-              <div className="mt-2">
-                <img 
-                  src={formData.course_image} 
-                  alt="Course preview"
-                  className="w-32 h-20 object-cover rounded-lg border border-gray-200"
-                  onError={(e) => {
-                    const target = e.target as HTMLImageElement
-                    target.style.display = 'none'
-                  }}
-                />
-              </div>
-            )}
-          </div>
+        <div className="flex justify-end mb-4 h-5">
+          <AutosaveIndicator state={autosave.state} savedAt={autosave.savedAt} dirty={autosave.dirty} />
+        </div>
 
-          {/* Submit Button */}
-          <div className="flex space-x-4">
-            <button
-              type="submit"
-              disabled={loading}
-              className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white py-3 px-6 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? 'Creating Course...' : 'Create Course'}
-            </button>
-            
-            <button
-              type="button"
-              className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
-            >
-              Save as Draft
-            </button>
-          </div>
-        </form>
+        <CourseForm values={formData} onChange={setFormData} onSubmit={handleSubmit}>
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white py-3 px-6 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Saving...' : requireApproval ? 'Submit for Review' : 'Create Course'}
+          </button>
+
+          <button
+            type="button"
+            onClick={handleSaveDraft}
+            disabled={loading}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Save as Draft
+          </button>
+        </CourseForm>
+
+        {requireApproval && (
+          <p className="text-xs text-gray-500 mt-4">
+            New courses are checked by an admin before they appear in the catalog.
+          </p>
+        )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { AlertCircle, ArrowLeft, Clock, ExternalLink, Users } from 'lucide-react'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { useAutosave } from '../../hooks/useAutosave'
+import { paths, routes } from '../../lib/routes'
+import type { CourseStatus } from '../../lib/supabase'
+import {
+  getCourse,
+  getCourseSessionLink,
+  getCourseSettings,
+  listCourseRevisions,
+  listCourseStats,
+  updateCourse,
+  type Course,
+  type CourseRevision
+} from '../../lib/repositories/courses'
+import { courseFormPayload, courseFormValues, emptyCourseForm, type CourseFormValues } from '../../lib/courseForm'
+import { courseStatusLabels, courseStatusStyles } from '../../lib/courseLifecycle'
+import { NotFound } from '../Layout/NotFound'
+import { CourseForm } from './CourseForm'
+import { CourseHistory } from './CourseHistory'
+import { AutosaveIndicator } from './AutosaveIndicator'
+
+export function EditCourse() {
+  const { id } = useParams()
+  const { profile } = useAuthContext()
+  const [course, setCourse] = useState<Course | null>(null)
+  const [formData, setFormData] = useState<CourseFormValues>(emptyCourseForm)
+  const [enrollmentCount, setEnrollmentCount] = useState(0)
+  const [revisions, setRevisions] = useState<CourseRevision[]>([])
+  const [requireApproval, setRequireApproval] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // Only drafts save as you type; changes to a live course are saved on purpose
+  const autosave = useAutosave(formData, async values => {
+    if (!course) return
+    setCourse(await updateCourse(course.id, courseFormPayload(values)))
+  }, { enabled: !loading && !saving && course?.status === 'draft' })
+
+  useEffect(() => {
+    if (id && profile) {
+      fetchCourse(id)
+    }
+  }, [id, profile])
+
+  const fetchCourse = async (courseId: string) => {
+    try {
+      setLoading(true)
+
+      const [courseData, sessionLink, statsById, revisionsData, settings] = await Promise.all([
+        getCourse(courseId),
+        getCourseSessionLink(courseId),
+        listCourseStats([courseId]),
+        listCourseRevisions(courseId),
+        getCourseSettings()
+      ])
+
+      setCourse(courseData)
+      if (courseData) {
+        const values = courseFormValues(courseData, sessionLink)
+        autosave.markSaved(values)
+        setFormData(values)
+      }
+      setEnrollmentCount(statsById.get(courseId)?.enrollment_count || 0)
+      setRevisions(revisionsData)
+      setRequireApproval(!!settings?.require_approval)
+    } catch (error) {
+      console.error('Error fetching course:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const refreshRevisions = async (courseId: string) => {
+    try {
+      setRevisions(await listCourseRevisions(courseId))
+    } catch (error) {
+      console.error('Error fetching course history:', error)
+    }
+  }
+
+  // Unsaved edits go along with the status change
+  const changeStatus = async (status: CourseStatus, confirmMessage?: string) => {
+    if (!course || autosave.state === 'saving') return
+    if (confirmMessage && !confirm(confirmMessage)) return
+
+    setSaving(true)
+    try {
+      const updated = await updateCourse(course.id, { ...courseFormPayload(formData), status })
+      autosave.markSaved(formData)
+      setCourse(updated)
+      refreshRevisions(course.id)
+
+      if (status === 'published' && updated.status === 'in_review') {
+        alert('Course submitted for review. You will be notified when an admin has looked at it.')
+      }
+    } catch (error) {
+      console.error('Error updating course status:', error)
+      alert((error as { message?: string }).message || 'Error updating the course. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveChanges = async () => {
+    if (!course) return
+    if (enrollmentCount > 0 && !confirm(
+      `${enrollmentCount} student${enrollmentCount === 1 ? ' is' : 's are'} enrolled. Your changes will be listed in the course history they can see. Save them?`
+    )) return
+
+    setSaving(true)
+    try {
+      setCourse(await updateCourse(course.id, courseFormPayload(formData)))
+      autosave.markSaved(formData)
+      refreshRevisions(course.id)
+    } catch (error) {
+      console.error('Error saving course:', error)
+      alert('Error saving your changes. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!profile) return null
+
+  if (loading) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        <div className="bg-gray-200 rounded-2xl h-24 animate-pulse" />
+        <div className="bg-gray-200 rounded-2xl h-96 animate-pulse" />
+      </div>
+    )
+  }
+
+  // Only the course's mentor edits it
+  if (!course || course.mentor_id !== profile.id) return <NotFound />
+
+  const publishLabel = requireApproval ? 'Submit for Review' : 'Publish Course'
+  const secondaryButton = 'px-6 py-3 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50'
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-6">
+      <Link
+        to={routes.mentorCourses}
+        className="inline-flex items-center space-x-2 text-purple-600 hover:text-purple-700 font-medium"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to My Teaching</span>
+      </Link>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3 mb-1">
+            <h1 className="text-3xl font-bold text-gray-900">Edit Course</h1>
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${courseStatusStyles[course.status]}`}>
+              {courseStatusLabels[course.status]}
+            </span>
+          </div>
+          <p className="text-gray-600">{course.title || 'Untitled course'}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {course.status === 'draft' && (
+            <AutosaveIndicator state={autosave.state} savedAt={autosave.savedAt} dirty={autosave.dirty} />
+          )}
+          <Link
+            to={paths.course(course.id)}
+            className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+          >
+            <ExternalLink className="w-4 h-4" />
+            <span>View course page</span>
+          </Link>
+        </div>
+      </div>
+
+      {/* Status Notes */}
+      {course.status === 'draft' && course.review_notes && (
+        <div className="flex items-start space-x-3 p-4 bg-amber-50 border border-amber-200 rounded-2xl text-amber-800">
+          <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">An admin asked for changes</p>
+            <p className="text-sm whitespace-pre-wrap">{course.review_notes}</p>
+          </div>
+        </div>
+      )}
+      {course.status === 'in_review' && (
+        <div className="flex items-start space-x-3 p-4 bg-amber-50 border border-amber-200 rounded-2xl text-amber-800">
+          <Clock className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p className="text-sm">
+            Waiting for an admin to review this course
+            {course.submitted_at && ` (submitted ${new Date(course.submitted_at).toLocaleDateString()})`}.
+            It will appear in the catalog once approved.
+          </p>
+        </div>
+      )}
+      {course.status === 'archived' && (
+        <div className="p-4 bg-slate-100 border border-slate-200 rounded-2xl text-sm text-slate-700">
+          This course is hidden from the catalog and isn't taking enrollments. Enrolled students keep access.
+        </div>
+      )}
+      {enrollmentCount > 0 && (
+        <div className="flex items-center space-x-3 p-4 bg-blue-50 border border-blue-200 rounded-2xl text-sm text-blue-800">
+          <Users className="w-5 h-5 flex-shrink-0" />
+          <p>
+            {enrollmentCount} student{enrollmentCount === 1 ? ' is' : 's are'} enrolled. Changes you save are recorded
+            in the course history below.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
+        <CourseForm
+          values={formData}
+          onChange={setFormData}
+          onSubmit={() => course.status === 'draft' ? changeStatus('published') : saveChanges()}
+        >
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 bg-gradient-to-r from-purple-500 to-blue-500 text-white py-3 px-6 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : course.status === 'draft' ? publishLabel : 'Save Changes'}
+          </button>
+
+          {course.status === 'draft' && (
+            <button
+              type="button"
+              onClick={() => changeStatus('archived', 'Archive this draft? You can move it back to drafts later.')}
+              disabled={saving}
+              className={secondaryButton}
+            >
+              Archive Draft
+            </button>
+          )}
+          {course.status === 'in_review' && (
+            <button
+              type="button"
+              onClick={() => changeStatus('draft')}
+              disabled={saving}
+              className={secondaryButton}
+            >
+              Withdraw from Review
+            </button>
+          )}
+          {course.status === 'published' && (
+            <button
+              type="button"
+              onClick={() => changeStatus(
+                'archived',
+                'Archive this course? It will be hidden from the catalog and stop taking enrollments. Enrolled students keep access.'
+              )}
+              disabled={saving}
+              className="px-6 py-3 border border-red-300 text-red-600 rounded-xl hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              Archive Course
+            </button>
+          )}
+          {course.status === 'archived' && (
+            <>
+              <button
+                type="button"
+                onClick={() => changeStatus('published')}
+                disabled={saving}
+                className={secondaryButton}
+              >
+                {requireApproval ? 'Submit for Review' : 'Republish'}
+              </button>
+              <button
+                type="button"
+                onClick={() => changeStatus('draft')}
+                disabled={saving}
+                className={secondaryButton}
+              >
+                Move to Drafts
+              </button>
+            </>
+          )}
+        </CourseForm>
+      </div>
+
+      {(enrollmentCount > 0 || revisions.length > 0) && <CourseHistory revisions={revisions} />}
+    </div>
+  )
+}
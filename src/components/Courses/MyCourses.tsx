@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  Award,
+  BookOpen,
+  Calendar,
+  Play,
+  RotateCcw,
+  Search,
+  XCircle
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths, routes } from '../../lib/routes'
+import { listStudentEnrollments, type StudentEnrollment } from '../../lib/repositories/enrollments'
+
+type EnrolledCourse = StudentEnrollment & {
+  progress_percent: number
+  certificate?: {
+    certificate_id: string
+    issued_at: string
+  }
+  next_session?: {
+    session_date: string
+    duration_minutes: number
+  }
+}
+
+type CourseGroup = 'in-progress' | 'completed' | 'dropped'
+type SortOption = 'recent' | 'oldest' | 'title' | 'progress'
+
+const groupLabels: Record<CourseGroup, string> = {
+  'in-progress': 'In Progress',
+  completed: 'Completed',
+  dropped: 'Dropped',
+}
+
+function getGroup(enrollment: EnrolledCourse): CourseGroup {
+  if (enrollment.is_completed) return 'completed'
+  if (enrollment.dropped_at) return 'dropped'
+  return 'in-progress'
+}
+
+export function MyCourses() {
+  const { profile } = useAuthContext()
+  const [enrollments, setEnrollments] = useState<EnrolledCourse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [activeGroup, setActiveGroup] = useState<CourseGroup>('in-progress')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [selectedDomain, setSelectedDomain] = useState('')
+  const [sortBy, setSortBy] = useState<SortOption>('recent')
+
+  useEffect(() => {
+    if (profile) {
+      fetchMyCourses()
+    }
+  }, [profile])
+
+  const fetchMyCourses = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [enrollmentsData, progressRes, certificatesRes] = await Promise.all([
+        listStudentEnrollments(profile.id),
+        supabase
+          .from('enrollment_progress')
+          .select('enrollment_id, progress_percent')
+          .eq('student_id', profile.id),
+        supabase
+          .from('certificates')
+          .select('course_id, certificate_id, issued_at')
+          .eq('student_id', profile.id)
+      ])
+
+      const courseIds = enrollmentsData.map(e => e.course_id)
+      const { data: sessionsData } = await supabase
+        .from('sessions')
+        .select('course_id, session_date, duration_minutes')
+        .in('course_id', courseIds)
+        .eq('is_completed', false)
+        .is('cancelled_at', null)
+        .gte('session_date', new Date().toISOString())
+        .order('session_date', { ascending: true })
+
+      // Sessions are sorted, so the first one seen per course is the next one
+      const nextSessions = new Map<string, { session_date: string; duration_minutes: number }>()
+      sessionsData?.forEach(session => {
+        if (!nextSessions.has(session.course_id)) {
+          nextSessions.set(session.course_id, session)
+        }
+      })
+
+      const progressByEnrollment = new Map(
+        progressRes.data?.map(p => [p.enrollment_id, p.progress_percent]) || []
+      )
+      const certificatesByCourse = new Map(
+        certificatesRes.data?.map(c => [c.course_id, c]) || []
+      )
+
+      setEnrollments(enrollmentsData.map(enrollment => ({
+        ...enrollment,
+        progress_percent: enrollment.is_completed ? 100 : progressByEnrollment.get(enrollment.id) || 0,
+        certificate: certificatesByCourse.get(enrollment.course_id),
+        next_session: nextSessions.get(enrollment.course_id)
+      })))
+    } catch (error) {
+      console.error('Error fetching my courses:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSetDropped = async (enrollmentId: string, dropped: boolean) => {
+    if (dropped && !confirm('Drop this course? Your progress is kept, but your seat may go to someone on the waitlist.')) return
+
+    try {
+      const { error } = await supabase.rpc('set_enrollment_dropped', {
+        p_enrollment_id: enrollmentId,
+        p_dropped: dropped
+      })
+
+      if (error) throw error
+      fetchMyCourses()
+    } catch (error) {
+      console.error('Error updating enrollment:', error)
+      // Resuming fails once the seat has been given away
+      alert(error instanceof Error ? error.message : 'Could not update this enrollment')
+    }
+  }
+
+  const domains = Array.from(new Set(enrollments.map(e => e.course?.domain).filter(Boolean))) as string[]
+
+  const groupCounts = enrollments.reduce((acc, enrollment) => {
+    acc[getGroup(enrollment)] += 1
+    return acc
+  }, { 'in-progress': 0, completed: 0, dropped: 0 } as Record<CourseGroup, number>)
+
+  const visibleEnrollments = enrollments
+    .filter(enrollment => getGroup(enrollment) === activeGroup)
+    .filter(enrollment => {
+      const matchesSearch = !searchTerm ||
+        enrollment.course?.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        enrollment.course?.mentor?.full_name.toLowerCase().includes(searchTerm.toLowerCase())
+      const matchesDomain = !selectedDomain || enrollment.course?.domain === selectedDomain
+
+      return matchesSearch && matchesDomain
+    })
+    .sort((a, b) => {
+      switch (sortBy) {
+        case 'oldest':
+          return new Date(a.enrolled_at).getTime() - new Date(b.enrolled_at).getTime()
+        case 'title':
+          return (a.course?.title || '').localeCompare(b.course?.title || '')
+        case 'progress':
+          return b.progress_percent - a.progress_percent
+        default:
+          return new Date(b.enrolled_at).getTime() - new Date(a.enrolled_at).getTime()
+      }
+    })
+
+  if (!profile) return null
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">My Courses</h1>
+        <p className="text-gray-600">Pick up where you left off</p>
+      </div>
+
+      {/* Groups and Filters */}
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(groupLabels) as CourseGroup[]).map(group => (
+            <button
+              key={group}
+              onClick={() => setActiveGroup(group)}
+              className={`px-4 py-2 rounded-xl font-medium transition-colors ${
+                activeGroup === group
+                  ? 'bg-purple-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {groupLabels[group]} ({groupCounts[group]})
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search by course or mentor..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          <select
+            value={selectedDomain}
+            onChange={(e) => setSelectedDomain(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">All Domains</option>
+            {domains.map(domain => (
+              <option key={domain} value={domain}>{domain}</option>
+            ))}
+          </select>
+
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as SortOption)}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="recent">Recently enrolled</option>
+            <option value="oldest">Oldest first</option>
+            <option value="title">Title (A–Z)</option>
+            <option value="progress">Most progress</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Course List */}
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-32 animate-pulse" />
+          ))}
+        </div>
+      ) : visibleEnrollments.length > 0 ? (
+        <div className="space-y-4">
+          {visibleEnrollments.map(enrollment => (
+            <div
+              key={enrollment.id}
+              className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 hover:shadow-lg transition-all flex flex-col md:flex-row md:items-center gap-6"
+            >
+              <div className="w-full md:w-32 h-20 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl overflow-hidden flex items-center justify-center flex-shrink-0">
+                {enrollment.course?.course_image ? (
+                  <img
+                    src={enrollment.course.course_image}
+                    alt={enrollment.course.title}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <BookOpen className="w-8 h-8 text-white" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2 mb-1">
+                  <span className="px-2 py-0.5 bg-purple-100 text-purple-800 text-xs rounded-full">
+                    {enrollment.course?.domain}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    Enrolled {new Date(enrollment.enrolled_at).toLocaleDateString()}
+                  </span>
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 truncate">{enrollment.course?.title}</h3>
+                <p className="text-sm text-gray-600">by {enrollment.course?.mentor?.full_name}</p>
+
+                <div className="flex items-center space-x-2 mt-3">
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+                      style={{ width: `${enrollment.progress_percent}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-gray-500">{enrollment.progress_percent}%</span>
+                </div>
+
+                {activeGroup === 'in-progress' && (
+                  <p className="flex items-center space-x-1 text-xs text-gray-500 mt-2">
+                    <Calendar className="w-3 h-3" />
+                    <span>
+                      {enrollment.next_session
+                        ? `Next session ${new Date(enrollment.next_session.session_date).toLocaleString(undefined, {
+                            dateStyle: 'medium',
+                            timeStyle: 'short'
+                          })}`
+                        : 'No upcoming sessions'}
+                    </span>
+                  </p>
+                )}
+
+                {enrollment.certificate && (
+                  <Link
+                    to={paths.certificate(enrollment.certificate.certificate_id)}
+                    className="flex items-center space-x-1 text-xs text-green-700 hover:text-green-800 mt-2"
+                  >
+                    <Award className="w-3 h-3" />
+                    <span>
+                      Certificate {enrollment.certificate.certificate_id} • issued {new Date(enrollment.certificate.issued_at).toLocaleDateString()}
+                    </span>
+                  </Link>
+                )}
+              </div>
+
+              <div className="flex md:flex-col gap-2 md:w-40">
+                {activeGroup === 'dropped' ? (
+                  <button
+                    onClick={() => handleSetDropped(enrollment.id, false)}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-purple-500 text-white px-4 py-2 rounded-xl font-medium hover:bg-purple-600 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    <span>Rejoin</span>
+                  </button>
+                ) : (
+                  <Link
+                    to={paths.course(enrollment.course_id)}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-green-500 text-white px-4 py-2 rounded-xl font-medium hover:bg-green-600 transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    <span>{activeGroup === 'completed' ? 'Review' : 'Resume'}</span>
+                  </Link>
+                )}
+
+                {activeGroup === 'in-progress' && (
+                  <button
+                    onClick={() => handleSetDropped(enrollment.id, true)}
+                    className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>Drop</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <BookOpen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {enrollments.length === 0 ? 'No courses yet' : `No ${groupLabels[activeGroup].toLowerCase()} courses`}
+          </h3>
+          <p className="text-gray-600 mb-4">
+            {enrollments.length === 0 ? 'Find something new to learn from your seniors.' : 'Try adjusting your filters.'}
+          </p>
+          {enrollments.length === 0 && (
+            <Link
+              to={routes.courses}
+              className="inline-block px-6 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+            >
+              Explore Courses
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -11,25 +11,35 @@ import {
   Clock,
   Trophy
 } from 'lucide-react'
+import { Link } from 'react-router-dom'
 import { useAuthContext } from '../../contexts/AuthContext'
 import { supabase } from '../../lib/supabase'
+import { getMentorStats } from '../../lib/repositories/courses'
+import { getLevelProgress } from '../../lib/levels'
+import { routes } from '../../lib/routes'
+import { useLevelCurve } from '../../hooks/useLevelCurve'
+import { useRealtime } from '../../hooks/useRealtime'
 
 interface DashboardStats {
   totalCourses: number
   completedCourses: number
   totalStudents: number
   averageRating: number
+  // Mentors only; null until someone enrolls
+  completionRate: number | null
   totalEarnings: number
   totalBadges: number
 }
 
 export function Dashboard() {
   const { profile } = useAuthContext()
+  const levelCurve = useLevelCurve()
   const [stats, setStats] = useState<DashboardStats>({
     totalCourses: 0,
     completedCourses: 0,
     totalStudents: 0,
     averageRating: 0,
+    completionRate: null,
     totalEarnings: 0,
     totalBadges: 0,
   })
@@ -43,40 +53,60 @@ export function Dashboard() {
     }
   }, [profile])
 
-  const fetchDashboardData = async () => {
+  // Mentors see enrollments in their courses (RLS narrows the unfiltered
+  // channel); students only their own
+  useRealtime({
+    table: 'enrollments',
+    filter: profile?.role === 'mentor' ? undefined : `student_id=eq.${profile?.id}`,
+    enabled: !!profile,
+    onChange: () => fetchDashboardData(false),
+    onReconnect: () => fetchDashboardData(false)
+  })
+
+  useRealtime({
+    table: 'reviews',
+    filter: `mentor_id=eq.${profile?.id}`,
+    enabled: profile?.role === 'mentor',
+    onChange: () => fetchDashboardData(false)
+  })
+
+  const fetchDashboardData = async (showLoading = true) => {
+    if (!profile) return
+
     try {
-      setLoading(true)
+      if (showLoading) setLoading(true)
       
-      if (profile?.role === 'mentor') {
-        // Fetch mentor stats
-        const [coursesRes, studentsRes, reviewsRes, badgesRes] = await Promise.all([
-          supabase.from('courses').select('*').eq('mentor_id', profile.id),
-          supabase.from('enrollments').select('*').eq('mentor_id', profile.id),
-          supabase.from('reviews').select('rating').eq('mentor_id', profile.id),
+      if (profile.role === 'mentor') {
+        // Totals are aggregated in the database
+        const [mentorStats, badgesRes] = await Promise.all([
+          getMentorStats(profile.id),
           supabase.from('user_badges').select('*, badges(*)').eq('user_id', profile.id)
         ])
 
-        const totalCourses = coursesRes.data?.length || 0
-        const totalStudents = studentsRes.data?.length || 0
-        const ratings = reviewsRes.data?.map(r => r.rating) || []
-        const averageRating = ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : 0
-        
         setStats({
-          totalCourses,
+          totalCourses: mentorStats?.course_count || 0,
           completedCourses: 0,
-          totalStudents,
-          averageRating,
+          totalStudents: mentorStats?.student_count || 0,
+          averageRating: Number(mentorStats?.average_rating ?? 0),
+          completionRate: mentorStats?.completion_rate ?? null,
           totalEarnings: profile.total_earnings,
           totalBadges: badgesRes.data?.length || 0,
         })
       } else {
         // Fetch student stats
-        const [enrollmentsRes, badgesRes] = await Promise.all([
-          supabase.from('enrollments').select('*, courses(*)').eq('student_id', profile.id),
-          supabase.from('user_badges').select('*, badges(*)').eq('user_id', profile.id)
+        const [enrollmentsRes, badgesRes, progressRes] = await Promise.all([
+          supabase.from('enrollments').select('*, courses(title, domain)').eq('student_id', profile.id),
+          supabase.from('user_badges').select('*, badges(*)').eq('user_id', profile.id),
+          supabase.from('enrollment_progress').select('enrollment_id, progress_percent').eq('student_id', profile.id)
         ])
 
-        const enrollments = enrollmentsRes.data || []
+        const progressByEnrollment = new Map(
+          progressRes.data?.map(p => [p.enrollment_id, p.progress_percent]) || []
+        )
+        const enrollments = (enrollmentsRes.data || []).map(enrollment => ({
+          ...enrollment,
+          progress_percent: enrollment.is_completed ? 100 : progressByEnrollment.get(enrollment.id) || 0
+        }))
         const completedCourses = enrollments.filter(e => e.is_completed).length
 
         setStats({
@@ -84,6 +114,7 @@ export function Dashboard() {
           completedCourses,
           totalStudents: 0,
           averageRating: 0,
+          completionRate: null,
           totalEarnings: 0,
           totalBadges: badgesRes.data?.length || 0,
         })
@@ -99,8 +130,7 @@ export function Dashboard() {
 
   if (!profile) return null
 
-  const levelProgress = ((profile.xp_points % 100) / 100) * 100
-  const nextLevelXP = (profile.level_number * 100) - profile.xp_points
+  const { percent: levelProgress, xpToNextLevel } = getLevelProgress(profile.xp_points, levelCurve)
 
   const StatCard = ({ title, value, icon: Icon, color, subtitle }: any) => (
     <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 hover:shadow-lg transition-all duration-300">
@@ -144,7 +174,7 @@ export function Dashboard() {
         <div className="mt-6">
           <div className="flex justify-between text-sm mb-2">
             <span>Progress to Level {profile.level_number + 1}</span>
-            <span>{nextLevelXP} XP to go</span>
+            <span>{xpToNextLevel} XP to go</span>
           </div>
           <div className="w-full bg-white/20 rounded-full h-3">
             <div 
@@ -170,6 +200,7 @@ export function Dashboard() {
               value={stats.totalStudents}
               icon={Users}
               color="bg-green-500"
+              subtitle={stats.completionRate !== null ? `${stats.completionRate}% completion rate` : undefined}
             />
             <StatCard
               title="Average Rating"
@@ -183,6 +214,7 @@ export function Dashboard() {
               value={`₹${stats.totalEarnings}`}
               icon={DollarSign}
               color="bg-purple-500"
+              subtitle={<Link to={routes.earnings} className="text-purple-600 hover:underline">View breakdown</Link>}
             />
           </>
         ) : (
@@ -240,6 +272,17 @@ export function Dashboard() {
                   <div className="flex-1">
                     <p className="font-medium text-gray-900">{course.courses?.title || course.title}</p>
                     <p className="text-sm text-gray-600">{course.courses?.domain || course.domain}</p>
+                    {course.progress_percent !== undefined && (
+                      <div className="flex items-center space-x-2 mt-1">
+                        <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+                            style={{ width: `${course.progress_percent}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-gray-500">{course.progress_percent}%</span>
+                      </div>
+                    )}
                   </div>
                   {course.is_completed && (
                     <div className="text-green-600">
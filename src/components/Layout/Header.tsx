@@ -1,20 +1,25 @@
-import React from 'react'
-import { User, LogOut, BookOpen, Award, Settings, Bell } from 'lucide-react'
+import { User, LogOut, BookOpen, Award, Settings } from 'lucide-react'
+import { Link } from 'react-router-dom'
 import { useAuthContext } from '../../contexts/AuthContext'
+import { routes } from '../../lib/routes'
+import { getLevelProgress } from '../../lib/levels'
+import { useLevelCurve } from '../../hooks/useLevelCurve'
+import { NotificationBell } from '../Notifications/NotificationBell'
 
 export function Header() {
   const { profile, signOut } = useAuthContext()
+  const levelCurve = useLevelCurve()
 
   if (!profile) return null
 
-  const levelProgress = ((profile.xp_points % 100) / 100) * 100
+  const levelProgress = getLevelProgress(profile.xp_points, levelCurve).percent
 
   return (
     <header className="bg-white/10 backdrop-blur-lg border-b border-white/20 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
-          <div className="flex items-center space-x-3">
+          <Link to={routes.dashboard} className="flex items-center space-x-3">
             <div className="w-10 h-10 bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl flex items-center justify-center">
               <BookOpen className="w-6 h-6 text-white" />
             </div>
@@ -24,7 +29,7 @@ export function Header() {
               </h1>
               <p className="text-xs text-gray-600">Grow Together</p>
             </div>
-          </div>
+          </Link>
 
           {/* User Info */}
           <div className="flex items-center space-x-6">
@@ -43,12 +48,7 @@ export function Header() {
             </div>
 
             {/* Notifications */}
-            <button className="relative p-2 text-gray-600 hover:text-purple-600 transition-colors">
-              <Bell className="w-5 h-5" />
-              <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full flex items-center justify-center">
-                <span className="text-white text-xs">2</span>
-              </span>
-            </button>
+            <NotificationBell userId={profile.id} />
 
             {/* Profile Dropdown */}
             <div className="relative group">
@@ -77,14 +77,20 @@ export function Header() {
                   <p className="text-sm text-gray-500">{profile.email}</p>
                 </div>
                 <div className="p-2">
-                  <button className="w-full flex items-center space-x-2 px-3 py-2 text-left text-gray-700 hover:bg-gray-50 rounded-lg transition-colors">
+                  <Link
+                    to={routes.settings}
+                    className="w-full flex items-center space-x-2 px-3 py-2 text-left text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+                  >
                     <Settings className="w-4 h-4" />
                     <span>Settings</span>
-                  </button>
-                  <button className="w-full flex items-center space-x-2 px-3 py-2 text-left text-gray-700 hover:bg-gray-50 rounded-lg transition-colors">
+                  </Link>
+                  <Link
+                    to={routes.achievements}
+                    className="w-full flex items-center space-x-2 px-3 py-2 text-left text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+                  >
                     <Award className="w-4 h-4" />
                     <span>Achievements</span>
-                  </button>
+                  </Link>
                   <button 
                     onClick={signOut}
                     className="w-full flex items-center space-x-2 px-3 py-2 text-left text-red-600 hover:bg-red-50 rounded-lg transition-colors"
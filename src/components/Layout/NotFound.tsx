@@ -0,0 +1,23 @@
+import { Link } from 'react-router-dom'
+import { Compass } from 'lucide-react'
+import { routes } from '../../lib/routes'
+
+export function NotFound() {
+  return (
+    <div className="p-6">
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-12 border border-white/20 text-center max-w-xl mx-auto">
+        <Compass className="w-16 h-16 text-purple-400 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Page not found</h1>
+        <p className="text-gray-600 mb-6">
+          The page you're looking for doesn't exist or may have been moved.
+        </p>
+        <Link
+          to={routes.dashboard}
+          className="inline-block bg-gradient-to-r from-purple-500 to-blue-500 text-white px-6 py-2 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all"
+        >
+          Back to Dashboard
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import React from 'react'
+import { Navigate } from 'react-router-dom'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { routes } from '../../lib/routes'
+import type { Database } from '../../lib/supabase'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+interface RouteGuardProps {
+  allow: (profile: UserProfile) => boolean
+  children: React.ReactNode
+}
+
+export function RouteGuard({ allow, children }: RouteGuardProps) {
+  const { profile } = useAuthContext()
+
+  if (!profile) return null
+
+  // Send users who can't see this screen back to their dashboard
+  if (!allow(profile)) {
+    return <Navigate to={routes.dashboard} replace />
+  }
+
+  return <>{children}</>
+}
@@ -1,4 +1,3 @@
-import React from 'react'
 import { 
   Home, 
   BookOpen, 
@@ -9,47 +8,72 @@ import {
   Users,
   Settings,
   BarChart3,
-  Crown
+  Crown,
+  Calendar,
+  Receipt,
+  Wallet,
+  Presentation,
+  ClipboardCheck,
+  type LucideIcon
 } from 'lucide-react'
+import { NavLink } from 'react-router-dom'
 import { useAuthContext } from '../../contexts/AuthContext'
+import { routes } from '../../lib/routes'
+import { canMentor, isAdmin } from '../../lib/permissions'
 
-interface SidebarProps {
-  activeView: string
-  onViewChange: (view: string) => void
+interface MenuItem {
+  path: string
+  label: string
+  icon: LucideIcon
+  color: string
 }
 
-export function Sidebar({ activeView, onViewChange }: SidebarProps) {
+export function Sidebar() {
   const { profile } = useAuthContext()
 
   if (!profile) return null
 
-  const menuItems = [
-    { id: 'dashboard', label: 'Dashboard', icon: Home, color: 'text-blue-600' },
-    { id: 'courses', label: 'Explore Courses', icon: BookOpen, color: 'text-green-600' },
-    { id: 'community', label: 'Learning Community', icon: Users, color: 'text-indigo-600' },
-    { id: 'my-courses', label: 'My Courses', icon: User, color: 'text-purple-600' },
-    { id: 'profile', label: 'Profile', icon: User, color: 'text-gray-600' },
-    { id: 'achievements', label: 'Achievements', icon: Award, color: 'text-yellow-600' },
-    { id: 'reviews', label: 'Reviews', icon: Star, color: 'text-orange-600' },
+  const menuItems: MenuItem[] = [
+    { path: routes.dashboard, label: 'Dashboard', icon: Home, color: 'text-blue-600' },
+    { path: routes.courses, label: 'Explore Courses', icon: BookOpen, color: 'text-green-600' },
+    { path: routes.community, label: 'Learning Community', icon: Users, color: 'text-indigo-600' },
+    { path: routes.myCourses, label: 'My Courses', icon: User, color: 'text-purple-600' },
+    { path: routes.schedule, label: 'Schedule', icon: Calendar, color: 'text-blue-600' },
+    { path: routes.profile, label: 'Profile', icon: User, color: 'text-gray-600' },
+    { path: routes.achievements, label: 'Achievements', icon: Award, color: 'text-yellow-600' },
+    { path: routes.reviews, label: 'Reviews', icon: Star, color: 'text-orange-600' },
+    { path: routes.orders, label: 'Purchases', icon: Receipt, color: 'text-emerald-600' },
   ]
 
   // Add mentor-specific items
-  if (profile.role === 'mentor' || profile.role === 'admin' || profile.year_of_study >= 2) {
+  if (canMentor(profile)) {
     menuItems.splice(3, 0, 
-      { id: 'create-course', label: 'Create Course', icon: PlusCircle, color: 'text-indigo-600' },
-      { id: 'my-students', label: 'My Students', icon: Users, color: 'text-teal-600' }
+      { path: routes.createCourse, label: 'Create Course', icon: PlusCircle, color: 'text-indigo-600' },
+      { path: routes.mentorCourses, label: 'My Teaching', icon: Presentation, color: 'text-purple-600' },
+      { path: routes.myStudents, label: 'My Students', icon: Users, color: 'text-teal-600' },
+      { path: routes.earnings, label: 'Earnings', icon: Wallet, color: 'text-emerald-600' }
+    )
+  }
+
+  // Students below the mentoring threshold can apply instead
+  if (!canMentor(profile)) {
+    menuItems.splice(4, 0,
+      { path: routes.mentorApplication, label: 'Become a Mentor', icon: Crown, color: 'text-amber-600' }
     )
   }
 
   // Add admin-specific items
-  if (profile.role === 'admin') {
+  if (isAdmin(profile)) {
     menuItems.push(
-      { id: 'analytics', label: 'Analytics', icon: BarChart3, color: 'text-pink-600' },
-      { id: 'mentor-requests', label: 'Mentor Requests', icon: Crown, color: 'text-red-600' }
+      { path: routes.analytics, label: 'Analytics', icon: BarChart3, color: 'text-pink-600' },
+      { path: routes.mentorRequests, label: 'Mentor Requests', icon: Crown, color: 'text-red-600' },
+      { path: routes.courseReviews, label: 'Course Reviews', icon: ClipboardCheck, color: 'text-amber-600' },
+      { path: routes.badgeRules, label: 'Badge Rules', icon: Award, color: 'text-yellow-600' },
+      { path: routes.payouts, label: 'Payouts', icon: Wallet, color: 'text-green-600' }
     )
   }
 
-  menuItems.push({ id: 'settings', label: 'Settings', icon: Settings, color: 'text-gray-600' })
+  menuItems.push({ path: routes.settings, label: 'Settings', icon: Settings, color: 'text-gray-600' })
 
   return (
     <aside className="w-64 bg-white/10 backdrop-blur-lg border-r border-white/20 h-screen sticky top-16">
@@ -57,23 +81,28 @@ export function Sidebar({ activeView, onViewChange }: SidebarProps) {
         <nav className="space-y-2">
           {menuItems.map((item) => {
             const Icon = item.icon
-            const isActive = activeView === item.id
             
             return (
-              <button
-                key={item.id}
-                onClick={() => onViewChange(item.id)}
-                className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 ${
+              <NavLink
+                key={item.path}
+                to={item.path}
+                // The dashboard lives at "/" and would otherwise match every route
+                end={item.path === routes.dashboard}
+                className={({ isActive }) => `w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all duration-200 ${
                   isActive 
                     ? 'bg-white/20 shadow-lg transform scale-[1.02]' 
                     : 'hover:bg-white/10 hover:transform hover:scale-[1.01]'
                 }`}
               >
-                <Icon className={`w-5 h-5 ${isActive ? 'text-purple-600' : item.color}`} />
-                <span className={`font-medium ${isActive ? 'text-purple-700' : 'text-gray-700'}`}>
-                  {item.label}
-                </span>
-              </button>
+                {({ isActive }) => (
+                  <>
+                    <Icon className={`w-5 h-5 ${isActive ? 'text-purple-600' : item.color}`} />
+                    <span className={`font-medium ${isActive ? 'text-purple-700' : 'text-gray-700'}`}>
+                      {item.label}
+                    </span>
+                  </>
+                )}
+              </NavLink>
             )
           })}
         </nav>
@@ -0,0 +1,351 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Clock, IndianRupee, Send, Wallet } from 'lucide-react'
+import { supabase, type Database, type PayoutStatus } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths } from '../../lib/routes'
+import type { Order } from '../../lib/payments'
+import { StatementDownload } from './StatementDownload'
+
+type Payout = Database['public']['Tables']['payouts']['Row']
+
+interface SaleEntry extends Order {
+  course?: {
+    title: string
+  }
+  student?: {
+    full_name: string
+  }
+}
+
+interface PayoutBalance {
+  earned: number
+  paid_out: number
+  pending: number
+  available: number
+}
+
+interface CourseEarnings {
+  courseId: string
+  title: string
+  sales: number
+  gross: number
+  commission: number
+  refunds: number
+  net: number
+}
+
+const payoutStatusStyles: Record<PayoutStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+}
+
+const money = (value: number) => `₹${value.toFixed(2)}`
+
+// Refunded orders count towards gross and refunds; only paid orders keep
+// their commission and net, matching the earnings ledger
+function earningsByCourse(sales: SaleEntry[]) {
+  const courses = new Map<string, CourseEarnings>()
+  for (const sale of sales) {
+    const course = courses.get(sale.course_id) ?? {
+      courseId: sale.course_id,
+      title: sale.course?.title || 'Deleted course',
+      sales: 0,
+      gross: 0,
+      commission: 0,
+      refunds: 0,
+      net: 0
+    }
+    course.sales += 1
+    course.gross += Number(sale.amount)
+    if (sale.status === 'refunded') {
+      course.refunds += Number(sale.amount)
+    } else {
+      course.commission += Number(sale.platform_fee)
+      course.net += Number(sale.mentor_amount)
+    }
+    courses.set(sale.course_id, course)
+  }
+  return Array.from(courses.values()).sort((a, b) => b.net - a.net)
+}
+
+export function Earnings() {
+  const { profile } = useAuthContext()
+  const [balance, setBalance] = useState<PayoutBalance | null>(null)
+  const [sales, setSales] = useState<SaleEntry[]>([])
+  const [payouts, setPayouts] = useState<Payout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [amount, setAmount] = useState('')
+  const [details, setDetails] = useState('')
+  const [requesting, setRequesting] = useState(false)
+
+  useEffect(() => {
+    if (profile) {
+      fetchEarnings()
+    }
+  }, [profile])
+
+  const fetchEarnings = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [balanceRes, salesRes, payoutsRes] = await Promise.all([
+        supabase.rpc('payout_balance', { p_mentor_id: profile.id }),
+        supabase
+          .from('orders')
+          .select(`
+            *,
+            course:courses (title),
+            student:users!orders_student_id_fkey (full_name)
+          `)
+          .eq('mentor_id', profile.id)
+          .in('status', ['paid', 'refunded'])
+          .order('paid_at', { ascending: false }),
+        supabase
+          .from('payouts')
+          .select('*')
+          .eq('mentor_id', profile.id)
+          .order('created_at', { ascending: false })
+      ])
+
+      if (balanceRes.error) throw balanceRes.error
+      if (salesRes.error) throw salesRes.error
+      if (payoutsRes.error) throw payoutsRes.error
+
+      const row = balanceRes.data?.[0]
+      setBalance(row && {
+        earned: Number(row.earned),
+        paid_out: Number(row.paid_out),
+        pending: Number(row.pending),
+        available: Number(row.available)
+      })
+      setSales(salesRes.data || [])
+      setPayouts(payoutsRes.data || [])
+    } catch (error) {
+      console.error('Error fetching earnings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRequestPayout = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = Number(amount)
+    if (!value || value <= 0) return
+
+    setRequesting(true)
+    try {
+      const { error } = await supabase.rpc('request_payout', {
+        p_amount: value,
+        p_details: details
+      })
+
+      if (error) throw error
+
+      setAmount('')
+      fetchEarnings()
+    } catch (error) {
+      console.error('Error requesting payout:', error)
+      alert(error instanceof Error ? error.message : 'Error requesting payout. Please try again.')
+    } finally {
+      setRequesting(false)
+    }
+  }
+
+  if (!profile) return null
+
+  if (loading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-28 animate-pulse" />
+          ))}
+        </div>
+        <div className="bg-gray-200 rounded-2xl h-96 animate-pulse" />
+      </div>
+    )
+  }
+
+  const courses = earningsByCourse(sales)
+  const summary = [
+    { label: 'Net Earnings', value: balance?.earned ?? 0, icon: IndianRupee, color: 'from-green-500 to-emerald-500' },
+    { label: 'Available', value: balance?.available ?? 0, icon: Wallet, color: 'from-purple-500 to-blue-500' },
+    { label: 'Pending Payouts', value: balance?.pending ?? 0, icon: Clock, color: 'from-yellow-500 to-orange-500' },
+    { label: 'Paid Out', value: balance?.paid_out ?? 0, icon: Send, color: 'from-blue-500 to-cyan-500' },
+  ]
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Earnings</h1>
+          <p className="text-gray-600">Course sales after platform commission and refunds</p>
+        </div>
+        <StatementDownload mentorId={profile.id} />
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {summary.map(item => {
+          const Icon = item.icon
+          return (
+            <div key={item.label} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className={`w-10 h-10 bg-gradient-to-r ${item.color} rounded-xl flex items-center justify-center mb-3`}>
+                <Icon className="w-5 h-5 text-white" />
+              </div>
+              <p className="text-sm text-gray-600">{item.label}</p>
+              <p className="text-2xl font-bold text-gray-900">{money(item.value)}</p>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Per course */}
+          <div className="bg-white/70 backdrop-blur-lg rounded-2xl border border-white/20 overflow-x-auto">
+            <h2 className="text-xl font-bold text-gray-900 p-6 pb-2">By Course</h2>
+            {courses.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="p-4 font-medium">Course</th>
+                    <th className="p-4 font-medium text-right">Sales</th>
+                    <th className="p-4 font-medium text-right">Gross</th>
+                    <th className="p-4 font-medium text-right">Commission</th>
+                    <th className="p-4 font-medium text-right">Refunds</th>
+                    <th className="p-4 font-medium text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {courses.map(course => (
+                    <tr key={course.courseId} className="border-b border-gray-100 last:border-0 hover:bg-white/50">
+                      <td className="p-4">
+                        <Link to={paths.course(course.courseId)} className="font-medium text-gray-900 hover:text-purple-600">
+                          {course.title}
+                        </Link>
+                      </td>
+                      <td className="p-4 text-right text-gray-700">{course.sales}</td>
+                      <td className="p-4 text-right text-gray-700">{money(course.gross)}</td>
+                      <td className="p-4 text-right text-gray-600">-{money(course.commission)}</td>
+                      <td className="p-4 text-right text-red-600">-{money(course.refunds)}</td>
+                      <td className="p-4 text-right font-semibold text-gray-900">{money(course.net)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-600 p-6 pt-2">No paid enrollments yet.</p>
+            )}
+          </div>
+
+          {/* Paid enrollments */}
+          {sales.length > 0 && (
+            <div className="bg-white/70 backdrop-blur-lg rounded-2xl border border-white/20 overflow-x-auto">
+              <h2 className="text-xl font-bold text-gray-900 p-6 pb-2">Paid Enrollments</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b border-gray-200">
+                    <th className="p-4 font-medium">Date</th>
+                    <th className="p-4 font-medium">Student</th>
+                    <th className="p-4 font-medium">Course</th>
+                    <th className="p-4 font-medium text-right">Price</th>
+                    <th className="p-4 font-medium text-right">Commission</th>
+                    <th className="p-4 font-medium text-right">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sales.map(sale => (
+                    <tr key={sale.id} className="border-b border-gray-100 last:border-0 hover:bg-white/50">
+                      <td className="p-4 text-gray-600">
+                        {sale.paid_at && new Date(sale.paid_at).toLocaleDateString()}
+                      </td>
+                      <td className="p-4 text-gray-900">{sale.student?.full_name}</td>
+                      <td className="p-4 text-gray-700">{sale.course?.title}</td>
+                      <td className="p-4 text-right text-gray-700">{money(Number(sale.amount))}</td>
+                      <td className="p-4 text-right text-gray-600">-{money(Number(sale.platform_fee))}</td>
+                      <td className="p-4 text-right">
+                        {sale.status === 'refunded' ? (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Refunded</span>
+                        ) : (
+                          <span className="font-semibold text-gray-900">{money(Number(sale.mentor_amount))}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Request payout */}
+          <form onSubmit={handleRequestPayout} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 space-y-4">
+            <h2 className="text-xl font-bold text-gray-900">Request Payout</h2>
+            <p className="text-sm text-gray-600">
+              Available to withdraw: <span className="font-semibold text-gray-900">{money(balance?.available ?? 0)}</span>
+            </p>
+            <input
+              type="number"
+              min="1"
+              step="0.01"
+              max={balance?.available ?? 0}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount (₹)"
+              className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              required
+            />
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="UPI ID or bank account details"
+              rows={3}
+              className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              required
+            />
+            <button
+              type="submit"
+              disabled={requesting || !balance || balance.available <= 0}
+              className="w-full bg-gradient-to-r from-purple-500 to-blue-500 text-white px-4 py-2 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+            >
+              {requesting ? 'Requesting...' : 'Request Payout'}
+            </button>
+          </form>
+
+          {/* Payout history */}
+          <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Payouts</h2>
+            {payouts.length > 0 ? (
+              <div className="space-y-3">
+                {payouts.map(payout => (
+                  <div key={payout.id} className="border-b border-gray-100 last:border-0 pb-3 last:pb-0">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-gray-900">{money(Number(payout.amount))}</span>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${payoutStatusStyles[payout.status]}`}>
+                        {payout.status}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Requested {new Date(payout.created_at).toLocaleDateString()}
+                      {payout.reviewed_at && ` • Reviewed ${new Date(payout.reviewed_at).toLocaleDateString()}`}
+                    </p>
+                    {payout.review_notes && <p className="text-sm text-gray-700 mt-1">{payout.review_notes}</p>}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-600 text-sm">No payouts requested yet.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  CheckCircle,
+  Clock,
+  Crown,
+  ExternalLink,
+  Send,
+  XCircle
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import type { Database } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { routes } from '../../lib/routes'
+import { listProjects, type Project } from '../../lib/repositories/profiles'
+
+type MentorRequest = Database['public']['Tables']['mentor_requests']['Row'] & {
+  mentor_request_events?: Database['public']['Tables']['mentor_request_events']['Row'][]
+}
+
+const requestStatusStyles = {
+  pending: { label: 'Pending review', icon: Clock, className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', icon: CheckCircle, className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Not approved', icon: XCircle, className: 'bg-red-100 text-red-800' },
+}
+
+export function MentorApplication() {
+  const { profile, refreshProfile } = useAuthContext()
+  const [requests, setRequests] = useState<MentorRequest[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [formData, setFormData] = useState({
+    request_message: '',
+    links: '',
+    project_ids: [] as string[],
+  })
+
+  useEffect(() => {
+    if (profile) {
+      fetchApplications()
+    }
+  }, [profile])
+
+  const fetchApplications = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [requestsRes, projectsData] = await Promise.all([
+        supabase
+          .from('mentor_requests')
+          .select('*, mentor_request_events(*)')
+          .eq('student_id', profile.id)
+          .order('created_at', { ascending: false }),
+        listProjects(profile.id)
+      ])
+
+      if (requestsRes.error) throw requestsRes.error
+
+      setRequests(requestsRes.data || [])
+      setProjects(projectsData)
+
+      // Pick up the new role if an admin approved us since the profile loaded
+      if (profile.role === 'student' && requestsRes.data?.some(r => r.status === 'approved')) {
+        refreshProfile()
+      }
+    } catch (error) {
+      console.error('Error fetching mentor applications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile || !formData.request_message) return
+
+    setSubmitting(true)
+    try {
+      const { error } = await supabase
+        .from('mentor_requests')
+        .insert({
+          student_id: profile.id,
+          request_message: formData.request_message,
+          links: formData.links.split('\n').map(l => l.trim()).filter(l => l),
+          project_ids: formData.project_ids,
+        })
+
+      if (error) throw error
+
+      setFormData({ request_message: '', links: '', project_ids: [] })
+      fetchApplications()
+    } catch (error) {
+      console.error('Error submitting mentor application:', error)
+      alert('Error submitting your application. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const toggleProject = (projectId: string) => {
+    const project_ids = formData.project_ids.includes(projectId)
+      ? formData.project_ids.filter(id => id !== projectId)
+      : [...formData.project_ids, projectId]
+    setFormData({ ...formData, project_ids })
+  }
+
+  if (!profile) return null
+
+  const hasPendingRequest = requests.some(r => r.status === 'pending')
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-8">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Become a Mentor</h1>
+        <p className="text-gray-600">Share what you know and help juniors grow</p>
+      </div>
+
+      {loading ? (
+        <div className="bg-gray-200 rounded-2xl h-64 animate-pulse" />
+      ) : profile.role !== 'student' ? (
+        <div className="bg-green-50 border border-green-200 rounded-2xl p-8 text-center">
+          <Crown className="w-16 h-16 text-green-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">You're a {profile.role}</h3>
+          <p className="text-gray-600 mb-4">You can already create courses and mentor students.</p>
+          <Link
+            to={routes.createCourse}
+            className="inline-block bg-purple-500 text-white px-6 py-2 rounded-xl hover:bg-purple-600 transition-colors"
+          >
+            Create a Course
+          </Link>
+        </div>
+      ) : hasPendingRequest ? (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-8 text-center">
+          <Clock className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Application under review</h3>
+          <p className="text-gray-600">An admin will review your application soon. You'll see the decision below.</p>
+        </div>
+      ) : (
+        <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Why do you want to mentor? *
+              </label>
+              <textarea
+                required
+                rows={5}
+                value={formData.request_message}
+                onChange={(e) => setFormData({ ...formData, request_message: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="Tell us what you'd like to teach and what experience you have..."
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Supporting links (one per line)
+              </label>
+              <textarea
+                rows={3}
+                value={formData.links}
+                onChange={(e) => setFormData({ ...formData, links: e.target.value })}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder={'https://github.com/username\nhttps://linkedin.com/in/username'}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Supporting projects
+              </label>
+              {projects.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {projects.map(project => (
+                    <label
+                      key={project.id}
+                      className={`flex items-start space-x-3 p-4 rounded-xl border cursor-pointer transition-colors ${
+                        formData.project_ids.includes(project.id)
+                          ? 'border-purple-400 bg-purple-50'
+                          : 'border-gray-200 bg-white hover:bg-gray-50'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={formData.project_ids.includes(project.id)}
+                        onChange={() => toggleProject(project.id)}
+                        className="mt-1 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                      <div>
+                        <p className="font-medium text-gray-900">{project.title}</p>
+                        {project.description && (
+                          <p className="text-sm text-gray-600 line-clamp-2">{project.description}</p>
+                        )}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Add projects to your <Link to={routes.profile} className="text-purple-600 hover:text-purple-700">profile</Link> to include them here.
+                </p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={submitting || !formData.request_message}
+              className="w-full flex items-center justify-center space-x-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white py-3 px-6 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send className="w-4 h-4" />
+              <span>{submitting ? 'Submitting...' : 'Submit Application'}</span>
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Status History */}
+      {requests.length > 0 && (
+        <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Applications</h2>
+          <div className="space-y-6">
+            {requests.map(request => {
+              const status = requestStatusStyles[request.status]
+              const StatusIcon = status.icon
+              const events = [...(request.mentor_request_events || [])].sort(
+                (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+              )
+
+              return (
+                <div key={request.id} className="p-6 bg-gray-50 rounded-xl">
+                  <div className="flex items-center justify-between mb-3">
+                    <p className="text-sm text-gray-500">
+                      Submitted {new Date(request.created_at).toLocaleDateString()}
+                    </p>
+                    <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                      <StatusIcon className="w-3 h-3" />
+                      <span>{status.label}</span>
+                    </span>
+                  </div>
+
+                  <p className="text-gray-700 whitespace-pre-wrap mb-3">{request.request_message}</p>
+
+                  {request.links?.length > 0 && (
+                    <div className="flex flex-wrap gap-3 mb-3">
+                      {request.links.map(link => (
+                        <a
+                          key={link}
+                          href={link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                          <span className="truncate max-w-xs">{link}</span>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {events.length > 0 && (
+                    <ol className="border-l-2 border-purple-200 pl-4 space-y-2 mt-4">
+                      {events.map(event => (
+                        <li key={event.id} className="text-sm">
+                          <span className="font-medium text-gray-900">{requestStatusStyles[event.status].label}</span>
+                          <span className="text-gray-500"> • {new Date(event.created_at).toLocaleString()}</span>
+                          {event.status !== 'pending' && event.notes && (
+                            <p className="text-gray-600 mt-1">{event.notes}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { BookOpen, Clock, Edit3, Eye, PlusCircle, Users } from 'lucide-react'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths, routes } from '../../lib/routes'
+import type { CourseStatus } from '../../lib/supabase'
+import {
+  listCourseStats,
+  listMentorCourses,
+  type Course,
+  type CourseStats
+} from '../../lib/repositories/courses'
+import { courseStatusLabels, courseStatusStyles } from '../../lib/courseLifecycle'
+
+const statusTabs: CourseStatus[] = ['published', 'draft', 'in_review', 'archived']
+
+export function MentorCourses() {
+  const { profile } = useAuthContext()
+  const [courses, setCourses] = useState<Course[]>([])
+  const [stats, setStats] = useState<Map<string, CourseStats>>(new Map())
+  const [activeStatus, setActiveStatus] = useState<CourseStatus>('published')
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (profile) {
+      fetchCourses()
+    }
+  }, [profile])
+
+  const fetchCourses = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const coursesData = await listMentorCourses(profile.id)
+      setCourses(coursesData)
+      setStats(coursesData.length > 0
+        ? await listCourseStats(coursesData.map(c => c.id))
+        : new Map())
+
+      // Open on drafts when nothing is live yet
+      if (!coursesData.some(c => c.status === 'published') && coursesData.some(c => c.status === 'draft')) {
+        setActiveStatus('draft')
+      }
+    } catch (error) {
+      console.error('Error fetching courses:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const visibleCourses = courses.filter(c => c.status === activeStatus)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Teaching</h1>
+          <p className="text-gray-600">Drafts, courses in review and everything you've published</p>
+        </div>
+        <Link
+          to={routes.createCourse}
+          className="flex items-center justify-center space-x-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white px-4 py-2 rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all"
+        >
+          <PlusCircle className="w-4 h-4" />
+          <span>New Course</span>
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {statusTabs.map(status => (
+          <button
+            key={status}
+            onClick={() => setActiveStatus(status)}
+            className={`px-4 py-2 rounded-xl font-medium transition-colors ${
+              activeStatus === status
+                ? 'bg-purple-500 text-white'
+                : 'bg-white/70 text-gray-700 hover:bg-white'
+            }`}
+          >
+            {courseStatusLabels[status]} ({courses.filter(c => c.status === status).length})
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-48 animate-pulse" />
+          ))}
+        </div>
+      ) : visibleCourses.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleCourses.map(course => {
+            const courseStats = stats.get(course.id)
+
+            return (
+              <div key={course.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20 flex flex-col">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">
+                    {course.title || 'Untitled course'}
+                  </h3>
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap ${courseStatusStyles[course.status]}`}>
+                    {courseStatusLabels[course.status]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-4">{course.domain || 'No domain yet'}</p>
+
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 mb-4">
+                  <div className="flex items-center space-x-1">
+                    <Users className="w-4 h-4" />
+                    <span>
+                      {courseStats?.enrollment_count || 0} enrolled
+                      {course.max_students ? ` of ${course.max_students}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Clock className="w-4 h-4" />
+                    <span>Updated {new Date(course.updated_at).toLocaleDateString()}</span>
+                  </div>
+                </div>
+
+                {course.status === 'draft' && course.review_notes && (
+                  <p className="text-sm text-amber-700 bg-amber-50 rounded-xl px-3 py-2 mb-4 line-clamp-2">
+                    Changes requested: {course.review_notes}
+                  </p>
+                )}
+
+                <div className="flex space-x-2 mt-auto">
+                  <Link
+                    to={paths.editCourse(course.id)}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-purple-500 text-white px-4 py-2 rounded-xl font-medium hover:bg-purple-600 transition-colors"
+                  >
+                    <Edit3 className="w-4 h-4" />
+                    <span>Edit</span>
+                  </Link>
+                  <Link
+                    to={paths.course(course.id)}
+                    className="flex items-center justify-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+                  >
+                    <Eye className="w-4 h-4" />
+                    <span>View</span>
+                  </Link>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <BookOpen className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            No {courseStatusLabels[activeStatus].toLowerCase()} courses
+          </h3>
+          <p className="text-gray-600">
+            {activeStatus === 'draft'
+              ? 'Courses you start are saved here as drafts until you publish them.'
+              : 'Courses will show up here as they move through review and publishing.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,382 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  Award,
+  CheckCircle,
+  Download,
+  Search,
+  User,
+  Users
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths } from '../../lib/routes'
+import { downloadCsv } from '../../lib/csv'
+import { listMentorCourses } from '../../lib/repositories/courses'
+import { listRoster, markEnrollmentsCompleted, type RosterEnrollment } from '../../lib/repositories/enrollments'
+
+type RosterEntry = RosterEnrollment & {
+  progress_percent: number
+  sessions_held: number
+  sessions_attended: number
+  // Null until a session has been held
+  attendance_percent: number | null
+}
+
+type CompletionFilter = '' | 'in-progress' | 'completed' | 'dropped'
+
+function getStatus(entry: RosterEntry): Exclude<CompletionFilter, ''> {
+  if (entry.is_completed) return 'completed'
+  if (entry.dropped_at) return 'dropped'
+  return 'in-progress'
+}
+
+// Mirrors attendance_requirement_met in the database
+function meetsAttendance(entry: RosterEntry) {
+  const minimum = entry.course?.min_attendance_percent || 0
+  return minimum === 0 || (entry.attendance_percent ?? 100) >= minimum
+}
+
+const statusStyles = {
+  'in-progress': 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  dropped: 'bg-gray-100 text-gray-600',
+}
+
+export function MyStudents() {
+  const { profile } = useAuthContext()
+  const [courses, setCourses] = useState<{ id: string; title: string }[]>([])
+  const [roster, setRoster] = useState<RosterEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [searchTerm, setSearchTerm] = useState('')
+  const [courseFilter, setCourseFilter] = useState('')
+  const [completionFilter, setCompletionFilter] = useState<CompletionFilter>('')
+  const [enrolledFrom, setEnrolledFrom] = useState('')
+  const [enrolledTo, setEnrolledTo] = useState('')
+
+  useEffect(() => {
+    if (profile) {
+      fetchRoster()
+    }
+  }, [profile])
+
+  const fetchRoster = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const coursesData = await listMentorCourses(profile.id)
+      const courseIds = coursesData.map(c => c.id)
+
+      const [enrollmentsData, progressRes, attendanceRes] = await Promise.all([
+        listRoster(courseIds),
+        supabase
+          .from('enrollment_progress')
+          .select('enrollment_id, progress_percent')
+          .in('course_id', courseIds),
+        supabase
+          .from('enrollment_attendance')
+          .select('enrollment_id, sessions_held, sessions_attended, attendance_percent')
+          .in('course_id', courseIds)
+      ])
+
+      const progressByEnrollment = new Map(
+        progressRes.data?.map(p => [p.enrollment_id, p.progress_percent]) || []
+      )
+      const attendanceByEnrollment = new Map(
+        attendanceRes.data?.map(a => [a.enrollment_id, a]) || []
+      )
+
+      setCourses(coursesData)
+      setRoster(enrollmentsData.map(enrollment => ({
+        ...enrollment,
+        progress_percent: enrollment.is_completed ? 100 : progressByEnrollment.get(enrollment.id) || 0,
+        sessions_held: attendanceByEnrollment.get(enrollment.id)?.sessions_held || 0,
+        sessions_attended: attendanceByEnrollment.get(enrollment.id)?.sessions_attended || 0,
+        attendance_percent: attendanceByEnrollment.get(enrollment.id)?.attendance_percent ?? null
+      })))
+      setSelectedIds(new Set())
+    } catch (error) {
+      console.error('Error fetching students:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const filteredRoster = roster.filter(entry => {
+    const matchesSearch = !searchTerm ||
+      entry.student?.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      entry.student?.email.toLowerCase().includes(searchTerm.toLowerCase())
+    const matchesCourse = !courseFilter || entry.course_id === courseFilter
+    const matchesCompletion = !completionFilter || getStatus(entry) === completionFilter
+    // Compare on calendar days so the "to" date includes enrollments made that day
+    const enrolledDay = entry.enrolled_at.slice(0, 10)
+    const matchesFrom = !enrolledFrom || enrolledDay >= enrolledFrom
+    const matchesTo = !enrolledTo || enrolledDay <= enrolledTo
+
+    return matchesSearch && matchesCourse && matchesCompletion && matchesFrom && matchesTo
+  })
+
+  const completableIds = filteredRoster.filter(e => !e.is_completed && meetsAttendance(e)).map(e => e.id)
+  const allSelected = completableIds.length > 0 && completableIds.every(id => selectedIds.has(id))
+
+  const toggleSelected = (id: string) => {
+    const updated = new Set(selectedIds)
+    if (updated.has(id)) {
+      updated.delete(id)
+    } else {
+      updated.add(id)
+    }
+    setSelectedIds(updated)
+  }
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(completableIds))
+  }
+
+  const handleMarkCompleted = async () => {
+    const ids = Array.from(selectedIds)
+    if (ids.length === 0) return
+    if (!confirm(`Mark ${ids.length} enrollment(s) as completed? Certificates will be issued to these students.`)) return
+
+    setSaving(true)
+    try {
+      await markEnrollmentsCompleted(ids)
+      fetchRoster()
+    } catch (error) {
+      console.error('Error marking enrollments completed:', error)
+      alert('Error marking enrollments completed. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExport = () => {
+    downloadCsv(`students-${new Date().toISOString().slice(0, 10)}.csv`, filteredRoster, [
+      { header: 'Student', value: e => e.student?.full_name },
+      { header: 'Email', value: e => e.student?.email },
+      { header: 'Department', value: e => e.student?.department },
+      { header: 'Year', value: e => e.student?.year_of_study },
+      { header: 'Course', value: e => e.course?.title },
+      { header: 'Enrolled At', value: e => e.enrolled_at },
+      { header: 'Status', value: e => getStatus(e) },
+      { header: 'Progress %', value: e => e.progress_percent },
+      { header: 'Sessions Attended', value: e => e.sessions_attended },
+      { header: 'Sessions Held', value: e => e.sessions_held },
+      { header: 'Attendance %', value: e => e.attendance_percent },
+      { header: 'Completed At', value: e => e.completed_at },
+    ])
+  }
+
+  if (!profile) return null
+
+  const uniqueStudents = new Set(roster.map(e => e.student?.id)).size
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Students</h1>
+          <p className="text-gray-600">
+            {uniqueStudents} students across {courses.length} courses
+          </p>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={handleExport}
+            disabled={filteredRoster.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 bg-white/70 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={handleMarkCompleted}
+            disabled={selectedIds.size === 0 || saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-green-500 text-white rounded-xl hover:bg-green-600 transition-colors disabled:opacity-50"
+          >
+            <CheckCircle className="w-4 h-4" />
+            <span>{saving ? 'Saving...' : `Mark completed (${selectedIds.size})`}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Search students..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+
+          <select
+            value={courseFilter}
+            onChange={(e) => setCourseFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">All Courses</option>
+            {courses.map(course => (
+              <option key={course.id} value={course.id}>{course.title}</option>
+            ))}
+          </select>
+
+          <select
+            value={completionFilter}
+            onChange={(e) => setCompletionFilter(e.target.value as CompletionFilter)}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">All Statuses</option>
+            <option value="in-progress">In Progress</option>
+            <option value="completed">Completed</option>
+            <option value="dropped">Dropped</option>
+          </select>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="date"
+              value={enrolledFrom}
+              onChange={(e) => setEnrolledFrom(e.target.value)}
+              title="Enrolled from"
+              className="w-full px-2 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+            />
+            <input
+              type="date"
+              value={enrolledTo}
+              onChange={(e) => setEnrolledTo(e.target.value)}
+              title="Enrolled to"
+              className="w-full px-2 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Roster */}
+      {loading ? (
+        <div className="bg-gray-200 rounded-2xl h-96 animate-pulse" />
+      ) : filteredRoster.length > 0 ? (
+        <div className="bg-white/70 backdrop-blur-lg rounded-2xl border border-white/20 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="p-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleAll}
+                    disabled={completableIds.length === 0}
+                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                  />
+                </th>
+                <th className="p-4 font-medium">Student</th>
+                <th className="p-4 font-medium">Course</th>
+                <th className="p-4 font-medium">Enrolled</th>
+                <th className="p-4 font-medium">Progress</th>
+                <th className="p-4 font-medium">Attendance</th>
+                <th className="p-4 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredRoster.map(entry => {
+                const status = getStatus(entry)
+
+                return (
+                  <tr key={entry.id} className="border-b border-gray-100 last:border-0 hover:bg-white/50">
+                    <td className="p-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(entry.id)}
+                        onChange={() => toggleSelected(entry.id)}
+                        disabled={entry.is_completed || !meetsAttendance(entry)}
+                        title={!entry.is_completed && !meetsAttendance(entry)
+                          ? `Needs ${entry.course?.min_attendance_percent}% attendance to complete`
+                          : undefined}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                    </td>
+                    <td className="p-4">
+                      {entry.student && (
+                        <Link to={paths.userProfile(entry.student.id)} className="flex items-center space-x-3 group">
+                          <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
+                            {entry.student.profile_picture ? (
+                              <img
+                                src={entry.student.profile_picture}
+                                alt={entry.student.full_name}
+                                className="w-8 h-8 rounded-full object-cover"
+                              />
+                            ) : (
+                              <User className="w-4 h-4 text-white" />
+                            )}
+                          </div>
+                          <div>
+                            <p className="font-medium text-gray-900 group-hover:text-purple-600">{entry.student.full_name}</p>
+                            <p className="text-xs text-gray-500">
+                              {entry.student.department} • Year {entry.student.year_of_study}
+                            </p>
+                          </div>
+                        </Link>
+                      )}
+                    </td>
+                    <td className="p-4 text-gray-700">{entry.course?.title}</td>
+                    <td className="p-4 text-gray-600">{new Date(entry.enrolled_at).toLocaleDateString()}</td>
+                    <td className="p-4">
+                      <div className="flex items-center space-x-2 w-32">
+                        <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-gradient-to-r from-purple-500 to-blue-500"
+                            style={{ width: `${entry.progress_percent}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-gray-500">{entry.progress_percent}%</span>
+                      </div>
+                    </td>
+                    <td className="p-4">
+                      {entry.attendance_percent === null ? (
+                        <span className="text-xs text-gray-400">No sessions yet</span>
+                      ) : (
+                        <div>
+                          <span className={`font-medium ${meetsAttendance(entry) ? 'text-gray-900' : 'text-red-600'}`}>
+                            {entry.attendance_percent}%
+                          </span>
+                          <p className="text-xs text-gray-500">
+                            {entry.sessions_attended} of {entry.sessions_held} sessions
+                          </p>
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <span className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs capitalize ${statusStyles[status]}`}>
+                        {status === 'completed' && <Award className="w-3 h-3" />}
+                        <span>{status.replace('-', ' ')}</span>
+                      </span>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {roster.length === 0 ? 'No students yet' : 'No students match these filters'}
+          </h3>
+          <p className="text-gray-600">
+            {roster.length === 0 ? 'Students will appear here once they enroll in your courses.' : 'Try adjusting your filters.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import {
+  currentMonth,
+  downloadStatementCsv,
+  downloadStatementPdf,
+  fetchEarningsStatement
+} from '../../lib/statements'
+
+interface StatementDownloadProps {
+  mentorId: string
+  defaultMonth?: string
+}
+
+export function StatementDownload({ mentorId, defaultMonth }: StatementDownloadProps) {
+  const [month, setMonth] = useState(defaultMonth || currentMonth())
+  const [downloading, setDownloading] = useState<'csv' | 'pdf' | null>(null)
+
+  const handleDownload = async (format: 'csv' | 'pdf') => {
+    setDownloading(format)
+    try {
+      const statement = await fetchEarningsStatement(mentorId, month)
+      if (format === 'csv') {
+        downloadStatementCsv(statement)
+      } else {
+        await downloadStatementPdf(statement)
+      }
+    } catch (error) {
+      console.error('Error downloading statement:', error)
+      alert('Error preparing the statement. Please try again.')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="month"
+        value={month}
+        max={currentMonth()}
+        onChange={(e) => setMonth(e.target.value)}
+        className="px-3 py-2 bg-white/70 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      {(['csv', 'pdf'] as const).map(format => (
+        <button
+          key={format}
+          onClick={() => handleDownload(format)}
+          disabled={!month || downloading !== null}
+          className="flex items-center space-x-1 px-3 py-2 bg-white/70 text-gray-700 rounded-xl hover:bg-white transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>{downloading === format ? 'Preparing...' : format.toUpperCase()}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
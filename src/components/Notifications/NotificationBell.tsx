@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import { Bell, BellOff } from 'lucide-react'
+import { useNotifications } from '../../hooks/useNotifications'
+import { routes } from '../../lib/routes'
+import { NotificationItem } from './NotificationItem'
+
+export function NotificationBell({ userId }: { userId: string }) {
+  const { recent, unreadCount, markRead, markAllRead } = useNotifications(userId)
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-600 hover:text-purple-600 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-500 rounded-full flex items-center justify-center">
+            <span className="text-white text-xs">{unreadCount > 99 ? '99+' : unreadCount}</span>
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-xl shadow-lg border border-gray-200">
+          <div className="flex items-center justify-between p-3 border-b border-gray-100">
+            <p className="font-medium text-gray-900">Notifications</p>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllRead}
+                className="text-sm text-purple-600 hover:text-purple-700"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto p-2 space-y-1">
+            {recent.length > 0 ? (
+              recent.map(notification => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={(n) => {
+                    markRead(n.id)
+                    setOpen(false)
+                  }}
+                />
+              ))
+            ) : (
+              <div className="text-center py-8">
+                <BellOff className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+                <p className="text-sm text-gray-500">You're all caught up</p>
+              </div>
+            )}
+          </div>
+
+          <div className="p-2 border-t border-gray-100">
+            <Link
+              to={routes.notifications}
+              onClick={() => setOpen(false)}
+              className="block text-center text-sm text-purple-600 hover:text-purple-700 py-1"
+            >
+              View all
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { Link } from 'react-router-dom'
+import {
+  AtSign,
+  Award,
+  Calendar,
+  CalendarX,
+  ClipboardCheck,
+  FileCheck,
+  FileText,
+  MessageSquare,
+  Ticket,
+  UserCheck,
+  Users
+} from 'lucide-react'
+import { describeNotification, type AppNotification } from '../../lib/notifications'
+import type { NotificationKind } from '../../lib/supabase'
+
+const kindIcons: Record<NotificationKind, typeof Users> = {
+  enrollment: Users,
+  session_rescheduled: Calendar,
+  session_cancelled: CalendarX,
+  badge_earned: Award,
+  certificate_issued: FileCheck,
+  mentor_request_decided: UserCheck,
+  community_resource: FileText,
+  thread_reply: MessageSquare,
+  post_mention: AtSign,
+  waitlist_seat: Ticket,
+  course_reviewed: ClipboardCheck,
+}
+
+interface NotificationItemProps {
+  notification: AppNotification
+  onOpen: (notification: AppNotification) => void
+}
+
+export function NotificationItem({ notification, onOpen }: NotificationItemProps) {
+  const { title, body, link } = describeNotification(notification)
+  const Icon = kindIcons[notification.kind]
+  const unread = !notification.read_at
+
+  return (
+    <Link
+      to={link}
+      onClick={() => onOpen(notification)}
+      className={`flex items-start space-x-3 p-3 rounded-xl transition-colors ${
+        unread ? 'bg-purple-50 hover:bg-purple-100' : 'hover:bg-gray-50'
+      }`}
+    >
+      <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
+        <Icon className="w-4 h-4 text-white" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm text-gray-900 ${unread ? 'font-semibold' : 'font-medium'}`}>{title}</p>
+        <p className="text-sm text-gray-600 break-words">{body}</p>
+        <p className="text-xs text-gray-400 mt-1">
+          {new Date(notification.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+        </p>
+      </div>
+      {unread && <span className="w-2 h-2 mt-2 bg-purple-500 rounded-full flex-shrink-0" />}
+    </Link>
+  )
+}
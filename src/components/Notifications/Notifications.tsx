@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Bell, CheckCheck, Settings } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { routes } from '../../lib/routes'
+import type { AppNotification } from '../../lib/notifications'
+import { NotificationItem } from './NotificationItem'
+
+const PAGE_SIZE = 20
+
+export function Notifications() {
+  const { profile } = useAuthContext()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [unreadOnly, setUnreadOnly] = useState(false)
+
+  useEffect(() => {
+    if (profile) {
+      setLoading(true)
+      fetchPage(0).finally(() => setLoading(false))
+    }
+  }, [profile, unreadOnly])
+
+  const fetchPage = async (offset: number) => {
+    if (!profile) return
+
+    try {
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (unreadOnly) {
+        query = query.is('read_at', null)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+
+      // `data` is shaped by the trigger that wrote each kind
+      const page = (data || []) as AppNotification[]
+      setNotifications(prev => offset === 0 ? page : [...prev, ...page])
+      setHasMore(page.length === PAGE_SIZE)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }
+
+  const loadMore = async () => {
+    setLoadingMore(true)
+    await fetchPage(notifications.length)
+    setLoadingMore(false)
+  }
+
+  const markRead = async (notification: AppNotification) => {
+    if (notification.read_at) return
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notification.id)
+
+    if (error) console.error('Error marking notification read:', error)
+  }
+
+  const markAllRead = async () => {
+    if (!profile) return
+
+    try {
+      const readAt = new Date().toISOString()
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .eq('user_id', profile.id)
+        .is('read_at', null)
+
+      if (error) throw error
+
+      setNotifications(prev => unreadOnly ? [] : prev.map(n => n.read_at ? n : { ...n, read_at: readAt }))
+    } catch (error) {
+      console.error('Error marking notifications read:', error)
+      alert('Error marking notifications as read. Please try again.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 space-y-4">
+        {[1, 2, 3, 4].map(i => (
+          <div key={i} className="bg-gray-200 rounded-2xl h-20 animate-pulse" />
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Notifications</h1>
+          <p className="text-gray-600">Everything that happened around your courses and communities</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Link
+            to={routes.settings}
+            className="flex items-center space-x-2 px-4 py-2 bg-white/70 text-gray-700 rounded-xl hover:bg-white transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+            <span>Preferences</span>
+          </Link>
+          <button
+            onClick={markAllRead}
+            className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+          >
+            <CheckCheck className="w-4 h-4" />
+            <span>Mark all read</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex space-x-2">
+        {[false, true].map(showUnread => (
+          <button
+            key={String(showUnread)}
+            onClick={() => setUnreadOnly(showUnread)}
+            className={`px-4 py-2 rounded-xl font-medium transition-colors ${
+              unreadOnly === showUnread ? 'bg-purple-500 text-white' : 'bg-white/70 text-gray-700 hover:bg-white'
+            }`}
+          >
+            {showUnread ? 'Unread' : 'All'}
+          </button>
+        ))}
+      </div>
+
+      {notifications.length > 0 ? (
+        <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-4 border border-white/20 space-y-1">
+          {notifications.map(notification => (
+            <NotificationItem key={notification.id} notification={notification} onOpen={markRead} />
+          ))}
+
+          {hasMore && (
+            <div className="text-center pt-3">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 text-purple-600 hover:bg-purple-50 rounded-xl transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Bell className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">
+            {unreadOnly ? 'No unread notifications' : 'No notifications yet'}
+          </h3>
+          <p className="text-gray-600">We'll let you know when something needs your attention.</p>
+        </div>
+      )}
+    </div>
+  )
+}
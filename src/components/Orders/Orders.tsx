@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Receipt, RotateCcw } from 'lucide-react'
+import { supabase, type OrderStatus } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { isAdmin } from '../../lib/permissions'
+import { paths } from '../../lib/routes'
+import { refundOrder, type Order } from '../../lib/payments'
+import { listCompletedCourseIds } from '../../lib/repositories/enrollments'
+
+interface OrderEntry extends Order {
+  course?: {
+    title: string
+  }
+  student?: {
+    full_name: string
+  }
+}
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  paid: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  refunded: 'bg-gray-100 text-gray-700',
+}
+
+export function Orders() {
+  const { profile } = useAuthContext()
+  const [orders, setOrders] = useState<OrderEntry[]>([])
+  const [completedCourseIds, setCompletedCourseIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [refundingId, setRefundingId] = useState<string | null>(null)
+
+  const admin = !!profile && isAdmin(profile)
+
+  useEffect(() => {
+    if (profile) {
+      fetchOrders()
+    }
+  }, [profile])
+
+  const fetchOrders = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      // Mentors can also read orders for their courses; those belong on
+      // the earnings page, so everyone but admins only sees their own here
+      let query = supabase
+        .from('orders')
+        .select(`
+          *,
+          course:courses (title),
+          student:users!orders_student_id_fkey (full_name)
+        `)
+        .order('created_at', { ascending: false })
+      if (!admin) query = query.eq('student_id', profile.id)
+
+      const [ordersRes, completedIds] = await Promise.all([
+        query,
+        listCompletedCourseIds(profile.id)
+      ])
+
+      if (ordersRes.error) throw ordersRes.error
+
+      setOrders(ordersRes.data || [])
+      setCompletedCourseIds(new Set(completedIds))
+    } catch (error) {
+      console.error('Error fetching orders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRefund = async (order: OrderEntry) => {
+    const reason = prompt(`Refund ₹${order.amount} for "${order.course?.title}"? You will lose access to the course.\n\nReason (optional):`)
+    if (reason === null) return
+
+    setRefundingId(order.id)
+    try {
+      await refundOrder(order.id, reason.trim())
+      fetchOrders()
+    } catch (error) {
+      console.error('Error refunding order:', error)
+      alert(error instanceof Error ? error.message : 'Error refunding the order. Please try again.')
+    } finally {
+      setRefundingId(null)
+    }
+  }
+
+  // Students can refund until they complete the course; admins any paid order
+  const canRefund = (order: OrderEntry) =>
+    order.status === 'paid' &&
+    (admin || (order.student_id === profile?.id && !completedCourseIds.has(order.course_id)))
+
+  if (!profile) return null
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{admin ? 'Orders' : 'My Purchases'}</h1>
+        <p className="text-gray-600">
+          {admin ? 'Every course purchase on PeerLearn' : 'Courses you have paid for and their payment status'}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-24 animate-pulse" />
+          ))}
+        </div>
+      ) : orders.length > 0 ? (
+        <div className="space-y-4">
+          {orders.map(order => (
+            <div key={order.id} className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <Link
+                    to={paths.course(order.course_id)}
+                    className="text-lg font-semibold text-gray-900 hover:text-purple-600 transition-colors"
+                  >
+                    {order.course?.title || 'Deleted course'}
+                  </Link>
+                  <p className="text-sm text-gray-600">
+                    {admin && order.student && `${order.student.full_name} • `}
+                    {new Date(order.created_at).toLocaleString()}
+                  </p>
+                  {order.status === 'failed' && order.failure_reason && (
+                    <p className="text-sm text-red-600 mt-1">{order.failure_reason}</p>
+                  )}
+                  {order.status === 'refunded' && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      Refunded{order.refunded_at && ` on ${new Date(order.refunded_at).toLocaleDateString()}`}
+                      {order.refund_reason && `: ${order.refund_reason}`}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-gray-900">₹{order.amount}</p>
+                    {admin && (
+                      <p className="text-xs text-gray-500">
+                        Fee ₹{order.platform_fee} • Mentor ₹{order.mentor_amount}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[order.status]}`}>
+                    {order.status}
+                  </span>
+                  {canRefund(order) && (
+                    <button
+                      onClick={() => handleRefund(order)}
+                      disabled={refundingId === order.id}
+                      className="flex items-center space-x-1 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-xl transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>{refundingId === order.id ? 'Refunding...' : 'Refund'}</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">No orders yet</h3>
+          <p className="text-gray-600">Paid courses you buy will show up here.</p>
+        </div>
+      )}
+    </div>
+  )
+}
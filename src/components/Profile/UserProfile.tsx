@@ -12,22 +12,18 @@ import {
   Save,
   X
 } from 'lucide-react'
+import { useParams } from 'react-router-dom'
 import { useAuthContext } from '../../contexts/AuthContext'
-import { supabase } from '../../lib/supabase'
-
-interface Project {
-  id: string
-  title: string
-  description: string
-  project_url?: string
-  github_url?: string
-  technologies: string[]
-  is_featured: boolean
-  created_at: string
-}
+import { addProject, getProfile, listProjects, type Profile, type Project } from '../../lib/repositories/profiles'
+import { NotFound } from '../Layout/NotFound'
 
 export function UserProfile() {
-  const { profile, updateProfile } = useAuthContext()
+  const { profile: currentUser, updateProfile } = useAuthContext()
+  const { userId } = useParams()
+  const isOwnProfile = !userId || userId === currentUser?.id
+  const [viewedProfile, setViewedProfile] = useState<Profile | null>(null)
+  const [profileLoading, setProfileLoading] = useState(false)
+  const profile = isOwnProfile ? currentUser : viewedProfile
   const [isEditing, setIsEditing] = useState(false)
   const [projects, setProjects] = useState<Project[]>([])
   const [showAddProject, setShowAddProject] = useState(false)
@@ -51,25 +47,34 @@ export function UserProfile() {
     is_featured: false,
   })
 
+  useEffect(() => {
+    if (!isOwnProfile && userId) {
+      fetchViewedProfile(userId)
+    }
+  }, [isOwnProfile, userId])
+
   useEffect(() => {
     if (profile) {
       fetchProjects()
     }
   }, [profile])
 
+  const fetchViewedProfile = async (id: string) => {
+    setProfileLoading(true)
+    try {
+      setViewedProfile(await getProfile(id))
+    } catch (error) {
+      console.error('Error fetching profile:', error)
+    } finally {
+      setProfileLoading(false)
+    }
+  }
+
   const fetchProjects = async () => {
     if (!profile) return
 
     try {
-      const { data, error } = await supabase
-        .from('user_projects')
-        .select('*')
-        .eq('user_id', profile.id)
-        .order('is_featured', { ascending: false })
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-      setProjects(data || [])
+      setProjects(await listProjects(profile.id))
     } catch (error) {
       console.error('Error fetching projects:', error)
     }
@@ -93,15 +98,11 @@ export function UserProfile() {
 
     setLoading(true)
     try {
-      const { error } = await supabase
-        .from('user_projects')
-        .insert({
-          user_id: profile.id,
-          ...newProject,
-        })
+      await addProject({
+        user_id: profile.id,
+        ...newProject,
+      })
 
-      if (error) throw error
-      
       setNewProject({
         title: '',
         description: '',
@@ -124,6 +125,16 @@ export function UserProfile() {
     setNewProject({ ...newProject, technologies: techs })
   }
 
+  if (!isOwnProfile && profileLoading) {
+    return (
+      <div className="p-6 max-w-4xl mx-auto">
+        <div className="bg-gray-200 rounded-2xl h-64 animate-pulse" />
+      </div>
+    )
+  }
+
+  if (!isOwnProfile && !profile) return <NotFound />
+
   if (!profile) return null
 
   return (
@@ -159,17 +170,19 @@ export function UserProfile() {
             </div>
           </div>
           
-          <button
-            onClick={() => setIsEditing(!isEditing)}
-            className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
-          >
-            <Edit3 className="w-4 h-4" />
-            <span>{isEditing ? 'Cancel' : 'Edit Profile'}</span>
-          </button>
+          {isOwnProfile && (
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+            >
+              <Edit3 className="w-4 h-4" />
+              <span>{isEditing ? 'Cancel' : 'Edit Profile'}</span>
+            </button>
+          )}
         </div>
 
         {/* Profile Form */}
-        {isEditing ? (
+        {isOwnProfile && isEditing ? (
           <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -337,17 +350,19 @@ export function UserProfile() {
       <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-gray-900">Projects</h2>
-          <button
-            onClick={() => setShowAddProject(true)}
-            className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            <span>Add Project</span>
-          </button>
+          {isOwnProfile && (
+            <button
+              onClick={() => setShowAddProject(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Project</span>
+            </button>
+          )}
         </div>
 
         {/* Add Project Form */}
-        {showAddProject && (
+        {isOwnProfile && showAddProject && (
           <div className="mb-8 p-6 bg-gray-50 rounded-xl">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-gray-900">Add New Project</h3>
@@ -452,7 +467,7 @@ export function UserProfile() {
                 
                 <p className="text-gray-600 text-sm mb-4">{project.description}</p>
                 
-                {project.technologies.length > 0 && (
+                {project.technologies && project.technologies.length > 0 && (
                   <div className="flex flex-wrap gap-2 mb-4">
                     {project.technologies.map((tech, index) => (
                       <span key={index} className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
@@ -496,13 +511,17 @@ export function UserProfile() {
               <Plus className="w-8 h-8 text-gray-400" />
             </div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No projects yet</h3>
-            <p className="text-gray-600 mb-4">Showcase your work by adding your first project</p>
-            <button
-              onClick={() => setShowAddProject(true)}
-              className="px-6 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
-            >
-              Add Your First Project
-            </button>
+            {isOwnProfile && (
+              <>
+                <p className="text-gray-600 mb-4">Showcase your work by adding your first project</p>
+                <button
+                  onClick={() => setShowAddProject(true)}
+                  className="px-6 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+                >
+                  Add Your First Project
+                </button>
+              </>
+            )}
           </div>
         )}
       </div>
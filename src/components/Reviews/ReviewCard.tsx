@@ -0,0 +1,260 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  EyeOff,
+  Flag,
+  MessageSquare,
+  Pencil,
+  Star,
+  ThumbsUp,
+  Trash2
+} from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { isAdmin } from '../../lib/permissions'
+import { paths } from '../../lib/routes'
+
+export interface CourseReview {
+  id: string
+  student_id: string
+  course_id: string
+  mentor_id: string
+  rating: number
+  review_text?: string
+  mentor_reply?: string
+  mentor_replied_at?: string
+  is_hidden: boolean
+  is_flagged: boolean
+  flag_reason?: string
+  helpful_count: number
+  created_at: string
+  updated_at: string
+  student?: {
+    id: string
+    full_name: string
+    profile_picture?: string
+  }
+  course?: {
+    title: string
+  }
+  // Only the viewer's own vote, when the query filters the embed by user
+  review_votes?: { user_id: string }[]
+}
+
+interface ReviewCardProps {
+  review: CourseReview
+  showCourse?: boolean
+  onEdit?: () => void
+  onChanged: () => void
+}
+
+export function ReviewCard({ review, showCourse, onEdit, onChanged }: ReviewCardProps) {
+  const { profile } = useAuthContext()
+  const [replying, setReplying] = useState(false)
+  const [reply, setReply] = useState(review.mentor_reply || '')
+  const [busy, setBusy] = useState(false)
+
+  if (!profile) return null
+
+  const isAuthor = review.student_id === profile.id
+  const isCourseMentor = review.mentor_id === profile.id
+  const canModerate = isAdmin(profile)
+  const hasVoted = !!review.review_votes?.some(v => v.user_id === profile.id)
+
+  const run = async (action: () => PromiseLike<{ error: unknown }>, message: string) => {
+    setBusy(true)
+    try {
+      const { error } = await action()
+      if (error) throw error
+      onChanged()
+    } catch (error) {
+      console.error(`Error ${message}:`, error)
+      alert(`Error ${message}. Please try again.`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggleHelpful = () => run(
+    () => hasVoted
+      ? supabase.from('review_votes').delete().eq('review_id', review.id).eq('user_id', profile.id)
+      : supabase.from('review_votes').insert({ review_id: review.id, user_id: profile.id }),
+    'updating vote'
+  )
+
+  const handleDelete = () => {
+    if (!confirm('Delete this review?')) return
+    run(() => supabase.from('reviews').delete().eq('id', review.id), 'deleting review')
+  }
+
+  const handleFlag = () => {
+    const reason = prompt('Why should this review be checked by a moderator?')
+    if (reason === null) return
+    run(() => supabase.rpc('flag_review', { p_review_id: review.id, p_reason: reason }), 'flagging review')
+  }
+
+  const handleReply = async () => {
+    await run(() => supabase.rpc('reply_to_review', { p_review_id: review.id, p_reply: reply }), 'saving reply')
+    setReplying(false)
+  }
+
+  const setHidden = (is_hidden: boolean) => run(
+    () => supabase.from('reviews').update({ is_hidden, is_flagged: false }).eq('id', review.id),
+    'moderating review'
+  )
+
+  return (
+    <div className={`p-4 rounded-xl ${review.is_hidden ? 'bg-gray-100 opacity-75' : 'bg-gray-50'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          {review.student && (
+            <Link to={paths.userProfile(review.student.id)} className="font-medium text-gray-900 hover:text-purple-600">
+              {review.student.full_name}
+            </Link>
+          )}
+          {showCourse && review.course && (
+            <Link to={paths.course(review.course_id)} className="block text-sm text-purple-600 hover:text-purple-700">
+              {review.course.title}
+            </Link>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          {[1, 2, 3, 4, 5].map(i => (
+            <Star
+              key={i}
+              className={`w-4 h-4 ${i <= review.rating ? 'text-yellow-500 fill-yellow-400' : 'text-gray-300'}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {(review.is_hidden || (canModerate && review.is_flagged)) && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {review.is_hidden && (
+            <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-gray-200 text-gray-700 rounded-full text-xs">
+              <EyeOff className="w-3 h-3" />
+              <span>Hidden by a moderator</span>
+            </span>
+          )}
+          {canModerate && review.is_flagged && (
+            <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs">
+              <Flag className="w-3 h-3" />
+              <span>Flagged{review.flag_reason && `: ${review.flag_reason}`}</span>
+            </span>
+          )}
+        </div>
+      )}
+
+      {review.review_text && <p className="text-gray-600 text-sm whitespace-pre-wrap">{review.review_text}</p>}
+      <p className="text-xs text-gray-400 mt-2">
+        {new Date(review.created_at).toLocaleDateString()}
+        {review.updated_at && review.updated_at > review.created_at && ' • edited'}
+      </p>
+
+      {review.mentor_reply && !replying && (
+        <div className="mt-3 ml-4 pl-3 border-l-2 border-purple-200">
+          <p className="text-xs font-medium text-purple-700 mb-1">Mentor reply</p>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.mentor_reply}</p>
+        </div>
+      )}
+
+      {replying && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            rows={2}
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply publicly to this review"
+            className="w-full px-3 py-2 border border-gray-300 rounded-xl text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={handleReply}
+              disabled={busy}
+              className="px-3 py-1 bg-purple-500 text-white rounded-lg text-sm hover:bg-purple-600 disabled:opacity-50"
+            >
+              {reply.trim() ? 'Post Reply' : 'Remove Reply'}
+            </button>
+            <button
+              onClick={() => {
+                setReply(review.mentor_reply || '')
+                setReplying(false)
+              }}
+              className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        {isAuthor ? (
+          <span className="flex items-center space-x-1 text-gray-500">
+            <ThumbsUp className="w-4 h-4" />
+            <span>{review.helpful_count} found this helpful</span>
+          </span>
+        ) : (
+          <button
+            onClick={toggleHelpful}
+            disabled={busy}
+            className={`flex items-center space-x-1 ${hasVoted ? 'text-purple-600' : 'text-gray-500 hover:text-purple-600'}`}
+          >
+            <ThumbsUp className={`w-4 h-4 ${hasVoted ? 'fill-purple-200' : ''}`} />
+            <span>Helpful ({review.helpful_count})</span>
+          </button>
+        )}
+
+        {isCourseMentor && !replying && (
+          <button onClick={() => setReplying(true)} className="flex items-center space-x-1 text-gray-500 hover:text-purple-600">
+            <MessageSquare className="w-4 h-4" />
+            <span>{review.mentor_reply ? 'Edit reply' : 'Reply'}</span>
+          </button>
+        )}
+
+        {isAuthor && onEdit && (
+          <button onClick={onEdit} className="flex items-center space-x-1 text-gray-500 hover:text-purple-600">
+            <Pencil className="w-4 h-4" />
+            <span>Edit</span>
+          </button>
+        )}
+
+        {(isAuthor || canModerate) && (
+          <button onClick={handleDelete} disabled={busy} className="flex items-center space-x-1 text-gray-500 hover:text-red-600">
+            <Trash2 className="w-4 h-4" />
+            <span>Delete</span>
+          </button>
+        )}
+
+        {!isAuthor && !canModerate && !review.is_flagged && (
+          <button onClick={handleFlag} disabled={busy} className="flex items-center space-x-1 text-gray-400 hover:text-red-600">
+            <Flag className="w-4 h-4" />
+            <span>Report</span>
+          </button>
+        )}
+
+        {canModerate && (
+          <button
+            onClick={() => setHidden(!review.is_hidden)}
+            disabled={busy}
+            className="flex items-center space-x-1 text-gray-500 hover:text-red-600"
+          >
+            <EyeOff className="w-4 h-4" />
+            <span>{review.is_hidden ? 'Unhide' : 'Hide'}</span>
+          </button>
+        )}
+
+        {canModerate && review.is_flagged && !review.is_hidden && (
+          <button
+            onClick={() => setHidden(false)}
+            disabled={busy}
+            className="flex items-center space-x-1 text-gray-500 hover:text-green-600"
+          >
+            <Flag className="w-4 h-4" />
+            <span>Dismiss flag</span>
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
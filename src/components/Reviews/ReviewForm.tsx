@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import { Star } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+
+interface ReviewFormProps {
+  courseId: string
+  mentorId: string
+  review?: {
+    id: string
+    rating: number
+    review_text?: string
+  }
+  onSaved: () => void
+  onCancel?: () => void
+}
+
+export function ReviewForm({ courseId, mentorId, review, onSaved, onCancel }: ReviewFormProps) {
+  const { profile } = useAuthContext()
+  const [rating, setRating] = useState(review?.rating || 0)
+  const [hoverRating, setHoverRating] = useState(0)
+  const [reviewText, setReviewText] = useState(review?.review_text || '')
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!profile || rating === 0) return
+
+    setSaving(true)
+    try {
+      const { error } = review
+        ? await supabase
+            .from('reviews')
+            .update({ rating, review_text: reviewText })
+            .eq('id', review.id)
+        : await supabase
+            .from('reviews')
+            .insert({
+              student_id: profile.id,
+              course_id: courseId,
+              mentor_id: mentorId,
+              rating,
+              review_text: reviewText
+            })
+
+      if (error) throw error
+      onSaved()
+    } catch (error) {
+      console.error('Error saving review:', error)
+      alert('Error saving your review. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-purple-50 rounded-xl space-y-3">
+      <p className="font-medium text-gray-900">{review ? 'Edit your review' : 'Rate this course'}</p>
+      <div className="flex items-center space-x-1" onMouseLeave={() => setHoverRating(0)}>
+        {[1, 2, 3, 4, 5].map(i => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => setRating(i)}
+            onMouseEnter={() => setHoverRating(i)}
+            aria-label={`${i} star${i > 1 ? 's' : ''}`}
+          >
+            <Star
+              className={`w-6 h-6 ${i <= (hoverRating || rating) ? 'text-yellow-500 fill-yellow-400' : 'text-gray-300'}`}
+            />
+          </button>
+        ))}
+      </div>
+      <textarea
+        rows={3}
+        value={reviewText}
+        onChange={(e) => setReviewText(e.target.value)}
+        placeholder="What did you like? What could be better?"
+        className="w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      />
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={saving || rating === 0}
+          className="px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : review ? 'Save Changes' : 'Post Review'}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
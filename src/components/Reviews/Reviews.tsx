@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Flag, MessageSquare, PenSquare, Star } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { isAdmin } from '../../lib/permissions'
+import { paths } from '../../lib/routes'
+import { listStudentEnrollments, type StudentEnrollment } from '../../lib/repositories/enrollments'
+import { ReviewCard, type CourseReview } from './ReviewCard'
+import { ReviewForm } from './ReviewForm'
+
+type ReviewsTab = 'mine' | 'received' | 'moderation'
+
+const reviewSelect = `
+  *,
+  student:users!reviews_student_id_fkey (
+    id,
+    full_name,
+    profile_picture
+  ),
+  course:courses (
+    title
+  ),
+  review_votes (
+    user_id
+  )
+`
+
+export function Reviews() {
+  const { profile } = useAuthContext()
+  const [activeTab, setActiveTab] = useState<ReviewsTab>('mine')
+  const [reviews, setReviews] = useState<CourseReview[]>([])
+  const [pending, setPending] = useState<StudentEnrollment[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [unrepliedOnly, setUnrepliedOnly] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchReviews()
+  }, [profile, activeTab])
+
+  const fetchReviews = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+      setEditingId(null)
+
+      let query = supabase
+        .from('reviews')
+        .select(reviewSelect)
+        .eq('review_votes.user_id', profile.id)
+        .order('created_at', { ascending: false })
+
+      if (activeTab === 'mine') {
+        query = query.eq('student_id', profile.id)
+      } else if (activeTab === 'received') {
+        query = query.eq('mentor_id', profile.id)
+      } else {
+        query = query.or('is_flagged.eq.true,is_hidden.eq.true')
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+      setReviews(data || [])
+
+      if (activeTab === 'mine') {
+        const enrollments = await listStudentEnrollments(profile.id)
+        const reviewed = new Set(data?.map(r => r.course_id))
+        setPending(enrollments.filter(e => !reviewed.has(e.course_id)))
+      }
+    } catch (error) {
+      console.error('Error fetching reviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!profile) return null
+
+  const tabs: { id: ReviewsTab; label: string; icon: typeof Star }[] = [
+    { id: 'mine', label: 'My Reviews', icon: PenSquare },
+  ]
+  if (profile.role !== 'student') {
+    tabs.push({ id: 'received', label: 'Reviews of My Courses', icon: MessageSquare })
+  }
+  if (isAdmin(profile)) {
+    tabs.push({ id: 'moderation', label: 'Moderation', icon: Flag })
+  }
+
+  const shownReviews = activeTab === 'received' && unrepliedOnly
+    ? reviews.filter(r => !r.mentor_reply)
+    : reviews
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Reviews</h1>
+        <p className="text-gray-600">Share feedback and see what learners are saying</p>
+      </div>
+
+      {tabs.length > 1 && (
+        <div className="flex justify-center gap-2">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-xl font-medium transition-colors ${
+                activeTab === tab.id
+                  ? 'bg-purple-500 text-white'
+                  : 'bg-white/70 text-gray-700 hover:bg-white'
+              }`}
+            >
+              <tab.icon className="w-4 h-4" />
+              <span>{tab.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-32 animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <>
+          {activeTab === 'mine' && pending.length > 0 && (
+            <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Waiting for your review</h2>
+              <div className="space-y-3">
+                {pending.map(item => (
+                  <div key={item.course_id}>
+                    {editingId === item.course_id && item.course ? (
+                      <ReviewForm
+                        courseId={item.course_id}
+                        mentorId={item.course.mentor_id}
+                        onSaved={fetchReviews}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    ) : (
+                      <div className="flex items-center justify-between p-4 bg-gray-50 rounded-xl">
+                        <Link to={paths.course(item.course_id)} className="font-medium text-gray-900 hover:text-purple-600">
+                          {item.course?.title}
+                        </Link>
+                        <button
+                          onClick={() => setEditingId(item.course_id)}
+                          className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium"
+                        >
+                          <Star className="w-4 h-4" />
+                          <span>Write a review</span>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+            {activeTab === 'received' && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mb-4">
+                <input
+                  type="checkbox"
+                  checked={unrepliedOnly}
+                  onChange={(e) => setUnrepliedOnly(e.target.checked)}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Only show reviews without a reply</span>
+              </label>
+            )}
+
+            {shownReviews.length > 0 ? (
+              <div className="space-y-4">
+                {shownReviews.map(review => (
+                  editingId === review.id ? (
+                    <ReviewForm
+                      key={review.id}
+                      courseId={review.course_id}
+                      mentorId={review.mentor_id}
+                      review={review}
+                      onSaved={fetchReviews}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <ReviewCard
+                      key={review.id}
+                      review={review}
+                      showCourse
+                      onEdit={() => setEditingId(review.id)}
+                      onChanged={fetchReviews}
+                    />
+                  )
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Star className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600">
+                  {activeTab === 'mine'
+                    ? "You haven't written any reviews yet."
+                    : activeTab === 'received'
+                      ? 'No reviews to show.'
+                      : 'Nothing needs moderation right now.'}
+                </p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react'
+import { Copy, UserCheck } from 'lucide-react'
+import { supabase, type Database, type SessionKind } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { checkInUrl } from '../../lib/sessions'
+import { listCommunityMembers } from '../../lib/repositories/communities'
+import { listEnrolledStudents } from '../../lib/repositories/enrollments'
+
+type Attendance = Database['public']['Tables']['session_attendance']['Row']
+
+interface AttendancePanelProps {
+  kind: SessionKind
+  sessionId: string
+  // The course or community whose students can attend
+  groupId: string
+  showCode: boolean
+}
+
+interface Participant {
+  id: string
+  full_name: string
+}
+
+const methodLabels: Record<Attendance['method'], string> = {
+  code: 'Code',
+  link: 'Link',
+  manual: 'Marked by host',
+}
+
+export function AttendancePanel({ kind, sessionId, groupId, showCode }: AttendancePanelProps) {
+  const { profile } = useAuthContext()
+  const [participants, setParticipants] = useState<Participant[]>([])
+  const [attendance, setAttendance] = useState<Attendance[]>([])
+  const [code, setCode] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  const sessionColumn = kind === 'course' ? 'session_id' : 'community_session_id'
+
+  useEffect(() => {
+    fetchAttendance()
+  }, [kind, sessionId, groupId])
+
+  useEffect(() => {
+    if (showCode) {
+      fetchCode()
+    }
+  }, [showCode, kind, sessionId])
+
+  const fetchAttendance = async () => {
+    try {
+      const [participantsData, attendanceRes] = await Promise.all([
+        kind === 'course' ? listEnrolledStudents(groupId) : listCommunityMembers(groupId),
+        supabase
+          .from('session_attendance')
+          .select('*')
+          .eq(sessionColumn, sessionId)
+      ])
+
+      if (attendanceRes.error) throw attendanceRes.error
+
+      setParticipants(participantsData
+        .filter(user => user.id !== profile?.id)
+        .sort((a, b) => a.full_name.localeCompare(b.full_name)))
+      setAttendance(attendanceRes.data || [])
+    } catch (error) {
+      console.error('Error fetching attendance:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchCode = async () => {
+    const { data, error } = await supabase.rpc('session_checkin_code', {
+      p_kind: kind,
+      p_session_id: sessionId
+    })
+
+    if (error) {
+      console.error('Error fetching check-in code:', error)
+      return
+    }
+    setCode(data)
+  }
+
+  const handleCopyLink = async () => {
+    if (!code) return
+    await navigator.clipboard.writeText(checkInUrl(kind, sessionId, code))
+    setCopied(true)
+  }
+
+  const toggleAttendance = async (participant: Participant) => {
+    if (!profile) return
+
+    const existing = attendance.find(a => a.user_id === participant.id)
+    setUpdatingId(participant.id)
+    try {
+      if (existing) {
+        const { error } = await supabase
+          .from('session_attendance')
+          .delete()
+          .eq('id', existing.id)
+
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('session_attendance')
+          .insert({
+            ...(kind === 'course' ? { session_id: sessionId } : { community_session_id: sessionId }),
+            user_id: participant.id,
+            method: 'manual',
+            marked_by: profile.id
+          })
+
+        if (error) throw error
+      }
+      fetchAttendance()
+    } catch (error) {
+      console.error('Error updating attendance:', error)
+      alert('Error updating attendance. Please try again.')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <div className="mt-3 p-4 bg-white rounded-xl space-y-4">
+      {showCode && code && (
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <p className="text-xs text-gray-500 uppercase tracking-wide">Check-in code</p>
+            <p className="text-3xl font-mono font-bold tracking-widest text-gray-900">{code}</p>
+          </div>
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center justify-center space-x-1 px-3 py-2 bg-purple-500 text-white rounded-xl text-sm hover:bg-purple-600 transition-colors"
+          >
+            <Copy className="w-4 h-4" />
+            <span>{copied ? 'Link copied' : 'Copy check-in link'}</span>
+          </button>
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+          <UserCheck className="w-4 h-4 mr-1" />
+          Attendance: {attendance.length} of {participants.length}
+        </p>
+        {loading ? (
+          <div className="bg-gray-200 rounded-xl h-16 animate-pulse" />
+        ) : participants.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {participants.map(participant => {
+              const record = attendance.find(a => a.user_id === participant.id)
+
+              return (
+                <label key={participant.id} className="flex items-center justify-between text-sm p-2 rounded-lg hover:bg-gray-50">
+                  <span className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={!!record}
+                      onChange={() => toggleAttendance(participant)}
+                      disabled={updatingId === participant.id}
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    <span className="text-gray-900">{participant.full_name}</span>
+                  </span>
+                  {record && (
+                    <span className="text-xs text-gray-500">
+                      {methodLabels[record.method]} · {new Date(record.checked_in_at).toLocaleTimeString(undefined, { timeStyle: 'short' })}
+                    </span>
+                  )}
+                </label>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No one to take attendance for yet.</p>
+        )}
+      </div>
+    </div>
+  )
+}
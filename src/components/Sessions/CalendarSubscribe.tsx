@@ -0,0 +1,90 @@
+import { useState } from 'react'
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { calendarFeedUrl } from '../../lib/sessions'
+
+export function CalendarSubscribe() {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const loadFeed = async (reset = false) => {
+    setLoading(true)
+    try {
+      const { data: token, error } = await supabase.rpc(reset ? 'reset_calendar_feed_token' : 'calendar_feed_token')
+
+      if (error) throw error
+      setFeedUrl(calendarFeedUrl(token))
+      setCopied(false)
+    } catch (error) {
+      console.error('Error loading calendar feed:', error)
+      alert('Error loading your calendar link. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReset = () => {
+    if (!confirm('Create a new link? Calendars subscribed with the old link will stop updating.')) return
+    loadFeed(true)
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    await navigator.clipboard.writeText(feedUrl)
+    setCopied(true)
+  }
+
+  if (!feedUrl) {
+    return (
+      <button
+        onClick={() => loadFeed()}
+        disabled={loading}
+        className="flex items-center space-x-2 px-4 py-2 bg-white/70 text-gray-700 rounded-xl hover:bg-white transition-colors disabled:opacity-50"
+      >
+        <CalendarPlus className="w-4 h-4" />
+        <span>{loading ? 'Loading...' : 'Subscribe in your calendar'}</span>
+      </button>
+    )
+  }
+
+  return (
+    <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-4 border border-white/20 space-y-3">
+      <p className="text-sm text-gray-600">
+        Add this link to Google Calendar, Outlook or Apple Calendar as a subscription. Rescheduled and
+        cancelled sessions update automatically. Keep it private — anyone with the link can see your sessions.
+      </p>
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          value={feedUrl}
+          readOnly
+          onFocus={(e) => e.target.select()}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-xl text-sm font-mono"
+        />
+        <button
+          onClick={handleCopy}
+          className="flex items-center justify-center space-x-1 px-3 py-2 bg-purple-500 text-white rounded-xl text-sm hover:bg-purple-600 transition-colors"
+        >
+          <Copy className="w-4 h-4" />
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+        <a
+          href={feedUrl.replace(/^https?:/, 'webcal:')}
+          className="flex items-center justify-center space-x-1 px-3 py-2 bg-white text-gray-700 rounded-xl text-sm hover:bg-gray-50 transition-colors"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          <span>Open</span>
+        </a>
+        <button
+          onClick={handleReset}
+          disabled={loading}
+          className="flex items-center justify-center space-x-1 px-3 py-2 text-red-600 rounded-xl text-sm hover:bg-red-50 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>Reset</span>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import { CheckCircle, UserCheck, XCircle } from 'lucide-react'
+import { supabase, type SessionKind } from '../../lib/supabase'
+import { routes } from '../../lib/routes'
+
+export function CheckIn() {
+  const { kind, sessionId } = useParams()
+  const [searchParams] = useSearchParams()
+  const linkCode = searchParams.get('code')
+  const [code, setCode] = useState(linkCode || '')
+  const [checkedInAt, setCheckedInAt] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  // The host's link carries the code, so opening it is enough
+  useEffect(() => {
+    if (linkCode) {
+      checkIn(linkCode, 'link')
+    }
+  }, [linkCode, sessionId])
+
+  const checkIn = async (value: string, method: 'code' | 'link') => {
+    if (!sessionId || (kind !== 'course' && kind !== 'community')) return
+
+    setSubmitting(true)
+    setErrorMessage(null)
+    try {
+      const { data, error } = await supabase.rpc('check_in', {
+        p_kind: kind as SessionKind,
+        p_session_id: sessionId,
+        p_code: value,
+        p_method: method
+      })
+
+      if (error) throw error
+      setCheckedInAt(data)
+    } catch (error) {
+      console.error('Error checking in:', error)
+      setErrorMessage((error as { message?: string }).message || 'Could not check you in. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (code.trim()) checkIn(code.trim(), 'code')
+  }
+
+  if (kind !== 'course' && kind !== 'community') {
+    return (
+      <div className="p-6 text-center text-gray-600">This check-in link is not valid.</div>
+    )
+  }
+
+  return (
+    <div className="p-6 flex justify-center">
+      <div className="w-full max-w-md bg-white/70 backdrop-blur-lg rounded-2xl p-8 border border-white/20 text-center">
+        {checkedInAt ? (
+          <>
+            <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">You're checked in</h1>
+            <p className="text-gray-600 mb-6">
+              Attendance recorded at {new Date(checkedInAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}.
+            </p>
+            <Link
+              to={routes.schedule}
+              className="inline-block px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors"
+            >
+              Back to schedule
+            </Link>
+          </>
+        ) : (
+          <>
+            <UserCheck className="w-16 h-16 text-purple-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Check in</h1>
+            <p className="text-gray-600 mb-6">Enter the code your host is showing in the session.</p>
+
+            {errorMessage && (
+              <div className="flex items-start space-x-2 text-sm text-red-700 bg-red-50 rounded-xl p-3 mb-4 text-left">
+                <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{errorMessage}</span>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="A1B2C3D4E5"
+                maxLength={10}
+                autoFocus
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-center text-2xl font-mono tracking-widest"
+              />
+              <button
+                type="submit"
+                disabled={submitting || !code.trim()}
+                className="w-full px-4 py-3 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+              >
+                {submitting ? 'Checking in...' : 'Check in'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
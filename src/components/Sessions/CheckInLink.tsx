@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { UserCheck } from 'lucide-react'
+import type { SessionKind } from '../../lib/supabase'
+import { paths } from '../../lib/routes'
+import { isCheckInOpen, type CourseSession } from '../../lib/sessions'
+
+interface CheckInLinkProps {
+  kind: SessionKind
+  session: Pick<CourseSession, 'id' | 'session_date' | 'duration_minutes' | 'cancelled_at'>
+}
+
+// Shown to attendees while check-in is open
+export function CheckInLink({ kind, session }: CheckInLinkProps) {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  if (!isCheckInOpen(session, now)) return null
+
+  return (
+    <Link
+      to={paths.checkIn(kind, session.id)}
+      className="flex items-center space-x-1 text-green-600 hover:text-green-700 text-sm font-medium"
+    >
+      <UserCheck className="w-4 h-4" />
+      <span>Check in</span>
+    </Link>
+  )
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react'
+import { Video } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import { isJoinable, joinOpensAt, sessionEnd, type CourseSession } from '../../lib/sessions'
+
+interface JoinSessionButtonProps {
+  session: CourseSession
+  isHost?: boolean
+}
+
+export function JoinSessionButton({ session, isHost = false }: JoinSessionButtonProps) {
+  const [now, setNow] = useState(() => new Date())
+  const [opening, setOpening] = useState(false)
+
+  // Re-render every 30s so the button appears without a refresh
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  if (session.cancelled_at || session.is_completed) return null
+  if (!isHost && now > sessionEnd(session)) return null
+
+  if (!isHost && !isJoinable(session, now)) {
+    return (
+      <span className="text-xs text-gray-500">
+        Link opens {joinOpensAt(session).toLocaleTimeString(undefined, { timeStyle: 'short' })}
+      </span>
+    )
+  }
+
+  const handleJoin = async () => {
+    setOpening(true)
+    try {
+      const { data: link, error } = await supabase.rpc('session_join_link', { p_session_id: session.id })
+
+      if (error) throw error
+      if (!link) {
+        alert(isHost ? 'Add a session link first.' : 'The join link is not available right now.')
+        return
+      }
+      window.open(link, '_blank', 'noopener,noreferrer')
+    } catch (error) {
+      console.error('Error opening session link:', error)
+      alert('Error opening the session link. Please try again.')
+    } finally {
+      setOpening(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleJoin}
+      disabled={opening}
+      className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 text-sm font-medium disabled:opacity-50"
+    >
+      <Video className="w-4 h-4" />
+      <span>{isHost ? 'Start' : 'Join'}</span>
+    </button>
+  )
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { AlertCircle, Calendar, CalendarPlus, Clock, Download } from 'lucide-react'
+import { supabase, type Database } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { paths } from '../../lib/routes'
+import { downloadIcs } from '../../lib/ics'
+import { listMentorCourses } from '../../lib/repositories/courses'
+import { listStudentEnrollments } from '../../lib/repositories/enrollments'
+import {
+  formatSessionTime,
+  sessionColumns,
+  sessionEnd,
+  sessionIcsEvent,
+  type CourseSession
+} from '../../lib/sessions'
+import { CalendarSubscribe } from './CalendarSubscribe'
+import { CheckInLink } from './CheckInLink'
+import { JoinSessionButton } from './JoinSessionButton'
+
+type SessionNotice = Database['public']['Tables']['session_notices']['Row']
+
+// Sessions are grouped by local calendar day
+function dayKey(date: string) {
+  return new Date(date).toDateString()
+}
+
+function formatDateTime(date?: string) {
+  return date ? new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : ''
+}
+
+export function Schedule() {
+  const { profile } = useAuthContext()
+  const [sessions, setSessions] = useState<CourseSession[]>([])
+  const [notices, setNotices] = useState<SessionNotice[]>([])
+  const [courseTitles, setCourseTitles] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (profile) {
+      fetchSchedule()
+    }
+  }, [profile])
+
+  const fetchSchedule = async () => {
+    if (!profile) return
+
+    try {
+      setLoading(true)
+
+      const [enrollments, hosted] = await Promise.all([
+        listStudentEnrollments(profile.id),
+        listMentorCourses(profile.id)
+      ])
+
+      const titles: Record<string, string> = {}
+      enrollments.forEach(e => {
+        titles[e.course_id] = e.course.title
+      })
+      hosted.forEach(c => {
+        titles[c.id] = c.title
+      })
+      setCourseTitles(titles)
+
+      const courseIds = Object.keys(titles)
+      if (courseIds.length === 0) {
+        setSessions([])
+        setNotices([])
+        return
+      }
+
+      // Look back a few hours so sessions in progress stay on the list
+      const since = new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString()
+      const noticesSince = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString()
+
+      const [sessionsRes, noticesRes] = await Promise.all([
+        supabase
+          .from('sessions')
+          .select(sessionColumns)
+          .in('course_id', courseIds)
+          .eq('is_completed', false)
+          .gte('session_date', since)
+          .order('session_date', { ascending: true }),
+        supabase
+          .from('session_notices')
+          .select('*')
+          .in('course_id', courseIds)
+          .gte('created_at', noticesSince)
+          .order('created_at', { ascending: false })
+      ])
+
+      if (sessionsRes.error) throw sessionsRes.error
+
+      const now = new Date()
+      setSessions((sessionsRes.data || []).filter(session => sessionEnd(session) >= now))
+      setNotices(noticesRes.data || [])
+    } catch (error) {
+      console.error('Error fetching schedule:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExportAll = () => {
+    downloadIcs('peerlearn-sessions.ics', sessions.map(session =>
+      sessionIcsEvent(session, courseTitles[session.course_id])
+    ))
+  }
+
+  if (!profile) return null
+
+  const days = sessions.reduce<Map<string, CourseSession[]>>((groups, session) => {
+    const key = dayKey(session.session_date)
+    groups.set(key, [...(groups.get(key) || []), session])
+    return groups
+  }, new Map())
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Schedule</h1>
+          <p className="text-gray-600">Upcoming sessions across all your courses</p>
+        </div>
+        <button
+          onClick={handleExportAll}
+          disabled={sessions.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 bg-white/70 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export .ics</span>
+        </button>
+      </div>
+
+      <CalendarSubscribe />
+
+      {notices.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4 space-y-2">
+          {notices.map(notice => (
+            <div key={notice.id} className="flex items-start space-x-2 text-sm text-yellow-800">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <p>
+                <span className="font-medium">{courseTitles[notice.course_id]}</span>
+                {notice.kind === 'cancelled'
+                  ? `: the session on ${formatDateTime(notice.previous_date)} was cancelled${notice.reason ? ` (${notice.reason})` : ''}.`
+                  : `: the session on ${formatDateTime(notice.previous_date)} moved to ${formatDateTime(notice.new_date)}.`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-gray-200 rounded-2xl h-32 animate-pulse" />
+          ))}
+        </div>
+      ) : days.size > 0 ? (
+        <div className="space-y-6">
+          {Array.from(days.entries()).map(([day, daySessions]) => (
+            <div key={day}>
+              <h2 className="text-sm font-semibold text-gray-600 uppercase tracking-wide mb-3">
+                {new Date(daySessions[0].session_date).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}
+              </h2>
+              <div className="space-y-3">
+                {daySessions.map(session => (
+                  <div
+                    key={session.id}
+                    className="bg-white/70 backdrop-blur-lg rounded-2xl p-4 border border-white/20 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+                  >
+                    <div className={session.cancelled_at ? 'opacity-60' : ''}>
+                      <Link
+                        to={paths.course(session.course_id)}
+                        className={`font-semibold text-gray-900 hover:text-purple-600 ${session.cancelled_at ? 'line-through' : ''}`}
+                      >
+                        {courseTitles[session.course_id]}
+                      </Link>
+                      {session.title && <p className="text-sm text-gray-700">{session.title}</p>}
+                      <p className="text-sm text-gray-600 flex items-center space-x-1">
+                        <Clock className="w-4 h-4" />
+                        <span>{formatSessionTime(session)}</span>
+                      </p>
+                      {session.cancelled_at && (
+                        <p className="text-xs text-red-600 mt-1">
+                          Cancelled{session.cancel_reason && `: ${session.cancel_reason}`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <JoinSessionButton session={session} isHost={session.mentor_id === profile.id} />
+                      {session.mentor_id !== profile.id && <CheckInLink kind="course" session={session} />}
+                      {!session.cancelled_at && (
+                        <button
+                          onClick={() => downloadIcs(`session-${session.id}.ics`, [sessionIcsEvent(session, courseTitles[session.course_id])])}
+                          title="Add to calendar"
+                          className="p-2 text-gray-500 hover:text-purple-600 hover:bg-purple-50 rounded-xl transition-colors"
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Nothing scheduled</h3>
+          <p className="text-gray-600">Sessions for your courses will show up here.</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,411 @@
+import { useState, useEffect } from 'react'
+import { Calendar, CheckCircle, Plus, Repeat, UserCheck, XCircle } from 'lucide-react'
+import { supabase } from '../../lib/supabase'
+import {
+  expandRecurrence,
+  formatSessionTime,
+  isCheckInOpen,
+  recurrenceRule,
+  repeatLabels,
+  sessionColumns,
+  sessionEnd,
+  toDateTimeInput,
+  type CourseSession,
+  type RepeatFrequency
+} from '../../lib/sessions'
+import { AttendancePanel } from './AttendancePanel'
+import { JoinSessionButton } from './JoinSessionButton'
+
+interface SessionManagerProps {
+  courseId: string
+  mentorId: string
+}
+
+interface SessionForm {
+  title: string
+  start: string
+  duration: number
+  link: string
+}
+
+const emptyForm: SessionForm = { title: '', start: '', duration: 60, link: '' }
+
+export function SessionManager({ courseId, mentorId }: SessionManagerProps) {
+  const [sessions, setSessions] = useState<CourseSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<SessionForm>(emptyForm)
+  const [repeat, setRepeat] = useState<RepeatFrequency>('none')
+  const [occurrences, setOccurrences] = useState(4)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editForm, setEditForm] = useState<SessionForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [attendanceId, setAttendanceId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSessions()
+  }, [courseId])
+
+  const fetchSessions = async () => {
+    try {
+      // Upcoming sessions, past ones still waiting to be marked completed and
+      // last week's, so attendance can still be corrected
+      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+      const { data, error } = await supabase
+        .from('sessions')
+        .select(sessionColumns)
+        .eq('course_id', courseId)
+        .or(`is_completed.eq.false,session_date.gte.${since}`)
+        .order('session_date', { ascending: true })
+
+      if (error) throw error
+      setSessions(data || [])
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form.start) return
+
+    setSaving(true)
+    try {
+      const starts = expandRecurrence(new Date(form.start), repeat, occurrences)
+      const seriesId = repeat === 'none' ? undefined : crypto.randomUUID()
+      const rule = recurrenceRule(repeat, occurrences)
+
+      const { error } = await supabase
+        .from('sessions')
+        .insert(starts.map(start => ({
+          course_id: courseId,
+          mentor_id: mentorId,
+          title: form.title.trim() || null,
+          session_date: start.toISOString(),
+          duration_minutes: form.duration,
+          session_link: form.link.trim() || null,
+          series_id: seriesId,
+          recurrence_rule: rule
+        })))
+
+      if (error) throw error
+
+      setForm(emptyForm)
+      setRepeat('none')
+      setShowForm(false)
+      fetchSessions()
+    } catch (error) {
+      console.error('Error scheduling session:', error)
+      alert('Error scheduling the session. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const startEditing = async (session: CourseSession) => {
+    setEditingId(session.id)
+    setEditForm({
+      title: session.title || '',
+      start: toDateTimeInput(session.session_date),
+      duration: session.duration_minutes,
+      link: ''
+    })
+
+    const { data: link } = await supabase.rpc('session_join_link', { p_session_id: session.id })
+    if (link) setEditForm(current => ({ ...current, link }))
+  }
+
+  const handleReschedule = async (session: CourseSession) => {
+    setSaving(true)
+    try {
+      // Moving the start time records a notice for enrolled students
+      const { error } = await supabase
+        .from('sessions')
+        .update({
+          title: editForm.title.trim() || null,
+          session_date: new Date(editForm.start).toISOString(),
+          duration_minutes: editForm.duration,
+          session_link: editForm.link.trim() || null
+        })
+        .eq('id', session.id)
+
+      if (error) throw error
+
+      setEditingId(null)
+      fetchSessions()
+    } catch (error) {
+      console.error('Error rescheduling session:', error)
+      alert('Error saving the session. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancel = async (session: CourseSession) => {
+    const reason = prompt('Cancel this session? Enrolled students will be notified.\n\nReason (optional):')
+    if (reason === null) return
+
+    const remaining = session.series_id
+      ? sessions.filter(s => s.series_id === session.series_id && !s.cancelled_at && s.session_date > session.session_date)
+      : []
+    const cancelSeries = remaining.length > 0 &&
+      confirm(`Also cancel the ${remaining.length} later session(s) in this series?`)
+
+    try {
+      const ids = [session.id, ...(cancelSeries ? remaining.map(s => s.id) : [])]
+      const { error } = await supabase
+        .from('sessions')
+        .update({
+          cancelled_at: new Date().toISOString(),
+          cancel_reason: reason.trim() || null
+        })
+        .in('id', ids)
+
+      if (error) throw error
+      fetchSessions()
+    } catch (error) {
+      console.error('Error cancelling session:', error)
+      alert('Error cancelling the session. Please try again.')
+    }
+  }
+
+  const handleComplete = async (session: CourseSession) => {
+    try {
+      const { error } = await supabase
+        .from('sessions')
+        .update({ is_completed: true })
+        .eq('id', session.id)
+
+      if (error) throw error
+      fetchSessions()
+    } catch (error) {
+      console.error('Error completing session:', error)
+      alert('Error marking the session completed. Please try again.')
+    }
+  }
+
+  const now = new Date()
+  const visibleSessions = sessions.filter(session =>
+    !session.cancelled_at || new Date(session.session_date) >= now
+  )
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent'
+
+  const sessionFields = (value: SessionForm, onChange: (value: SessionForm) => void) => (
+    <>
+      <input
+        type="text"
+        value={value.title}
+        onChange={(e) => onChange({ ...value, title: e.target.value })}
+        placeholder="Title (optional)"
+        className={inputClass}
+      />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="datetime-local"
+          value={value.start}
+          onChange={(e) => onChange({ ...value, start: e.target.value })}
+          className={inputClass}
+          required
+        />
+        <input
+          type="number"
+          min="15"
+          step="15"
+          value={value.duration}
+          onChange={(e) => onChange({ ...value, duration: Number(e.target.value) })}
+          title="Duration in minutes"
+          className={inputClass}
+          required
+        />
+      </div>
+      <input
+        type="url"
+        value={value.link}
+        onChange={(e) => onChange({ ...value, link: e.target.value })}
+        placeholder="Meeting link (Google Meet, Zoom...)"
+        className={inputClass}
+      />
+    </>
+  )
+
+  return (
+    <div id="sessions" className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center">
+          <Calendar className="w-5 h-5 mr-2 text-blue-500" />
+          Sessions
+        </h2>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center space-x-1 px-3 py-2 bg-purple-500 text-white rounded-xl text-sm hover:bg-purple-600 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Schedule</span>
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSchedule} className="space-y-3 mb-6 p-4 bg-gray-50 rounded-xl">
+          {sessionFields(form, setForm)}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <select
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as RepeatFrequency)}
+              className={inputClass}
+            >
+              {(Object.keys(repeatLabels) as RepeatFrequency[]).map(frequency => (
+                <option key={frequency} value={frequency}>{repeatLabels[frequency]}</option>
+              ))}
+            </select>
+            {repeat !== 'none' && (
+              <input
+                type="number"
+                min="2"
+                max="52"
+                value={occurrences}
+                onChange={(e) => setOccurrences(Number(e.target.value))}
+                title="Number of sessions"
+                className={inputClass}
+              />
+            )}
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-xl font-medium hover:from-purple-600 hover:to-blue-600 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Scheduling...' : repeat === 'none' ? 'Schedule Session' : `Schedule ${occurrences} Sessions`}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="bg-gray-200 rounded-xl h-24 animate-pulse" />
+      ) : visibleSessions.length > 0 ? (
+        <div className="space-y-3">
+          {visibleSessions.map(session => {
+            const started = new Date(session.session_date) <= now
+            const ended = sessionEnd(session) <= now
+
+            if (editingId === session.id) {
+              return (
+                <div key={session.id} className="space-y-3 p-4 bg-gray-50 rounded-xl">
+                  {sessionFields(editForm, setEditForm)}
+                  <div className="flex justify-end space-x-3">
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => handleReschedule(session)}
+                      disabled={saving || !editForm.start}
+                      className="px-4 py-2 bg-purple-500 text-white rounded-xl hover:bg-purple-600 transition-colors disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              )
+            }
+
+            const checkInOpen = isCheckInOpen(session, now)
+
+            return (
+              <div key={session.id} className="p-4 bg-gray-50 rounded-xl">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div className={session.cancelled_at ? 'opacity-60' : ''}>
+                    <p className={`font-medium text-gray-900 ${session.cancelled_at ? 'line-through' : ''}`}>
+                      {session.title || formatSessionTime(session)}
+                    </p>
+                    {session.title && <p className="text-sm text-gray-600">{formatSessionTime(session)}</p>}
+                    <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                      {session.series_id && (
+                        <span className="flex items-center space-x-1">
+                          <Repeat className="w-3 h-3" />
+                          <span>Recurring</span>
+                        </span>
+                      )}
+                      {session.cancelled_at && (
+                        <span className="text-red-600">Cancelled{session.cancel_reason && `: ${session.cancel_reason}`}</span>
+                      )}
+                      {ended && !session.is_completed && !session.cancelled_at && (
+                        <span className="text-yellow-700">Waiting to be marked completed</span>
+                      )}
+                      {session.is_completed && (
+                        <span className="text-green-700">Completed</span>
+                      )}
+                    </div>
+                  </div>
+
+                  {!session.cancelled_at && (
+                    <div className="flex items-center gap-3">
+                      {!ended && <JoinSessionButton session={session} isHost />}
+                      {(started || checkInOpen) && (
+                        <button
+                          onClick={() => setAttendanceId(attendanceId === session.id ? null : session.id)}
+                          className="flex items-center space-x-1 text-sm text-gray-600 hover:text-purple-600"
+                        >
+                          <UserCheck className="w-4 h-4" />
+                          <span>Attendance</span>
+                        </button>
+                      )}
+                      {session.is_completed ? null : started ? (
+                        <button
+                          onClick={() => handleComplete(session)}
+                          className="flex items-center space-x-1 text-green-600 hover:text-green-700 text-sm font-medium"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          <span>Mark completed</span>
+                        </button>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => startEditing(session)}
+                            className="text-sm text-gray-600 hover:text-purple-600"
+                          >
+                            Reschedule
+                          </button>
+                          <button
+                            onClick={() => handleCancel(session)}
+                            className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700"
+                          >
+                            <XCircle className="w-4 h-4" />
+                            <span>Cancel</span>
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {attendanceId === session.id && (
+                  <AttendancePanel
+                    kind="course"
+                    sessionId={session.id}
+                    groupId={courseId}
+                    showCode={checkInOpen}
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-6">No upcoming sessions scheduled yet</p>
+      )}
+    </div>
+  )
+}
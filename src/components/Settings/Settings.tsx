@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react'
+import { Bell } from 'lucide-react'
+import { supabase, type NotificationKind } from '../../lib/supabase'
+import { useAuthContext } from '../../contexts/AuthContext'
+import { notificationKinds } from '../../lib/notifications'
+
+export function Settings() {
+  const { profile } = useAuthContext()
+  // Kinds without a stored preference are enabled
+  const [disabledKinds, setDisabledKinds] = useState<Set<NotificationKind>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<NotificationKind | null>(null)
+
+  useEffect(() => {
+    if (profile) {
+      fetchPreferences()
+    }
+  }, [profile])
+
+  const fetchPreferences = async () => {
+    if (!profile) return
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('kind, enabled')
+        .eq('user_id', profile.id)
+
+      if (error) throw error
+      setDisabledKinds(new Set((data || []).filter(p => !p.enabled).map(p => p.kind)))
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const togglePreference = async (kind: NotificationKind, enabled: boolean) => {
+    if (!profile) return
+
+    setSaving(kind)
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: profile.id,
+          kind,
+          enabled,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,kind' })
+
+      if (error) throw error
+
+      setDisabledKinds(prev => {
+        const next = new Set(prev)
+        if (enabled) {
+          next.delete(kind)
+        } else {
+          next.add(kind)
+        }
+        return next
+      })
+    } catch (error) {
+      console.error('Error saving notification preference:', error)
+      alert('Error saving your preference. Please try again.')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600">Choose how PeerLearn keeps you in the loop</p>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+          <Bell className="w-5 h-5 mr-2 text-purple-500" />
+          Notifications
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">Turned-off kinds won't appear under the bell or in your history.</p>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="bg-gray-200 rounded-xl h-12 animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {notificationKinds.map(({ kind, label, description }) => (
+              <label key={kind} className="flex items-center justify-between py-3 cursor-pointer">
+                <div>
+                  <p className="font-medium text-gray-900">{label}</p>
+                  <p className="text-sm text-gray-500">{description}</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={!disabledKinds.has(kind)}
+                  disabled={saving === kind}
+                  onChange={(e) => togglePreference(kind, e.target.checked)}
+                  className="w-5 h-5 rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,16 @@
 import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
-import { supabase } from '../lib/supabase'
-import type { Database } from '../lib/supabase'
-
-type UserProfile = Database['public']['Tables']['users']['Row']
+import { supabase, type TablesUpdate } from '../lib/supabase'
+import {
+  createProfile,
+  getProfile,
+  updateProfile as updateProfileRow,
+  type Profile
+} from '../lib/repositories/profiles'
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null)
-  const [profile, setProfile] = useState<UserProfile | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -57,19 +60,7 @@ export function useAuth() {
   const fetchProfile = async (userId: string) => {
     try {
       setError(null)
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .maybeSingle()
-      
-      if (error) {
-        console.error('Error fetching profile:', error)
-        setError('Failed to fetch profile')
-        return
-      }
-      
-      setProfile(data)
+      setProfile(await getProfile(userId))
     } catch (error) {
       console.error('Error fetching profile:', error)
       setError('Failed to fetch profile')
@@ -91,15 +82,11 @@ export function useAuth() {
 
       if (data.user) {
         // Create user profile
-        const { error: profileError } = await supabase
-          .from('users')
-          .insert({
-            id: data.user.id,
-            email: data.user.email!,
-            ...userData,
-          })
-
-        if (profileError) throw profileError
+        await createProfile({
+          id: data.user.id,
+          email: data.user.email!,
+          ...userData,
+        })
       }
 
       return { data, error: null }
@@ -125,18 +112,11 @@ export function useAuth() {
     return { error }
   }
 
-  const updateProfile = async (updates: Partial<UserProfile>) => {
+  const updateProfile = async (updates: TablesUpdate<'users'>) => {
     if (!user) return { error: new Error('No user logged in') }
 
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .update(updates)
-        .eq('id', user.id)
-        .select()
-        .single()
-
-      if (error) throw error
+      const data = await updateProfileRow(user.id, updates)
       setProfile(data)
       return { data, error: null }
     } catch (error) {
@@ -148,6 +128,7 @@ export function useAuth() {
     user,
     profile,
     loading,
+    error,
     signUp,
     signIn,
     signOut,
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type AutosaveState = 'idle' | 'saving' | 'saved' | 'error'
+
+interface UseAutosaveOptions {
+  enabled?: boolean
+  delay?: number
+}
+
+// Saves `value` once it has stopped changing for `delay` ms. Saves run one
+// at a time, so a slow request is never overtaken by an older value.
+// Call `markSaved` after loading or saving by other means so that value
+// isn't saved again.
+export function useAutosave<T>(
+  value: T,
+  save: (value: T) => Promise<void>,
+  { enabled = true, delay = 1500 }: UseAutosaveOptions = {}
+) {
+  const [state, setState] = useState<AutosaveState>('idle')
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const lastSaved = useRef(JSON.stringify(value))
+  const queue = useRef(Promise.resolve())
+  const saveRef = useRef(save)
+  saveRef.current = save
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const serialized = JSON.stringify(value)
+    if (serialized === lastSaved.current) return
+
+    const timeout = setTimeout(() => {
+      queue.current = queue.current.then(async () => {
+        if (serialized === lastSaved.current) return
+
+        setState('saving')
+        try {
+          await saveRef.current(value)
+          lastSaved.current = serialized
+          setSavedAt(new Date())
+          setState('saved')
+        } catch (error) {
+          console.error('Error autosaving:', error)
+          setState('error')
+        }
+      })
+    }, delay)
+
+    return () => clearTimeout(timeout)
+  }, [value, enabled, delay])
+
+  const markSaved = useCallback((saved: T) => {
+    lastSaved.current = JSON.stringify(saved)
+  }, [])
+
+  return {
+    state,
+    savedAt,
+    dirty: JSON.stringify(value) !== lastSaved.current,
+    markSaved
+  }
+}
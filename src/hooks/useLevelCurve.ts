@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabase'
+import { defaultLevelCurve, type LevelCurve } from '../lib/levels'
+
+// The curve rarely changes, so every component shares one request
+let curveRequest: Promise<LevelCurve> | null = null
+
+function loadLevelCurve() {
+  if (!curveRequest) {
+    curveRequest = Promise.resolve(
+      supabase
+        .from('level_curve')
+        .select('base_xp, growth_xp')
+        .maybeSingle()
+    ).then(({ data, error }) => {
+      if (error) throw error
+      return data ?? defaultLevelCurve
+    }).catch(error => {
+      console.error('Error fetching level curve:', error)
+      curveRequest = null
+      return defaultLevelCurve
+    })
+  }
+  return curveRequest
+}
+
+export function useLevelCurve() {
+  const [curve, setCurve] = useState<LevelCurve>(defaultLevelCurve)
+
+  useEffect(() => {
+    let mounted = true
+    loadLevelCurve().then(loaded => {
+      if (mounted) setCurve(loaded)
+    })
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  return curve
+}
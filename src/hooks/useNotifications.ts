@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabase'
+import type { AppNotification } from '../lib/notifications'
+import { useRealtime } from './useRealtime'
+
+const RECENT_LIMIT = 10
+
+// The latest notifications and unread count for the Header bell, kept
+// current over realtime
+export function useNotifications(userId: string | undefined) {
+  const [recent, setRecent] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  useEffect(() => {
+    if (userId) {
+      fetchNotifications()
+    } else {
+      setRecent([])
+      setUnreadCount(0)
+    }
+  }, [userId])
+
+  useRealtime({
+    table: 'notifications',
+    filter: `user_id=eq.${userId}`,
+    enabled: !!userId,
+    onChange: change => {
+      if (change.type === 'INSERT') {
+        setRecent(prev => [change.row as AppNotification, ...prev].slice(0, RECENT_LIMIT))
+        setUnreadCount(prev => prev + 1)
+      } else {
+        // Read elsewhere, e.g. on the history page or in another tab
+        fetchNotifications()
+      }
+    },
+    onReconnect: () => fetchNotifications()
+  })
+
+  const fetchNotifications = async () => {
+    if (!userId) return
+
+    try {
+      const [recentRes, unreadRes] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(RECENT_LIMIT),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .is('read_at', null)
+      ])
+
+      if (recentRes.error) throw recentRes.error
+      if (unreadRes.error) throw unreadRes.error
+
+      setRecent((recentRes.data || []) as AppNotification[])
+      setUnreadCount(unreadRes.count || 0)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+    }
+  }
+
+  const markRead = async (id: string) => {
+    const notification = recent.find(n => n.id === id)
+    if (notification?.read_at) return
+
+    const readAt = new Date().toISOString()
+    setRecent(prev => prev.map(n => n.id === id ? { ...n, read_at: readAt } : n))
+    setUnreadCount(prev => Math.max(prev - 1, 0))
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error marking notification read:', error)
+      fetchNotifications()
+    }
+  }
+
+  const markAllRead = async () => {
+    if (!userId) return
+
+    const readAt = new Date().toISOString()
+    setRecent(prev => prev.map(n => n.read_at ? n : { ...n, read_at: readAt }))
+    setUnreadCount(0)
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', userId)
+      .is('read_at', null)
+
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      fetchNotifications()
+    }
+  }
+
+  return { recent, unreadCount, markRead, markAllRead }
+}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react'
+import { subscribeToTable, type RealtimeSubscription, type RealtimeTable } from '../lib/realtime'
+
+interface UseRealtimeOptions<T extends RealtimeTable> extends RealtimeSubscription<T> {
+  // Lets callers wait for ids the filter depends on
+  enabled?: boolean
+}
+
+// Subscribe for the lifetime of the component. Handlers can change on every
+// render without resubscribing; the channel only reopens when the table,
+// event or filter changes.
+export function useRealtime<T extends RealtimeTable>(options: UseRealtimeOptions<T>) {
+  const handlers = useRef(options)
+  handlers.current = options
+
+  const { table, event, filter, enabled = true } = options
+
+  useEffect(() => {
+    if (!enabled) return
+
+    return subscribeToTable<T>({
+      table,
+      event,
+      filter,
+      onChange: change => handlers.current.onChange(change),
+      onReconnect: () => handlers.current.onReconnect?.()
+    })
+  }, [table, event, filter, enabled])
+}
@@ -0,0 +1,51 @@
+import type { BadgeMetric, BadgeRule } from './supabase'
+
+// Mirrors the metrics computed by `badge_metric` in the database
+const metricLabels: Record<BadgeMetric, (min: number) => string> = {
+  completed_enrollments: min => `${min}+ completed courses`,
+  distinct_domains: min => `courses completed in ${min}+ domains`,
+  certificates: min => `${min}+ certificates`,
+  paid_completions: min => `${min}+ completed paid courses`,
+  helpful_reviews: min => `${min}+ reviews marked helpful`,
+  sessions_attended: min => `${min}+ sessions attended`,
+  sessions_conducted: min => `${min}+ sessions conducted`,
+  sessions_with_attendees: min => `${min}+ completed sessions with attendees`,
+  bookings: min => `${min}+ bookings`,
+  average_rating: min => `${min}+ average rating`,
+  total_earnings: min => `₹${min}+ earned`,
+  is_verified: () => 'verified mentor',
+}
+
+export function describeBadgeRule(rule?: BadgeRule | null) {
+  if (!rule?.all?.length) return 'Awarded manually'
+  return rule.all
+    .map(condition => metricLabels[condition.metric]?.(condition.min) ?? condition.metric)
+    .join(' and ')
+}
+
+const metricUnits: Record<BadgeMetric, string> = {
+  completed_enrollments: 'completed courses',
+  distinct_domains: 'domains',
+  certificates: 'certificates',
+  paid_completions: 'paid courses',
+  helpful_reviews: 'helpful reviews',
+  sessions_attended: 'sessions attended',
+  sessions_conducted: 'sessions',
+  sessions_with_attendees: 'sessions with attendees',
+  bookings: 'bookings',
+  average_rating: 'average rating',
+  total_earnings: 'earned',
+  is_verified: '',
+}
+
+// e.g. "2 of 3 certificates" or "₹200 of ₹500 earned"
+export function formatBadgeProgress(metric: BadgeMetric, current: number, target: number) {
+  if (metric === 'is_verified') return current >= target ? 'Verified' : 'Not verified yet'
+
+  const format = (value: number) => {
+    if (metric === 'total_earnings') return `₹${value}`
+    if (metric === 'average_rating') return value.toFixed(1)
+    return String(Math.min(value, target))
+  }
+  return `${format(current)} of ${format(target)} ${metricUnits[metric]}`
+}
@@ -0,0 +1,9 @@
+// Encode a rendered canvas, e.g. as a JPEG page for createImagePdf
+export function canvasBytes(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('Could not render image'))
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject)
+    }, type, 0.92)
+  })
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { catalogSearchParams, countAdvancedFilters, parseCatalogFilters, type CatalogFilters } from './catalog'
+
+const defaults: CatalogFilters = {
+  query: '',
+  domain: '',
+  minPrice: undefined,
+  maxPrice: undefined,
+  minHours: undefined,
+  maxHours: undefined,
+  minRating: undefined,
+  verifiedOnly: false,
+  seatsAvailable: false,
+  sort: 'newest'
+}
+
+describe('parseCatalogFilters', () => {
+  it('falls back to defaults for an empty query string', () => {
+    expect(parseCatalogFilters(new URLSearchParams())).toEqual(defaults)
+  })
+
+  it('ignores malformed numbers and unknown sorts', () => {
+    const filters = parseCatalogFilters(new URLSearchParams('min_price=abc&max_price=&rating=4&sort=cheapest'))
+
+    expect(filters.minPrice).toBeUndefined()
+    expect(filters.maxPrice).toBeUndefined()
+    expect(filters.minRating).toBe(4)
+    expect(filters.sort).toBe('newest')
+  })
+
+  it('round-trips through catalogSearchParams', () => {
+    const filters: CatalogFilters = {
+      ...defaults,
+      query: 'hooks',
+      domain: 'React',
+      minPrice: 0,
+      maxPrice: 50,
+      minHours: 2,
+      verifiedOnly: true,
+      seatsAvailable: true,
+      sort: 'price_asc'
+    }
+
+    expect(parseCatalogFilters(catalogSearchParams(filters))).toEqual(filters)
+  })
+})
+
+describe('catalogSearchParams', () => {
+  it('writes only non-default values', () => {
+    expect(catalogSearchParams(defaults).toString()).toBe('')
+    expect(catalogSearchParams({ ...defaults, query: '  sql  ', minPrice: 0 }).toString()).toBe('q=sql&min_price=0')
+  })
+})
+
+describe('countAdvancedFilters', () => {
+  it('counts the filters behind the More Filters panel', () => {
+    expect(countAdvancedFilters(defaults)).toBe(0)
+    expect(countAdvancedFilters({ ...defaults, domain: 'React', minPrice: 0, minRating: 4, verifiedOnly: true })).toBe(3)
+  })
+})
@@ -0,0 +1,86 @@
+export type CatalogSort = 'newest' | 'rating' | 'popular' | 'price_asc' | 'price_desc'
+
+export interface CatalogFilters {
+  query: string
+  domain: string
+  minPrice?: number
+  maxPrice?: number
+  minHours?: number
+  maxHours?: number
+  minRating?: number
+  verifiedOnly: boolean
+  seatsAvailable: boolean
+  sort: CatalogSort
+}
+
+export const catalogSorts: { value: CatalogSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'rating', label: 'Highest rated' },
+  { value: 'popular', label: 'Most popular' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+]
+
+export const catalogDomains = [
+  'Python', 'JavaScript', 'React', 'UI/UX Design', 'Data Science',
+  'Machine Learning', 'Web Development', 'Mobile Development',
+  'DevOps', 'Cybersecurity', 'Resume Building', 'Interview Prep'
+]
+
+function readNumber(params: URLSearchParams, key: string) {
+  const value = params.get(key)
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// The catalog keeps its filters in the query string so a search can be
+// bookmarked and shared; unknown or malformed values fall back to defaults
+export function parseCatalogFilters(params: URLSearchParams): CatalogFilters {
+  const sort = params.get('sort')
+  return {
+    query: params.get('q') ?? '',
+    domain: params.get('domain') ?? '',
+    minPrice: readNumber(params, 'min_price'),
+    maxPrice: readNumber(params, 'max_price'),
+    minHours: readNumber(params, 'min_hours'),
+    maxHours: readNumber(params, 'max_hours'),
+    minRating: readNumber(params, 'rating'),
+    verifiedOnly: params.get('verified') === '1',
+    seatsAvailable: params.get('seats') === '1',
+    sort: catalogSorts.some(s => s.value === sort) ? sort as CatalogSort : 'newest',
+  }
+}
+
+// Only non-default values are written, keeping shared links short
+export function catalogSearchParams(filters: CatalogFilters) {
+  const params = new URLSearchParams()
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+
+  set('q', filters.query.trim())
+  set('domain', filters.domain)
+  set('min_price', filters.minPrice)
+  set('max_price', filters.maxPrice)
+  set('min_hours', filters.minHours)
+  set('max_hours', filters.maxHours)
+  set('rating', filters.minRating)
+  if (filters.verifiedOnly) params.set('verified', '1')
+  if (filters.seatsAvailable) params.set('seats', '1')
+  if (filters.sort !== 'newest') params.set('sort', filters.sort)
+  return params
+}
+
+// Filters behind the "More Filters" panel, used to badge the button
+export function countAdvancedFilters(filters: CatalogFilters) {
+  return [
+    filters.minPrice,
+    filters.maxPrice,
+    filters.minHours,
+    filters.maxHours,
+    filters.minRating,
+  ].filter(value => value !== undefined).length +
+    (filters.verifiedOnly ? 1 : 0) +
+    (filters.seatsAvailable ? 1 : 0)
+}
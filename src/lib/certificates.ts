@@ -0,0 +1,159 @@
+import { certificatePayload, type CertificateDetails } from '../../supabase/functions/_shared/certificate'
+import { canvasBytes } from './canvas'
+import { createImagePdf, readPdfInfo } from './pdf'
+import { addPngText, readPngText } from './png'
+import { paths } from './routes'
+
+export interface CertificateRecord extends CertificateDetails {
+  signature?: string
+  // The text the signature covers, as it was when signed
+  signed_payload?: string
+}
+
+export interface SignedCertificate {
+  payload: string
+  signature: string
+}
+
+const PAYLOAD_KEY = 'CertificatePayload'
+const SIGNATURE_KEY = 'CertificateSignature'
+
+// A4 landscape at roughly 150 dpi
+const WIDTH = 1754
+const HEIGHT = 1240
+
+export function verificationUrl(certificateId: string) {
+  return `${window.location.origin}${paths.verifyCertificate(certificateId)}`
+}
+
+export function renderCertificate(certificate: CertificateRecord) {
+  const canvas = document.createElement('canvas')
+  canvas.width = WIDTH
+  canvas.height = HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas is not supported in this browser')
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+  const border = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT)
+  border.addColorStop(0, '#a855f7')
+  border.addColorStop(1, '#3b82f6')
+  ctx.strokeStyle = border
+  ctx.lineWidth = 24
+  ctx.strokeRect(40, 40, WIDTH - 80, HEIGHT - 80)
+  ctx.lineWidth = 3
+  ctx.strokeRect(80, 80, WIDTH - 160, HEIGHT - 160)
+
+  const text = (value: string, y: number, font: string, color = '#111827') => {
+    ctx.font = font
+    ctx.fillStyle = color
+    ctx.textAlign = 'center'
+    ctx.fillText(value, WIDTH / 2, y, WIDTH - 240)
+  }
+
+  text('PeerLearn', 220, 'bold 56px sans-serif', '#7c3aed')
+  text('Certificate of Completion', 330, 'bold 84px serif')
+  text('This certifies that', 450, '36px sans-serif', '#4b5563')
+  text(certificate.student_name, 570, 'bold 96px serif')
+  text('has successfully completed', 680, '36px sans-serif', '#4b5563')
+  text(certificate.course_title, 790, 'bold 64px sans-serif', '#1f2937')
+  if (certificate.mentor_name) {
+    text(`Mentored by ${certificate.mentor_name}`, 880, '36px sans-serif', '#4b5563')
+  }
+
+  const issued = new Date(certificate.issued_at).toLocaleDateString(undefined, { dateStyle: 'long' })
+  text(`Issued on ${issued}`, 1010, '32px sans-serif', '#374151')
+  text(`Certificate ID: ${certificate.certificate_id}`, 1070, 'bold 32px monospace', '#374151')
+  text(`Verify at ${verificationUrl(certificate.certificate_id)}`, 1120, '26px sans-serif', '#6b7280')
+
+  return canvas
+}
+
+// Embed the payload exactly as signed; current details are only used for
+// certificates that haven't been signed yet
+function signedMetadata(certificate: CertificateRecord): Record<string, string> {
+  if (certificate.signature && certificate.signed_payload) {
+    return { [PAYLOAD_KEY]: certificate.signed_payload, [SIGNATURE_KEY]: certificate.signature }
+  }
+  return { [PAYLOAD_KEY]: certificatePayload(certificate) }
+}
+
+export async function certificatePng(certificate: CertificateRecord) {
+  const png = await canvasBytes(renderCertificate(certificate), 'image/png')
+  return addPngText(png, signedMetadata(certificate))
+}
+
+export async function certificatePdf(certificate: CertificateRecord) {
+  const jpeg = await canvasBytes(renderCertificate(certificate), 'image/jpeg')
+  return createImagePdf({
+    jpeg,
+    imageWidth: WIDTH,
+    imageHeight: HEIGHT,
+    pageWidth: 842,
+    pageHeight: 595,
+    info: {
+      Title: `Certificate ${certificate.certificate_id}`,
+      Author: 'PeerLearn',
+      ...signedMetadata(certificate)
+    }
+  })
+}
+
+// Pull the signed payload back out of a downloaded PDF or PNG
+export async function readCertificateFile(file: File): Promise<SignedCertificate | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const isPng = bytes[0] === 0x89 && bytes[1] === 0x50
+
+  const pngText = isPng ? readPngText(bytes) : {}
+  const payload = isPng ? pngText[PAYLOAD_KEY] : readPdfInfo(bytes, PAYLOAD_KEY)
+  const signature = isPng ? pngText[SIGNATURE_KEY] : readPdfInfo(bytes, SIGNATURE_KEY)
+
+  return payload && signature ? { payload, signature } : null
+}
+
+export function parseCertificatePayload(payload: string) {
+  const fields = Object.fromEntries(
+    payload.split('\n').slice(1).map(line => {
+      const separator = line.indexOf(': ')
+      return [line.slice(0, separator), line.slice(separator + 2)]
+    })
+  )
+  return {
+    certificate_id: fields.id,
+    student_name: fields.student,
+    course_title: fields.course,
+    mentor_name: fields.mentor || undefined,
+    issued_at: fields.issued
+  } as CertificateRecord
+}
+
+function base64ToBytes(value: string) {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0))
+}
+
+// Offline check against the published public key (VITE_CERTIFICATE_PUBLIC_KEY,
+// an ECDSA P-256 JWK). Returns null when no key is configured.
+export async function verifyCertificateSignature({ payload, signature }: SignedCertificate) {
+  const publicKey = import.meta.env.VITE_CERTIFICATE_PUBLIC_KEY
+  if (!publicKey) return null
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      JSON.parse(publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    )
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64ToBytes(signature),
+      new TextEncoder().encode(payload)
+    )
+  } catch (error) {
+    console.error('Error verifying certificate signature:', error)
+    return false
+  }
+}
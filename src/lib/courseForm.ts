@@ -0,0 +1,56 @@
+import type { TablesUpdate } from './supabase'
+import type { Course } from './repositories/courses'
+
+// Inputs hold strings where an empty box means "no value"
+export interface CourseFormValues {
+  title: string
+  description: string
+  domain: string
+  price: number
+  duration_hours: number
+  max_students: string
+  session_link: string
+  course_image: string
+  min_attendance_percent: number
+}
+
+export const emptyCourseForm: CourseFormValues = {
+  title: '',
+  description: '',
+  domain: '',
+  price: 0,
+  duration_hours: 1,
+  max_students: '',
+  session_link: '',
+  course_image: '',
+  min_attendance_percent: 0,
+}
+
+// session_link isn't part of the course row; pass it in separately
+export function courseFormValues(course: Course, sessionLink: string | null): CourseFormValues {
+  return {
+    title: course.title,
+    description: course.description,
+    domain: course.domain,
+    price: course.price,
+    duration_hours: course.duration_hours,
+    max_students: course.max_students ? String(course.max_students) : '',
+    session_link: sessionLink || '',
+    course_image: course.course_image || '',
+    min_attendance_percent: course.min_attendance_percent,
+  }
+}
+
+export function courseFormPayload(values: CourseFormValues) {
+  return {
+    title: values.title,
+    description: values.description,
+    domain: values.domain,
+    price: values.price,
+    duration_hours: values.duration_hours,
+    max_students: values.max_students ? parseInt(values.max_students) : null,
+    session_link: values.session_link || null,
+    course_image: values.course_image || null,
+    min_attendance_percent: values.min_attendance_percent,
+  } satisfies TablesUpdate<'courses'>
+}
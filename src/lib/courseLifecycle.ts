@@ -0,0 +1,49 @@
+import type { CourseStatus } from './supabase'
+
+export const courseStatusLabels: Record<CourseStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  published: 'Published',
+  archived: 'Archived',
+}
+
+export const courseStatusStyles: Record<CourseStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-amber-100 text-amber-700',
+  published: 'bg-green-100 text-green-700',
+  archived: 'bg-slate-200 text-slate-600',
+}
+
+// Fields tracked by record_course_revision, in display order
+export const courseFieldLabels: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  domain: 'Domain',
+  price: 'Price',
+  duration_hours: 'Duration',
+  max_students: 'Max students',
+  session_link: 'Session link',
+  course_image: 'Course image',
+  min_attendance_percent: 'Minimum attendance',
+}
+
+// Shown without before and after, the history just says they changed:
+// too long to show, or (the session link) not recorded at all
+export const longCourseFields = new Set(['description', 'course_image', 'session_link'])
+
+export function formatCourseFieldValue(field: string, value: unknown) {
+  if (value === null || value === undefined || value === '') {
+    return field === 'max_students' ? 'Unlimited' : 'None'
+  }
+
+  switch (field) {
+    case 'price':
+      return Number(value) === 0 ? 'Free' : `₹${value}`
+    case 'duration_hours':
+      return `${value} hours`
+    case 'min_attendance_percent':
+      return `${value}%`
+    default:
+      return String(value)
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv, type CsvColumn } from './csv'
+
+interface Row {
+  name: string
+  score: number | null
+  passed?: boolean
+}
+
+const columns: CsvColumn<Row>[] = [
+  { header: 'Name', value: row => row.name },
+  { header: 'Score', value: row => row.score },
+  { header: 'Passed', value: row => row.passed }
+]
+
+describe('toCsv', () => {
+  it('writes a header row and CRLF-separated rows', () => {
+    expect(toCsv([{ name: 'Ada', score: 92, passed: true }], columns))
+      .toBe('Name,Score,Passed\r\nAda,92,true')
+  })
+
+  it('leaves empty cells for missing values', () => {
+    expect(toCsv([{ name: 'Ada', score: null }], columns)).toBe('Name,Score,Passed\r\nAda,,')
+  })
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const csv = toCsv([
+      { name: 'Lovelace, Ada', score: 1 },
+      { name: 'Ada "Countess"', score: 2 },
+      { name: 'Line\nbreak', score: 3 }
+    ], columns)
+
+    expect(csv.split('\r\n').slice(1)).toEqual([
+      '"Lovelace, Ada",1,',
+      '"Ada ""Countess""",2,',
+      '"Line\nbreak",3,'
+    ])
+  })
+
+  it('writes only the header when there are no rows', () => {
+    expect(toCsv([], columns)).toBe('Name,Score,Passed')
+  })
+})
@@ -0,0 +1,25 @@
+import { downloadFile } from './download'
+
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => string | number | boolean | null | undefined
+}
+
+// Quote a cell when it contains a delimiter, quote or line break (RFC 4180)
+function escapeCell(value: string | number | boolean | null | undefined) {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [
+    columns.map(column => escapeCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCell(column.value(row))).join(','))
+  ]
+  return lines.join('\r\n')
+}
+
+export function downloadCsv<T>(filename: string, rows: T[], columns: CsvColumn<T>[]) {
+  downloadFile(filename, toCsv(rows, columns), 'text/csv;charset=utf-8')
+}
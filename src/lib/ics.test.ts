@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { buildCalendar, type IcsEvent } from './ics'
+
+const event: IcsEvent = {
+  uid: 'session-s1@peerlearn',
+  start: new Date('2025-03-30T00:30:00.000Z'),
+  durationMinutes: 90,
+  summary: 'Algebra',
+  updatedAt: new Date('2025-03-01T12:00:00.000Z')
+}
+
+function lines(calendar: string) {
+  return calendar.trimEnd().split('\r\n')
+}
+
+describe('buildCalendar', () => {
+  it('writes a VEVENT with UTC start and end times', () => {
+    const calendar = buildCalendar([event])
+
+    expect(calendar.endsWith('\r\n')).toBe(true)
+    expect(lines(calendar)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//PeerLearn//Sessions//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:PeerLearn',
+      'BEGIN:VEVENT',
+      'UID:session-s1@peerlearn',
+      'DTSTAMP:20250301T120000Z',
+      'DTSTART:20250330T003000Z',
+      'DTEND:20250330T020000Z',
+      'SUMMARY:Algebra',
+      'SEQUENCE:0',
+      'STATUS:CONFIRMED',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ])
+  })
+
+  it('escapes the calendar name', () => {
+    expect(buildCalendar([], 'Maths, weekly')).toContain('X-WR-CALNAME:Maths\\, weekly')
+  })
+
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    const calendar = buildCalendar([{
+      ...event,
+      summary: 'Sets; maps, and \\ paths',
+      description: 'Bring:\nnotes'
+    }])
+
+    expect(calendar).toContain('SUMMARY:Sets\\; maps\\, and \\\\ paths')
+    expect(calendar).toContain('DESCRIPTION:Bring:\\nnotes')
+  })
+
+  it('folds lines longer than 75 octets', () => {
+    const summary = 'é'.repeat(60)
+    const calendar = buildCalendar([{ ...event, summary }])
+
+    const encoder = new TextEncoder()
+    for (const line of lines(calendar)) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75)
+    }
+    // Unfolding restores the original line without splitting characters
+    expect(calendar.replace(/\r\n /g, '')).toContain(`SUMMARY:${summary}\r\n`)
+    expect(calendar).toContain('\r\n é')
+  })
+
+  it('marks cancelled events and carries the sequence and url', () => {
+    const calendar = buildCalendar([{
+      ...event,
+      cancelled: true,
+      sequence: 3,
+      url: 'https://peerlearn.example/courses/c1'
+    }])
+
+    expect(calendar).toContain('STATUS:CANCELLED')
+    expect(calendar).toContain('SEQUENCE:3')
+    expect(calendar).toContain('URL:https://peerlearn.example/courses/c1')
+  })
+})
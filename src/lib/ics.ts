@@ -0,0 +1,8 @@
+import { buildCalendar, type IcsEvent } from '../../supabase/functions/_shared/ics'
+import { downloadFile } from './download'
+
+export { buildCalendar, type IcsEvent }
+
+export function downloadIcs(filename: string, events: IcsEvent[]) {
+  downloadFile(filename, buildCalendar(events), 'text/calendar;charset=utf-8')
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { defaultLevelCurve, getLevelProgress, levelForXp, xpForLevel } from './levels'
+
+const curve = { base_xp: 100, growth_xp: 50 }
+
+describe('xpForLevel', () => {
+  it('needs no XP for the first level', () => {
+    expect(xpForLevel(1, curve)).toBe(0)
+    expect(xpForLevel(0, curve)).toBe(0)
+  })
+
+  it('grows each level by growth_xp more than the last', () => {
+    expect([2, 3, 4, 5].map(level => xpForLevel(level, curve))).toEqual([100, 250, 450, 700])
+  })
+
+  it('is linear on the default curve', () => {
+    expect(xpForLevel(5, defaultLevelCurve)).toBe(400)
+  })
+})
+
+describe('levelForXp', () => {
+  it('levels up exactly at the threshold', () => {
+    expect(levelForXp(0, curve)).toBe(1)
+    expect(levelForXp(99, curve)).toBe(1)
+    expect(levelForXp(100, curve)).toBe(2)
+    expect(levelForXp(449, curve)).toBe(3)
+    expect(levelForXp(450, curve)).toBe(4)
+  })
+})
+
+describe('getLevelProgress', () => {
+  it('reports progress through the current level', () => {
+    expect(getLevelProgress(175, curve)).toEqual({
+      level: 2,
+      nextLevelXp: 250,
+      xpToNextLevel: 75,
+      percent: 50
+    })
+  })
+})
@@ -0,0 +1,31 @@
+import type { Database } from './supabase'
+
+export type LevelCurve = Pick<Database['public']['Tables']['level_curve']['Row'], 'base_xp' | 'growth_xp'>
+
+// Matches the seeded `level_curve` row; used until the real row has loaded
+export const defaultLevelCurve: LevelCurve = { base_xp: 100, growth_xp: 0 }
+
+// Total XP needed to reach `level`. Keep in sync with `xp_for_level` in SQL.
+export function xpForLevel(level: number, curve: LevelCurve) {
+  const n = Math.max(level, 1) - 1
+  return curve.base_xp * n + Math.floor((curve.growth_xp * n * (n - 1)) / 2)
+}
+
+export function levelForXp(xp: number, curve: LevelCurve) {
+  let level = 1
+  while (xpForLevel(level + 1, curve) <= xp) level++
+  return level
+}
+
+export function getLevelProgress(xp: number, curve: LevelCurve) {
+  const level = levelForXp(xp, curve)
+  const levelStartXp = xpForLevel(level, curve)
+  const nextLevelXp = xpForLevel(level + 1, curve)
+
+  return {
+    level,
+    nextLevelXp,
+    xpToNextLevel: nextLevelXp - xp,
+    percent: ((xp - levelStartXp) / (nextLevelXp - levelStartXp)) * 100
+  }
+}
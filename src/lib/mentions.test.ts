@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { activeMentionQuery, insertMention, MENTION_PATTERN, mentionToken } from './mentions'
+
+const userId = '3f1c2a4b-5d6e-4f70-8a9b-0c1d2e3f4a5b'
+
+describe('mentionToken', () => {
+  it('strips brackets from the name so the token still parses', () => {
+    const token = mentionToken('Ada [admin]', userId)
+
+    expect(token).toBe(`@[Ada admin](${userId})`)
+    expect([...token.matchAll(MENTION_PATTERN)].map(match => match[2])).toEqual([userId])
+  })
+})
+
+describe('activeMentionQuery', () => {
+  it('finds the @query right before the cursor', () => {
+    expect(activeMentionQuery('Thanks @ad', 10)).toEqual({ start: 7, query: 'ad' })
+    expect(activeMentionQuery('@', 1)).toEqual({ start: 0, query: '' })
+  })
+
+  it('ignores email addresses, finished words and completed mentions', () => {
+    expect(activeMentionQuery('mail ada@example', 16)).toBeNull()
+    expect(activeMentionQuery('@ada done', 9)).toBeNull()
+    expect(activeMentionQuery(`@[Ada](${userId})`, 44)).toBeNull()
+  })
+})
+
+describe('insertMention', () => {
+  it('replaces the query with a token and moves the cursor after it', () => {
+    const result = insertMention('Thanks @ad!', 7, 10, 'Ada', userId)
+    const token = `@[Ada](${userId}) `
+
+    expect(result).toEqual({ text: `Thanks ${token}!`, cursor: 7 + token.length })
+  })
+})
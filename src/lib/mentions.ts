@@ -0,0 +1,24 @@
+// Mentions are stored in post bodies as `@[Name](user-id)` so a renamed
+// member still resolves. The database extracts them with the same pattern
+// (see record_post_activity).
+export const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-fA-F-]{36})\)/g
+
+export function mentionToken(name: string, userId: string) {
+  return `@[${name.replace(/[[\]]/g, '')}](${userId})`
+}
+
+// The `@query` being typed right before the cursor, if any
+export function activeMentionQuery(text: string, cursor: number) {
+  const match = /(^|\s)@([^\s@[\]()]*)$/.exec(text.slice(0, cursor))
+  if (!match) return null
+  return { start: cursor - match[2].length - 1, query: match[2] }
+}
+
+// Replace the `@query` at `start` with a mention token
+export function insertMention(text: string, start: number, cursor: number, name: string, userId: string) {
+  const token = `${mentionToken(name, userId)} `
+  return {
+    text: text.slice(0, start) + token + text.slice(cursor),
+    cursor: start + token.length
+  }
+}
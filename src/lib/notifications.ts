@@ -0,0 +1,153 @@
+import type { Database, NotificationKind } from './supabase'
+import { paths, routes } from './routes'
+
+// What the database captures in `notifications.data` for each kind (see the
+// notify_* triggers in the quiet_bell migration)
+export interface NotificationData {
+  enrollment: { course_id: string; course_title: string; student_name: string }
+  session_rescheduled: SessionNoticeData
+  session_cancelled: SessionNoticeData
+  badge_earned: { badge_id: string; badge_name: string }
+  certificate_issued: { certificate_id: string; course_id: string; course_title: string }
+  mentor_request_decided: { request_id: string; status: 'approved' | 'rejected'; review_notes?: string }
+  community_resource: {
+    community_id: string
+    community_name: string
+    resource_id: string
+    resource_title: string
+    resource_type: string
+  }
+  thread_reply: PostData
+  post_mention: PostData
+  // `enrolled` is false for paid courses, where the student still has to check out
+  waitlist_seat: { course_id: string; course_title: string; enrolled: boolean; expires_at?: string }
+  course_reviewed: { course_id: string; course_title: string; approved: boolean; review_notes?: string }
+}
+
+interface SessionNoticeData {
+  course_id: string
+  course_title: string
+  session_id: string
+  previous_date: string
+  new_date?: string
+  reason?: string
+}
+
+interface PostData {
+  community_id: string
+  thread_id: string
+  post_id: string
+  thread_title: string
+  author_name: string
+}
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row']
+
+export type AppNotification = {
+  [K in NotificationKind]: Omit<NotificationRow, 'kind' | 'data'> & { kind: K; data: NotificationData[K] }
+}[NotificationKind]
+
+// Labels for the preferences in Settings, in display order
+export const notificationKinds: { kind: NotificationKind; label: string; description: string }[] = [
+  { kind: 'enrollment', label: 'New enrollments', description: 'A student enrolls in one of your courses' },
+  { kind: 'session_rescheduled', label: 'Rescheduled sessions', description: 'A session in a course you take moves' },
+  { kind: 'session_cancelled', label: 'Cancelled sessions', description: 'A session in a course you take is cancelled' },
+  { kind: 'badge_earned', label: 'Badges', description: 'You earn a badge' },
+  { kind: 'certificate_issued', label: 'Certificates', description: 'You receive a course certificate' },
+  { kind: 'mentor_request_decided', label: 'Mentor application', description: 'Your mentor application is reviewed' },
+  { kind: 'community_resource', label: 'Community resources', description: 'Someone shares a resource in your communities' },
+  { kind: 'thread_reply', label: 'Replies', description: 'Someone replies to your discussion or post' },
+  { kind: 'post_mention', label: 'Mentions', description: 'Someone @mentions you in a discussion' },
+  { kind: 'waitlist_seat', label: 'Waitlists', description: 'A seat opens in a course you are waiting for' },
+  { kind: 'course_reviewed', label: 'Course reviews', description: 'An admin reviews a course you submitted' },
+]
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+export function describeNotification(notification: AppNotification): { title: string; body: string; link: string } {
+  switch (notification.kind) {
+    case 'enrollment': {
+      const { data } = notification
+      return {
+        title: 'New enrollment',
+        body: `${data.student_name} enrolled in ${data.course_title}`,
+        link: routes.myStudents
+      }
+    }
+    case 'session_rescheduled': {
+      const { data } = notification
+      return {
+        title: 'Session rescheduled',
+        body: `${data.course_title} moved from ${formatDate(data.previous_date)}${data.new_date ? ` to ${formatDate(data.new_date)}` : ''}`,
+        link: routes.schedule
+      }
+    }
+    case 'session_cancelled': {
+      const { data } = notification
+      return {
+        title: 'Session cancelled',
+        body: `${data.course_title} on ${formatDate(data.previous_date)}${data.reason ? `: ${data.reason}` : ''}`,
+        link: routes.schedule
+      }
+    }
+    case 'badge_earned':
+      return {
+        title: 'Badge earned',
+        body: `You earned ${notification.data.badge_name}`,
+        link: routes.achievements
+      }
+    case 'certificate_issued':
+      return {
+        title: 'Certificate issued',
+        body: `Your certificate for ${notification.data.course_title} is ready`,
+        link: paths.certificate(notification.data.certificate_id)
+      }
+    case 'mentor_request_decided':
+      return {
+        title: notification.data.status === 'approved' ? 'Mentor application approved' : 'Mentor application declined',
+        body: notification.data.review_notes || (notification.data.status === 'approved'
+          ? 'You can now create courses'
+          : 'See your application for details'),
+        link: routes.mentorApplication
+      }
+    case 'community_resource':
+      return {
+        title: `New in ${notification.data.community_name}`,
+        body: notification.data.resource_title,
+        link: paths.community(notification.data.community_id)
+      }
+    case 'thread_reply':
+      return {
+        title: 'New reply',
+        body: `${notification.data.author_name} replied in "${notification.data.thread_title}"`,
+        link: paths.communityThread(notification.data.community_id, notification.data.thread_id)
+      }
+    case 'post_mention':
+      return {
+        title: 'You were mentioned',
+        body: `${notification.data.author_name} mentioned you in "${notification.data.thread_title}"`,
+        link: paths.communityThread(notification.data.community_id, notification.data.thread_id)
+      }
+    case 'waitlist_seat':
+      return {
+        title: notification.data.enrolled ? 'You got a seat' : 'A seat opened up',
+        body: notification.data.enrolled
+          ? `You're now enrolled in ${notification.data.course_title}`
+          : notification.data.expires_at
+            ? `Your seat in ${notification.data.course_title} is held until ${formatDate(notification.data.expires_at)}`
+            : `Buy ${notification.data.course_title} before the seat is taken`,
+        link: paths.course(notification.data.course_id)
+      }
+    case 'course_reviewed':
+      return {
+        title: notification.data.approved ? 'Course approved' : 'Changes requested',
+        body: notification.data.review_notes || (notification.data.approved
+          ? `${notification.data.course_title} is now published`
+          : `${notification.data.course_title} was returned to draft`),
+        link: notification.data.approved
+          ? paths.course(notification.data.course_id)
+          : paths.editCourse(notification.data.course_id)
+      }
+  }
+}
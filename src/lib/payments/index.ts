@@ -0,0 +1,57 @@
+import { supabase } from '../supabase'
+import { mockPaymentProvider } from './mock'
+import type { CheckoutSession, Order, PaymentProvider } from './types'
+
+export { PaymentCancelledError } from './types'
+export type { CheckoutSession, Order, PaymentProvider } from './types'
+
+// Keyed by the provider name the payments function stores on each order
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider
+}
+
+function getPaymentProvider(name: string) {
+  const provider = providers[name]
+  if (!provider) throw new Error(`Unknown payment provider: ${name}`)
+  return provider
+}
+
+async function invokePayments<T>(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('payments', { body })
+  if (error) {
+    // Surface the function's own message (e.g. "Already enrolled") when there is one
+    const response = error.context instanceof Response ? await error.context.json().catch(() => null) : null
+    throw new Error(response?.error ?? error.message)
+  }
+  return data as T
+}
+
+// Runs the whole checkout for a paid course and resolves with the final
+// order; the enrollment exists once the order is `paid`. Rejects with
+// PaymentCancelledError if the buyer closes the payment window.
+export async function checkoutCourse(courseId: string) {
+  const { order, client_data } = await invokePayments<{ order: Order; client_data: Record<string, unknown> }>({
+    action: 'checkout',
+    course_id: courseId
+  })
+
+  const session: CheckoutSession = { order, clientData: client_data }
+  const provider = getPaymentProvider(order.provider)
+  const proof = await provider.collectPayment(session)
+
+  const confirmed = await invokePayments<{ order: Order }>({
+    action: 'confirm',
+    order_id: order.id,
+    proof
+  })
+  return confirmed.order
+}
+
+export async function refundOrder(orderId: string, reason: string) {
+  const { order } = await invokePayments<{ order: Order }>({
+    action: 'refund',
+    order_id: orderId,
+    reason
+  })
+  return order
+}
@@ -0,0 +1,18 @@
+import { PaymentCancelledError, type PaymentProvider } from './types'
+
+// Development stand-in for a real gateway's payment window
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  collectPayment({ order }) {
+    const approved = confirm(
+      `Test payment of ₹${order.amount}\n\nOK to simulate a successful payment, Cancel to abort.`
+    )
+    if (!approved) return Promise.reject(new PaymentCancelledError())
+
+    return Promise.resolve({
+      provider_order_id: order.provider_order_id ?? '',
+      status: 'succeeded'
+    })
+  }
+}
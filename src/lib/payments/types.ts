@@ -0,0 +1,24 @@
+import type { Database } from '../supabase'
+
+export type Order = Database['public']['Tables']['orders']['Row']
+
+export interface CheckoutSession {
+  order: Order
+  // Whatever the server-side provider needs the browser to see
+  clientData: Record<string, unknown>
+}
+
+// Browser side of a payment gateway: shows the gateway's payment UI for a
+// checkout session and resolves with the proof the payments function
+// verifies with the gateway.
+export interface PaymentProvider {
+  name: string
+  collectPayment(session: CheckoutSession): Promise<Record<string, string>>
+}
+
+export class PaymentCancelledError extends Error {
+  constructor() {
+    super('Payment was cancelled')
+    this.name = 'PaymentCancelledError'
+  }
+}
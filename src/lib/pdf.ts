@@ -0,0 +1,106 @@
+// Minimal PDF writer: each page shows one full-page JPEG image. Enough for
+// printable documents rendered on a canvas, without a PDF dependency.
+
+const encoder = new TextEncoder()
+
+// PDF text strings as UTF-16BE hex so names outside Latin-1 survive
+function pdfString(value: string) {
+  let hex = 'FEFF'
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase()
+  }
+  return `<${hex}>`
+}
+
+function decodePdfString(hex: string) {
+  const body = hex.replace(/^FEFF/i, '')
+  let value = ''
+  for (let i = 0; i + 4 <= body.length; i += 4) {
+    value += String.fromCharCode(parseInt(body.slice(i, i + 4), 16))
+  }
+  return value
+}
+
+interface ImagePdfOptions {
+  jpeg: Uint8Array
+  imageWidth: number
+  imageHeight: number
+  // Page size in points (1/72 inch)
+  pageWidth: number
+  pageHeight: number
+  info?: Record<string, string>
+}
+
+interface PagedImagePdfOptions extends Omit<ImagePdfOptions, 'jpeg'> {
+  // One JPEG per page, all imageWidth x imageHeight
+  pages: Uint8Array[]
+}
+
+export function createImagePdf({ jpeg, ...options }: ImagePdfOptions) {
+  return createPagedImagePdf({ ...options, pages: [jpeg] })
+}
+
+export function createPagedImagePdf({ pages, imageWidth, imageHeight, pageWidth, pageHeight, info = {} }: PagedImagePdfOptions) {
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const object = (id: number, body: string) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n${body}\nendobj\n`)
+  }
+
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im1 Do Q`
+  const infoEntries = Object.entries(info)
+    .map(([key, value]) => `/${key} ${pdfString(value)}`)
+    .join(' ')
+
+  // Objects 1-3 are the catalog, page tree and info; each page then takes
+  // three objects: the page, its image and its content stream
+  const pageId = (index: number) => 4 + index * 3
+  const kids = pages.map((_, index) => `${pageId(index)} 0 R`).join(' ')
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  object(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`)
+  object(3, `<< ${infoEntries} /Producer ${pdfString('PeerLearn')} >>`)
+
+  pages.forEach((jpeg, index) => {
+    const id = pageId(index)
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im1 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`)
+
+    offsets[id + 1] = length
+    write(`${id + 1} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`)
+    write(jpeg)
+    write('\nendstream\nendobj\n')
+
+    object(id + 2, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  const xrefOffset = length
+  write(`xref\n0 ${offsets.length}\n0000000000 65535 f \n`)
+  for (let id = 1; id < offsets.length; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${offsets.length} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const pdf = new Uint8Array(length)
+  let position = 0
+  for (const chunk of chunks) {
+    pdf.set(chunk, position)
+    position += chunk.length
+  }
+  return pdf
+}
+
+// Read a string entry written by createImagePdf's `info`
+export function readPdfInfo(pdf: Uint8Array, key: string) {
+  const text = new TextDecoder('latin1').decode(pdf)
+  const match = text.match(new RegExp(`/${key} <([0-9A-Fa-f]+)>`))
+  return match ? decodePdfString(match[1]) : null
+}
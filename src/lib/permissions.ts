@@ -0,0 +1,12 @@
+import type { Database } from './supabase'
+
+type UserProfile = Database['public']['Tables']['users']['Row']
+
+// Mentors, admins and 2nd year+ students can teach juniors
+export function canMentor(profile: UserProfile) {
+  return profile.role === 'mentor' || profile.role === 'admin' || profile.year_of_study >= 2
+}
+
+export function isAdmin(profile: UserProfile) {
+  return profile.role === 'admin'
+}
@@ -0,0 +1,80 @@
+// Read and write UTF-8 text metadata (iTXt chunks) in PNG files
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function textChunk(keyword: string, text: string) {
+  // keyword \0 compression flag, method, language tag \0 translated keyword \0 text
+  const data = new Uint8Array([
+    ...encoder.encode(keyword), 0, 0, 0, 0, 0,
+    ...encoder.encode(text)
+  ])
+  const type = encoder.encode('iTXt')
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+
+  view.setUint32(0, data.length)
+  chunk.set(type, 4)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+// Insert the entries just before the IEND chunk
+export function addPngText(png: Uint8Array, entries: Record<string, string>) {
+  const iendOffset = png.length - 12
+  const chunks = Object.entries(entries).map(([keyword, text]) => textChunk(keyword, text))
+  const extraLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+
+  const result = new Uint8Array(png.length + extraLength)
+  result.set(png.subarray(0, iendOffset))
+  let position = iendOffset
+  for (const chunk of chunks) {
+    result.set(chunk, position)
+    position += chunk.length
+  }
+  result.set(png.subarray(iendOffset), position)
+  return result
+}
+
+export function readPngText(png: Uint8Array) {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const entries: Record<string, string> = {}
+  let offset = 8
+
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset)
+    const type = decoder.decode(png.subarray(offset + 4, offset + 8))
+
+    if (type === 'iTXt') {
+      const data = png.subarray(offset + 8, offset + 8 + length)
+      const keywordEnd = data.indexOf(0)
+      const languageEnd = data.indexOf(0, keywordEnd + 3)
+      const translatedEnd = data.indexOf(0, languageEnd + 1)
+      // Compressed text is never written by addPngText, so skip it
+      if (data[keywordEnd + 1] === 0) {
+        entries[decoder.decode(data.subarray(0, keywordEnd))] = decoder.decode(data.subarray(translatedEnd + 1))
+      }
+    }
+    if (type === 'IEND') break
+    offset += 12 + length
+  }
+
+  return entries
+}
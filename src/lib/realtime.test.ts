@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { subscribeToTable, type RealtimeChange } from './realtime'
+import { createFakeRealtime } from './realtimeFake'
+
+// The default transport is never used here; keep the real client from
+// being created without credentials
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+describe('subscribeToTable', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('opens one channel with the table, event and filter', () => {
+    const realtime = createFakeRealtime()
+
+    subscribeToTable({
+      table: 'community_resources',
+      event: 'INSERT',
+      filter: 'community_id=eq.c1',
+      onChange: () => {}
+    }, realtime.transport)
+
+    expect(realtime.channels).toHaveLength(1)
+    expect(realtime.channels[0].options).toEqual({
+      table: 'community_resources',
+      event: 'INSERT',
+      filter: 'community_id=eq.c1'
+    })
+  })
+
+  it('maps inserts, updates and deletes to changes', () => {
+    const realtime = createFakeRealtime()
+    const changes: RealtimeChange<'reviews'>[] = []
+
+    subscribeToTable({ table: 'reviews', onChange: change => changes.push(change) }, realtime.transport)
+    realtime.setStatus('SUBSCRIBED')
+
+    realtime.emit('reviews', 'INSERT', { id: 'r1', rating: 4 })
+    realtime.emit('reviews', 'UPDATE', { id: 'r1', rating: 5 }, { id: 'r1' })
+    realtime.emit('reviews', 'DELETE', {}, { id: 'r1' })
+    realtime.emit('enrollments', 'INSERT', { id: 'e1' })
+
+    expect(changes).toEqual([
+      { type: 'INSERT', row: { id: 'r1', rating: 4 } },
+      { type: 'UPDATE', row: { id: 'r1', rating: 5 }, old: { id: 'r1' } },
+      { type: 'DELETE', old: { id: 'r1' } }
+    ])
+  })
+
+  it('reopens a failed channel with exponential backoff', () => {
+    const realtime = createFakeRealtime()
+    const onReconnect = vi.fn()
+
+    subscribeToTable({ table: 'enrollments', onChange: () => {}, onReconnect }, realtime.transport)
+    realtime.setStatus('SUBSCRIBED')
+    expect(onReconnect).not.toHaveBeenCalled()
+
+    realtime.setStatus('CHANNEL_ERROR')
+    expect(realtime.openChannels()).toHaveLength(0)
+
+    vi.advanceTimersByTime(999)
+    expect(realtime.channels).toHaveLength(1)
+    vi.advanceTimersByTime(1)
+    expect(realtime.openChannels()).toHaveLength(1)
+
+    // Still down: the next attempt waits twice as long
+    realtime.setStatus('TIMED_OUT')
+    vi.advanceTimersByTime(1999)
+    expect(realtime.channels).toHaveLength(2)
+    vi.advanceTimersByTime(1)
+    expect(realtime.channels).toHaveLength(3)
+
+    realtime.setStatus('SUBSCRIBED')
+    expect(onReconnect).toHaveBeenCalledTimes(1)
+
+    // A successful connection resets the backoff
+    realtime.setStatus('CHANNEL_ERROR')
+    vi.advanceTimersByTime(1000)
+    expect(realtime.channels).toHaveLength(4)
+  })
+
+  it('ignores changes from channels it has replaced', () => {
+    const realtime = createFakeRealtime()
+    const onChange = vi.fn()
+
+    subscribeToTable({ table: 'notifications', onChange }, realtime.transport)
+    const [first] = realtime.channels
+    realtime.setStatus('CHANNEL_ERROR')
+    vi.advanceTimersByTime(1000)
+
+    first.onPayload({
+      schema: 'public',
+      table: 'notifications',
+      commit_timestamp: new Date().toISOString(),
+      errors: [],
+      eventType: 'INSERT',
+      new: { id: 'n1' },
+      old: {}
+    })
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('closes the channel and stops delivering changes on unsubscribe', () => {
+    const realtime = createFakeRealtime()
+    const onChange = vi.fn()
+
+    const unsubscribe = subscribeToTable({ table: 'community_members', onChange }, realtime.transport)
+    realtime.setStatus('SUBSCRIBED')
+    unsubscribe()
+
+    expect(realtime.openChannels()).toHaveLength(0)
+    realtime.emit('community_members', 'INSERT', { id: 'm1' })
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('cancels a pending reconnect on unsubscribe', () => {
+    const realtime = createFakeRealtime()
+
+    const unsubscribe = subscribeToTable({ table: 'enrollments', onChange: () => {} }, realtime.transport)
+    realtime.setStatus('CHANNEL_ERROR')
+    unsubscribe()
+    vi.advanceTimersByTime(60000)
+
+    expect(realtime.channels).toHaveLength(1)
+    expect(realtime.openChannels()).toHaveLength(0)
+  })
+})
@@ -0,0 +1,144 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase, type Database } from './supabase'
+
+// Tables published to supabase_realtime (see the live_wire and quiet_bell migrations)
+export type RealtimeTable =
+  | 'community_resources'
+  | 'community_members'
+  | 'enrollments'
+  | 'reviews'
+  | 'notifications'
+
+export type RealtimeRow<T extends RealtimeTable> = Database['public']['Tables'][T]['Row']
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE'
+
+// `old` only carries the primary key unless the table uses REPLICA IDENTITY FULL
+export type RealtimeChange<T extends RealtimeTable> =
+  | { type: 'INSERT'; row: RealtimeRow<T> }
+  | { type: 'UPDATE'; row: RealtimeRow<T>; old: Partial<RealtimeRow<T>> }
+  | { type: 'DELETE'; old: Partial<RealtimeRow<T>> }
+
+export interface RealtimeSubscription<T extends RealtimeTable> {
+  table: T
+  event?: RealtimeEvent | '*'
+  // Realtime filter syntax, e.g. `community_id=eq.${id}`
+  filter?: string
+  onChange: (change: RealtimeChange<T>) => void
+  // Changes made while disconnected aren't replayed, so views usually refetch here
+  onReconnect?: () => void
+}
+
+export type ChannelStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR'
+
+export type ChangePayload = RealtimePostgresChangesPayload<{ [key: string]: unknown }>
+
+export interface ChannelOptions {
+  table: string
+  event: RealtimeEvent | '*'
+  filter?: string
+}
+
+// The part of the realtime client subscriptions rely on, so a fake channel
+// (see realtimeFake.ts) can stand in for Supabase. Returns a close function.
+export interface RealtimeTransport {
+  open(
+    name: string,
+    options: ChannelOptions,
+    onPayload: (payload: ChangePayload) => void,
+    onStatus: (status: ChannelStatus) => void
+  ): () => void
+}
+
+export const supabaseTransport: RealtimeTransport = {
+  open(name, { table, event, filter }, onPayload, onStatus) {
+    const channel = supabase
+      .channel(name)
+      // There's one overload per event; the '*' payload covers all of them
+      .on('postgres_changes', { event: event as '*', schema: 'public', table, filter }, onPayload)
+      .subscribe(status => onStatus(status))
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }
+}
+
+const RECONNECT_BASE_MS = 1000
+const RECONNECT_MAX_MS = 30000
+
+let channelCount = 0
+
+function toChange<T extends RealtimeTable>(payload: ChangePayload): RealtimeChange<T> {
+  switch (payload.eventType) {
+    case 'INSERT':
+      return { type: 'INSERT', row: payload.new as RealtimeRow<T> }
+    case 'UPDATE':
+      return { type: 'UPDATE', row: payload.new as RealtimeRow<T>, old: payload.old as Partial<RealtimeRow<T>> }
+    case 'DELETE':
+      return { type: 'DELETE', old: payload.old as Partial<RealtimeRow<T>> }
+  }
+}
+
+// Subscribe to changes on a table. A channel that errors, times out or
+// closes is reopened with exponential backoff until the returned
+// unsubscribe function is called.
+export function subscribeToTable<T extends RealtimeTable>(
+  subscription: RealtimeSubscription<T>,
+  transport: RealtimeTransport = supabaseTransport
+) {
+  const { table, event = '*', filter } = subscription
+  let close: (() => void) | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let attempts = 0
+  let generation = 0
+  let connectedBefore = false
+  let stopped = false
+
+  const open = () => {
+    // A fresh name per attempt, since the old channel may still be closing
+    const current = ++generation
+    const name = `realtime:${table}:${filter ?? 'all'}:${++channelCount}`
+
+    close = transport.open(
+      name,
+      { table, event, filter },
+      payload => {
+        if (!stopped && current === generation) {
+          subscription.onChange(toChange<T>(payload))
+        }
+      },
+      status => {
+        if (stopped || current !== generation) return
+
+        if (status === 'SUBSCRIBED') {
+          if (connectedBefore) subscription.onReconnect?.()
+          connectedBefore = true
+          attempts = 0
+          return
+        }
+
+        if (retryTimer) return
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS)
+        attempts++
+        // Bump the generation first so the closing channel's own status is ignored
+        generation++
+        close?.()
+        close = null
+        retryTimer = setTimeout(() => {
+          retryTimer = null
+          open()
+        }, delay)
+      }
+    )
+  }
+
+  open()
+
+  return () => {
+    stopped = true
+    if (retryTimer) clearTimeout(retryTimer)
+    close?.()
+    close = null
+  }
+}
@@ -0,0 +1,62 @@
+import type { ChangePayload, ChannelOptions, ChannelStatus, RealtimeEvent, RealtimeTransport } from './realtime'
+
+// An in-memory stand-in for Supabase realtime, for exercising subscriptions
+// without a server: pass `transport` to subscribeToTable, then drive it with
+// `emit` and `setStatus`.
+
+export interface FakeChannel {
+  name: string
+  options: ChannelOptions
+  closed: boolean
+  onPayload: (payload: ChangePayload) => void
+  onStatus: (status: ChannelStatus) => void
+}
+
+export function createFakeRealtime() {
+  const channels: FakeChannel[] = []
+
+  const transport: RealtimeTransport = {
+    open(name, options, onPayload, onStatus) {
+      const channel: FakeChannel = { name, options, closed: false, onPayload, onStatus }
+      channels.push(channel)
+      return () => {
+        if (channel.closed) return
+        channel.closed = true
+        onStatus('CLOSED')
+      }
+    }
+  }
+
+  const openChannels = () => channels.filter(channel => !channel.closed)
+
+  // Deliver a change to every open channel listening on the table. Filters
+  // aren't evaluated; callers emit only rows the filter would match.
+  const emit = (
+    table: string,
+    eventType: RealtimeEvent,
+    row: { [key: string]: unknown },
+    old: { [key: string]: unknown } = {}
+  ) => {
+    const payload = {
+      schema: 'public',
+      table,
+      commit_timestamp: new Date().toISOString(),
+      errors: [],
+      eventType,
+      new: eventType === 'DELETE' ? {} : row,
+      old: eventType === 'INSERT' ? {} : old
+    } as ChangePayload
+
+    openChannels()
+      .filter(channel => channel.options.table === table && ['*', eventType].includes(channel.options.event))
+      .forEach(channel => channel.onPayload(payload))
+  }
+
+  // Report a status on every open channel, e.g. 'SUBSCRIBED' once "connected"
+  // or 'CHANNEL_ERROR' to simulate a dropped connection
+  const setStatus = (status: ChannelStatus) => {
+    openChannels().forEach(channel => channel.onStatus(status))
+  }
+
+  return { transport, channels, openChannels, emit, setStatus }
+}
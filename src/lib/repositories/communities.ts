@@ -0,0 +1,138 @@
+import { supabase, type Tables, type TablesInsert } from '../supabase'
+
+export type CommunityRole = Tables<'community_members'>['role']
+
+export type Community = Tables<'learning_communities'> & {
+  creator: Pick<Tables<'users'>, 'full_name' | 'year_of_study'>
+  course: Pick<Tables<'courses'>, 'title' | 'domain'> | null
+  member_count: number
+  is_member: boolean
+  // Undefined when the viewer hasn't joined
+  member_role?: CommunityRole
+}
+
+export type CommunityResource = Tables<'community_resources'> & {
+  uploader: Pick<Tables<'users'>, 'full_name' | 'year_of_study'>
+}
+
+export type CommunityMemberProfile = Pick<Tables<'users'>, 'id' | 'full_name' | 'profile_picture'>
+
+// Active communities, newest first, with member counts and the viewer's
+// own membership
+export async function listCommunities(viewerId: string): Promise<Community[]> {
+  const { data: communities, error } = await supabase
+    .from('learning_communities')
+    .select(`
+      *,
+      creator:users!learning_communities_created_by_fkey (
+        full_name,
+        year_of_study
+      ),
+      course:courses (
+        title,
+        domain
+      )
+    `)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  const communityIds = communities.map(c => c.id)
+  const [memberCountsRes, membershipsRes] = await Promise.all([
+    supabase
+      .from('community_members')
+      .select('community_id')
+      .in('community_id', communityIds),
+    supabase
+      .from('community_members')
+      .select('community_id, role')
+      .eq('user_id', viewerId)
+      .in('community_id', communityIds)
+  ])
+
+  if (memberCountsRes.error) throw memberCountsRes.error
+  if (membershipsRes.error) throw membershipsRes.error
+
+  const memberCounts = memberCountsRes.data.reduce((acc, member) => {
+    acc[member.community_id] = (acc[member.community_id] || 0) + 1
+    return acc
+  }, {} as Record<string, number>)
+
+  const memberships = new Map(membershipsRes.data.map(m => [m.community_id, m.role]))
+
+  return communities.map(community => ({
+    ...community,
+    member_count: memberCounts[community.id] || 0,
+    is_member: memberships.has(community.id),
+    member_role: memberships.get(community.id)
+  }))
+}
+
+// Creates the community and joins the creator as its admin
+export async function createCommunity(community: TablesInsert<'learning_communities'>) {
+  const { data, error } = await supabase
+    .from('learning_communities')
+    .insert(community)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await joinCommunity(data.id, community.created_by, 'admin')
+  return data
+}
+
+export async function joinCommunity(communityId: string, userId: string, role: CommunityRole) {
+  const { error } = await supabase
+    .from('community_members')
+    .insert({
+      community_id: communityId,
+      user_id: userId,
+      role
+    })
+
+  if (error) throw error
+}
+
+export async function listCommunityMembers(communityId: string): Promise<CommunityMemberProfile[]> {
+  const { data, error } = await supabase
+    .from('community_members')
+    .select('user:users!community_members_user_id_fkey (id, full_name, profile_picture)')
+    .eq('community_id', communityId)
+
+  if (error) throw error
+  return data
+    .map(member => member.user)
+    .sort((a, b) => a.full_name.localeCompare(b.full_name))
+}
+
+// Featured resources first, then newest
+export async function listCommunityResources(communityId: string): Promise<CommunityResource[]> {
+  const { data, error } = await supabase
+    .from('community_resources')
+    .select(`
+      *,
+      uploader:users!community_resources_uploaded_by_fkey (
+        full_name,
+        year_of_study
+      )
+    `)
+    .eq('community_id', communityId)
+    .order('is_featured', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data
+}
+
+export async function addCommunityResource(resource: TablesInsert<'community_resources'>) {
+  const { data, error } = await supabase
+    .from('community_resources')
+    .insert(resource)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,249 @@
+import { supabase, type CourseStatus, type Tables, type TablesInsert, type TablesUpdate, type Views } from '../supabase'
+import type { CatalogFilters } from '../catalog'
+import { listEnrolledCourseIds, listWaitlistedCourseIds } from './enrollments'
+
+export type Course = Tables<'courses'>
+export type CourseStats = Views<'course_stats'>
+export type MentorStats = Views<'mentor_stats'>
+
+export type CatalogCourse = Views<'course_catalog'> & {
+  is_enrolled: boolean
+  is_waitlisted: boolean
+}
+
+export type CourseSettings = Tables<'course_settings'>
+
+export type CourseRevision = Tables<'course_revisions'> & {
+  editor: Pick<Tables<'users'>, 'full_name'> | null
+}
+
+export type CourseForReview = Course & {
+  mentor: Pick<Tables<'users'>, 'id' | 'full_name' | 'profile_picture' | 'is_verified'>
+}
+
+export type CourseWithMentor = Course & {
+  mentor: Pick<
+    Tables<'users'>,
+    'id' | 'full_name' | 'profile_picture' | 'is_verified' | 'bio' | 'experience_description' | 'department' | 'year_of_study'
+  >
+}
+
+// Every column but session_link, which only the mentor and enrolled
+// students may read (see getCourseSessionLink)
+const courseColumns =
+  'id, mentor_id, title, description, domain, price, duration_hours, max_students, course_image, min_attendance_percent, status, is_active, published_at, submitted_at, review_notes, reviewed_by, reviewed_at, search_vector, created_at, updated_at'
+
+// One page of active courses matching the filters, flagged with whether
+// the viewer is enrolled or waitlisted. Ties are broken by id so pages never overlap.
+export async function searchCatalog(
+  filters: CatalogFilters,
+  offset: number,
+  limit: number,
+  viewerId?: string
+): Promise<CatalogCourse[]> {
+  let query = supabase
+    .from('course_catalog')
+    .select('*')
+
+  if (filters.query.trim()) {
+    query = query.textSearch('search_vector', filters.query.trim(), { type: 'websearch', config: 'english' })
+  }
+  if (filters.domain) query = query.eq('domain', filters.domain)
+  if (filters.minPrice !== undefined) query = query.gte('price', filters.minPrice)
+  if (filters.maxPrice !== undefined) query = query.lte('price', filters.maxPrice)
+  if (filters.minHours !== undefined) query = query.gte('duration_hours', filters.minHours)
+  if (filters.maxHours !== undefined) query = query.lte('duration_hours', filters.maxHours)
+  if (filters.minRating !== undefined) query = query.gte('average_rating', filters.minRating)
+  if (filters.verifiedOnly) query = query.eq('mentor_verified', true)
+  // Courses without a student limit never fill up
+  if (filters.seatsAvailable) query = query.or('seats_left.is.null,seats_left.gt.0')
+
+  switch (filters.sort) {
+    case 'rating':
+      query = query
+        .order('average_rating', { ascending: false, nullsFirst: false })
+        .order('review_count', { ascending: false })
+      break
+    case 'popular':
+      query = query.order('enrollment_count', { ascending: false })
+      break
+    case 'price_asc':
+      query = query.order('price', { ascending: true })
+      break
+    case 'price_desc':
+      query = query.order('price', { ascending: false })
+      break
+    default:
+      query = query.order('created_at', { ascending: false })
+  }
+
+  const { data: courses, error } = await query
+    .order('id')
+    .range(offset, offset + limit - 1)
+
+  if (error) throw error
+
+  const courseIds = courses.map(c => c.id)
+  const [enrolled, waitlisted] = viewerId && courses.length > 0
+    ? await Promise.all([
+      listEnrolledCourseIds(viewerId, courseIds),
+      listWaitlistedCourseIds(viewerId, courseIds)
+    ])
+    : [[], []]
+  const enrolledIds = new Set(enrolled)
+  const waitlistedIds = new Set(waitlisted)
+
+  return courses.map(course => ({
+    ...course,
+    is_enrolled: enrolledIds.has(course.id),
+    is_waitlisted: waitlistedIds.has(course.id)
+  }))
+}
+
+// Totals over every student, not just the rows the viewer may read
+export async function listCourseStats(courseIds: string[]) {
+  const { data, error } = await supabase
+    .from('course_stats')
+    .select('*')
+    .in('course_id', courseIds)
+
+  if (error) throw error
+  return new Map(data.map(s => [s.course_id, s]))
+}
+
+// Null when the mentor hasn't created a course yet
+export async function getMentorStats(mentorId: string) {
+  const { data, error } = await supabase
+    .from('mentor_stats')
+    .select('*')
+    .eq('mentor_id', mentorId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Null when the course doesn't exist
+export async function getCourse(courseId: string): Promise<CourseWithMentor | null> {
+  const { data, error } = await supabase
+    .from('courses')
+    .select(`
+      ${courseColumns},
+      mentor:users!courses_mentor_id_fkey (
+        id,
+        full_name,
+        profile_picture,
+        is_verified,
+        bio,
+        experience_description,
+        department,
+        year_of_study
+      )
+    `)
+    .eq('id', courseId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Newest first
+export async function listMentorCourses(mentorId: string) {
+  const { data, error } = await supabase
+    .from('courses')
+    .select(courseColumns)
+    .eq('mentor_id', mentorId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data
+}
+
+// Null unless the viewer mentors the course or is enrolled in it
+export async function getCourseSessionLink(courseId: string) {
+  const { data, error } = await supabase.rpc('course_session_link', { p_course_id: courseId })
+
+  if (error) throw error
+  return data
+}
+
+export async function createCourse(course: TablesInsert<'courses'>) {
+  const { data, error } = await supabase
+    .from('courses')
+    .insert(course)
+    .select(courseColumns)
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// The status trigger may store a different status than requested, e.g.
+// in_review when publishing needs approval, so callers use the returned row
+export async function updateCourse(courseId: string, updates: TablesUpdate<'courses'>) {
+  const { data, error } = await supabase
+    .from('courses')
+    .update(updates)
+    .eq('id', courseId)
+    .select(courseColumns)
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Review notes are only kept when an admin decides a course in review
+export async function setCourseStatus(courseId: string, status: CourseStatus, reviewNotes?: string) {
+  return updateCourse(courseId, reviewNotes === undefined ? { status } : { status, review_notes: reviewNotes || null })
+}
+
+// Oldest submission first
+export async function listCoursesInReview(): Promise<CourseForReview[]> {
+  const { data, error } = await supabase
+    .from('courses')
+    .select(`
+      ${courseColumns},
+      mentor:users!courses_mentor_id_fkey (
+        id,
+        full_name,
+        profile_picture,
+        is_verified
+      )
+    `)
+    .eq('status', 'in_review')
+    .order('submitted_at', { ascending: true })
+
+  if (error) throw error
+  return data
+}
+
+// Edits made while students were enrolled, newest first
+export async function listCourseRevisions(courseId: string): Promise<CourseRevision[]> {
+  const { data, error } = await supabase
+    .from('course_revisions')
+    .select('*, editor:users!course_revisions_changed_by_fkey (full_name)')
+    .eq('course_id', courseId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data
+}
+
+export async function getCourseSettings() {
+  const { data, error } = await supabase
+    .from('course_settings')
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateCourseSettings(updates: TablesUpdate<'course_settings'>) {
+  const { error } = await supabase
+    .from('course_settings')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', true)
+
+  if (error) throw error
+}
@@ -0,0 +1,204 @@
+import { supabase, type Tables } from '../supabase'
+
+export type Enrollment = Tables<'enrollments'>
+
+export type StudentEnrollment = Enrollment & {
+  course: Pick<
+    Tables<'courses'>,
+    'id' | 'title' | 'domain' | 'course_image' | 'duration_hours' | 'mentor_id'
+  > & {
+    mentor: Pick<Tables<'users'>, 'full_name'>
+  }
+}
+
+export type RosterEnrollment = Enrollment & {
+  student: Pick<
+    Tables<'users'>,
+    'id' | 'full_name' | 'email' | 'department' | 'year_of_study' | 'profile_picture'
+  >
+  course: Pick<Tables<'courses'>, 'title' | 'min_attendance_percent'>
+}
+
+export type EnrolledStudent = Pick<Tables<'users'>, 'id' | 'full_name' | 'profile_picture'>
+
+// Null when the student isn't enrolled
+export async function getEnrollment(courseId: string, studentId: string) {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select('*')
+    .eq('course_id', courseId)
+    .eq('student_id', studentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// A student's enrollments, newest first, including dropped and completed ones
+export async function listStudentEnrollments(studentId: string): Promise<StudentEnrollment[]> {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select(`
+      *,
+      course:courses (
+        id,
+        title,
+        domain,
+        course_image,
+        duration_hours,
+        mentor_id,
+        mentor:users!courses_mentor_id_fkey (
+          full_name
+        )
+      )
+    `)
+    .eq('student_id', studentId)
+    .order('enrolled_at', { ascending: false })
+
+  if (error) throw error
+  return data
+}
+
+// Which of `courseIds` the student is enrolled in; all of their courses
+// when omitted
+export async function listEnrolledCourseIds(studentId: string, courseIds?: string[]) {
+  let query = supabase
+    .from('enrollments')
+    .select('course_id')
+    .eq('student_id', studentId)
+
+  if (courseIds) {
+    query = query.in('course_id', courseIds)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return data.map(e => e.course_id)
+}
+
+export async function listCompletedCourseIds(studentId: string) {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select('course_id')
+    .eq('student_id', studentId)
+    .eq('is_completed', true)
+
+  if (error) throw error
+  return data.map(e => e.course_id)
+}
+
+// Everyone enrolled in the mentor's courses, newest first
+export async function listRoster(courseIds: string[]): Promise<RosterEnrollment[]> {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select(`
+      *,
+      student:users!enrollments_student_id_fkey (
+        id,
+        full_name,
+        email,
+        department,
+        year_of_study,
+        profile_picture
+      ),
+      course:courses (
+        title,
+        min_attendance_percent
+      )
+    `)
+    .in('course_id', courseIds)
+    .order('enrolled_at', { ascending: false })
+
+  if (error) throw error
+  return data
+}
+
+export async function listEnrolledStudents(courseId: string): Promise<EnrolledStudent[]> {
+  const { data, error } = await supabase
+    .from('enrollments')
+    .select('student:users!enrollments_student_id_fkey (id, full_name, profile_picture)')
+    .eq('course_id', courseId)
+
+  if (error) throw error
+  return data.map(enrollment => enrollment.student)
+}
+
+// Free courses only; paid enrollments are created by the payments function.
+// Fails with "Course is full" once every seat is taken
+export async function enroll(studentId: string, courseId: string) {
+  const { error } = await supabase
+    .from('enrollments')
+    .insert({
+      student_id: studentId,
+      course_id: courseId
+    })
+
+  if (error) throw error
+}
+
+// enrollment_completion_trigger awards XP and issues the certificates
+export async function markEnrollmentsCompleted(enrollmentIds: string[]) {
+  const { error } = await supabase
+    .from('enrollments')
+    .update({
+      is_completed: true,
+      completed_at: new Date().toISOString()
+    })
+    .in('id', enrollmentIds)
+    .eq('is_completed', false)
+
+  if (error) throw error
+}
+
+// Fails unless the course is full; resolves to the student's position
+export async function joinWaitlist(courseId: string) {
+  const { data, error } = await supabase.rpc('join_waitlist', { p_course_id: courseId })
+
+  if (error) throw error
+  return data
+}
+
+export async function leaveWaitlist(courseId: string, studentId: string) {
+  const { error } = await supabase
+    .from('course_waitlist')
+    .delete()
+    .eq('course_id', courseId)
+    .eq('student_id', studentId)
+
+  if (error) throw error
+}
+
+// 1 is next in line; null when the viewer isn't waiting
+export async function getWaitlistPosition(courseId: string) {
+  const { data, error } = await supabase.rpc('waitlist_position', { p_course_id: courseId })
+
+  if (error) throw error
+  return data
+}
+
+// When a seat in a paid course is being held for the student, until when;
+// null when there is no current hold
+export async function getSeatHoldExpiry(courseId: string, studentId: string) {
+  const { data, error } = await supabase
+    .from('course_waitlist')
+    .select('offer_expires_at')
+    .eq('course_id', courseId)
+    .eq('student_id', studentId)
+    .gt('offer_expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.offer_expires_at ?? null
+}
+
+// Which of `courseIds` the student is waiting for
+export async function listWaitlistedCourseIds(studentId: string, courseIds: string[]) {
+  const { data, error } = await supabase
+    .from('course_waitlist')
+    .select('course_id')
+    .eq('student_id', studentId)
+    .in('course_id', courseIds)
+
+  if (error) throw error
+  return data.map(w => w.course_id)
+}
@@ -0,0 +1,67 @@
+import { supabase, type Tables, type TablesInsert, type TablesUpdate } from '../supabase'
+
+export type Profile = Tables<'users'>
+export type Project = Tables<'user_projects'>
+
+// Null when no profile row exists yet, e.g. right after sign-up
+export async function getProfile(userId: string) {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export async function createProfile(profile: TablesInsert<'users'>) {
+  const { error } = await supabase
+    .from('users')
+    .insert(profile)
+
+  if (error) throw error
+}
+
+export async function updateProfile(userId: string, updates: TablesUpdate<'users'>) {
+  const { data, error } = await supabase
+    .from('users')
+    .update(updates)
+    .eq('id', userId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Featured projects first, then newest
+export async function listProjects(userId: string) {
+  const { data, error } = await supabase
+    .from('user_projects')
+    .select('*')
+    .eq('user_id', userId)
+    .order('is_featured', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data
+}
+
+export async function listProjectsById(projectIds: string[]) {
+  const { data, error } = await supabase
+    .from('user_projects')
+    .select('*')
+    .in('id', projectIds)
+
+  if (error) throw error
+  return data
+}
+
+export async function addProject(project: TablesInsert<'user_projects'>) {
+  const { error } = await supabase
+    .from('user_projects')
+    .insert(project)
+
+  if (error) throw error
+}
@@ -0,0 +1,48 @@
+import { generatePath } from 'react-router-dom'
+import type { SessionKind } from './supabase'
+
+// Route patterns for every screen in the app. Use `paths` below to build
+// links with parameters so a renamed segment is caught by the compiler.
+export const routes = {
+  dashboard: '/',
+  courses: '/courses',
+  course: '/courses/:id',
+  editCourse: '/courses/:id/edit',
+  createCourse: '/create-course',
+  mentorCourses: '/teaching',
+  myCourses: '/my-courses',
+  schedule: '/schedule',
+  checkIn: '/check-in/:kind/:sessionId',
+  myStudents: '/my-students',
+  earnings: '/earnings',
+  certificate: '/certificates/:certificateId',
+  verify: '/verify',
+  verifyCertificate: '/verify/:certificateId',
+  mentorApplication: '/mentor-application',
+  community: '/community',
+  communityDetail: '/community/:id',
+  communityThread: '/community/:id/threads/:threadId',
+  profile: '/profile',
+  userProfile: '/profile/:userId',
+  achievements: '/achievements',
+  reviews: '/reviews',
+  orders: '/orders',
+  settings: '/settings',
+  notifications: '/notifications',
+  analytics: '/admin/analytics',
+  mentorRequests: '/admin/mentor-requests',
+  courseReviews: '/admin/course-reviews',
+  badgeRules: '/admin/badges',
+  payouts: '/admin/payouts',
+} as const
+
+export const paths = {
+  course: (id: string) => generatePath(routes.course, { id }),
+  editCourse: (id: string) => generatePath(routes.editCourse, { id }),
+  checkIn: (kind: SessionKind, sessionId: string) => generatePath(routes.checkIn, { kind, sessionId }),
+  community: (id: string) => generatePath(routes.communityDetail, { id }),
+  communityThread: (id: string, threadId: string) => generatePath(routes.communityThread, { id, threadId }),
+  userProfile: (userId: string) => generatePath(routes.userProfile, { userId }),
+  certificate: (certificateId: string) => generatePath(routes.certificate, { certificateId }),
+  verifyCertificate: (certificateId: string) => generatePath(routes.verifyCertificate, { certificateId }),
+}
@@ -0,0 +1,112 @@
+import type { Database, SessionKind } from './supabase'
+import type { IcsEvent } from './ics'
+import { paths } from './routes'
+
+export type CourseSession = Database['public']['Tables']['sessions']['Row']
+export type CommunitySession = Database['public']['Tables']['community_sessions']['Row']
+
+// Everything but session_link, which isn't directly selectable
+export const sessionColumns =
+  'id, course_id, mentor_id, title, session_date, duration_minutes, is_completed, completed_at, series_id, recurrence_rule, cancelled_at, cancel_reason, revision, created_at, updated_at'
+
+// Matches the window enforced by session_join_link
+export const JOIN_WINDOW_MINUTES = 15
+
+// Matches the window enforced by check_in
+export const CHECK_IN_OPENS_MINUTES = 10
+export const CHECK_IN_CLOSES_MINUTES = 15
+
+export type RepeatFrequency = 'none' | 'daily' | 'weekly' | 'biweekly'
+
+export const repeatLabels: Record<RepeatFrequency, string> = {
+  none: 'Does not repeat',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+}
+
+const repeatDays: Record<Exclude<RepeatFrequency, 'none'>, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+}
+
+export function sessionEnd(session: Pick<CourseSession, 'session_date' | 'duration_minutes'>) {
+  return new Date(new Date(session.session_date).getTime() + session.duration_minutes * 60_000)
+}
+
+export function joinOpensAt(session: Pick<CourseSession, 'session_date'>) {
+  return new Date(new Date(session.session_date).getTime() - JOIN_WINDOW_MINUTES * 60_000)
+}
+
+export function isJoinable(
+  session: Pick<CourseSession, 'session_date' | 'duration_minutes' | 'cancelled_at'>,
+  now = new Date()
+) {
+  return !session.cancelled_at && now >= joinOpensAt(session) && now <= sessionEnd(session)
+}
+
+export function isCheckInOpen(
+  session: Pick<CourseSession, 'session_date' | 'duration_minutes' | 'cancelled_at'>,
+  now = new Date()
+) {
+  const opens = new Date(session.session_date).getTime() - CHECK_IN_OPENS_MINUTES * 60_000
+  const closes = sessionEnd(session).getTime() + CHECK_IN_CLOSES_MINUTES * 60_000
+  return !session.cancelled_at && now.getTime() >= opens && now.getTime() <= closes
+}
+
+// Occurrence start times for a new series. Steps by calendar days so the
+// local wall-clock time stays put across daylight saving changes.
+export function expandRecurrence(start: Date, frequency: RepeatFrequency, count: number) {
+  if (frequency === 'none') return [start]
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(start)
+    date.setDate(start.getDate() + i * repeatDays[frequency])
+    return date
+  })
+}
+
+// RFC 5545 RRULE stored on every occurrence of a series
+export function recurrenceRule(frequency: RepeatFrequency, count: number) {
+  if (frequency === 'none') return undefined
+  const interval = frequency === 'biweekly' ? ';INTERVAL=2' : ''
+  return `FREQ=${frequency === 'daily' ? 'DAILY' : 'WEEKLY'}${interval};COUNT=${count}`
+}
+
+export function formatSessionTime(session: Pick<CourseSession, 'session_date' | 'duration_minutes'>) {
+  const start = new Date(session.session_date)
+  const end = sessionEnd(session)
+  return `${start.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} – ${end.toLocaleTimeString(undefined, { timeStyle: 'short' })}`
+}
+
+// Value for <input type="datetime-local"> in the browser's time zone
+export function toDateTimeInput(value: string | Date) {
+  const date = new Date(value)
+  const offset = date.getTimezoneOffset() * 60_000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+// Same UID as the calendar feed, so a downloaded event and a subscribed
+// one are recognised as the same session
+export function sessionIcsEvent(session: CourseSession, courseTitle: string): IcsEvent {
+  return {
+    uid: `session-${session.id}@peerlearn`,
+    start: new Date(session.session_date),
+    durationMinutes: session.duration_minutes,
+    summary: session.title ? `${courseTitle}: ${session.title}` : courseTitle,
+    description: session.cancel_reason ? `Cancelled: ${session.cancel_reason}` : undefined,
+    url: `${window.location.origin}${paths.course(session.course_id)}`,
+    cancelled: !!session.cancelled_at,
+    sequence: session.revision,
+    updatedAt: new Date(session.updated_at)
+  }
+}
+
+// Opening this link checks the student in without typing the code
+export function checkInUrl(kind: SessionKind, sessionId: string, code: string) {
+  return `${window.location.origin}${paths.checkIn(kind, sessionId)}?code=${encodeURIComponent(code)}`
+}
+
+export function calendarFeedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`
+}
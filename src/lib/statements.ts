@@ -0,0 +1,262 @@
+import { supabase } from './supabase'
+import { canvasBytes } from './canvas'
+import { downloadCsv } from './csv'
+import { downloadFile } from './download'
+import { createPagedImagePdf } from './pdf'
+
+export interface StatementLine {
+  date: string
+  type: 'sale' | 'refund' | 'payout'
+  description: string
+  student?: string
+  gross: number
+  commission: number
+  net: number
+}
+
+export interface EarningsStatement {
+  mentorName: string
+  // YYYY-MM
+  month: string
+  openingBalance: number
+  closingBalance: number
+  lines: StatementLine[]
+}
+
+// A4 portrait at roughly 150 dpi
+const WIDTH = 1240
+const HEIGHT = 1754
+const ROWS_PER_PAGE = 34
+
+export function currentMonth() {
+  return new Date().toISOString().slice(0, 7)
+}
+
+function monthRange(month: string) {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)).toISOString(),
+    end: new Date(Date.UTC(year, monthIndex, 1)).toISOString()
+  }
+}
+
+export function formatMonth(month: string) {
+  const { start } = monthRange(month)
+  return new Date(start).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+// Sales and refunds come from the earnings ledger; approved payouts are
+// dated by when they were approved. Balances are after approved payouts.
+export async function fetchEarningsStatement(mentorId: string, month: string): Promise<EarningsStatement> {
+  const { start, end } = monthRange(month)
+
+  const [mentorRes, ledgerRes, payoutsRes] = await Promise.all([
+    supabase
+      .from('users')
+      .select('full_name')
+      .eq('id', mentorId)
+      .single(),
+    supabase
+      .from('earnings_ledger')
+      .select(`
+        *,
+        order:orders (
+          amount,
+          platform_fee,
+          student:users!orders_student_id_fkey (full_name)
+        )
+      `)
+      .eq('mentor_id', mentorId)
+      .lt('created_at', end)
+      .order('created_at'),
+    supabase
+      .from('payouts')
+      .select('*')
+      .eq('mentor_id', mentorId)
+      .eq('status', 'approved')
+      .lt('reviewed_at', end)
+      .order('reviewed_at')
+  ])
+
+  if (mentorRes.error) throw mentorRes.error
+  if (ledgerRes.error) throw ledgerRes.error
+  if (payoutsRes.error) throw payoutsRes.error
+
+  let openingBalance = 0
+  const lines: StatementLine[] = []
+
+  for (const entry of ledgerRes.data || []) {
+    if (entry.created_at < start) {
+      openingBalance += Number(entry.amount)
+      continue
+    }
+    // Refunds return the full price to the student, commission included
+    const sign = entry.entry_type === 'refund' ? -1 : 1
+    lines.push({
+      date: entry.created_at,
+      type: entry.entry_type,
+      description: entry.description || '',
+      student: entry.order?.student?.full_name,
+      gross: sign * Number(entry.order?.amount ?? entry.amount),
+      commission: sign * Number(entry.order?.platform_fee ?? 0),
+      net: Number(entry.amount)
+    })
+  }
+
+  for (const payout of payoutsRes.data || []) {
+    // Approved payouts always carry the review stamp the query filters on
+    const reviewedAt = payout.reviewed_at!
+    if (reviewedAt < start) {
+      openingBalance -= Number(payout.amount)
+      continue
+    }
+    lines.push({
+      date: reviewedAt,
+      type: 'payout',
+      description: 'Payout',
+      gross: 0,
+      commission: 0,
+      net: -Number(payout.amount)
+    })
+  }
+
+  lines.sort((a, b) => a.date.localeCompare(b.date))
+
+  return {
+    mentorName: mentorRes.data.full_name,
+    month,
+    openingBalance,
+    closingBalance: lines.reduce((balance, line) => balance + line.net, openingBalance),
+    lines
+  }
+}
+
+export function statementTotals(statement: EarningsStatement) {
+  const earnings = statement.lines.filter(line => line.type !== 'payout')
+  return {
+    gross: earnings.reduce((sum, line) => sum + line.gross, 0),
+    commission: earnings.reduce((sum, line) => sum + line.commission, 0),
+    net: earnings.reduce((sum, line) => sum + line.net, 0),
+    payouts: -statement.lines
+      .filter(line => line.type === 'payout')
+      .reduce((sum, line) => sum + line.net, 0)
+  }
+}
+
+function statementFilename(statement: EarningsStatement, extension: string) {
+  const name = statement.mentorName.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+  return `earnings-${name}-${statement.month}.${extension}`
+}
+
+const money = (value: number) => value.toFixed(2)
+
+export function downloadStatementCsv(statement: EarningsStatement) {
+  downloadCsv(statementFilename(statement, 'csv'), statement.lines, [
+    { header: 'Date', value: line => line.date.slice(0, 10) },
+    { header: 'Type', value: line => line.type },
+    { header: 'Description', value: line => line.description },
+    { header: 'Student', value: line => line.student },
+    { header: 'Gross', value: line => money(line.gross) },
+    { header: 'Commission', value: line => money(line.commission) },
+    { header: 'Net', value: line => money(line.net) }
+  ])
+}
+
+function renderStatementPage(statement: EarningsStatement, lines: StatementLine[], page: number, pageCount: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = WIDTH
+  canvas.height = HEIGHT
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas is not supported in this browser')
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+  const text = (value: string, x: number, y: number, font: string, align: CanvasTextAlign = 'left', color = '#111827', maxWidth?: number) => {
+    ctx.font = font
+    ctx.fillStyle = color
+    ctx.textAlign = align
+    ctx.fillText(value, x, y, maxWidth)
+  }
+
+  text('PeerLearn', 100, 130, 'bold 44px sans-serif', 'left', '#7c3aed')
+  text('Earnings Statement', 100, 190, 'bold 36px sans-serif')
+  text(statement.mentorName, WIDTH - 100, 130, 'bold 28px sans-serif', 'right')
+  text(formatMonth(statement.month), WIDTH - 100, 175, '26px sans-serif', 'right', '#4b5563')
+
+  let y = 270
+  if (page === 0) {
+    const totals = statementTotals(statement)
+    const summary: [string, number][] = [
+      ['Opening balance', statement.openingBalance],
+      ['Gross sales', totals.gross],
+      ['Platform commission', -totals.commission],
+      ['Net earnings', totals.net],
+      ['Payouts', -totals.payouts],
+      ['Closing balance', statement.closingBalance]
+    ]
+    for (const [label, value] of summary) {
+      text(label, 100, y, '26px sans-serif', 'left', '#374151')
+      text(`₹${money(value)}`, 600, y, 'bold 26px sans-serif', 'right')
+      y += 40
+    }
+    y += 40
+  }
+
+  const columns: { header: string; x: number; align: CanvasTextAlign; width?: number; value: (line: StatementLine) => string }[] = [
+    { header: 'Date', x: 100, align: 'left', value: line => new Date(line.date).toLocaleDateString() },
+    { header: 'Description', x: 270, align: 'left', width: 380, value: line => line.description },
+    { header: 'Student', x: 670, align: 'left', width: 200, value: line => line.student || '' },
+    { header: 'Gross', x: 960, align: 'right', value: line => money(line.gross) },
+    { header: 'Fee', x: 1050, align: 'right', value: line => money(line.commission) },
+    { header: 'Net', x: WIDTH - 100, align: 'right', value: line => money(line.net) }
+  ]
+
+  for (const column of columns) {
+    text(column.header, column.x, y, 'bold 22px sans-serif', column.align, '#374151')
+  }
+  ctx.fillStyle = '#d1d5db'
+  ctx.fillRect(100, y + 14, WIDTH - 200, 2)
+  y += 50
+
+  for (const line of lines) {
+    for (const column of columns) {
+      text(column.value(line), column.x, y, '20px sans-serif', column.align, '#111827', column.width)
+    }
+    y += 36
+  }
+
+  if (statement.lines.length === 0) {
+    text('No activity this month', 100, y, 'italic 22px sans-serif', 'left', '#6b7280')
+  }
+
+  text(`Page ${page + 1} of ${pageCount}`, WIDTH / 2, HEIGHT - 80, '20px sans-serif', 'center', '#6b7280')
+
+  return canvas
+}
+
+export async function downloadStatementPdf(statement: EarningsStatement) {
+  // The first page also carries the summary, so it fits fewer rows
+  const firstPageRows = ROWS_PER_PAGE - 8
+  const chunks = [statement.lines.slice(0, firstPageRows)]
+  for (let i = firstPageRows; i < statement.lines.length; i += ROWS_PER_PAGE) {
+    chunks.push(statement.lines.slice(i, i + ROWS_PER_PAGE))
+  }
+
+  const pages = await Promise.all(
+    chunks.map((lines, page) => canvasBytes(renderStatementPage(statement, lines, page, chunks.length), 'image/jpeg'))
+  )
+
+  const pdf = createPagedImagePdf({
+    pages,
+    imageWidth: WIDTH,
+    imageHeight: HEIGHT,
+    pageWidth: 595,
+    pageHeight: 842,
+    info: {
+      Title: `Earnings statement ${statement.month}`,
+      Author: 'PeerLearn'
+    }
+  })
+  downloadFile(statementFilename(statement, 'pdf'), pdf, 'application/pdf')
+}
@@ -8,11 +8,73 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.error('Required variables: VITE_SUPABASE_URL, VITE_SUPABASE_ANON_KEY')
 }
 
-export const supabase = createClient(
+export const supabase = createClient<Database>(
   supabaseUrl || 'https://placeholder.supabase.co', 
   supabaseAnonKey || 'placeholder-key'
 )
 
+export type BadgeMetric =
+  | 'completed_enrollments'
+  | 'distinct_domains'
+  | 'certificates'
+  | 'paid_completions'
+  | 'helpful_reviews'
+  | 'sessions_attended'
+  | 'sessions_conducted'
+  | 'sessions_with_attendees'
+  | 'bookings'
+  | 'average_rating'
+  | 'total_earnings'
+  | 'is_verified'
+
+// Stored in `badges.rule`; met when every condition's metric reaches `min`
+export type BadgeRule = {
+  all: { metric: BadgeMetric; min: number }[]
+}
+
+export type XpSource =
+  | 'enrollment'
+  | 'course_completion'
+  | 'review'
+  | 'resource_upload'
+  | 'session_hosted'
+  | 'adjustment'
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'refunded'
+
+export type PayoutStatus = 'pending' | 'approved' | 'rejected'
+
+export type SessionKind = 'course' | 'community'
+
+export type CourseStatus = 'draft' | 'in_review' | 'published' | 'archived'
+
+export type AttendanceMethod = 'code' | 'link' | 'manual'
+
+export type RsvpStatus = 'going' | 'maybe' | 'declined'
+
+export type NotificationKind =
+  | 'enrollment'
+  | 'session_rescheduled'
+  | 'session_cancelled'
+  | 'badge_earned'
+  | 'certificate_issued'
+  | 'mentor_request_decided'
+  | 'community_resource'
+  | 'thread_reply'
+  | 'post_mention'
+  | 'waitlist_seat'
+  | 'course_reviewed'
+
+// Relationships use Postgres' default constraint names, which the
+// `users!courses_mentor_id_fkey` hints in embedded selects refer to
+type ForeignKey<Table extends string, Column extends string, Referenced extends string> = {
+  foreignKeyName: `${Table}_${Column}_fkey`
+  columns: [Column]
+  isOneToOne: false
+  referencedRelation: Referenced
+  referencedColumns: ['id']
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -44,12 +106,12 @@ export type Database = {
           year_of_study?: number
           department: string
           role?: 'student' | 'mentor' | 'admin'
-          profile_picture?: string
-          bio?: string
-          linkedin_url?: string
-          github_url?: string
-          portfolio_url?: string
-          experience_description?: string
+          profile_picture?: string | null
+          bio?: string | null
+          linkedin_url?: string | null
+          github_url?: string | null
+          portfolio_url?: string | null
+          experience_description?: string | null
           xp_points?: number
           level_number?: number
           is_verified?: boolean
@@ -64,12 +126,12 @@ export type Database = {
           year_of_study?: number
           department?: string
           role?: 'student' | 'mentor' | 'admin'
-          profile_picture?: string
-          bio?: string
-          linkedin_url?: string
-          github_url?: string
-          portfolio_url?: string
-          experience_description?: string
+          profile_picture?: string | null
+          bio?: string | null
+          linkedin_url?: string | null
+          github_url?: string | null
+          portfolio_url?: string | null
+          experience_description?: string | null
           xp_points?: number
           level_number?: number
           is_verified?: boolean
@@ -77,6 +139,45 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      user_projects: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          description?: string
+          project_url?: string
+          github_url?: string
+          technologies?: string[]
+          is_featured: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title: string
+          description?: string | null
+          project_url?: string | null
+          github_url?: string | null
+          technologies?: string[] | null
+          is_featured?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          description?: string | null
+          project_url?: string | null
+          github_url?: string | null
+          technologies?: string[] | null
+          is_featured?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'user_projects', 'user_id', 'users'>,
+        ]
       }
       courses: {
         Row: {
@@ -88,9 +189,20 @@ export type Database = {
           price: number
           duration_hours: number
           max_students?: number
+          // Not selectable; read it through the course_session_link RPC
           session_link?: string
           course_image?: string
+          min_attendance_percent: number
+          status: CourseStatus
+          // Kept equal to `status === 'published'` by the status trigger
           is_active: boolean
+          published_at?: string
+          submitted_at?: string
+          review_notes?: string
+          reviewed_by?: string
+          reviewed_at?: string
+          // Generated from title, domain and description
+          search_vector: string
           created_at: string
           updated_at: string
         }
@@ -102,10 +214,13 @@ export type Database = {
           domain: string
           price?: number
           duration_hours: number
-          max_students?: number
-          session_link?: string
-          course_image?: string
+          max_students?: number | null
+          session_link?: string | null
+          course_image?: string | null
+          min_attendance_percent?: number
+          status?: CourseStatus
           is_active?: boolean
+          review_notes?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -117,13 +232,70 @@ export type Database = {
           domain?: string
           price?: number
           duration_hours?: number
-          max_students?: number
-          session_link?: string
-          course_image?: string
+          max_students?: number | null
+          session_link?: string | null
+          course_image?: string | null
+          min_attendance_percent?: number
+          status?: CourseStatus
           is_active?: boolean
+          // Only admins' review notes are kept
+          review_notes?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          ForeignKey<'courses', 'mentor_id', 'users'>,
+          ForeignKey<'courses', 'reviewed_by', 'users'>,
+        ]
+      }
+      course_settings: {
+        Row: {
+          id: boolean
+          require_approval: boolean
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          require_approval?: boolean
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          require_approval?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      course_revisions: {
+        Row: {
+          id: string
+          course_id: string
+          changed_by?: string
+          // Changed fields only; see courseFieldLabels in lib/courseLifecycle
+          changes: Record<string, { from?: unknown; to?: unknown }>
+          enrolled_count: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          changed_by?: string | null
+          changes: Record<string, { from?: unknown; to?: unknown }>
+          enrolled_count: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          changed_by?: string | null
+          changes?: Record<string, { from?: unknown; to?: unknown }>
+          enrolled_count?: number
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'course_revisions', 'course_id', 'courses'>,
+          ForeignKey<'course_revisions', 'changed_by', 'users'>,
+        ]
       }
       enrollments: {
         Row: {
@@ -133,23 +305,30 @@ export type Database = {
           enrolled_at: string
           completed_at?: string
           is_completed: boolean
+          dropped_at?: string
         }
         Insert: {
           id?: string
           student_id: string
           course_id: string
           enrolled_at?: string
-          completed_at?: string
+          completed_at?: string | null
           is_completed?: boolean
+          dropped_at?: string | null
         }
         Update: {
           id?: string
           student_id?: string
           course_id?: string
           enrolled_at?: string
-          completed_at?: string
+          completed_at?: string | null
           is_completed?: boolean
+          dropped_at?: string | null
         }
+        Relationships: [
+          ForeignKey<'enrollments', 'student_id', 'users'>,
+          ForeignKey<'enrollments', 'course_id', 'courses'>,
+        ]
       }
       reviews: {
         Row: {
@@ -159,8 +338,14 @@ export type Database = {
           mentor_id: string
           rating: number
           review_text?: string
-          is_helpful: boolean
+          mentor_reply?: string
+          mentor_replied_at?: string
+          is_hidden: boolean
+          is_flagged: boolean
+          flag_reason?: string
+          helpful_count: number
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -168,8 +353,7 @@ export type Database = {
           course_id: string
           mentor_id: string
           rating: number
-          review_text?: string
-          is_helpful?: boolean
+          review_text?: string | null
           created_at?: string
         }
         Update: {
@@ -178,10 +362,42 @@ export type Database = {
           course_id?: string
           mentor_id?: string
           rating?: number
-          review_text?: string
-          is_helpful?: boolean
+          review_text?: string | null
+          mentor_reply?: string | null
+          mentor_replied_at?: string | null
+          is_hidden?: boolean
+          is_flagged?: boolean
+          flag_reason?: string | null
+          helpful_count?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          ForeignKey<'reviews', 'student_id', 'users'>,
+          ForeignKey<'reviews', 'course_id', 'courses'>,
+          ForeignKey<'reviews', 'mentor_id', 'users'>,
+        ]
+      }
+      review_votes: {
+        Row: {
+          review_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          review_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          review_id?: string
+          user_id?: string
           created_at?: string
         }
+        Relationships: [
+          ForeignKey<'review_votes', 'review_id', 'reviews'>,
+          ForeignKey<'review_votes', 'user_id', 'users'>,
+        ]
       }
       certificates: {
         Row: {
@@ -208,6 +424,11 @@ export type Database = {
           certificate_id?: string
           issued_at?: string
         }
+        Relationships: [
+          ForeignKey<'certificates', 'student_id', 'users'>,
+          ForeignKey<'certificates', 'course_id', 'courses'>,
+          ForeignKey<'certificates', 'mentor_id', 'users'>,
+        ]
       }
       badges: {
         Row: {
@@ -217,6 +438,7 @@ export type Database = {
           icon: string
           badge_type: 'learner' | 'mentor'
           criteria: string
+          rule?: BadgeRule
           created_at: string
         }
         Insert: {
@@ -226,6 +448,7 @@ export type Database = {
           icon: string
           badge_type: 'learner' | 'mentor'
           criteria: string
+          rule?: BadgeRule | null
           created_at?: string
         }
         Update: {
@@ -235,8 +458,10 @@ export type Database = {
           icon?: string
           badge_type?: 'learner' | 'mentor'
           criteria?: string
+          rule?: BadgeRule | null
           created_at?: string
         }
+        Relationships: []
       }
       user_badges: {
         Row: {
@@ -257,6 +482,81 @@ export type Database = {
           badge_id?: string
           earned_at?: string
         }
+        Relationships: [
+          ForeignKey<'user_badges', 'user_id', 'users'>,
+          ForeignKey<'user_badges', 'badge_id', 'badges'>,
+        ]
+      }
+      xp_transactions: {
+        Row: {
+          id: string
+          user_id: string
+          amount: number
+          source: XpSource
+          source_id?: string
+          description?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          amount: number
+          source: XpSource
+          source_id?: string | null
+          description?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          amount?: number
+          source?: XpSource
+          source_id?: string | null
+          description?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'xp_transactions', 'user_id', 'users'>,
+        ]
+      }
+      level_curve: {
+        Row: {
+          id: boolean
+          base_xp: number
+          growth_xp: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          base_xp?: number
+          growth_xp?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          base_xp?: number
+          growth_xp?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      xp_rewards: {
+        Row: {
+          source: XpSource
+          amount: number
+          updated_at: string
+        }
+        Insert: {
+          source: XpSource
+          amount: number
+          updated_at?: string
+        }
+        Update: {
+          source?: XpSource
+          amount?: number
+          updated_at?: string
+        }
+        Relationships: []
       }
       mentor_requests: {
         Row: {
@@ -266,27 +566,1041 @@ export type Database = {
           status: 'pending' | 'approved' | 'rejected'
           reviewed_by?: string
           reviewed_at?: string
+          links: string[]
+          project_ids: string[]
+          review_notes?: string
           created_at: string
         }
         Insert: {
           id?: string
           student_id: string
-          request_message?: string
+          request_message?: string | null
           status?: 'pending' | 'approved' | 'rejected'
-          reviewed_by?: string
-          reviewed_at?: string
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          links?: string[]
+          project_ids?: string[]
+          review_notes?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           student_id?: string
-          request_message?: string
+          request_message?: string | null
           status?: 'pending' | 'approved' | 'rejected'
-          reviewed_by?: string
-          reviewed_at?: string
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          links?: string[]
+          project_ids?: string[]
+          review_notes?: string | null
           created_at?: string
         }
+        Relationships: [
+          ForeignKey<'mentor_requests', 'student_id', 'users'>,
+          ForeignKey<'mentor_requests', 'reviewed_by', 'users'>,
+        ]
       }
-    }
-  }
-}
\ No newline at end of file
+      mentor_request_events: {
+        Row: {
+          id: string
+          request_id: string
+          status: 'pending' | 'approved' | 'rejected'
+          notes?: string
+          actor_id?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          status: 'pending' | 'approved' | 'rejected'
+          notes?: string | null
+          actor_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          status?: 'pending' | 'approved' | 'rejected'
+          notes?: string | null
+          actor_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'mentor_request_events', 'request_id', 'mentor_requests'>,
+          ForeignKey<'mentor_request_events', 'actor_id', 'users'>,
+        ]
+      }
+      course_modules: {
+        Row: {
+          id: string
+          course_id: string
+          title: string
+          description?: string
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          title: string
+          description?: string | null
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          title?: string
+          description?: string | null
+          position?: number
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'course_modules', 'course_id', 'courses'>,
+        ]
+      }
+      course_lessons: {
+        Row: {
+          id: string
+          module_id: string
+          course_id: string
+          title: string
+          content?: string
+          video_url?: string
+          attachment_url?: string
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          module_id: string
+          course_id: string
+          title: string
+          content?: string | null
+          video_url?: string | null
+          attachment_url?: string | null
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          module_id?: string
+          course_id?: string
+          title?: string
+          content?: string | null
+          video_url?: string | null
+          attachment_url?: string | null
+          position?: number
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'course_lessons', 'module_id', 'course_modules'>,
+          ForeignKey<'course_lessons', 'course_id', 'courses'>,
+        ]
+      }
+      lesson_progress: {
+        Row: {
+          id: string
+          lesson_id: string
+          course_id: string
+          student_id: string
+          completed_at: string
+        }
+        Insert: {
+          id?: string
+          lesson_id: string
+          course_id: string
+          student_id: string
+          completed_at?: string
+        }
+        Update: {
+          id?: string
+          lesson_id?: string
+          course_id?: string
+          student_id?: string
+          completed_at?: string
+        }
+        Relationships: [
+          ForeignKey<'lesson_progress', 'lesson_id', 'course_lessons'>,
+          ForeignKey<'lesson_progress', 'course_id', 'courses'>,
+          ForeignKey<'lesson_progress', 'student_id', 'users'>,
+        ]
+      }
+      payment_settings: {
+        Row: {
+          id: boolean
+          commission_rate: number
+          currency: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          commission_rate?: number
+          currency?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          commission_rate?: number
+          currency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      orders: {
+        Row: {
+          id: string
+          student_id: string
+          course_id: string
+          mentor_id: string
+          amount: number
+          currency: string
+          commission_rate: number
+          platform_fee: number
+          mentor_amount: number
+          status: OrderStatus
+          provider: string
+          provider_order_id?: string
+          provider_payment_id?: string
+          provider_refund_id?: string
+          failure_reason?: string
+          refund_reason?: string
+          created_at: string
+          paid_at?: string
+          refunded_at?: string
+        }
+        Insert: {
+          id?: string
+          student_id: string
+          course_id: string
+          mentor_id: string
+          amount: number
+          currency?: string
+          commission_rate: number
+          platform_fee: number
+          mentor_amount: number
+          status?: OrderStatus
+          provider: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          provider_refund_id?: string | null
+          failure_reason?: string | null
+          refund_reason?: string | null
+          created_at?: string
+          paid_at?: string | null
+          refunded_at?: string | null
+        }
+        Update: {
+          id?: string
+          student_id?: string
+          course_id?: string
+          mentor_id?: string
+          amount?: number
+          currency?: string
+          commission_rate?: number
+          platform_fee?: number
+          mentor_amount?: number
+          status?: OrderStatus
+          provider?: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          provider_refund_id?: string | null
+          failure_reason?: string | null
+          refund_reason?: string | null
+          created_at?: string
+          paid_at?: string | null
+          refunded_at?: string | null
+        }
+        Relationships: [
+          ForeignKey<'orders', 'student_id', 'users'>,
+          ForeignKey<'orders', 'course_id', 'courses'>,
+          ForeignKey<'orders', 'mentor_id', 'users'>,
+        ]
+      }
+      earnings_ledger: {
+        Row: {
+          id: string
+          mentor_id: string
+          order_id?: string
+          entry_type: 'sale' | 'refund'
+          amount: number
+          description?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          mentor_id: string
+          order_id?: string | null
+          entry_type: 'sale' | 'refund'
+          amount: number
+          description?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          mentor_id?: string
+          order_id?: string | null
+          entry_type?: 'sale' | 'refund'
+          amount?: number
+          description?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'earnings_ledger', 'mentor_id', 'users'>,
+          ForeignKey<'earnings_ledger', 'order_id', 'orders'>,
+        ]
+      }
+      payouts: {
+        Row: {
+          id: string
+          mentor_id: string
+          amount: number
+          status: PayoutStatus
+          payout_details?: string
+          review_notes?: string
+          reviewed_by?: string
+          reviewed_at?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          mentor_id: string
+          amount: number
+          status?: PayoutStatus
+          payout_details?: string | null
+          review_notes?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          mentor_id?: string
+          amount?: number
+          status?: PayoutStatus
+          payout_details?: string | null
+          review_notes?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'payouts', 'mentor_id', 'users'>,
+          ForeignKey<'payouts', 'reviewed_by', 'users'>,
+        ]
+      }
+      sessions: {
+        Row: {
+          id: string
+          course_id: string
+          mentor_id: string
+          title?: string
+          session_date: string
+          duration_minutes: number
+          // Not selectable; read it through the session_join_link RPC
+          session_link?: string
+          is_completed: boolean
+          completed_at?: string
+          series_id?: string
+          recurrence_rule?: string
+          cancelled_at?: string
+          cancel_reason?: string
+          revision: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          mentor_id: string
+          title?: string | null
+          session_date: string
+          duration_minutes: number
+          session_link?: string | null
+          is_completed?: boolean
+          completed_at?: string | null
+          series_id?: string | null
+          recurrence_rule?: string | null
+          cancelled_at?: string | null
+          cancel_reason?: string | null
+          revision?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          mentor_id?: string
+          title?: string | null
+          session_date?: string
+          duration_minutes?: number
+          session_link?: string | null
+          is_completed?: boolean
+          completed_at?: string | null
+          series_id?: string | null
+          recurrence_rule?: string | null
+          cancelled_at?: string | null
+          cancel_reason?: string | null
+          revision?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          ForeignKey<'sessions', 'course_id', 'courses'>,
+          ForeignKey<'sessions', 'mentor_id', 'users'>,
+        ]
+      }
+      session_notices: {
+        Row: {
+          id: string
+          session_id: string
+          course_id: string
+          kind: 'rescheduled' | 'cancelled'
+          previous_date?: string
+          new_date?: string
+          reason?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          course_id: string
+          kind: 'rescheduled' | 'cancelled'
+          previous_date?: string | null
+          new_date?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          course_id?: string
+          kind?: 'rescheduled' | 'cancelled'
+          previous_date?: string | null
+          new_date?: string | null
+          reason?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'session_notices', 'session_id', 'sessions'>,
+          ForeignKey<'session_notices', 'course_id', 'courses'>,
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          user_id: string
+          // Secret in the feed URL; rotating it revokes old subscriptions
+          token: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          token?: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          token?: string
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'calendar_feeds', 'user_id', 'users'>,
+        ]
+      }
+      session_attendance: {
+        Row: {
+          id: string
+          // Exactly one of the two is set
+          session_id?: string
+          community_session_id?: string
+          user_id: string
+          method: AttendanceMethod
+          marked_by?: string
+          checked_in_at: string
+        }
+        Insert: {
+          id?: string
+          session_id?: string | null
+          community_session_id?: string | null
+          user_id: string
+          method: AttendanceMethod
+          marked_by?: string | null
+          checked_in_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string | null
+          community_session_id?: string | null
+          user_id?: string
+          method?: AttendanceMethod
+          marked_by?: string | null
+          checked_in_at?: string
+        }
+        Relationships: [
+          ForeignKey<'session_attendance', 'session_id', 'sessions'>,
+          ForeignKey<'session_attendance', 'community_session_id', 'community_sessions'>,
+          ForeignKey<'session_attendance', 'user_id', 'users'>,
+          ForeignKey<'session_attendance', 'marked_by', 'users'>,
+        ]
+      }
+      // Not readable by clients; hosts get codes through session_checkin_code()
+      session_checkin_codes: {
+        Row: {
+          id: string
+          session_id?: string
+          community_session_id?: string
+          code: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          session_id?: string | null
+          community_session_id?: string | null
+          code?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string | null
+          community_session_id?: string | null
+          code?: string
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'session_checkin_codes', 'session_id', 'sessions'>,
+          ForeignKey<'session_checkin_codes', 'community_session_id', 'community_sessions'>,
+        ]
+      }
+      learning_communities: {
+        Row: {
+          id: string
+          name: string
+          description?: string
+          category: string
+          created_by: string
+          course_id?: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          category: string
+          created_by: string
+          course_id?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          category?: string
+          created_by?: string
+          course_id?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          ForeignKey<'learning_communities', 'created_by', 'users'>,
+          ForeignKey<'learning_communities', 'course_id', 'courses'>,
+        ]
+      }
+      community_members: {
+        Row: {
+          id: string
+          community_id: string
+          user_id: string
+          role: 'admin' | 'senior' | 'member'
+          joined_at: string
+        }
+        Insert: {
+          id?: string
+          community_id: string
+          user_id: string
+          role?: 'admin' | 'senior' | 'member'
+          joined_at?: string
+        }
+        Update: {
+          id?: string
+          community_id?: string
+          user_id?: string
+          role?: 'admin' | 'senior' | 'member'
+          joined_at?: string
+        }
+        Relationships: [
+          ForeignKey<'community_members', 'community_id', 'learning_communities'>,
+          ForeignKey<'community_members', 'user_id', 'users'>,
+        ]
+      }
+      community_resources: {
+        Row: {
+          id: string
+          community_id: string
+          uploaded_by: string
+          title: string
+          description?: string
+          resource_type: 'video' | 'document' | 'link' | 'meet_link'
+          resource_url: string
+          is_featured: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          community_id: string
+          uploaded_by: string
+          title: string
+          description?: string | null
+          resource_type: 'video' | 'document' | 'link' | 'meet_link'
+          resource_url: string
+          is_featured?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          community_id?: string
+          uploaded_by?: string
+          title?: string
+          description?: string | null
+          resource_type?: 'video' | 'document' | 'link' | 'meet_link'
+          resource_url?: string
+          is_featured?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'community_resources', 'community_id', 'learning_communities'>,
+          ForeignKey<'community_resources', 'uploaded_by', 'users'>,
+        ]
+      }
+      community_sessions: {
+        Row: {
+          id: string
+          community_id: string
+          host_id: string
+          title: string
+          description?: string
+          session_date: string
+          duration_minutes: number
+          meet_link?: string
+          capacity?: number
+          is_completed: boolean
+          completed_at?: string
+          cancelled_at?: string
+          cancel_reason?: string
+          recording_resource_id?: string
+          revision: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          community_id: string
+          host_id: string
+          title: string
+          description?: string | null
+          session_date: string
+          duration_minutes?: number
+          meet_link?: string | null
+          capacity?: number | null
+          is_completed?: boolean
+          completed_at?: string | null
+          cancelled_at?: string | null
+          cancel_reason?: string | null
+          recording_resource_id?: string | null
+          revision?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          community_id?: string
+          host_id?: string
+          title?: string
+          description?: string | null
+          session_date?: string
+          duration_minutes?: number
+          meet_link?: string | null
+          capacity?: number | null
+          is_completed?: boolean
+          completed_at?: string | null
+          cancelled_at?: string | null
+          cancel_reason?: string | null
+          recording_resource_id?: string | null
+          revision?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          ForeignKey<'community_sessions', 'community_id', 'learning_communities'>,
+          ForeignKey<'community_sessions', 'host_id', 'users'>,
+          ForeignKey<'community_sessions', 'recording_resource_id', 'community_resources'>,
+        ]
+      }
+      community_session_rsvps: {
+        Row: {
+          id: string
+          session_id: string
+          user_id: string
+          status: RsvpStatus
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          user_id: string
+          status: RsvpStatus
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          user_id?: string
+          status?: RsvpStatus
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          ForeignKey<'community_session_rsvps', 'session_id', 'community_sessions'>,
+          ForeignKey<'community_session_rsvps', 'user_id', 'users'>,
+        ]
+      }
+      community_posts: {
+        Row: {
+          id: string
+          community_id: string
+          author_id: string
+          parent_id?: string
+          // Root post of the thread; set by the database
+          thread_id: string
+          // Set on thread roots only
+          title?: string
+          body: string
+          is_pinned: boolean
+          answer_post_id?: string
+          edited_at?: string
+          last_activity_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          community_id: string
+          author_id: string
+          parent_id?: string | null
+          thread_id?: string
+          title?: string | null
+          body: string
+          is_pinned?: boolean
+          answer_post_id?: string | null
+          edited_at?: string | null
+          last_activity_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          community_id?: string
+          author_id?: string
+          parent_id?: string | null
+          thread_id?: string
+          title?: string | null
+          body?: string
+          is_pinned?: boolean
+          answer_post_id?: string | null
+          edited_at?: string | null
+          last_activity_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'community_posts', 'community_id', 'learning_communities'>,
+          ForeignKey<'community_posts', 'author_id', 'users'>,
+          ForeignKey<'community_posts', 'parent_id', 'community_posts'>,
+          ForeignKey<'community_posts', 'thread_id', 'community_posts'>,
+          ForeignKey<'community_posts', 'answer_post_id', 'community_posts'>,
+        ]
+      }
+      community_post_mentions: {
+        Row: {
+          post_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          post_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          post_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          ForeignKey<'community_post_mentions', 'post_id', 'community_posts'>,
+          ForeignKey<'community_post_mentions', 'user_id', 'users'>,
+        ]
+      }
+      course_waitlist: {
+        Row: {
+          id: string
+          course_id: string
+          student_id: string
+          created_at: string
+          // Set once a seat in a paid course has been offered
+          notified_at?: string
+          // The offered seat is held for the student until then
+          offer_expires_at?: string
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          student_id: string
+          created_at?: string
+          notified_at?: string | null
+          offer_expires_at?: string | null
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          student_id?: string
+          created_at?: string
+          notified_at?: string | null
+          offer_expires_at?: string | null
+        }
+        Relationships: [
+          ForeignKey<'course_waitlist', 'course_id', 'courses'>,
+          ForeignKey<'course_waitlist', 'student_id', 'users'>,
+        ]
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          kind: NotificationKind
+          // Shape depends on `kind`; see NotificationData in lib/notifications
+          data: Record<string, unknown>
+          actor_id?: string
+          read_at?: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          kind: NotificationKind
+          data?: Record<string, unknown>
+          actor_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          read_at?: string | null
+        }
+        Relationships: [
+          ForeignKey<'notifications', 'user_id', 'users'>,
+          ForeignKey<'notifications', 'actor_id', 'users'>,
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          kind: NotificationKind
+          enabled: boolean
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          kind: NotificationKind
+          enabled?: boolean
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          kind?: NotificationKind
+          enabled?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          ForeignKey<'notification_preferences', 'user_id', 'users'>,
+        ]
+      }
+    }
+    Views: {
+      enrollment_progress: {
+        Row: {
+          enrollment_id: string
+          student_id: string
+          course_id: string
+          total_lessons: number
+          completed_lessons: number
+          progress_percent: number
+        }
+        Relationships: []
+      }
+      enrollment_attendance: {
+        Row: {
+          enrollment_id: string
+          student_id: string
+          course_id: string
+          sessions_held: number
+          sessions_attended: number
+          // Null until a session has been held
+          attendance_percent: number | null
+        }
+        Relationships: []
+      }
+      course_stats: {
+        Row: {
+          course_id: string
+          mentor_id: string
+          enrollment_count: number
+          // Null when the course has no student limit
+          seats_left: number | null
+          review_count: number
+          // Null until the first visible review
+          average_rating: number | null
+          waitlist_count: number
+        }
+        Relationships: []
+      }
+      course_catalog: {
+        Row: {
+          id: string
+          mentor_id: string
+          title: string
+          description: string
+          domain: string
+          price: number
+          duration_hours: number
+          max_students: number | null
+          course_image: string | null
+          created_at: string
+          search_vector: string
+          enrollment_count: number
+          seats_left: number | null
+          review_count: number
+          average_rating: number | null
+          mentor_name: string
+          mentor_picture: string | null
+          mentor_verified: boolean
+        }
+        Relationships: []
+      }
+      mentor_stats: {
+        Row: {
+          mentor_id: string
+          course_count: number
+          student_count: number
+          review_count: number
+          average_rating: number | null
+          // Null until the first enrollment
+          completion_rate: number | null
+        }
+        Relationships: []
+      }
+    }
+    // Functions clients may call; order and payment functions are service-only
+    Functions: {
+      set_enrollment_dropped: {
+        Args: { p_enrollment_id: string; p_dropped: boolean }
+        Returns: Database['public']['Tables']['enrollments']['Row']
+      }
+      flag_review: {
+        Args: { p_review_id: string; p_reason: string }
+        Returns: undefined
+      }
+      reply_to_review: {
+        Args: { p_review_id: string; p_reply: string }
+        Returns: undefined
+      }
+      preview_badge_awards: {
+        Args: Record<string, never>
+        Returns: {
+          user_id: string
+          full_name: string
+          badge_id: string
+          badge_name: string
+          already_earned: boolean
+        }[]
+      }
+      award_all_badges: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      badge_progress: {
+        Args: { p_user_id: string }
+        Returns: {
+          badge_id: string
+          metric: BadgeMetric
+          current_value: number
+          target_value: number
+        }[]
+      }
+      verify_certificate: {
+        Args: { p_certificate_id: string }
+        Returns: {
+          certificate_id: string
+          student_name: string
+          course_title: string
+          mentor_name: string
+          issued_at: string
+          signature: string
+          signed_payload: string
+        }[]
+      }
+      payout_balance: {
+        Args: { p_mentor_id: string }
+        Returns: {
+          earned: number
+          paid_out: number
+          pending: number
+          available: number
+        }[]
+      }
+      request_payout: {
+        Args: { p_amount: number; p_details: string }
+        Returns: Database['public']['Tables']['payouts']['Row']
+      }
+      calendar_feed_token: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      reset_calendar_feed_token: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      session_join_link: {
+        Args: { p_session_id: string }
+        Returns: string
+      }
+      course_session_link: {
+        Args: { p_course_id: string }
+        Returns: string
+      }
+      session_checkin_code: {
+        Args: { p_kind: SessionKind; p_session_id: string }
+        Returns: string
+      }
+      check_in: {
+        Args: { p_kind: SessionKind; p_session_id: string; p_code: string; p_method?: AttendanceMethod }
+        Returns: string
+      }
+      join_waitlist: {
+        Args: { p_course_id: string }
+        Returns: number
+      }
+      waitlist_position: {
+        Args: { p_course_id: string }
+        Returns: number | null
+      }
+    }
+  }
+}
+
+export type Tables<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row']
+export type TablesInsert<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Update']
+export type Views<T extends keyof Database['public']['Views']> = Database['public']['Views'][T]['Row']
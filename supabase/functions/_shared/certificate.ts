@@ -0,0 +1,23 @@
+// Shared by the sign-certificate edge function and src/lib/certificates.ts so
+// the signed text is built in exactly one place.
+
+export interface CertificateDetails {
+  certificate_id: string
+  student_name: string
+  course_title: string
+  mentor_name?: string
+  issued_at: string
+}
+
+// The exact text that is signed. Once signed it is stored alongside the
+// signature, so later name or title changes don't invalidate downloads.
+export function certificatePayload(certificate: CertificateDetails) {
+  return [
+    'PeerLearn Certificate',
+    `id: ${certificate.certificate_id}`,
+    `student: ${certificate.student_name}`,
+    `course: ${certificate.course_title}`,
+    `mentor: ${certificate.mentor_name ?? ''}`,
+    `issued: ${new Date(certificate.issued_at).toISOString()}`
+  ].join('\n')
+}
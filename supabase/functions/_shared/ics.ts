@@ -0,0 +1,81 @@
+// Minimal iCalendar (RFC 5545) writer. Times are written in UTC, which
+// every calendar app converts to the viewer's own time zone. Recurring
+// series are stored expanded, so each occurrence is its own VEVENT: one
+// occurrence can be moved or cancelled without RECURRENCE-ID overrides,
+// and DST was already accounted for when the series was created in the
+// host's local time.
+//
+// Shared by src/lib/ics.ts and the calendar-feed edge function.
+
+export interface IcsEvent {
+  uid: string
+  start: Date
+  durationMinutes: number
+  summary: string
+  description?: string
+  url?: string
+  cancelled?: boolean
+  // Bumped on every change so calendar apps replace their copy
+  sequence?: number
+  updatedAt?: Date
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets are folded onto continuation lines
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+export function buildCalendar(events: IcsEvent[], name = 'PeerLearn') {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PeerLearn//Sessions//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ]
+
+  for (const event of events) {
+    const end = new Date(event.start.getTime() + event.durationMinutes * 60_000)
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(event.updatedAt ?? new Date())}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `SEQUENCE:${event.sequence ?? 0}`,
+      `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,77 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { buildCalendar, type IcsEvent } from '../_shared/ics.ts'
+
+// Per-user iCalendar feed for calendar apps to subscribe to:
+//   GET /functions/v1/calendar-feed?token=<calendar_feeds.token>
+//
+// Calendar apps can't send a Supabase session, so the secret token is the
+// only credential. Deploy with `--no-verify-jwt`.
+//
+// Secrets: APP_URL (optional, links events back to the app), plus the
+// default SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+
+interface FeedEvent {
+  event_uid: string
+  summary: string
+  description: string
+  starts_at: string
+  duration_minutes: number
+  is_cancelled: boolean
+  revision: number
+  updated_at: string
+  course_id?: string
+  community_id?: string
+}
+
+function eventUrl(event: FeedEvent) {
+  const appUrl = Deno.env.get('APP_URL')?.replace(/\/$/, '')
+  if (!appUrl) return undefined
+  if (event.course_id) return `${appUrl}/courses/${event.course_id}`
+  if (event.community_id) return `${appUrl}/community/${event.community_id}`
+  return undefined
+}
+
+Deno.serve(async (req) => {
+  try {
+    const token = new URL(req.url).searchParams.get('token')
+    if (!token) return new Response('token is required', { status: 400 })
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const { data: feed } = await admin
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle()
+    if (!feed) return new Response('Feed not found', { status: 404 })
+
+    const { data, error } = await admin.rpc('calendar_feed_events', { p_token: token })
+    if (error) throw error
+
+    const events: IcsEvent[] = (data as FeedEvent[]).map(event => ({
+      uid: event.event_uid,
+      start: new Date(event.starts_at),
+      durationMinutes: event.duration_minutes,
+      summary: event.summary,
+      description: event.description || undefined,
+      url: eventUrl(event),
+      cancelled: event.is_cancelled,
+      sequence: event.revision,
+      updatedAt: new Date(event.updated_at),
+    }))
+
+    return new Response(buildCalendar(events), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="peerlearn.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return new Response('Could not build calendar feed', { status: 500 })
+  }
+})
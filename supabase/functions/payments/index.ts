@@ -0,0 +1,159 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { getPaymentProvider, type Order } from './providers/index.ts'
+
+// Checkout for paid courses. Order state only changes here, after the
+// payment provider has confirmed it; the browser never writes orders or
+// paid enrollments itself.
+//
+// Actions:
+//   checkout { course_id }                 -> order + provider client data
+//   confirm  { order_id, proof }           -> paid or failed order
+//   refund   { order_id, reason }          -> refunded order
+//
+// Secrets: PAYMENT_PROVIDER (required; set it to "mock" for local
+// development only), plus the default
+// SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json()
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+    const { data: { user } } = await userClient.auth.getUser()
+    if (!user) return json({ error: 'Not signed in' }, 401)
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const loadOrder = async (orderId: string) => {
+      const { data, error } = await admin
+        .from('orders')
+        .select('*')
+        .eq('id', orderId)
+        .maybeSingle()
+      if (error) throw error
+      return data as Order | null
+    }
+
+    if (body.action === 'checkout') {
+      if (!body.course_id) return json({ error: 'course_id is required' }, 400)
+
+      const provider = getPaymentProvider()
+      const { data: order, error } = await admin.rpc('create_course_order', {
+        p_student_id: user.id,
+        p_course_id: body.course_id,
+        p_provider: provider.name,
+      })
+      if (error) return json({ error: error.message }, 400)
+
+      const providerOrder = await provider.createOrder(order)
+      if (order.provider_order_id !== providerOrder.providerOrderId) {
+        const { error: updateError } = await admin
+          .from('orders')
+          .update({ provider_order_id: providerOrder.providerOrderId })
+          .eq('id', order.id)
+        if (updateError) throw updateError
+      }
+
+      return json({
+        order: { ...order, provider_order_id: providerOrder.providerOrderId },
+        client_data: providerOrder.clientData,
+      })
+    }
+
+    if (body.action === 'confirm') {
+      const order = body.order_id ? await loadOrder(body.order_id) : null
+      if (!order || order.student_id !== user.id) return json({ error: 'Order not found' }, 404)
+      if (order.status !== 'pending') return json({ order })
+
+      const provider = getPaymentProvider(order.provider)
+      const result = await provider.verifyPayment(order, body.proof ?? {})
+
+      const { data, error } = result.status === 'paid'
+        ? await admin.rpc('mark_order_paid', { p_order_id: order.id, p_provider_payment_id: result.paymentId })
+        : await admin.rpc('mark_order_failed', { p_order_id: order.id, p_reason: result.reason })
+
+      // Another checkout took the last seat while this payment went through:
+      // give the money back and fail the order
+      if (result.status === 'paid' && error?.message === 'Course is full') {
+        const { refundId } = await provider.refund({ ...order, provider_payment_id: result.paymentId }, 'Course is full')
+        const { data: refunded, error: refundError } = await admin.rpc('refund_unfilled_order', {
+          p_order_id: order.id,
+          p_provider_payment_id: result.paymentId,
+          p_provider_refund_id: refundId,
+        })
+        if (refundError) throw refundError
+
+        return json({ order: refunded })
+      }
+      if (error) throw error
+
+      return json({ order: data })
+    }
+
+    if (body.action === 'refund') {
+      const order = body.order_id ? await loadOrder(body.order_id) : null
+      if (!order) return json({ error: 'Order not found' }, 404)
+
+      const { data: profile } = await admin
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+      if (order.student_id !== user.id && profile?.role !== 'admin') {
+        return json({ error: 'Order not found' }, 404)
+      }
+      if (order.status !== 'paid') return json({ error: 'Only paid orders can be refunded' }, 400)
+
+      // Check the course isn't completed before money moves; refund_order
+      // checks again inside its transaction
+      const { data: enrollment } = await admin
+        .from('enrollments')
+        .select('is_completed')
+        .eq('student_id', order.student_id)
+        .eq('course_id', order.course_id)
+        .maybeSingle()
+      if (enrollment?.is_completed) return json({ error: 'Completed courses cannot be refunded' }, 400)
+
+      const reason = body.reason || 'Requested by customer'
+      const provider = getPaymentProvider(order.provider)
+      const { refundId } = await provider.refund(order, reason)
+
+      const { data, error } = await admin.rpc('refund_order', {
+        p_order_id: order.id,
+        p_provider_refund_id: refundId,
+        p_reason: reason,
+      })
+      if (error) throw error
+
+      return json({ order: data })
+    }
+
+    return json({ error: 'Unknown action' }, 400)
+  } catch (error) {
+    console.error('Error processing payment:', error)
+    return json({ error: 'Could not process payment' }, 500)
+  }
+})
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getPaymentProvider, type Order } from './index.ts'
+import { mockPaymentProvider } from './mock.ts'
+
+function configure(provider?: string) {
+  vi.stubGlobal('Deno', {
+    env: { get: (key: string) => (key === 'PAYMENT_PROVIDER' ? provider : undefined) }
+  })
+}
+
+const order: Order = {
+  id: 'o1',
+  student_id: 's1',
+  course_id: 'c1',
+  amount: 49,
+  currency: 'USD',
+  status: 'pending',
+  provider: 'mock',
+  provider_order_id: 'mock_order_o1'
+}
+
+describe('getPaymentProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('fails closed when PAYMENT_PROVIDER is not set', () => {
+    configure(undefined)
+    expect(() => getPaymentProvider()).toThrow('PAYMENT_PROVIDER is not configured')
+    expect(() => getPaymentProvider('mock')).toThrow('PAYMENT_PROVIDER is not configured')
+  })
+
+  it('only runs the mock provider when it is configured by name', () => {
+    configure('stripe')
+    expect(() => getPaymentProvider('mock')).toThrow('The mock payment provider is not enabled')
+  })
+
+  it('rejects unknown providers', () => {
+    configure('stripe')
+    expect(() => getPaymentProvider()).toThrow('Unknown payment provider: stripe')
+  })
+
+  it('returns the configured provider', () => {
+    configure('mock')
+    expect(getPaymentProvider()).toBe(mockPaymentProvider)
+    expect(getPaymentProvider('mock')).toBe(mockPaymentProvider)
+  })
+})
+
+describe('mockPaymentProvider', () => {
+  it('creates a provider order for checkout', async () => {
+    await expect(mockPaymentProvider.createOrder(order)).resolves.toEqual({
+      providerOrderId: 'mock_order_o1',
+      clientData: { amount: 49, currency: 'USD' }
+    })
+  })
+
+  it('confirms a succeeded payment for the matching order', async () => {
+    const result = await mockPaymentProvider.verifyPayment(order, {
+      provider_order_id: 'mock_order_o1',
+      status: 'succeeded'
+    })
+
+    expect(result.status).toBe('paid')
+    expect(result.status === 'paid' && result.paymentId).toMatch(/^mock_pay_/)
+  })
+
+  it('fails payments for another order or that did not succeed', async () => {
+    await expect(mockPaymentProvider.verifyPayment(order, {
+      provider_order_id: 'mock_order_o2',
+      status: 'succeeded'
+    })).resolves.toEqual({ status: 'failed', reason: 'Payment does not match this order' })
+
+    await expect(mockPaymentProvider.verifyPayment(order, {
+      provider_order_id: 'mock_order_o1',
+      status: 'failed'
+    })).resolves.toEqual({ status: 'failed', reason: 'Payment declined' })
+
+    await expect(mockPaymentProvider.verifyPayment(order, {
+      provider_order_id: 'mock_order_o1',
+      status: 'failed',
+      reason: 'Card expired'
+    })).resolves.toEqual({ status: 'failed', reason: 'Card expired' })
+  })
+
+  it('refunds a paid order', async () => {
+    const { refundId } = await mockPaymentProvider.refund(
+      { ...order, status: 'paid', provider_payment_id: 'mock_pay_1' },
+      'Requested by customer'
+    )
+
+    expect(refundId).toMatch(/^mock_refund_/)
+  })
+})
@@ -0,0 +1,25 @@
+import { mockPaymentProvider } from './mock.ts'
+import type { PaymentProvider } from './types.ts'
+
+// Register real gateways here; PAYMENT_PROVIDER picks one by name
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+}
+
+// Fails closed: without PAYMENT_PROVIDER nothing is charged or confirmed,
+// and the mock provider only runs when it is configured by name
+export function getPaymentProvider(name?: string) {
+  const configured = Deno.env.get('PAYMENT_PROVIDER')
+  if (!configured) throw new Error('PAYMENT_PROVIDER is not configured')
+
+  name ??= configured
+  if (name === mockPaymentProvider.name && configured !== mockPaymentProvider.name) {
+    throw new Error('The mock payment provider is not enabled')
+  }
+
+  const provider = providers[name]
+  if (!provider) throw new Error(`Unknown payment provider: ${name}`)
+  return provider
+}
+
+export type { Order, PaymentProvider } from './types.ts'
@@ -0,0 +1,28 @@
+import type { PaymentProvider } from './types.ts'
+
+// Local development provider: accepts any payment the browser reports as
+// succeeded for the matching order. Never enable it in production.
+export const mockPaymentProvider: PaymentProvider = {
+  name: 'mock',
+
+  createOrder(order) {
+    return Promise.resolve({
+      providerOrderId: `mock_order_${order.id}`,
+      clientData: { amount: order.amount, currency: order.currency }
+    })
+  },
+
+  verifyPayment(order, proof) {
+    if (proof.provider_order_id !== order.provider_order_id) {
+      return Promise.resolve({ status: 'failed', reason: 'Payment does not match this order' })
+    }
+    if (proof.status !== 'succeeded') {
+      return Promise.resolve({ status: 'failed', reason: proof.reason || 'Payment declined' })
+    }
+    return Promise.resolve({ status: 'paid', paymentId: `mock_pay_${crypto.randomUUID()}` })
+  },
+
+  refund() {
+    return Promise.resolve({ refundId: `mock_refund_${crypto.randomUUID()}` })
+  }
+}
@@ -0,0 +1,31 @@
+export interface Order {
+  id: string
+  student_id: string
+  course_id: string
+  amount: number
+  currency: string
+  status: 'pending' | 'paid' | 'failed' | 'refunded'
+  provider: string
+  provider_order_id?: string
+  provider_payment_id?: string
+}
+
+export interface ProviderOrder {
+  providerOrderId: string
+  // Handed to the browser-side provider to collect the payment
+  clientData: Record<string, unknown>
+}
+
+export type PaymentVerification =
+  | { status: 'paid'; paymentId: string }
+  | { status: 'failed'; reason: string }
+
+// Server side of a payment gateway. The browser collects the payment and
+// sends back whatever proof the gateway gives it; nothing is trusted until
+// `verifyPayment` confirms it with the gateway.
+export interface PaymentProvider {
+  name: string
+  createOrder(order: Order): Promise<ProviderOrder>
+  verifyPayment(order: Order, proof: Record<string, string>): Promise<PaymentVerification>
+  refund(order: Order, reason: string): Promise<{ refundId: string }>
+}
@@ -0,0 +1,88 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { certificatePayload, type CertificateDetails } from '../_shared/certificate.ts'
+
+// Signs a certificate's details with the platform's ECDSA P-256 key so a
+// downloaded certificate can be verified offline against the public key.
+//
+// Secrets: CERTIFICATE_SIGNING_KEY (private JWK), plus the default
+// SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CertificateRecord extends CertificateDetails {
+  signature?: string
+  signed_payload?: string
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { certificate_id } = await req.json()
+    if (!certificate_id) return json({ error: 'certificate_id is required' }, 400)
+
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+    const { data: { user } } = await userClient.auth.getUser()
+    if (!user) return json({ error: 'Not signed in' }, 401)
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const { data, error } = await admin.rpc('verify_certificate', { p_certificate_id: certificate_id })
+    if (error) throw error
+
+    const certificate: CertificateRecord | undefined = data?.[0]
+    if (!certificate) return json({ error: 'Certificate not found' }, 404)
+    if (certificate.signature) {
+      return json({ signature: certificate.signature, payload: certificate.signed_payload })
+    }
+
+    const signingKey = Deno.env.get('CERTIFICATE_SIGNING_KEY')
+    if (!signingKey) return json({ error: 'Certificate signing is not configured' }, 501)
+
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      JSON.parse(signingKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign']
+    )
+    const payload = certificatePayload(certificate)
+    const signatureBytes = new Uint8Array(await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      new TextEncoder().encode(payload)
+    ))
+    const signature = btoa(String.fromCharCode(...signatureBytes))
+
+    const { error: updateError } = await admin
+      .from('certificates')
+      .update({ signature, signed_payload: payload, signed_at: new Date().toISOString() })
+      .eq('certificate_id', certificate.certificate_id)
+      .is('signature', null)
+    if (updateError) throw updateError
+
+    return json({ signature, payload })
+  } catch (error) {
+    console.error('Error signing certificate:', error)
+    return json({ error: 'Could not sign certificate' }, 500)
+  }
+})
@@ -0,0 +1,199 @@
+/*
+  # Structured Course Curriculum
+
+  1. New Tables
+    - `course_modules` - Ordered sections that group a course's lessons
+    - `course_lessons` - Ordered lessons with text content, a video URL and an attachment
+    - `lesson_progress` - Lessons each student has completed
+
+  2. New Views
+    - `enrollment_progress` - Completed vs total lessons for every enrollment
+
+  3. Security
+    - Enable RLS on new tables
+    - Anyone signed in can read the syllabus, mentors manage their own courses
+    - Students record progress only for courses they are enrolled in, and
+      only for lessons that belong to that course
+
+  4. Functions
+    - Mark an enrollment completed once every lesson in the course is done,
+      which fires the existing `enrollment_completion_trigger`
+*/
+
+-- Create course_modules table
+CREATE TABLE course_modules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  description text,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create course_lessons table
+CREATE TABLE course_lessons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  module_id uuid REFERENCES course_modules(id) ON DELETE CASCADE NOT NULL,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  content text,
+  video_url text,
+  attachment_url text,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create lesson_progress table
+CREATE TABLE lesson_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid REFERENCES course_lessons(id) ON DELETE CASCADE NOT NULL,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  student_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  completed_at timestamptz DEFAULT now(),
+  UNIQUE(lesson_id, student_id)
+);
+
+CREATE INDEX course_modules_course_id_idx ON course_modules(course_id, position);
+CREATE INDEX course_lessons_module_id_idx ON course_lessons(module_id, position);
+CREATE INDEX lesson_progress_student_course_idx ON lesson_progress(student_id, course_id);
+
+-- Enable RLS on new tables
+ALTER TABLE course_modules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_lessons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_progress ENABLE ROW LEVEL SECURITY;
+
+-- Course modules policies
+CREATE POLICY "Anyone can read course modules" ON course_modules
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Mentors can manage modules for own courses" ON course_modules
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = course_modules.course_id
+      AND mentor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = course_modules.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+-- Course lessons policies
+CREATE POLICY "Anyone can read course lessons" ON course_lessons
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Mentors can manage lessons for own courses" ON course_lessons
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = course_lessons.course_id
+      AND mentor_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = course_lessons.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+-- Lesson progress policies
+CREATE POLICY "Students can read own lesson progress" ON lesson_progress
+  FOR SELECT TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Mentors can read lesson progress for their courses" ON lesson_progress
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = lesson_progress.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can complete lessons for enrolled courses" ON lesson_progress
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    student_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM enrollments
+      WHERE student_id = auth.uid()
+      AND course_id = lesson_progress.course_id
+    ) AND
+    EXISTS (
+      SELECT 1 FROM course_lessons l
+      WHERE l.id = lesson_id
+      AND l.course_id = lesson_progress.course_id
+    )
+  );
+
+CREATE POLICY "Students can undo own lesson progress" ON lesson_progress
+  FOR DELETE TO authenticated
+  USING (student_id = auth.uid());
+
+-- Completed vs total lessons per enrollment
+CREATE VIEW enrollment_progress
+WITH (security_invoker = true) AS
+SELECT
+  e.id AS enrollment_id,
+  e.student_id,
+  e.course_id,
+  COUNT(DISTINCT l.id)::integer AS total_lessons,
+  COUNT(DISTINCT lp.lesson_id)::integer AS completed_lessons,
+  CASE
+    WHEN COUNT(DISTINCT l.id) = 0 THEN 0
+    ELSE ROUND(COUNT(DISTINCT lp.lesson_id) * 100.0 / COUNT(DISTINCT l.id))::integer
+  END AS progress_percent
+FROM enrollments e
+LEFT JOIN course_lessons l ON l.course_id = e.course_id
+LEFT JOIN lesson_progress lp ON lp.lesson_id = l.id AND lp.student_id = e.student_id
+GROUP BY e.id, e.student_id, e.course_id;
+
+-- Complete the enrollment once the last lesson is done. Runs as the owner
+-- because students cannot update their own enrollments.
+CREATE OR REPLACE FUNCTION complete_enrollment_when_all_lessons_done()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total_lessons integer;
+  completed_lessons integer;
+BEGIN
+  SELECT COUNT(*) INTO total_lessons
+  FROM course_lessons
+  WHERE course_id = NEW.course_id;
+
+  SELECT COUNT(*) INTO completed_lessons
+  FROM lesson_progress lp
+  JOIN course_lessons l ON l.id = lp.lesson_id AND l.course_id = lp.course_id
+  WHERE lp.course_id = NEW.course_id
+  AND lp.student_id = NEW.student_id;
+
+  IF total_lessons > 0 AND completed_lessons >= total_lessons THEN
+    UPDATE enrollments
+    SET is_completed = true,
+        completed_at = now()
+    WHERE student_id = NEW.student_id
+    AND course_id = NEW.course_id
+    AND is_completed = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER lesson_progress_completion_trigger
+  AFTER INSERT ON lesson_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION complete_enrollment_when_all_lessons_done();
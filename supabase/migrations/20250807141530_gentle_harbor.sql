@@ -0,0 +1,39 @@
+/*
+  # Dropped Enrollments
+
+  1. Changes
+    - Add `dropped_at` to `enrollments` so students can step away from a
+      course without losing their progress
+
+  2. Functions
+    - `set_enrollment_dropped` lets a student drop or resume their own
+      enrollment. Students have no UPDATE policy on `enrollments` (that
+      would let them mark courses completed), so this runs as the owner.
+*/
+
+ALTER TABLE enrollments ADD COLUMN IF NOT EXISTS dropped_at timestamptz;
+
+CREATE OR REPLACE FUNCTION set_enrollment_dropped(p_enrollment_id uuid, p_dropped boolean)
+RETURNS enrollments
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result enrollments;
+BEGIN
+  UPDATE enrollments
+  SET dropped_at = CASE WHEN p_dropped THEN now() ELSE NULL END
+  WHERE id = p_enrollment_id
+  AND student_id = auth.uid()
+  AND is_completed = false
+  RETURNING * INTO result;
+
+  IF result.id IS NULL THEN
+    RAISE EXCEPTION 'Enrollment not found or already completed';
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_enrollment_dropped(uuid, boolean) TO authenticated;
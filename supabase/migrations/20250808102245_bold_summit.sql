@@ -0,0 +1,161 @@
+/*
+  # Mentor Application Workflow
+
+  1. Changes
+    - `mentor_requests` gains supporting `links`, referenced `project_ids`
+      from `user_projects` and the reviewer's `review_notes`
+    - Only one pending request per student
+
+  2. New Tables
+    - `mentor_request_events` - Status history for every request
+
+  3. Security
+    - Admins can read and review all mentor requests
+    - Applicants can read the history of their own requests
+    - Users can't change their own role; the workflow is the only way to
+      become a mentor
+
+  4. Functions
+    - Stamp `reviewed_by`/`reviewed_at` when a request is decided
+    - Promote approved applicants to the `mentor` role
+    - Record every status change in `mentor_request_events`
+*/
+
+ALTER TABLE mentor_requests ADD COLUMN IF NOT EXISTS links text[] DEFAULT '{}';
+ALTER TABLE mentor_requests ADD COLUMN IF NOT EXISTS project_ids uuid[] DEFAULT '{}';
+ALTER TABLE mentor_requests ADD COLUMN IF NOT EXISTS review_notes text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS mentor_requests_one_pending_idx
+  ON mentor_requests(student_id)
+  WHERE status = 'pending';
+
+-- Create mentor_request_events table
+CREATE TABLE mentor_request_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid REFERENCES mentor_requests(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+  notes text,
+  actor_id uuid REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE mentor_request_events ENABLE ROW LEVEL SECURITY;
+
+-- Mentor requests policies
+CREATE POLICY "Admins can read all mentor requests" ON mentor_requests
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can review mentor requests" ON mentor_requests
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Mentor request events policies
+CREATE POLICY "Applicants can read own request history" ON mentor_request_events
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM mentor_requests mr
+      WHERE mr.id = mentor_request_events.request_id
+      AND mr.student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can read all request history" ON mentor_request_events
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Stamp the reviewer when a pending request is decided
+CREATE OR REPLACE FUNCTION stamp_mentor_request_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+    NEW.reviewed_by = auth.uid();
+    NEW.reviewed_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mentor_request_review_trigger
+  BEFORE UPDATE ON mentor_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_mentor_request_review();
+
+-- Promote approved applicants and keep the status history. Runs as the
+-- owner because admins cannot update other users' profiles directly.
+CREATE OR REPLACE FUNCTION apply_mentor_request_decision()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO mentor_request_events (request_id, status, notes, actor_id)
+    VALUES (NEW.id, NEW.status, NEW.request_message, NEW.student_id);
+  ELSIF NEW.status <> OLD.status THEN
+    INSERT INTO mentor_request_events (request_id, status, notes, actor_id)
+    VALUES (NEW.id, NEW.status, NEW.review_notes, NEW.reviewed_by);
+
+    IF NEW.status = 'approved' THEN
+      UPDATE users
+      SET role = 'mentor',
+          updated_at = now()
+      WHERE id = NEW.student_id
+      AND role = 'student';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mentor_request_decision_trigger
+  AFTER INSERT OR UPDATE ON mentor_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_mentor_request_decision();
+
+-- Roles only change through an approved request (above, running as the
+-- owner) or an admin. New profiles always start as students.
+CREATE OR REPLACE FUNCTION protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role = 'student';
+    ELSE
+      NEW.role = OLD.role;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_user_role_trigger
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_role();
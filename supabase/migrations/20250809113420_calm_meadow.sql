@@ -0,0 +1,224 @@
+/*
+  # Reviews Subsystem
+
+  1. Changes
+    - One review per student per course
+    - `reviews` gains `updated_at`, the mentor's public reply and moderation
+      fields (`is_hidden`, `is_flagged`, `flag_reason`)
+    - `is_helpful` is replaced by `helpful_count`, kept in sync with
+      `review_votes`
+
+  2. New Tables
+    - `review_votes` - Which users found a review helpful
+
+  3. Security
+    - Enrolled and completed students can write reviews
+    - Students can edit and delete their own reviews
+    - Hidden reviews are only visible to their author and admins
+    - Admins can moderate every review
+
+  4. Functions
+    - `reply_to_review` lets a course mentor reply publicly
+    - `flag_review` lets any user report a review
+    - Only admins and the functions above can change reply, moderation
+      and vote columns
+*/
+
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS mentor_reply text;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS mentor_replied_at timestamptz;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS is_hidden boolean DEFAULT false;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS is_flagged boolean DEFAULT false;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS flag_reason text;
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS helpful_count integer DEFAULT 0;
+ALTER TABLE reviews DROP COLUMN IF EXISTS is_helpful;
+
+ALTER TABLE reviews ADD CONSTRAINT reviews_student_course_key UNIQUE (student_id, course_id);
+
+CREATE INDEX IF NOT EXISTS reviews_course_id_idx ON reviews(course_id);
+CREATE INDEX IF NOT EXISTS reviews_mentor_id_idx ON reviews(mentor_id);
+
+-- Create review_votes table
+CREATE TABLE review_votes (
+  review_id uuid REFERENCES reviews(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (review_id, user_id)
+);
+
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+
+-- Reviews policies
+DROP POLICY IF EXISTS "Anyone can read reviews" ON reviews;
+DROP POLICY IF EXISTS "Students can create reviews for enrolled courses" ON reviews;
+
+CREATE POLICY "Anyone can read visible reviews" ON reviews
+  FOR SELECT TO authenticated
+  USING (
+    is_hidden = false OR
+    student_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Students can create reviews for enrolled courses" ON reviews
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    student_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM enrollments
+      WHERE student_id = auth.uid()
+      AND course_id = reviews.course_id
+    ) AND
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = reviews.course_id
+      AND mentor_id = reviews.mentor_id
+    )
+  );
+
+CREATE POLICY "Students can update own reviews" ON reviews
+  FOR UPDATE TO authenticated
+  USING (student_id = auth.uid())
+  WITH CHECK (student_id = auth.uid());
+
+CREATE POLICY "Students can delete own reviews" ON reviews
+  FOR DELETE TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can moderate reviews" ON reviews
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete reviews" ON reviews
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Review votes policies
+CREATE POLICY "Anyone can read review votes" ON review_votes
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can vote on others' reviews" ON review_votes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    NOT EXISTS (
+      SELECT 1 FROM reviews
+      WHERE id = review_votes.review_id
+      AND student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove own votes" ON review_votes
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Students may only change their rating and text. Replies, moderation and
+-- vote counts are written by admins or by the SECURITY DEFINER functions
+-- below, which run as the table owner rather than `authenticated`.
+CREATE OR REPLACE FUNCTION protect_review_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    NEW.student_id = OLD.student_id;
+    NEW.course_id = OLD.course_id;
+    NEW.mentor_id = OLD.mentor_id;
+    NEW.mentor_reply = OLD.mentor_reply;
+    NEW.mentor_replied_at = OLD.mentor_replied_at;
+    NEW.is_hidden = OLD.is_hidden;
+    NEW.is_flagged = OLD.is_flagged;
+    NEW.flag_reason = OLD.flag_reason;
+    NEW.helpful_count = OLD.helpful_count;
+  END IF;
+
+  IF NEW.rating <> OLD.rating OR NEW.review_text IS DISTINCT FROM OLD.review_text THEN
+    NEW.updated_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_review_columns_trigger
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_review_columns();
+
+-- Keep helpful_count in sync with review_votes
+CREATE OR REPLACE FUNCTION sync_review_helpful_count()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reviews
+  SET helpful_count = (
+    SELECT COUNT(*) FROM review_votes
+    WHERE review_id = COALESCE(NEW.review_id, OLD.review_id)
+  )
+  WHERE id = COALESCE(NEW.review_id, OLD.review_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER review_votes_count_trigger
+  AFTER INSERT OR DELETE ON review_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_review_helpful_count();
+
+-- Public mentor reply; pass NULL to remove it
+CREATE OR REPLACE FUNCTION reply_to_review(p_review_id uuid, p_reply text)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reviews
+  SET mentor_reply = NULLIF(TRIM(p_reply), ''),
+      mentor_replied_at = CASE WHEN NULLIF(TRIM(p_reply), '') IS NULL THEN NULL ELSE now() END
+  WHERE id = p_review_id
+  AND mentor_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the course mentor can reply to this review';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION flag_review(p_review_id uuid, p_reason text)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reviews
+  SET is_flagged = true,
+      flag_reason = NULLIF(TRIM(p_reason), '')
+  WHERE id = p_review_id
+  AND is_hidden = false;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION reply_to_review(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION flag_review(uuid, text) TO authenticated;
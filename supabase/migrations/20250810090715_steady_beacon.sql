@@ -0,0 +1,328 @@
+/*
+  # Badge Rule Engine
+
+  1. Changes
+    - `badges` gains a machine-readable `rule`. A rule is
+      `{"all": [{"metric": "<name>", "min": <number>}, ...]}` and is met
+      when every condition holds. `criteria` stays as the display text.
+    - The seeded badges get rules matching their criteria
+
+  2. Metrics
+    - Learner: `completed_enrollments`, `distinct_domains`, `certificates`,
+      `paid_completions`, `helpful_reviews`
+    - Mentor: `sessions_conducted`, `bookings`, `average_rating`,
+      `total_earnings`, `is_verified`
+
+  3. Functions
+    - `badge_metric` computes one metric for a user
+    - `evaluate_badges` awards every badge a user qualifies for; the
+      `user_badges` unique key makes each award happen exactly once
+    - `preview_badge_awards` is an admin-only dry run listing who would
+      qualify and whether they already hold the badge
+    - `award_all_badges` backfills awards for every user (admin only)
+    - `badge_metric`, `badge_rule_met` and `evaluate_badges` can't be
+      called by clients
+
+  4. Triggers
+    - Badges are re-evaluated when enrollments, reviews, certificates,
+      sessions or a user's earnings and verification change
+    - Users can't verify themselves; only admins set `is_verified`
+*/
+
+ALTER TABLE badges ADD COLUMN IF NOT EXISTS rule jsonb;
+
+UPDATE badges SET rule = '{"all": [{"metric": "completed_enrollments", "min": 1}]}' WHERE name = '🎯 Skill Starter';
+UPDATE badges SET rule = '{"all": [{"metric": "distinct_domains", "min": 5}]}' WHERE name = '🧠 Knowledge Seeker';
+UPDATE badges SET rule = '{"all": [{"metric": "certificates", "min": 3}]}' WHERE name = '📜 Certified Champ';
+UPDATE badges SET rule = '{"all": [{"metric": "paid_completions", "min": 1}]}' WHERE name = '💪 Self-Growth Hero';
+UPDATE badges SET rule = '{"all": [{"metric": "helpful_reviews", "min": 5}]}' WHERE name = '⭐ Reviewer Pro';
+UPDATE badges SET rule = '{"all": [{"metric": "sessions_conducted", "min": 1}]}' WHERE name = '🚀 First Flight';
+UPDATE badges SET rule = '{"all": [{"metric": "sessions_conducted", "min": 5}]}' WHERE name = '💼 Skill Provider';
+UPDATE badges SET rule = '{"all": [{"metric": "bookings", "min": 10}, {"metric": "average_rating", "min": 4.5}]}' WHERE name = '🔥 Popular Mentor';
+UPDATE badges SET rule = '{"all": [{"metric": "is_verified", "min": 1}]}' WHERE name = '🧾 Verified Mentor';
+UPDATE badges SET rule = '{"all": [{"metric": "total_earnings", "min": 500}]}' WHERE name = '💰 Pro Mentor';
+
+-- Compute a single badge metric for a user
+CREATE OR REPLACE FUNCTION badge_metric(p_user_id uuid, p_metric text)
+RETURNS numeric
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN CASE p_metric
+    WHEN 'completed_enrollments' THEN (
+      SELECT COUNT(*) FROM enrollments
+      WHERE student_id = p_user_id AND is_completed = true
+    )
+    WHEN 'distinct_domains' THEN (
+      SELECT COUNT(DISTINCT c.domain) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE e.student_id = p_user_id AND e.is_completed = true
+    )
+    WHEN 'certificates' THEN (
+      SELECT COUNT(*) FROM certificates
+      WHERE student_id = p_user_id
+    )
+    WHEN 'paid_completions' THEN (
+      SELECT COUNT(*) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE e.student_id = p_user_id AND e.is_completed = true AND c.price > 0
+    )
+    WHEN 'helpful_reviews' THEN (
+      SELECT COUNT(*) FROM reviews
+      WHERE student_id = p_user_id AND helpful_count > 0 AND is_hidden = false
+    )
+    WHEN 'sessions_conducted' THEN (
+      SELECT COUNT(*) FROM sessions
+      WHERE mentor_id = p_user_id AND is_completed = true
+    )
+    WHEN 'bookings' THEN (
+      SELECT COUNT(*) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE c.mentor_id = p_user_id
+    )
+    WHEN 'average_rating' THEN (
+      SELECT COALESCE(AVG(rating), 0) FROM reviews
+      WHERE mentor_id = p_user_id AND is_hidden = false
+    )
+    WHEN 'total_earnings' THEN (
+      SELECT COALESCE(total_earnings, 0) FROM users
+      WHERE id = p_user_id
+    )
+    WHEN 'is_verified' THEN (
+      SELECT CASE WHEN is_verified THEN 1 ELSE 0 END FROM users
+      WHERE id = p_user_id
+    )
+  END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A rule without conditions or with an unknown metric never matches
+CREATE OR REPLACE FUNCTION badge_rule_met(p_user_id uuid, p_rule jsonb)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_array_length(COALESCE(p_rule->'all', '[]'::jsonb)) > 0
+    AND bool_and(
+      COALESCE(badge_metric(p_user_id, condition->>'metric') >= (condition->>'min')::numeric, false)
+    )
+  FROM jsonb_array_elements(COALESCE(p_rule->'all', '[]'::jsonb)) AS condition;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION evaluate_badges(p_user_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO user_badges (user_id, badge_id)
+  SELECT p_user_id, b.id
+  FROM badges b
+  WHERE b.rule IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM user_badges ub
+    WHERE ub.user_id = p_user_id
+    AND ub.badge_id = b.id
+  )
+  AND badge_rule_met(p_user_id, b.rule)
+  ON CONFLICT (user_id, badge_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Internal to the engine: metrics expose other users' data (earnings), so
+-- only the functions and triggers here call these
+REVOKE EXECUTE ON FUNCTION badge_metric(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION badge_rule_met(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_badges(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Dry run: who would qualify for each badge right now
+CREATE OR REPLACE FUNCTION preview_badge_awards()
+RETURNS TABLE (
+  user_id uuid,
+  full_name text,
+  badge_id uuid,
+  badge_name text,
+  already_earned boolean
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can preview badge awards';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.full_name,
+    b.id,
+    b.name,
+    EXISTS (
+      SELECT 1 FROM user_badges ub
+      WHERE ub.user_id = u.id
+      AND ub.badge_id = b.id
+    )
+  FROM users u
+  CROSS JOIN badges b
+  WHERE b.rule IS NOT NULL
+  AND badge_rule_met(u.id, b.rule)
+  ORDER BY b.name, u.full_name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill awards for every user, returning how many were granted
+CREATE OR REPLACE FUNCTION award_all_badges()
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  awarded_before integer;
+  awarded_after integer;
+  target_user uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can award badges';
+  END IF;
+
+  SELECT COUNT(*) INTO awarded_before FROM user_badges;
+
+  FOR target_user IN SELECT id FROM users LOOP
+    PERFORM evaluate_badges(target_user);
+  END LOOP;
+
+  SELECT COUNT(*) INTO awarded_after FROM user_badges;
+  RETURN awarded_after - awarded_before;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION preview_badge_awards() TO authenticated;
+GRANT EXECUTE ON FUNCTION award_all_badges() TO authenticated;
+
+-- Re-evaluate the learner and the course mentor after enrollment changes
+CREATE OR REPLACE FUNCTION evaluate_badges_for_enrollment()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_badges(NEW.student_id);
+  PERFORM evaluate_badges(c.mentor_id) FROM courses c WHERE c.id = NEW.course_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_badges_trigger
+  AFTER INSERT OR UPDATE ON enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_badges_for_enrollment();
+
+CREATE OR REPLACE FUNCTION evaluate_badges_for_review()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_badges(NEW.student_id);
+  PERFORM evaluate_badges(NEW.mentor_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER review_badges_trigger
+  AFTER INSERT OR UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_badges_for_review();
+
+CREATE OR REPLACE FUNCTION evaluate_badges_for_certificate()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_badges(NEW.student_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER certificate_badges_trigger
+  AFTER INSERT ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_badges_for_certificate();
+
+CREATE OR REPLACE FUNCTION evaluate_badges_for_session()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_completed = true THEN
+    PERFORM evaluate_badges(NEW.mentor_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_badges_trigger
+  AFTER INSERT OR UPDATE OF is_completed ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_badges_for_session();
+
+CREATE OR REPLACE FUNCTION evaluate_badges_for_user()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_badges(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER user_badges_trigger
+  AFTER UPDATE OF total_earnings, is_verified ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_badges_for_user();
+
+-- is_verified earns a badge, so users can't set it on their own profile.
+-- Admins and functions running as the table owner still can.
+CREATE OR REPLACE FUNCTION protect_user_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.is_verified = false;
+    ELSE
+      NEW.is_verified = OLD.is_verified;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_user_verification_trigger
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_verification();
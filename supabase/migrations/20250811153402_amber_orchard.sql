@@ -0,0 +1,118 @@
+/*
+  # Achievements and XP History
+
+  1. New Tables
+    - `xp_transactions` - One row per XP grant with its source
+
+  2. Changes
+    - `award_completion_xp` records its grant in `xp_transactions` and runs
+      as the owner so mentors can complete their students' enrollments
+    - Existing completions are backfilled into the ledger
+
+  3. Security
+    - Users can read their own XP history
+
+  4. Functions
+    - `badge_progress` reports each badge condition's current value for a
+      user, so locked badges can show how close they are
+*/
+
+-- Create xp_transactions table
+CREATE TABLE xp_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  amount integer NOT NULL,
+  source text NOT NULL CHECK (source IN ('course_completion')),
+  source_id uuid,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX xp_transactions_user_id_idx ON xp_transactions(user_id, created_at DESC);
+
+ALTER TABLE xp_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own XP history" ON xp_transactions
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Backfill grants for completions made before the ledger existed
+INSERT INTO xp_transactions (user_id, amount, source, source_id, description, created_at)
+SELECT
+  e.student_id,
+  50,
+  'course_completion',
+  e.id,
+  'Completed ' || c.title,
+  COALESCE(e.completed_at, e.enrolled_at)
+FROM enrollments e
+JOIN courses c ON c.id = e.course_id
+WHERE e.is_completed = true;
+
+CREATE OR REPLACE FUNCTION award_completion_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Award XP when course is completed
+  IF NEW.is_completed = true AND OLD.is_completed = false THEN
+    INSERT INTO xp_transactions (user_id, amount, source, source_id, description)
+    SELECT NEW.student_id, 50, 'course_completion', NEW.id, 'Completed ' || c.title
+    FROM courses c
+    WHERE c.id = NEW.course_id;
+
+    UPDATE users
+    SET
+      xp_points = xp_points + 50,
+      level_number = FLOOR((xp_points + 50) / 100) + 1
+    WHERE id = NEW.student_id;
+
+    -- Generate certificate
+    INSERT INTO certificates (student_id, course_id, mentor_id, certificate_id)
+    SELECT
+      NEW.student_id,
+      NEW.course_id,
+      c.mentor_id,
+      'CERT-' || UPPER(SUBSTRING(gen_random_uuid()::text, 1, 8))
+    FROM courses c
+    WHERE c.id = NEW.course_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Current value of every badge condition for a user
+CREATE OR REPLACE FUNCTION badge_progress(p_user_id uuid)
+RETURNS TABLE (
+  badge_id uuid,
+  metric text,
+  current_value numeric,
+  target_value numeric
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'You can only view your own badge progress';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    condition->>'metric',
+    COALESCE(badge_metric(p_user_id, condition->>'metric'), 0),
+    (condition->>'min')::numeric
+  FROM badges b
+  CROSS JOIN jsonb_array_elements(COALESCE(b.rule->'all', '[]'::jsonb)) AS condition;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION badge_progress(uuid) TO authenticated;
@@ -0,0 +1,418 @@
+/*
+  # XP Ledger and Level Curve
+
+  1. New Tables
+    - `level_curve` - Single row defining how much XP each level needs.
+      Reaching level n takes `base_xp * (n - 1) + growth_xp * (n - 1) * (n - 2) / 2`
+      XP in total. The client reads the same row (see `src/lib/levels.ts`).
+    - `xp_rewards` - XP granted for each source
+
+  2. Changes
+    - `xp_transactions` is append-only and covers enrollment, course
+      completion, reviews, resource uploads and hosted sessions
+    - Each source object grants XP at most once per user
+    - Existing activity is backfilled and `xp_points`/`level_number` are
+      rebuilt from the ledger
+
+  3. Security
+    - Anyone can read the level curve and rewards; admins can change them
+    - `grant_xp` is only called from triggers, never by clients
+    - `xp_points` and `level_number` are only written by the ledger
+      functions; users can't set them on their own profile
+
+  4. Functions
+    - `xp_for_level` / `level_for_xp` evaluate the curve
+    - `grant_xp` appends to the ledger and updates the user's totals
+    - `recalculate_xp` rebuilds totals from the ledger for one or all users,
+      and runs automatically when the curve changes
+*/
+
+-- Create level_curve table
+CREATE TABLE level_curve (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  base_xp integer NOT NULL DEFAULT 100 CHECK (base_xp > 0),
+  growth_xp integer NOT NULL DEFAULT 0 CHECK (growth_xp >= 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO level_curve (id, base_xp, growth_xp) VALUES (true, 100, 0);
+
+-- Create xp_rewards table
+CREATE TABLE xp_rewards (
+  source text PRIMARY KEY,
+  amount integer NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO xp_rewards (source, amount) VALUES
+('enrollment', 10),
+('course_completion', 50),
+('review', 10),
+('resource_upload', 20),
+('session_hosted', 30);
+
+ALTER TABLE level_curve ENABLE ROW LEVEL SECURITY;
+ALTER TABLE xp_rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read the level curve" ON level_curve
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update the level curve" ON level_curve
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Anyone can read XP rewards" ON xp_rewards
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update XP rewards" ON xp_rewards
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Widen the ledger to every XP source
+ALTER TABLE xp_transactions DROP CONSTRAINT IF EXISTS xp_transactions_source_check;
+ALTER TABLE xp_transactions ADD CONSTRAINT xp_transactions_source_check
+  CHECK (source IN ('enrollment', 'course_completion', 'review', 'resource_upload', 'session_hosted', 'adjustment'));
+
+-- Adjustments are the only source that may repeat for the same object
+CREATE UNIQUE INDEX xp_transactions_once_idx
+  ON xp_transactions(user_id, source, source_id)
+  WHERE source <> 'adjustment';
+
+CREATE OR REPLACE FUNCTION prevent_xp_transaction_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'xp_transactions is append-only; record an adjustment instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER xp_transactions_append_only_trigger
+  BEFORE UPDATE ON xp_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_xp_transaction_update();
+
+-- Total XP needed to reach a level
+CREATE OR REPLACE FUNCTION xp_for_level(p_level integer)
+RETURNS integer
+STABLE
+AS $$
+  SELECT (base_xp * (GREATEST(p_level, 1) - 1)
+    + growth_xp * (GREATEST(p_level, 1) - 1) * (GREATEST(p_level, 1) - 2) / 2)::integer
+  FROM level_curve;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION level_for_xp(p_xp integer)
+RETURNS integer
+STABLE
+AS $$
+DECLARE
+  current_level integer := 1;
+BEGIN
+  WHILE xp_for_level(current_level + 1) <= COALESCE(p_xp, 0) LOOP
+    current_level := current_level + 1;
+  END LOOP;
+
+  RETURN current_level;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Append a ledger entry and update the user's totals. Returns false when
+-- the source object already granted XP to this user.
+CREATE OR REPLACE FUNCTION grant_xp(
+  p_user_id uuid,
+  p_source text,
+  p_source_id uuid,
+  p_description text
+)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reward integer;
+BEGIN
+  SELECT amount INTO reward FROM xp_rewards WHERE source = p_source;
+
+  IF p_user_id IS NULL OR COALESCE(reward, 0) = 0 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO xp_transactions (user_id, amount, source, source_id, description)
+  VALUES (p_user_id, reward, p_source, p_source_id, p_description)
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE users
+  SET
+    xp_points = xp_points + reward,
+    level_number = level_for_xp(xp_points + reward)
+  WHERE id = p_user_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION grant_xp(uuid, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Only the ledger functions, which run as the table owner, change XP and
+-- levels; profile inserts and updates from clients run as `authenticated`
+CREATE OR REPLACE FUNCTION protect_user_xp()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.xp_points = 0;
+      NEW.level_number = 1;
+    ELSE
+      NEW.xp_points = OLD.xp_points;
+      NEW.level_number = OLD.level_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_user_xp_trigger
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_xp();
+
+-- Rebuild xp_points and level_number from the ledger
+CREATE OR REPLACE FUNCTION recalculate_xp(p_user_id uuid DEFAULT NULL)
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can recalculate XP';
+  END IF;
+
+  UPDATE users u
+  SET
+    xp_points = totals.xp,
+    level_number = level_for_xp(totals.xp)
+  FROM (
+    SELECT u2.id, COALESCE(SUM(t.amount), 0)::integer AS xp
+    FROM users u2
+    LEFT JOIN xp_transactions t ON t.user_id = u2.id
+    WHERE p_user_id IS NULL OR u2.id = p_user_id
+    GROUP BY u2.id
+  ) totals
+  WHERE u.id = totals.id
+  AND (u.xp_points IS DISTINCT FROM totals.xp OR u.level_number IS DISTINCT FROM level_for_xp(totals.xp));
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION recalculate_xp(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION recalculate_levels_on_curve_change()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET level_number = level_for_xp(xp_points)
+  WHERE level_number IS DISTINCT FROM level_for_xp(xp_points);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER level_curve_change_trigger
+  AFTER UPDATE ON level_curve
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION recalculate_levels_on_curve_change();
+
+-- Course completion now goes through grant_xp
+CREATE OR REPLACE FUNCTION award_completion_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Award XP when course is completed
+  IF NEW.is_completed = true AND OLD.is_completed = false THEN
+    PERFORM grant_xp(NEW.student_id, 'course_completion', NEW.id, 'Completed ' || c.title)
+    FROM courses c
+    WHERE c.id = NEW.course_id;
+
+    -- Generate certificate
+    INSERT INTO certificates (student_id, course_id, mentor_id, certificate_id)
+    SELECT
+      NEW.student_id,
+      NEW.course_id,
+      c.mentor_id,
+      'CERT-' || UPPER(SUBSTRING(gen_random_uuid()::text, 1, 8))
+    FROM courses c
+    WHERE c.id = NEW.course_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION award_enrollment_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM grant_xp(NEW.student_id, 'enrollment', NEW.id, 'Enrolled in ' || c.title)
+  FROM courses c
+  WHERE c.id = NEW.course_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_xp_trigger
+  AFTER INSERT ON enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION award_enrollment_xp();
+
+-- Keyed by course so deleting and rewriting a review does not grant again
+CREATE OR REPLACE FUNCTION award_review_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM grant_xp(NEW.student_id, 'review', NEW.course_id, 'Reviewed ' || c.title)
+  FROM courses c
+  WHERE c.id = NEW.course_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER review_xp_trigger
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION award_review_xp();
+
+CREATE OR REPLACE FUNCTION award_resource_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM grant_xp(NEW.uploaded_by, 'resource_upload', NEW.id, 'Shared ' || NEW.title);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_resource_xp_trigger
+  AFTER INSERT ON community_resources
+  FOR EACH ROW
+  EXECUTE FUNCTION award_resource_xp();
+
+CREATE OR REPLACE FUNCTION award_course_session_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_completed = true THEN
+    PERFORM grant_xp(NEW.mentor_id, 'session_hosted', NEW.id, 'Hosted a session for ' || c.title)
+    FROM courses c
+    WHERE c.id = NEW.course_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_xp_trigger
+  AFTER INSERT OR UPDATE OF is_completed ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION award_course_session_xp();
+
+CREATE OR REPLACE FUNCTION award_community_session_xp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_completed = true THEN
+    PERFORM grant_xp(NEW.host_id, 'session_hosted', NEW.id, 'Hosted ' || NEW.title);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_session_xp_trigger
+  AFTER INSERT OR UPDATE OF is_completed ON community_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION award_community_session_xp();
+
+-- Backfill the new sources, then make the ledger the source of truth
+INSERT INTO xp_transactions (user_id, amount, source, source_id, description, created_at)
+SELECT e.student_id, 10, 'enrollment', e.id, 'Enrolled in ' || c.title, e.enrolled_at
+FROM enrollments e
+JOIN courses c ON c.id = e.course_id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO xp_transactions (user_id, amount, source, source_id, description, created_at)
+SELECT r.student_id, 10, 'review', r.course_id, 'Reviewed ' || c.title, r.created_at
+FROM reviews r
+JOIN courses c ON c.id = r.course_id
+ON CONFLICT DO NOTHING;
+
+INSERT INTO xp_transactions (user_id, amount, source, source_id, description, created_at)
+SELECT uploaded_by, 20, 'resource_upload', id, 'Shared ' || title, created_at
+FROM community_resources
+WHERE uploaded_by IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO xp_transactions (user_id, amount, source, source_id, description, created_at)
+SELECT s.mentor_id, 30, 'session_hosted', s.id, 'Hosted a session for ' || c.title, COALESCE(s.completed_at, s.session_date)
+FROM sessions s
+JOIN courses c ON c.id = s.course_id
+WHERE s.is_completed = true
+ON CONFLICT DO NOTHING;
+
+INSERT INTO xp_transactions (user_id, amount, source, source_id, description, created_at)
+SELECT host_id, 30, 'session_hosted', id, 'Hosted ' || title, session_date
+FROM community_sessions
+WHERE is_completed = true AND host_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+SELECT recalculate_xp();
+
+-- Nightly safety net when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('recalculate-xp', '30 3 * * *', 'SELECT recalculate_xp()');
+  END IF;
+END;
+$$;
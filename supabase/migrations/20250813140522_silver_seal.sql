@@ -0,0 +1,49 @@
+/*
+  # Certificate Verification
+
+  1. Changes
+    - `certificates` gains an ECDSA P-256 `signature` over the certificate
+      details, written by the `sign-certificate` edge function together
+      with the exact `signed_payload` it covers, so the signature still
+      verifies after a student or mentor renames themselves
+
+  2. Functions
+    - `verify_certificate` looks up a certificate id and returns the
+      student, course and mentor names. It is public so anyone, signed in
+      or not, can confirm a certificate is genuine.
+*/
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS signature text;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS signed_at timestamptz;
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS signed_payload text;
+
+CREATE OR REPLACE FUNCTION verify_certificate(p_certificate_id text)
+RETURNS TABLE (
+  certificate_id text,
+  student_name text,
+  course_title text,
+  mentor_name text,
+  issued_at timestamptz,
+  signature text,
+  signed_payload text
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cert.certificate_id,
+    student.full_name,
+    course.title,
+    mentor.full_name,
+    cert.issued_at,
+    cert.signature,
+    cert.signed_payload
+  FROM certificates cert
+  JOIN users student ON student.id = cert.student_id
+  JOIN courses course ON course.id = cert.course_id
+  LEFT JOIN users mentor ON mentor.id = cert.mentor_id
+  WHERE cert.certificate_id = UPPER(TRIM(p_certificate_id));
+$$ LANGUAGE sql;
+
+GRANT EXECUTE ON FUNCTION verify_certificate(text) TO anon, authenticated;
@@ -0,0 +1,437 @@
+/*
+  # Paid Checkout and Mentor Earnings
+
+  1. New Tables
+    - `payment_settings` - Single row with the platform commission rate
+    - `orders` - One checkout attempt for a paid course, with the payment
+      provider's ids, status and the commission split
+    - `earnings_ledger` - Append-only mentor earnings: a `sale` when an
+      order is paid and a negative `refund` when it is refunded
+
+  2. Changes
+    - Students can only enroll themselves directly in free courses; paid
+      enrollments are created when an order is confirmed as paid
+    - `users.total_earnings` is kept equal to the mentor's ledger total;
+      users can no longer set it through their own profile
+    - The `paid_completions` badge metric counts completed courses that
+      were actually paid for
+
+  3. Security
+    - Students read their own orders, mentors read orders for their
+      courses, admins read everything
+    - Order state changes only through the functions below, which are
+      reserved for the `payments` edge function (service role)
+
+  4. Functions
+    - `create_course_order`, `mark_order_paid`, `mark_order_failed`,
+      `refund_order`
+*/
+
+-- Create payment_settings table
+CREATE TABLE payment_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  commission_rate numeric(5,4) NOT NULL DEFAULT 0.15 CHECK (commission_rate >= 0 AND commission_rate <= 1),
+  currency text NOT NULL DEFAULT 'INR',
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO payment_settings (id, commission_rate, currency) VALUES (true, 0.15, 'INR');
+
+-- Create orders table
+CREATE TABLE orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  mentor_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'INR',
+  commission_rate numeric(5,4) NOT NULL,
+  platform_fee numeric(10,2) NOT NULL,
+  mentor_amount numeric(10,2) NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'refunded')),
+  provider text NOT NULL,
+  provider_order_id text,
+  provider_payment_id text,
+  provider_refund_id text,
+  failure_reason text,
+  refund_reason text,
+  created_at timestamptz DEFAULT now(),
+  paid_at timestamptz,
+  refunded_at timestamptz
+);
+
+CREATE UNIQUE INDEX orders_one_paid_idx ON orders(student_id, course_id) WHERE status = 'paid';
+CREATE INDEX orders_student_id_idx ON orders(student_id, created_at DESC);
+CREATE INDEX orders_mentor_id_idx ON orders(mentor_id, created_at DESC);
+
+-- Create earnings_ledger table
+CREATE TABLE earnings_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mentor_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  entry_type text NOT NULL CHECK (entry_type IN ('sale', 'refund')),
+  amount numeric(10,2) NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(order_id, entry_type)
+);
+
+CREATE INDEX earnings_ledger_mentor_id_idx ON earnings_ledger(mentor_id, created_at DESC);
+
+ALTER TABLE payment_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE earnings_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Payment settings policies
+CREATE POLICY "Anyone can read payment settings" ON payment_settings
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update payment settings" ON payment_settings
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Orders policies
+CREATE POLICY "Students can read own orders" ON orders
+  FOR SELECT TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Mentors can read orders for their courses" ON orders
+  FOR SELECT TO authenticated
+  USING (mentor_id = auth.uid());
+
+CREATE POLICY "Admins can read all orders" ON orders
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Earnings ledger policies
+CREATE POLICY "Mentors can read own earnings" ON earnings_ledger
+  FOR SELECT TO authenticated
+  USING (mentor_id = auth.uid());
+
+CREATE POLICY "Admins can read all earnings" ON earnings_ledger
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Enrollments: paid courses go through checkout
+DROP POLICY IF EXISTS "Students can enroll in courses" ON enrollments;
+
+CREATE POLICY "Students can enroll in free courses" ON enrollments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    student_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = enrollments.course_id
+      AND COALESCE(price, 0) = 0
+    )
+  );
+
+-- Keep total_earnings equal to the ledger
+CREATE OR REPLACE FUNCTION apply_earnings_entry()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET total_earnings = COALESCE(total_earnings, 0) + NEW.amount,
+      updated_at = now()
+  WHERE id = NEW.mentor_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER earnings_ledger_apply_trigger
+  AFTER INSERT ON earnings_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_earnings_entry();
+
+-- Only the ledger writes total_earnings. Its trigger runs as the table
+-- owner; profile inserts and updates from clients run as `authenticated`.
+CREATE OR REPLACE FUNCTION protect_total_earnings()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.total_earnings = 0;
+    ELSE
+      NEW.total_earnings = OLD.total_earnings;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_total_earnings_trigger
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_total_earnings();
+
+CREATE OR REPLACE FUNCTION prevent_earnings_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'earnings_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER earnings_ledger_append_only_trigger
+  BEFORE UPDATE ON earnings_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_earnings_ledger_update();
+
+-- Earnings before the ledger existed were never recorded
+UPDATE users SET total_earnings = 0 WHERE total_earnings <> 0;
+
+-- Start (or resume) checkout for a paid course
+CREATE OR REPLACE FUNCTION create_course_order(p_student_id uuid, p_course_id uuid, p_provider text)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course_row courses;
+  settings payment_settings;
+  order_row orders;
+BEGIN
+  SELECT * INTO course_row FROM courses WHERE id = p_course_id;
+
+  IF course_row.id IS NULL OR COALESCE(course_row.price, 0) <= 0 THEN
+    RAISE EXCEPTION 'Course is not available for purchase';
+  END IF;
+
+  IF course_row.mentor_id = p_student_id THEN
+    RAISE EXCEPTION 'Mentors cannot buy their own course';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE student_id = p_student_id
+    AND course_id = p_course_id
+  ) THEN
+    RAISE EXCEPTION 'Already enrolled in this course';
+  END IF;
+
+  -- Reuse an abandoned checkout at the current price
+  SELECT * INTO order_row FROM orders
+  WHERE student_id = p_student_id
+  AND course_id = p_course_id
+  AND provider = p_provider
+  AND status = 'pending'
+  AND amount = course_row.price
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF order_row.id IS NOT NULL THEN
+    RETURN order_row;
+  END IF;
+
+  SELECT * INTO settings FROM payment_settings;
+
+  INSERT INTO orders (
+    student_id, course_id, mentor_id, amount, currency,
+    commission_rate, platform_fee, mentor_amount, provider
+  )
+  VALUES (
+    p_student_id,
+    p_course_id,
+    course_row.mentor_id,
+    course_row.price,
+    settings.currency,
+    settings.commission_rate,
+    ROUND(course_row.price * settings.commission_rate, 2),
+    course_row.price - ROUND(course_row.price * settings.commission_rate, 2),
+    p_provider
+  )
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Confirmed payment: enroll the student and credit the mentor
+CREATE OR REPLACE FUNCTION mark_order_paid(p_order_id uuid, p_provider_payment_id text)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row orders;
+BEGIN
+  UPDATE orders
+  SET status = 'paid',
+      provider_payment_id = p_provider_payment_id,
+      paid_at = now()
+  WHERE id = p_order_id
+  AND status = 'pending'
+  RETURNING * INTO order_row;
+
+  IF order_row.id IS NULL THEN
+    SELECT * INTO order_row FROM orders WHERE id = p_order_id;
+    IF order_row.status = 'paid' THEN
+      RETURN order_row;
+    END IF;
+    RAISE EXCEPTION 'Order % cannot be marked as paid', p_order_id;
+  END IF;
+
+  INSERT INTO enrollments (student_id, course_id)
+  VALUES (order_row.student_id, order_row.course_id)
+  ON CONFLICT (student_id, course_id) DO NOTHING;
+
+  INSERT INTO earnings_ledger (mentor_id, order_id, entry_type, amount, description)
+  SELECT order_row.mentor_id, order_row.id, 'sale', order_row.mentor_amount, 'Sale: ' || c.title
+  FROM courses c
+  WHERE c.id = order_row.course_id;
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION mark_order_failed(p_order_id uuid, p_reason text)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row orders;
+BEGIN
+  UPDATE orders
+  SET status = 'failed',
+      failure_reason = p_reason
+  WHERE id = p_order_id
+  AND status = 'pending'
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refund a paid order; completed courses cannot be refunded
+CREATE OR REPLACE FUNCTION refund_order(p_order_id uuid, p_provider_refund_id text, p_reason text)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row orders;
+BEGIN
+  SELECT * INTO order_row FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF order_row.status IS DISTINCT FROM 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE student_id = order_row.student_id
+    AND course_id = order_row.course_id
+    AND is_completed = true
+  ) THEN
+    RAISE EXCEPTION 'Completed courses cannot be refunded';
+  END IF;
+
+  UPDATE orders
+  SET status = 'refunded',
+      provider_refund_id = p_provider_refund_id,
+      refund_reason = p_reason,
+      refunded_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO order_row;
+
+  DELETE FROM enrollments
+  WHERE student_id = order_row.student_id
+  AND course_id = order_row.course_id;
+
+  INSERT INTO earnings_ledger (mentor_id, order_id, entry_type, amount, description)
+  SELECT order_row.mentor_id, order_row.id, 'refund', -order_row.mentor_amount, 'Refund: ' || c.title
+  FROM courses c
+  WHERE c.id = order_row.course_id;
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION create_course_order(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_order_paid(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_order_failed(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_order(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_course_order(uuid, uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_order_paid(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_order_failed(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_order(uuid, text, text) TO service_role;
+
+-- Self-Growth Hero counts courses that were actually paid for
+CREATE OR REPLACE FUNCTION badge_metric(p_user_id uuid, p_metric text)
+RETURNS numeric
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN CASE p_metric
+    WHEN 'completed_enrollments' THEN (
+      SELECT COUNT(*) FROM enrollments
+      WHERE student_id = p_user_id AND is_completed = true
+    )
+    WHEN 'distinct_domains' THEN (
+      SELECT COUNT(DISTINCT c.domain) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE e.student_id = p_user_id AND e.is_completed = true
+    )
+    WHEN 'certificates' THEN (
+      SELECT COUNT(*) FROM certificates
+      WHERE student_id = p_user_id
+    )
+    WHEN 'paid_completions' THEN (
+      SELECT COUNT(*) FROM enrollments e
+      JOIN orders o ON o.student_id = e.student_id AND o.course_id = e.course_id AND o.status = 'paid'
+      WHERE e.student_id = p_user_id AND e.is_completed = true
+    )
+    WHEN 'helpful_reviews' THEN (
+      SELECT COUNT(*) FROM reviews
+      WHERE student_id = p_user_id AND helpful_count > 0 AND is_hidden = false
+    )
+    WHEN 'sessions_conducted' THEN (
+      SELECT COUNT(*) FROM sessions
+      WHERE mentor_id = p_user_id AND is_completed = true
+    )
+    WHEN 'bookings' THEN (
+      SELECT COUNT(*) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE c.mentor_id = p_user_id
+    )
+    WHEN 'average_rating' THEN (
+      SELECT COALESCE(AVG(rating), 0) FROM reviews
+      WHERE mentor_id = p_user_id AND is_hidden = false
+    )
+    WHEN 'total_earnings' THEN (
+      SELECT COALESCE(total_earnings, 0) FROM users
+      WHERE id = p_user_id
+    )
+    WHEN 'is_verified' THEN (
+      SELECT CASE WHEN is_verified THEN 1 ELSE 0 END FROM users
+      WHERE id = p_user_id
+    )
+  END;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,143 @@
+/*
+  # Mentor Payouts
+
+  1. New Tables
+    - `payouts` - A mentor's request to withdraw part of their available
+      balance, approved or rejected by an admin
+
+  2. Balance
+    - Available balance = earnings ledger total - pending and approved
+      payouts. `users.total_earnings` stays the lifetime total so the
+      earnings badges are unaffected by withdrawals
+
+  3. Security
+    - Mentors read their own payouts; admins read and review all of them
+    - Payouts are requested through `request_payout`, which checks the
+      available balance under a lock so two requests cannot overdraw it
+    - A decided payout cannot be changed again
+
+  4. Functions
+    - `payout_balance(p_mentor_id)` - earned, paid out, pending, available
+    - `request_payout(p_amount, p_details)`
+*/
+
+-- Create payouts table
+CREATE TABLE payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mentor_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  payout_details text,
+  review_notes text,
+  reviewed_by uuid REFERENCES users(id),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX payouts_mentor_id_idx ON payouts(mentor_id, created_at DESC);
+CREATE INDEX payouts_status_idx ON payouts(status, created_at);
+
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+
+-- Payouts policies
+CREATE POLICY "Mentors can read own payouts" ON payouts
+  FOR SELECT TO authenticated
+  USING (mentor_id = auth.uid());
+
+CREATE POLICY "Admins can read all payouts" ON payouts
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can review payouts" ON payouts
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Only the decision fields change, once, and the reviewer is stamped
+CREATE OR REPLACE FUNCTION stamp_payout_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Payout has already been reviewed';
+  END IF;
+
+  NEW.mentor_id = OLD.mentor_id;
+  NEW.amount = OLD.amount;
+  NEW.payout_details = OLD.payout_details;
+  NEW.created_at = OLD.created_at;
+
+  IF NEW.status <> OLD.status THEN
+    NEW.reviewed_by = auth.uid();
+    NEW.reviewed_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER payout_review_trigger
+  BEFORE UPDATE ON payouts
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_payout_review();
+
+-- Balance for a mentor; RLS limits callers to their own (or admins to any)
+CREATE OR REPLACE FUNCTION payout_balance(p_mentor_id uuid)
+RETURNS TABLE (earned numeric, paid_out numeric, pending numeric, available numeric)
+AS $$
+  WITH totals AS (
+    SELECT
+      (SELECT COALESCE(SUM(amount), 0) FROM earnings_ledger WHERE mentor_id = p_mentor_id) AS earned,
+      (SELECT COALESCE(SUM(amount), 0) FROM payouts WHERE mentor_id = p_mentor_id AND status = 'approved') AS paid_out,
+      (SELECT COALESCE(SUM(amount), 0) FROM payouts WHERE mentor_id = p_mentor_id AND status = 'pending') AS pending
+  )
+  SELECT earned, paid_out, pending, earned - paid_out - pending
+  FROM totals;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION request_payout(p_amount numeric, p_details text)
+RETURNS payouts
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  balance numeric;
+  payout_row payouts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payout amount must be positive';
+  END IF;
+
+  -- Serialize requests per mentor so the balance check cannot race
+  PERFORM 1 FROM users WHERE id = auth.uid() FOR UPDATE;
+
+  SELECT available INTO balance FROM payout_balance(auth.uid());
+
+  IF p_amount > balance THEN
+    RAISE EXCEPTION 'Requested amount exceeds the available balance of %', balance;
+  END IF;
+
+  INSERT INTO payouts (mentor_id, amount, payout_details)
+  VALUES (auth.uid(), p_amount, NULLIF(trim(p_details), ''))
+  RETURNING * INTO payout_row;
+
+  RETURN payout_row;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION payout_balance(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_payout(numeric, text) TO authenticated;
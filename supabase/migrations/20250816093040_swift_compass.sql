@@ -0,0 +1,194 @@
+/*
+  # Course Session Scheduler
+
+  1. Changes
+    - `sessions` gains a `title`, recurring `series_id`/`recurrence_rule`,
+      cancellation (`cancelled_at`, `cancel_reason`) and `updated_at`
+    - Mentors can only schedule sessions for their own courses
+    - Cancelled sessions cannot be rescheduled or completed, and sessions
+      can only be marked completed once they have started. New sessions
+      are never created already completed
+
+  2. New Tables
+    - `session_notices` - One row per reschedule or cancellation, shown to
+      the course's enrolled students
+
+  3. Security
+    - `session_link` is no longer readable directly. `session_join_link`
+      returns it to the mentor at any time and to enrolled students from
+      15 minutes before the start until the session ends
+*/
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS title text;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS series_id uuid;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS recurrence_rule text;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS cancel_reason text;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE sessions ADD CONSTRAINT sessions_duration_check CHECK (duration_minutes > 0);
+
+CREATE INDEX IF NOT EXISTS sessions_course_id_idx ON sessions(course_id, session_date);
+CREATE INDEX IF NOT EXISTS sessions_series_id_idx ON sessions(series_id) WHERE series_id IS NOT NULL;
+
+-- Create session_notices table
+CREATE TABLE session_notices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES sessions(id) ON DELETE CASCADE NOT NULL,
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('rescheduled', 'cancelled')),
+  previous_date timestamptz,
+  new_date timestamptz,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX session_notices_course_id_idx ON session_notices(course_id, created_at DESC);
+
+ALTER TABLE session_notices ENABLE ROW LEVEL SECURITY;
+
+-- Sessions policies: the course has to be the mentor's own
+DROP POLICY IF EXISTS "Mentors can manage own sessions" ON sessions;
+
+CREATE POLICY "Mentors can manage own sessions" ON sessions
+  FOR ALL TO authenticated
+  USING (mentor_id = auth.uid())
+  WITH CHECK (
+    mentor_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = sessions.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+-- Session notices policies
+CREATE POLICY "Enrolled students can read session notices" ON session_notices
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM enrollments
+      WHERE course_id = session_notices.course_id
+      AND student_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Mentors can read notices for their courses" ON session_notices
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = session_notices.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+-- Hide session_link from direct reads; everything else stays readable
+REVOKE SELECT ON sessions FROM anon, authenticated;
+GRANT SELECT (
+  id, course_id, mentor_id, title, session_date, duration_minutes,
+  is_completed, completed_at, series_id, recurrence_rule,
+  cancelled_at, cancel_reason, created_at, updated_at
+) ON sessions TO authenticated;
+
+CREATE OR REPLACE FUNCTION session_join_link(p_session_id uuid)
+RETURNS text
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  session_row sessions;
+BEGIN
+  SELECT * INTO session_row FROM sessions WHERE id = p_session_id;
+
+  IF session_row.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF session_row.mentor_id = auth.uid() THEN
+    RETURN session_row.session_link;
+  END IF;
+
+  IF session_row.cancelled_at IS NOT NULL
+    OR now() < session_row.session_date - interval '15 minutes'
+    OR now() > session_row.session_date + make_interval(mins => session_row.duration_minutes)
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE course_id = session_row.course_id
+    AND student_id = auth.uid()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN session_row.session_link;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION session_join_link(uuid) TO authenticated;
+
+-- Guard status changes and keep updated_at current. New sessions always
+-- start out not completed, so completing one goes through the checks below.
+CREATE OR REPLACE FUNCTION check_session_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_completed = false;
+    NEW.completed_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.cancelled_at IS NOT NULL AND (
+    NEW.session_date <> OLD.session_date OR
+    NEW.is_completed IS DISTINCT FROM OLD.is_completed
+  ) THEN
+    RAISE EXCEPTION 'Cancelled sessions cannot be changed';
+  END IF;
+
+  IF NEW.cancelled_at IS NOT NULL AND OLD.is_completed THEN
+    RAISE EXCEPTION 'Completed sessions cannot be cancelled';
+  END IF;
+
+  IF NEW.is_completed AND NOT COALESCE(OLD.is_completed, false) THEN
+    IF NEW.session_date > now() THEN
+      RAISE EXCEPTION 'Sessions can only be completed after they start';
+    END IF;
+    NEW.completed_at = COALESCE(NEW.completed_at, now());
+  END IF;
+
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_update_check_trigger
+  BEFORE INSERT OR UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_session_update();
+
+-- Record reschedules and cancellations for enrolled students
+CREATE OR REPLACE FUNCTION record_session_notice()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.cancelled_at IS NOT NULL AND OLD.cancelled_at IS NULL THEN
+    INSERT INTO session_notices (session_id, course_id, kind, previous_date, reason)
+    VALUES (NEW.id, NEW.course_id, 'cancelled', OLD.session_date, NEW.cancel_reason);
+  ELSIF NEW.session_date <> OLD.session_date THEN
+    INSERT INTO session_notices (session_id, course_id, kind, previous_date, new_date)
+    VALUES (NEW.id, NEW.course_id, 'rescheduled', OLD.session_date, NEW.session_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_notice_trigger
+  AFTER UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_session_notice();
@@ -0,0 +1,192 @@
+/*
+  # Calendar Export and Feeds
+
+  1. Changes
+    - `sessions` and `community_sessions` gain a `revision` counter, bumped
+      whenever the time, title or cancellation changes. It becomes the
+      iCalendar SEQUENCE so calendar apps accept the update
+    - `community_sessions` gains `cancelled_at`, `cancel_reason` and
+      `updated_at` so cancellations can be published
+
+  2. New Tables
+    - `calendar_feeds` - A secret token per user for their feed URL
+
+  3. Security
+    - Users read only their own feed token
+    - `calendar_feed_events` resolves a token to the user's sessions and is
+      reserved for the `calendar-feed` edge function (service role)
+
+  4. Functions
+    - `calendar_feed_token()` - Current user's token, created on first use
+    - `reset_calendar_feed_token()` - Rotate the token, breaking old URLs
+    - `calendar_feed_events(p_token)` - Hosted, enrolled and community
+      sessions from 90 days ago onwards. Dropped enrollments are left out
+*/
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS cancel_reason text;
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+GRANT SELECT (revision) ON sessions TO authenticated;
+
+-- Create calendar_feeds table
+CREATE TABLE calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own calendar feed" ON calendar_feeds
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Bump the revision on changes a calendar app needs to see. Clients can't
+-- set it themselves.
+CREATE OR REPLACE FUNCTION bump_session_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_date IS DISTINCT FROM OLD.session_date
+    OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+    OR NEW.title IS DISTINCT FROM OLD.title
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+  THEN
+    NEW.revision = OLD.revision + 1;
+  ELSE
+    NEW.revision = OLD.revision;
+  END IF;
+
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_revision_trigger
+  BEFORE UPDATE ON sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_session_revision();
+
+CREATE TRIGGER community_session_revision_trigger
+  BEFORE UPDATE ON community_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_session_revision();
+
+CREATE OR REPLACE FUNCTION calendar_feed_token()
+RETURNS text
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT token INTO feed_token FROM calendar_feeds WHERE user_id = auth.uid();
+  RETURN feed_token;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION reset_calendar_feed_token()
+RETURNS text
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  feed_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+      created_at = now()
+  RETURNING token INTO feed_token;
+
+  RETURN feed_token;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION calendar_feed_token() TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_calendar_feed_token() TO authenticated;
+
+CREATE OR REPLACE FUNCTION calendar_feed_events(p_token text)
+RETURNS TABLE (
+  event_uid text,
+  summary text,
+  description text,
+  starts_at timestamptz,
+  duration_minutes integer,
+  is_cancelled boolean,
+  revision integer,
+  updated_at timestamptz,
+  course_id uuid,
+  community_id uuid
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH feed AS (
+    SELECT user_id FROM calendar_feeds WHERE token = p_token
+  ),
+  course_ids AS (
+    SELECT e.course_id FROM enrollments e, feed
+    WHERE e.student_id = feed.user_id AND e.dropped_at IS NULL
+    UNION
+    SELECT c.id FROM courses c, feed WHERE c.mentor_id = feed.user_id
+  ),
+  community_ids AS (
+    SELECT cm.community_id FROM community_members cm, feed WHERE cm.user_id = feed.user_id
+    UNION
+    SELECT cs.community_id FROM community_sessions cs, feed WHERE cs.host_id = feed.user_id
+  )
+  SELECT
+    'session-' || s.id || '@peerlearn',
+    c.title || COALESCE(': ' || s.title, ''),
+    'Course session with ' || u.full_name || COALESCE(E'\nCancelled: ' || s.cancel_reason, ''),
+    s.session_date,
+    s.duration_minutes,
+    s.cancelled_at IS NOT NULL,
+    s.revision,
+    COALESCE(s.updated_at, s.created_at),
+    s.course_id,
+    NULL::uuid
+  FROM sessions s
+  JOIN courses c ON c.id = s.course_id
+  JOIN users u ON u.id = s.mentor_id
+  WHERE s.course_id IN (SELECT course_id FROM course_ids)
+  AND s.session_date >= now() - interval '90 days'
+
+  UNION ALL
+
+  SELECT
+    'community-session-' || cs.id || '@peerlearn',
+    lc.name || ': ' || cs.title,
+    COALESCE(cs.description, '') || COALESCE(E'\nCancelled: ' || cs.cancel_reason, ''),
+    cs.session_date,
+    COALESCE(cs.duration_minutes, 60),
+    cs.cancelled_at IS NOT NULL,
+    cs.revision,
+    COALESCE(cs.updated_at, cs.created_at),
+    NULL::uuid,
+    cs.community_id
+  FROM community_sessions cs
+  JOIN learning_communities lc ON lc.id = cs.community_id
+  WHERE cs.community_id IN (SELECT community_id FROM community_ids)
+  AND cs.session_date >= now() - interval '90 days';
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION calendar_feed_events(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION calendar_feed_events(text) TO service_role;
@@ -0,0 +1,499 @@
+/*
+  # Session Attendance
+
+  1. New Tables
+    - `session_attendance` - Who attended a course or community session.
+      Exactly one of `session_id` / `community_session_id` is set, and a
+      user appears at most once per session
+    - `session_checkin_codes` - The code the host shares during a session.
+      Only reachable through the functions below. Codes are 10 hex
+      characters so they can't be guessed while check-in is open
+
+  2. Changes
+    - `courses` gains `min_attendance_percent` (0 = no requirement). An
+      enrollment cannot be marked completed while the student's attendance
+      is below it
+    - Finishing the last lesson only completes the enrollment once the
+      attendance requirement is met; a later check-in completes it instead
+
+  3. New Views
+    - `enrollment_attendance` - Held vs attended sessions for every
+      enrollment. A session counts as held once it has ended or was marked
+      completed, is not cancelled and started after the student enrolled
+
+  4. Security
+    - Students read their own attendance, hosts read and correct attendance
+      for their sessions, admins read everything
+    - Students check in only through `check_in`, which verifies the code,
+      the time window and enrollment or community membership
+
+  5. Functions
+    - `session_checkin_code(p_kind, p_session_id)` - Host only, created on
+      first use
+    - `check_in(p_kind, p_session_id, p_code, p_method)` - Open from 10
+      minutes before the start until 15 minutes after the end
+
+  6. Badges
+    - New metrics `sessions_attended` and `sessions_with_attendees`
+    - "🎯 Skill Starter" now requires attending a session and "🚀 First
+      Flight" a completed session with at least one attendee. Badges
+      already awarded are kept
+*/
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS min_attendance_percent integer NOT NULL DEFAULT 0
+  CHECK (min_attendance_percent BETWEEN 0 AND 100);
+
+-- Create session_attendance table
+CREATE TABLE session_attendance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES sessions(id) ON DELETE CASCADE,
+  community_session_id uuid REFERENCES community_sessions(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  method text NOT NULL CHECK (method IN ('code', 'link', 'manual')),
+  marked_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  checked_in_at timestamptz DEFAULT now(),
+  CHECK (num_nonnulls(session_id, community_session_id) = 1)
+);
+
+CREATE UNIQUE INDEX session_attendance_session_user_idx
+  ON session_attendance (session_id, user_id)
+  WHERE session_id IS NOT NULL;
+
+CREATE UNIQUE INDEX session_attendance_community_session_user_idx
+  ON session_attendance (community_session_id, user_id)
+  WHERE community_session_id IS NOT NULL;
+
+CREATE INDEX session_attendance_user_idx ON session_attendance (user_id);
+
+-- Create session_checkin_codes table
+CREATE TABLE session_checkin_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid UNIQUE REFERENCES sessions(id) ON DELETE CASCADE,
+  community_session_id uuid UNIQUE REFERENCES community_sessions(id) ON DELETE CASCADE,
+  code text NOT NULL DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 10)),
+  created_at timestamptz DEFAULT now(),
+  CHECK (num_nonnulls(session_id, community_session_id) = 1)
+);
+
+ALTER TABLE session_attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_checkin_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own attendance" ON session_attendance
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Hosts can read attendance for their sessions" ON session_attendance
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sessions s
+      WHERE s.id = session_attendance.session_id
+      AND s.mentor_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM community_sessions cs
+      WHERE cs.id = session_attendance.community_session_id
+      AND cs.host_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can read all attendance" ON session_attendance
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Manual corrections, limited to sessions that have started and to people
+-- who could have attended
+CREATE POLICY "Hosts can mark attendance" ON session_attendance
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    method = 'manual' AND
+    marked_by = auth.uid() AND
+    (
+      EXISTS (
+        SELECT 1 FROM sessions s
+        JOIN enrollments e ON e.course_id = s.course_id
+        WHERE s.id = session_attendance.session_id
+        AND s.mentor_id = auth.uid()
+        AND s.cancelled_at IS NULL
+        AND s.session_date <= now()
+        AND e.student_id = session_attendance.user_id
+      ) OR
+      EXISTS (
+        SELECT 1 FROM community_sessions cs
+        JOIN community_members cm ON cm.community_id = cs.community_id
+        WHERE cs.id = session_attendance.community_session_id
+        AND cs.host_id = auth.uid()
+        AND cs.cancelled_at IS NULL
+        AND cs.session_date <= now()
+        AND cm.user_id = session_attendance.user_id
+      )
+    )
+  );
+
+CREATE POLICY "Hosts can remove attendance" ON session_attendance
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM sessions s
+      WHERE s.id = session_attendance.session_id
+      AND s.mentor_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM community_sessions cs
+      WHERE cs.id = session_attendance.community_session_id
+      AND cs.host_id = auth.uid()
+    )
+  );
+
+-- Held vs attended sessions per enrollment
+CREATE VIEW enrollment_attendance
+WITH (security_invoker = true) AS
+SELECT
+  e.id AS enrollment_id,
+  e.student_id,
+  e.course_id,
+  COUNT(DISTINCT s.id)::integer AS sessions_held,
+  COUNT(DISTINCT sa.session_id)::integer AS sessions_attended,
+  CASE
+    WHEN COUNT(DISTINCT s.id) = 0 THEN NULL
+    ELSE ROUND(COUNT(DISTINCT sa.session_id) * 100.0 / COUNT(DISTINCT s.id))::integer
+  END AS attendance_percent
+FROM enrollments e
+LEFT JOIN sessions s ON s.course_id = e.course_id
+  AND s.cancelled_at IS NULL
+  AND s.session_date >= e.enrolled_at
+  AND (s.is_completed OR s.session_date + s.duration_minutes * interval '1 minute' <= now())
+LEFT JOIN session_attendance sa ON sa.session_id = s.id AND sa.user_id = e.student_id
+GROUP BY e.id, e.student_id, e.course_id;
+
+-- Runs as the owner so the result doesn't depend on who asks
+CREATE OR REPLACE FUNCTION attendance_requirement_met(p_student_id uuid, p_course_id uuid)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.min_attendance_percent = 0
+    OR COALESCE(ea.attendance_percent, 100) >= c.min_attendance_percent
+  FROM courses c
+  LEFT JOIN enrollment_attendance ea ON ea.course_id = c.id AND ea.student_id = p_student_id
+  WHERE c.id = p_course_id;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION attendance_requirement_met(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_enrollment_attendance()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_completed = true AND OLD.is_completed = false
+    AND NOT attendance_requirement_met(NEW.student_id, NEW.course_id)
+  THEN
+    RAISE EXCEPTION 'Attendance is below the minimum required to complete this course';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_attendance_trigger
+  BEFORE UPDATE OF is_completed ON enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_enrollment_attendance();
+
+-- Shared by lesson progress and check-ins: complete the enrollment once
+-- every lesson is done and attendance is high enough
+CREATE OR REPLACE FUNCTION complete_enrollment_if_done(p_student_id uuid, p_course_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  total_lessons integer;
+  completed_lessons integer;
+BEGIN
+  SELECT COUNT(*) INTO total_lessons
+  FROM course_lessons
+  WHERE course_id = p_course_id;
+
+  SELECT COUNT(*) INTO completed_lessons
+  FROM lesson_progress lp
+  JOIN course_lessons l ON l.id = lp.lesson_id AND l.course_id = lp.course_id
+  WHERE lp.course_id = p_course_id
+  AND lp.student_id = p_student_id;
+
+  IF total_lessons > 0 AND completed_lessons >= total_lessons
+    AND attendance_requirement_met(p_student_id, p_course_id)
+  THEN
+    UPDATE enrollments
+    SET is_completed = true,
+        completed_at = now()
+    WHERE student_id = p_student_id
+    AND course_id = p_course_id
+    AND is_completed = false;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION complete_enrollment_if_done(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION complete_enrollment_when_all_lessons_done()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM complete_enrollment_if_done(NEW.student_id, NEW.course_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION session_checkin_code(p_kind text, p_session_id uuid)
+RETURNS text
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  checkin_code text;
+BEGIN
+  IF p_kind = 'course' THEN
+    IF NOT EXISTS (SELECT 1 FROM sessions WHERE id = p_session_id AND mentor_id = auth.uid()) THEN
+      RAISE EXCEPTION 'Only the host can see the check-in code';
+    END IF;
+
+    INSERT INTO session_checkin_codes (session_id)
+    VALUES (p_session_id)
+    ON CONFLICT (session_id) DO NOTHING;
+
+    SELECT code INTO checkin_code FROM session_checkin_codes WHERE session_id = p_session_id;
+  ELSIF p_kind = 'community' THEN
+    IF NOT EXISTS (SELECT 1 FROM community_sessions WHERE id = p_session_id AND host_id = auth.uid()) THEN
+      RAISE EXCEPTION 'Only the host can see the check-in code';
+    END IF;
+
+    INSERT INTO session_checkin_codes (community_session_id)
+    VALUES (p_session_id)
+    ON CONFLICT (community_session_id) DO NOTHING;
+
+    SELECT code INTO checkin_code FROM session_checkin_codes WHERE community_session_id = p_session_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown session kind %', p_kind;
+  END IF;
+
+  RETURN checkin_code;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION check_in(p_kind text, p_session_id uuid, p_code text, p_method text DEFAULT 'code')
+RETURNS timestamptz
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  starts_at timestamptz;
+  ends_at timestamptz;
+  host uuid;
+  cancelled timestamptz;
+  allowed boolean;
+  expected_code text;
+  checked_in timestamptz;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_method NOT IN ('code', 'link') THEN
+    RAISE EXCEPTION 'Unknown check-in method %', p_method;
+  END IF;
+
+  IF p_kind = 'course' THEN
+    SELECT s.session_date, s.session_date + s.duration_minutes * interval '1 minute', s.mentor_id, s.cancelled_at,
+      EXISTS (SELECT 1 FROM enrollments e WHERE e.course_id = s.course_id AND e.student_id = auth.uid())
+    INTO starts_at, ends_at, host, cancelled, allowed
+    FROM sessions s
+    WHERE s.id = p_session_id;
+
+    SELECT code INTO expected_code FROM session_checkin_codes WHERE session_id = p_session_id;
+  ELSIF p_kind = 'community' THEN
+    SELECT cs.session_date, cs.session_date + COALESCE(cs.duration_minutes, 60) * interval '1 minute', cs.host_id, cs.cancelled_at,
+      EXISTS (SELECT 1 FROM community_members cm WHERE cm.community_id = cs.community_id AND cm.user_id = auth.uid())
+    INTO starts_at, ends_at, host, cancelled, allowed
+    FROM community_sessions cs
+    WHERE cs.id = p_session_id;
+
+    SELECT code INTO expected_code FROM session_checkin_codes WHERE community_session_id = p_session_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown session kind %', p_kind;
+  END IF;
+
+  IF starts_at IS NULL OR NOT allowed THEN
+    RAISE EXCEPTION 'Only enrolled students and community members can check in';
+  END IF;
+
+  IF host = auth.uid() THEN
+    RAISE EXCEPTION 'Hosts do not check in to their own sessions';
+  END IF;
+
+  IF cancelled IS NOT NULL THEN
+    RAISE EXCEPTION 'This session was cancelled';
+  END IF;
+
+  IF now() < starts_at - interval '10 minutes' OR now() > ends_at + interval '15 minutes' THEN
+    RAISE EXCEPTION 'Check-in is closed for this session';
+  END IF;
+
+  IF expected_code IS NULL OR upper(trim(p_code)) <> expected_code THEN
+    RAISE EXCEPTION 'That check-in code is not correct';
+  END IF;
+
+  IF p_kind = 'course' THEN
+    INSERT INTO session_attendance (session_id, user_id, method)
+    VALUES (p_session_id, auth.uid(), p_method)
+    ON CONFLICT (session_id, user_id) WHERE session_id IS NOT NULL DO NOTHING;
+
+    SELECT checked_in_at INTO checked_in FROM session_attendance
+    WHERE session_id = p_session_id AND user_id = auth.uid();
+  ELSE
+    INSERT INTO session_attendance (community_session_id, user_id, method)
+    VALUES (p_session_id, auth.uid(), p_method)
+    ON CONFLICT (community_session_id, user_id) WHERE community_session_id IS NOT NULL DO NOTHING;
+
+    SELECT checked_in_at INTO checked_in FROM session_attendance
+    WHERE community_session_id = p_session_id AND user_id = auth.uid();
+  END IF;
+
+  RETURN checked_in;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION session_checkin_code(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_in(text, uuid, text, text) TO authenticated;
+
+-- Add the attendance metrics
+CREATE OR REPLACE FUNCTION badge_metric(p_user_id uuid, p_metric text)
+RETURNS numeric
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN CASE p_metric
+    WHEN 'completed_enrollments' THEN (
+      SELECT COUNT(*) FROM enrollments
+      WHERE student_id = p_user_id AND is_completed = true
+    )
+    WHEN 'distinct_domains' THEN (
+      SELECT COUNT(DISTINCT c.domain) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE e.student_id = p_user_id AND e.is_completed = true
+    )
+    WHEN 'certificates' THEN (
+      SELECT COUNT(*) FROM certificates
+      WHERE student_id = p_user_id
+    )
+    WHEN 'paid_completions' THEN (
+      SELECT COUNT(*) FROM enrollments e
+      JOIN orders o ON o.student_id = e.student_id AND o.course_id = e.course_id AND o.status = 'paid'
+      WHERE e.student_id = p_user_id AND e.is_completed = true
+    )
+    WHEN 'helpful_reviews' THEN (
+      SELECT COUNT(*) FROM reviews
+      WHERE student_id = p_user_id AND helpful_count > 0 AND is_hidden = false
+    )
+    WHEN 'sessions_attended' THEN (
+      SELECT COUNT(*) FROM session_attendance sa
+      LEFT JOIN sessions s ON s.id = sa.session_id
+      LEFT JOIN community_sessions cs ON cs.id = sa.community_session_id
+      WHERE sa.user_id = p_user_id
+      AND COALESCE(s.cancelled_at, cs.cancelled_at) IS NULL
+    )
+    WHEN 'sessions_conducted' THEN (
+      SELECT COUNT(*) FROM sessions
+      WHERE mentor_id = p_user_id AND is_completed = true
+    )
+    WHEN 'sessions_with_attendees' THEN (
+      SELECT (
+        SELECT COUNT(*) FROM sessions s
+        WHERE s.mentor_id = p_user_id AND s.is_completed = true
+        AND EXISTS (SELECT 1 FROM session_attendance sa WHERE sa.session_id = s.id)
+      ) + (
+        SELECT COUNT(*) FROM community_sessions cs
+        WHERE cs.host_id = p_user_id AND cs.is_completed = true
+        AND EXISTS (SELECT 1 FROM session_attendance sa WHERE sa.community_session_id = cs.id)
+      )
+    )
+    WHEN 'bookings' THEN (
+      SELECT COUNT(*) FROM enrollments e
+      JOIN courses c ON c.id = e.course_id
+      WHERE c.mentor_id = p_user_id
+    )
+    WHEN 'average_rating' THEN (
+      SELECT COALESCE(AVG(rating), 0) FROM reviews
+      WHERE mentor_id = p_user_id AND is_hidden = false
+    )
+    WHEN 'total_earnings' THEN (
+      SELECT COALESCE(total_earnings, 0) FROM users
+      WHERE id = p_user_id
+    )
+    WHEN 'is_verified' THEN (
+      SELECT CASE WHEN is_verified THEN 1 ELSE 0 END FROM users
+      WHERE id = p_user_id
+    )
+  END;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE badges SET rule = '{"all": [{"metric": "sessions_attended", "min": 1}]}' WHERE name = '🎯 Skill Starter';
+UPDATE badges SET rule = '{"all": [{"metric": "sessions_with_attendees", "min": 1}]}' WHERE name = '🚀 First Flight';
+
+-- Re-evaluate the attendee and the host, and finish the enrollment if this
+-- check-in was the last thing missing
+CREATE OR REPLACE FUNCTION handle_session_attendance()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM evaluate_badges(NEW.user_id);
+
+  IF NEW.session_id IS NOT NULL THEN
+    PERFORM evaluate_badges(s.mentor_id) FROM sessions s WHERE s.id = NEW.session_id;
+    PERFORM complete_enrollment_if_done(NEW.user_id, s.course_id) FROM sessions s WHERE s.id = NEW.session_id;
+  ELSE
+    PERFORM evaluate_badges(cs.host_id) FROM community_sessions cs WHERE cs.id = NEW.community_session_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_attendance_trigger
+  AFTER INSERT ON session_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_session_attendance();
+
+CREATE OR REPLACE FUNCTION evaluate_badges_for_community_session()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_completed = true THEN
+    PERFORM evaluate_badges(NEW.host_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_session_badges_trigger
+  AFTER INSERT OR UPDATE OF is_completed ON community_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_badges_for_community_session();
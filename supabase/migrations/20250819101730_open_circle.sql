@@ -0,0 +1,143 @@
+/*
+  # Community Session Scheduling and RSVPs
+
+  1. Changes
+    - `community_sessions` gains an optional `capacity`, `completed_at` and
+      `recording_resource_id`, which points at the `community_resources`
+      entry holding the recording
+    - Scheduling is limited to senior and admin members of the community
+      (previously any member in 2nd year or above)
+    - The same update rules as course sessions apply: cancelled sessions
+      are frozen, sessions can only be completed after they start and new
+      sessions are never created already completed
+
+  2. New Tables
+    - `community_session_rsvps` - One going/maybe/declined answer per
+      member per session
+
+  3. Security
+    - Hosts update their own sessions
+    - Members read RSVPs for their communities and manage their own
+    - "Going" is refused once a session is at capacity, and RSVPs close
+      when a session is cancelled, completed or has ended
+*/
+
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS capacity integer CHECK (capacity > 0);
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+ALTER TABLE community_sessions ADD COLUMN IF NOT EXISTS recording_resource_id uuid
+  REFERENCES community_resources(id) ON DELETE SET NULL;
+
+DROP POLICY IF EXISTS "Senior members can create sessions" ON community_sessions;
+
+CREATE POLICY "Senior members can create sessions" ON community_sessions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    host_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.community_id = community_sessions.community_id
+      AND cm.user_id = auth.uid()
+      AND cm.role IN ('senior', 'admin')
+    )
+  );
+
+CREATE POLICY "Hosts can update own sessions" ON community_sessions
+  FOR UPDATE TO authenticated
+  USING (host_id = auth.uid())
+  WITH CHECK (host_id = auth.uid());
+
+CREATE TRIGGER community_session_update_check_trigger
+  BEFORE INSERT OR UPDATE ON community_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_session_update();
+
+-- Create community_session_rsvps table
+CREATE TABLE community_session_rsvps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES community_sessions(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL CHECK (status IN ('going', 'maybe', 'declined')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (session_id, user_id)
+);
+
+ALTER TABLE community_session_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Community members can read RSVPs" ON community_session_rsvps
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM community_sessions cs
+      JOIN community_members cm ON cm.community_id = cs.community_id
+      WHERE cs.id = community_session_rsvps.session_id
+      AND cm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can RSVP" ON community_session_rsvps
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM community_sessions cs
+      JOIN community_members cm ON cm.community_id = cs.community_id
+      WHERE cs.id = community_session_rsvps.session_id
+      AND cm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can change own RSVP" ON community_session_rsvps
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Members can remove own RSVP" ON community_session_rsvps
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Runs as the owner so the session row can be locked; two members taking
+-- the last seat at once are serialised on that lock
+CREATE OR REPLACE FUNCTION check_session_rsvp()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target community_sessions%ROWTYPE;
+  going integer;
+BEGIN
+  SELECT * INTO target
+  FROM community_sessions
+  WHERE id = NEW.session_id
+  FOR UPDATE;
+
+  IF target.cancelled_at IS NOT NULL OR target.is_completed
+    OR target.session_date + COALESCE(target.duration_minutes, 60) * interval '1 minute' < now()
+  THEN
+    RAISE EXCEPTION 'RSVPs are closed for this session';
+  END IF;
+
+  IF NEW.status = 'going' AND target.capacity IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.status <> 'going')
+  THEN
+    SELECT COUNT(*) INTO going
+    FROM community_session_rsvps
+    WHERE session_id = NEW.session_id
+    AND status = 'going'
+    AND user_id <> NEW.user_id;
+
+    IF going >= target.capacity THEN
+      RAISE EXCEPTION 'This session is full';
+    END IF;
+  END IF;
+
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_session_rsvp_trigger
+  BEFORE INSERT OR UPDATE ON community_session_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION check_session_rsvp();
@@ -0,0 +1,240 @@
+/*
+  # Community Discussions
+
+  1. New Tables
+    - `community_posts` - Threads and replies. A thread is a post without a
+      `parent_id`; replies can nest under any post in the same thread.
+      Bodies are markdown, and `@[Name](user-id)` tokens mention members
+    - `community_post_mentions` - Members mentioned in each post, kept in
+      step with the body when a post is written or edited
+
+  2. Changes
+    - Threads can be pinned by community admins
+    - The thread author can mark one reply as the answer
+
+  3. Security
+    - Only community members read and write posts
+    - Authors edit and delete their own posts; community admins can also
+      delete any post and pin threads
+*/
+
+-- Create community_posts table
+CREATE TABLE community_posts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  community_id uuid REFERENCES learning_communities(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  parent_id uuid REFERENCES community_posts(id) ON DELETE CASCADE,
+  -- Root post of the thread; equals `id` for the root itself
+  thread_id uuid REFERENCES community_posts(id) ON DELETE CASCADE,
+  title text,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  is_pinned boolean NOT NULL DEFAULT false,
+  answer_post_id uuid REFERENCES community_posts(id) ON DELETE SET NULL,
+  edited_at timestamptz,
+  last_activity_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((parent_id IS NULL) = (title IS NOT NULL)),
+  CHECK (parent_id IS NULL OR (is_pinned = false AND answer_post_id IS NULL))
+);
+
+CREATE INDEX community_posts_community_idx ON community_posts (community_id, last_activity_at DESC)
+  WHERE parent_id IS NULL;
+CREATE INDEX community_posts_thread_idx ON community_posts (thread_id, created_at);
+
+-- Create community_post_mentions table
+CREATE TABLE community_post_mentions (
+  post_id uuid REFERENCES community_posts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+ALTER TABLE community_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE community_post_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Community members can read posts" ON community_posts
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.community_id = community_posts.community_id
+      AND cm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Community members can write posts" ON community_posts
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    author_id = auth.uid() AND
+    is_pinned = false AND
+    answer_post_id IS NULL AND
+    EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.community_id = community_posts.community_id
+      AND cm.user_id = auth.uid()
+    )
+  );
+
+-- Which columns each of them may change is checked in check_post_update
+CREATE POLICY "Authors and community admins can update posts" ON community_posts
+  FOR UPDATE TO authenticated
+  USING (
+    author_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.community_id = community_posts.community_id
+      AND cm.user_id = auth.uid()
+      AND cm.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authors and community admins can delete posts" ON community_posts
+  FOR DELETE TO authenticated
+  USING (
+    author_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM community_members cm
+      WHERE cm.community_id = community_posts.community_id
+      AND cm.user_id = auth.uid()
+      AND cm.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Community members can read mentions" ON community_post_mentions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM community_posts p
+      JOIN community_members cm ON cm.community_id = p.community_id
+      WHERE p.id = community_post_mentions.post_id
+      AND cm.user_id = auth.uid()
+    )
+  );
+
+-- Place replies in their parent's thread
+CREATE OR REPLACE FUNCTION prepare_community_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent community_posts%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    NEW.thread_id = NEW.id;
+  ELSE
+    SELECT * INTO parent FROM community_posts WHERE id = NEW.parent_id;
+
+    IF parent.community_id IS DISTINCT FROM NEW.community_id THEN
+      RAISE EXCEPTION 'Replies must be in the same community as their parent';
+    END IF;
+
+    NEW.thread_id = parent.thread_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_post_prepare_trigger
+  BEFORE INSERT ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_community_post();
+
+CREATE OR REPLACE FUNCTION check_post_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_community_admin boolean;
+BEGIN
+  IF NEW.community_id <> OLD.community_id
+    OR NEW.author_id <> OLD.author_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.thread_id IS DISTINCT FROM OLD.thread_id
+  THEN
+    RAISE EXCEPTION 'Posts cannot be moved';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM community_members
+    WHERE community_id = OLD.community_id
+    AND user_id = auth.uid()
+    AND role = 'admin'
+  ) INTO is_community_admin;
+
+  IF (NEW.body <> OLD.body OR NEW.title IS DISTINCT FROM OLD.title) THEN
+    IF OLD.author_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can edit a post';
+    END IF;
+    NEW.edited_at = now();
+  END IF;
+
+  IF NEW.is_pinned <> OLD.is_pinned AND NOT is_community_admin THEN
+    RAISE EXCEPTION 'Only community admins can pin threads';
+  END IF;
+
+  -- Clearing is also how ON DELETE SET NULL reports a deleted answer
+  IF NEW.answer_post_id IS DISTINCT FROM OLD.answer_post_id
+    AND (NEW.answer_post_id IS NOT NULL OR EXISTS (SELECT 1 FROM community_posts WHERE id = OLD.answer_post_id))
+  THEN
+    IF OLD.author_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the thread author can choose the answer';
+    END IF;
+
+    IF NEW.answer_post_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM community_posts
+      WHERE id = NEW.answer_post_id
+      AND thread_id = OLD.id
+      AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'The answer must be a reply in this thread';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_post_update_trigger
+  BEFORE UPDATE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_post_update();
+
+-- Bump the thread's activity and record mentions of community members.
+-- Runs as the owner: mentions aren't writable by clients, and repliers
+-- can't update the root post themselves.
+CREATE OR REPLACE FUNCTION record_post_activity()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  mentioned uuid[];
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE community_posts
+    SET last_activity_at = now()
+    WHERE id = NEW.thread_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.body <> OLD.body THEN
+    SELECT COALESCE(array_agg(DISTINCT cm.user_id), '{}') INTO mentioned
+    FROM regexp_matches(NEW.body, '@\[[^\]]+\]\(([0-9a-fA-F-]{36})\)', 'g') AS m(groups)
+    JOIN community_members cm ON cm.user_id = m.groups[1]::uuid AND cm.community_id = NEW.community_id
+    WHERE cm.user_id <> NEW.author_id;
+
+    -- Drop mentions an edit removed; ones still in the body are kept so
+    -- those members aren't notified again
+    DELETE FROM community_post_mentions
+    WHERE post_id = NEW.id
+    AND user_id <> ALL (mentioned);
+
+    INSERT INTO community_post_mentions (post_id, user_id)
+    SELECT NEW.id, unnest(mentioned)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_post_activity_trigger
+  AFTER INSERT OR UPDATE OF body ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_post_activity();
@@ -0,0 +1,18 @@
+/*
+  # Realtime Updates
+
+  1. Changes
+    - Publish `community_resources`, `community_members`, `enrollments` and
+      `reviews` to `supabase_realtime` so open views receive inserts,
+      updates and deletes as they happen
+
+  2. Security
+    - Realtime applies each table's existing SELECT policies, so subscribers
+      only receive rows they could already read
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  community_resources,
+  community_members,
+  enrollments,
+  reviews;
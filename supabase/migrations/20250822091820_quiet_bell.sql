@@ -0,0 +1,362 @@
+/*
+  # Notifications
+
+  1. New Tables
+    - `notifications` - One row per recipient. `kind` says what happened and
+      `data` carries the names and ids the app needs to describe it and
+      link to it, captured when the event happened
+    - `notification_preferences` - Kinds a user has switched off. A missing
+      row means the kind is enabled
+
+  2. Functions
+    - `notify` - Records a notification unless the recipient caused the
+      event or has turned the kind off
+    - Triggers on enrollments, session notices, badges, certificates, mentor
+      requests, community resources, replies and mentions call it
+
+  3. Security
+    - Users read their own notifications and may only change `read_at`
+    - Notifications are only created by the triggers above
+    - Users manage their own preferences
+    - `notifications` is published to realtime for the Header bell
+*/
+
+-- Create notifications table
+CREATE TABLE notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN (
+    'enrollment',
+    'session_rescheduled',
+    'session_cancelled',
+    'badge_earned',
+    'certificate_issued',
+    'mentor_request_decided',
+    'community_resource',
+    'thread_reply',
+    'post_mention'
+  )),
+  data jsonb NOT NULL DEFAULT '{}',
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX notifications_user_idx ON notifications (user_id, created_at DESC);
+CREATE INDEX notifications_unread_idx ON notifications (user_id) WHERE read_at IS NULL;
+
+-- Create notification_preferences table
+CREATE TABLE notification_preferences (
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, kind)
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own notifications" ON notifications
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read" ON notifications
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Marking read is the only change clients make
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+CREATE POLICY "Users can read own notification preferences" ON notification_preferences
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+CREATE OR REPLACE FUNCTION notify(
+  p_user_id uuid,
+  p_kind text,
+  p_data jsonb,
+  p_actor_id uuid DEFAULT NULL
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = p_user_id
+    AND kind = p_kind
+    AND enabled = false
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, kind, data, actor_id)
+  VALUES (p_user_id, p_kind, p_data, p_actor_id);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION notify(uuid, text, jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- New student in a mentor's course
+CREATE OR REPLACE FUNCTION notify_enrollment()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify(
+    c.mentor_id,
+    'enrollment',
+    jsonb_build_object(
+      'course_id', c.id,
+      'course_title', c.title,
+      'student_name', u.full_name
+    ),
+    NEW.student_id
+  )
+  FROM courses c, users u
+  WHERE c.id = NEW.course_id
+  AND u.id = NEW.student_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_notification_trigger
+  AFTER INSERT ON enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_enrollment();
+
+-- Session changes reach every student still enrolled in the course
+CREATE OR REPLACE FUNCTION notify_session_notice()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify(
+    e.student_id,
+    'session_' || NEW.kind,
+    jsonb_build_object(
+      'course_id', c.id,
+      'course_title', c.title,
+      'session_id', NEW.session_id,
+      'previous_date', NEW.previous_date,
+      'new_date', NEW.new_date,
+      'reason', NEW.reason
+    ),
+    c.mentor_id
+  )
+  FROM enrollments e
+  JOIN courses c ON c.id = e.course_id
+  WHERE e.course_id = NEW.course_id
+  AND e.dropped_at IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER session_notice_notification_trigger
+  AFTER INSERT ON session_notices
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_session_notice();
+
+CREATE OR REPLACE FUNCTION notify_badge_earned()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify(
+    NEW.user_id,
+    'badge_earned',
+    jsonb_build_object('badge_id', b.id, 'badge_name', b.name)
+  )
+  FROM badges b
+  WHERE b.id = NEW.badge_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER user_badge_notification_trigger
+  AFTER INSERT ON user_badges
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_badge_earned();
+
+CREATE OR REPLACE FUNCTION notify_certificate_issued()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify(
+    NEW.student_id,
+    'certificate_issued',
+    jsonb_build_object(
+      'certificate_id', NEW.certificate_id,
+      'course_id', c.id,
+      'course_title', c.title
+    )
+  )
+  FROM courses c
+  WHERE c.id = NEW.course_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER certificate_notification_trigger
+  AFTER INSERT ON certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_certificate_issued();
+
+CREATE OR REPLACE FUNCTION notify_mentor_request_decided()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+    PERFORM notify(
+      NEW.student_id,
+      'mentor_request_decided',
+      jsonb_build_object(
+        'request_id', NEW.id,
+        'status', NEW.status,
+        'review_notes', NEW.review_notes
+      ),
+      NEW.reviewed_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mentor_request_notification_trigger
+  AFTER UPDATE ON mentor_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_mentor_request_decided();
+
+CREATE OR REPLACE FUNCTION notify_community_resource()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify(
+    cm.user_id,
+    'community_resource',
+    jsonb_build_object(
+      'community_id', lc.id,
+      'community_name', lc.name,
+      'resource_id', NEW.id,
+      'resource_title', NEW.title,
+      'resource_type', NEW.resource_type
+    ),
+    NEW.uploaded_by
+  )
+  FROM community_members cm
+  JOIN learning_communities lc ON lc.id = cm.community_id
+  WHERE cm.community_id = NEW.community_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_resource_notification_trigger
+  AFTER INSERT ON community_resources
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_community_resource();
+
+-- A reply reaches the thread's author and the author of the post it
+-- answers, once each
+CREATE OR REPLACE FUNCTION notify_thread_reply()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM notify(
+    recipient.author_id,
+    'thread_reply',
+    jsonb_build_object(
+      'community_id', NEW.community_id,
+      'thread_id', NEW.thread_id,
+      'post_id', NEW.id,
+      'thread_title', root.title,
+      'author_name', u.full_name
+    ),
+    NEW.author_id
+  )
+  FROM community_posts root, users u, (
+    SELECT author_id FROM community_posts WHERE id IN (NEW.thread_id, NEW.parent_id)
+    GROUP BY author_id
+  ) recipient
+  WHERE root.id = NEW.thread_id
+  AND u.id = NEW.author_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_post_notification_trigger
+  AFTER INSERT ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_thread_reply();
+
+CREATE OR REPLACE FUNCTION notify_post_mention()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify(
+    NEW.user_id,
+    'post_mention',
+    jsonb_build_object(
+      'community_id', p.community_id,
+      'thread_id', p.thread_id,
+      'post_id', p.id,
+      'thread_title', root.title,
+      'author_name', u.full_name
+    ),
+    p.author_id
+  )
+  FROM community_posts p
+  JOIN community_posts root ON root.id = p.thread_id
+  JOIN users u ON u.id = p.author_id
+  WHERE p.id = NEW.post_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER community_post_mention_notification_trigger
+  AFTER INSERT ON community_post_mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_post_mention();
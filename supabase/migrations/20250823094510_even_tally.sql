@@ -0,0 +1,91 @@
+/*
+  # Course and Mentor Stats
+
+  1. New Views
+    - `course_stats` - Per course: active enrollments (not dropped), seats
+      left (null without `max_students`), visible review count and average
+      rating
+    - `mentor_stats` - Per mentor with at least one course: courses,
+      distinct active students, visible review count, average rating and
+      completion rate (completed enrollments out of all enrollments, null
+      until the first enrollment)
+
+  2. Security
+    - Both views run with the owner's rights so the counts include rows the
+      viewer cannot read themselves, e.g. other students' enrollments. They
+      only expose totals, never the underlying rows
+    - Both only count courses the viewer could read: active ones and the
+      viewer's own, so drafts and unlisted courses stay private
+    - Signed-out visitors can't read either view
+*/
+
+CREATE VIEW course_stats AS
+SELECT
+  c.id AS course_id,
+  c.mentor_id,
+  COALESCE(e.enrollment_count, 0)::integer AS enrollment_count,
+  CASE
+    WHEN c.max_students IS NULL THEN NULL
+    ELSE GREATEST(c.max_students - COALESCE(e.enrollment_count, 0), 0)::integer
+  END AS seats_left,
+  COALESCE(r.review_count, 0)::integer AS review_count,
+  r.average_rating
+FROM courses c
+LEFT JOIN (
+  SELECT course_id, COUNT(*) AS enrollment_count
+  FROM enrollments
+  WHERE dropped_at IS NULL
+  GROUP BY course_id
+) e ON e.course_id = c.id
+LEFT JOIN (
+  SELECT course_id, COUNT(*) AS review_count, ROUND(AVG(rating), 1) AS average_rating
+  FROM reviews
+  WHERE is_hidden = false
+  GROUP BY course_id
+) r ON r.course_id = c.id
+WHERE c.is_active OR c.mentor_id = auth.uid();
+
+-- Totals are computed per table before joining so enrollments and reviews
+-- don't multiply each other
+CREATE VIEW mentor_stats AS
+WITH visible_courses AS (
+  SELECT id, mentor_id FROM courses
+  WHERE is_active OR mentor_id = auth.uid()
+),
+course_totals AS (
+  SELECT mentor_id, COUNT(*) AS course_count
+  FROM visible_courses
+  GROUP BY mentor_id
+),
+enrollment_totals AS (
+  SELECT
+    c.mentor_id,
+    COUNT(DISTINCT e.student_id) FILTER (WHERE e.dropped_at IS NULL) AS student_count,
+    COUNT(*) AS enrollment_count,
+    COUNT(*) FILTER (WHERE e.is_completed) AS completed_count
+  FROM enrollments e
+  JOIN visible_courses c ON c.id = e.course_id
+  GROUP BY c.mentor_id
+),
+review_totals AS (
+  SELECT c.mentor_id, COUNT(*) AS review_count, ROUND(AVG(r.rating), 1) AS average_rating
+  FROM reviews r
+  JOIN visible_courses c ON c.id = r.course_id
+  WHERE r.is_hidden = false
+  GROUP BY c.mentor_id
+)
+SELECT
+  ct.mentor_id,
+  ct.course_count::integer AS course_count,
+  COALESCE(et.student_count, 0)::integer AS student_count,
+  COALESCE(rt.review_count, 0)::integer AS review_count,
+  rt.average_rating,
+  CASE
+    WHEN COALESCE(et.enrollment_count, 0) = 0 THEN NULL
+    ELSE ROUND(et.completed_count * 100.0 / et.enrollment_count)::integer
+  END AS completion_rate
+FROM course_totals ct
+LEFT JOIN enrollment_totals et ON et.mentor_id = ct.mentor_id
+LEFT JOIN review_totals rt ON rt.mentor_id = ct.mentor_id;
+
+REVOKE SELECT ON course_stats, mentor_stats FROM anon;
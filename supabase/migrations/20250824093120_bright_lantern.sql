@@ -0,0 +1,49 @@
+/*
+  # Catalog Search
+
+  1. Changes
+    - `courses` gains `search_vector`, a generated full-text document over
+      the title (weighted highest), domain and description, with a GIN index
+
+  2. New Views
+    - `course_catalog` - Active courses with their `course_stats` totals and
+      the mentor's name, picture and verification, so the catalog can
+      search, filter, sort and page in a single query. It runs with the
+      viewer's rights, so the courses policies still apply; only the
+      totals come from `course_stats`
+*/
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(domain, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS courses_search_vector_idx ON courses USING gin(search_vector);
+
+CREATE VIEW course_catalog
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.mentor_id,
+  c.title,
+  c.description,
+  c.domain,
+  c.price,
+  c.duration_hours,
+  c.max_students,
+  c.course_image,
+  c.created_at,
+  c.search_vector,
+  s.enrollment_count,
+  s.seats_left,
+  s.review_count,
+  s.average_rating,
+  u.full_name AS mentor_name,
+  u.profile_picture AS mentor_picture,
+  u.is_verified AS mentor_verified
+FROM courses c
+JOIN course_stats s ON s.course_id = c.id
+JOIN users u ON u.id = c.mentor_id
+WHERE c.is_active;
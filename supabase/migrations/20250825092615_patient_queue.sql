@@ -0,0 +1,579 @@
+/*
+  # Course Capacity and Waitlists
+
+  1. New Tables
+    - `course_waitlist` - Students waiting for a seat in a full course, in
+      the order they joined. `notified_at` records when a student was told
+      a seat in a paid course opened up; the seat is held for them until
+      `offer_expires_at`
+
+  2. Changes
+    - Enrolling in or resuming a course fails with "Course is full" once
+      `max_students` active enrollments and held seats exist. The check
+      locks the course row so concurrent enrollments cannot both take the
+      last seat, and covers students resuming a dropped paid course
+    - `create_course_order` refuses to start checkout for a full course,
+      counting seats held for waitlisted students as taken
+    - `mark_order_paid` checks the seat again with the course locked, so
+      concurrent checkouts cannot overbook. A payment that loses the race
+      fails with "Course is full" and the payments function refunds it
+    - `course_stats` gains `waitlist_count`; `seats_left` leaves out held seats
+    - New notification kind `waitlist_seat`
+
+  3. Functions
+    - `promote_waitlist` - Fills open seats from the front of the waitlist.
+      Free courses enroll the student straight away; paid courses hold the
+      seat for 48 hours and notify them so they can check out. Students who
+      let the hold lapse leave the waitlist. It runs when an active
+      enrollment is dropped or deleted (refunds), when a course's limit
+      changes and before checkout starts
+    - `expire_waitlist_offers` - Passes lapsed holds on to the next in line;
+      scheduled every 15 minutes when pg_cron is available
+    - `refund_unfilled_order` - Fails an order whose payment was refunded
+      because the course filled up
+    - `join_waitlist` - Joins a full course's waitlist, returns the position
+    - `waitlist_position` - The viewer's position, null when not waiting
+
+  4. Security
+    - Students read and leave their own waitlist entries; mentors read the
+      waitlists of their courses. Entries are only created by `join_waitlist`
+*/
+
+-- Create course_waitlist table
+CREATE TABLE course_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  student_id uuid REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  notified_at timestamptz,
+  offer_expires_at timestamptz,
+  UNIQUE(course_id, student_id)
+);
+
+CREATE INDEX course_waitlist_course_idx ON course_waitlist (course_id, created_at);
+
+ALTER TABLE course_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can read own waitlist entries" ON course_waitlist
+  FOR SELECT TO authenticated
+  USING (student_id = auth.uid());
+
+CREATE POLICY "Mentors can read waitlists for their courses" ON course_waitlist
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = course_waitlist.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can leave waitlists" ON course_waitlist
+  FOR DELETE TO authenticated
+  USING (student_id = auth.uid());
+
+ALTER TABLE notifications DROP CONSTRAINT notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'enrollment',
+  'session_rescheduled',
+  'session_cancelled',
+  'badge_earned',
+  'certificate_issued',
+  'mentor_request_decided',
+  'community_resource',
+  'thread_reply',
+  'post_mention',
+  'waitlist_seat'
+));
+
+-- New columns go last so course_catalog keeps working
+CREATE OR REPLACE VIEW course_stats AS
+SELECT
+  c.id AS course_id,
+  c.mentor_id,
+  COALESCE(e.enrollment_count, 0)::integer AS enrollment_count,
+  CASE
+    WHEN c.max_students IS NULL THEN NULL
+    ELSE GREATEST(c.max_students - COALESCE(e.enrollment_count, 0) - COALESCE(w.held_count, 0), 0)::integer
+  END AS seats_left,
+  COALESCE(r.review_count, 0)::integer AS review_count,
+  r.average_rating,
+  COALESCE(w.waitlist_count, 0)::integer AS waitlist_count
+FROM courses c
+LEFT JOIN (
+  SELECT course_id, COUNT(*) AS enrollment_count
+  FROM enrollments
+  WHERE dropped_at IS NULL
+  GROUP BY course_id
+) e ON e.course_id = c.id
+LEFT JOIN (
+  SELECT course_id, COUNT(*) AS review_count, ROUND(AVG(rating), 1) AS average_rating
+  FROM reviews
+  WHERE is_hidden = false
+  GROUP BY course_id
+) r ON r.course_id = c.id
+LEFT JOIN (
+  SELECT
+    course_id,
+    COUNT(*) AS waitlist_count,
+    COUNT(*) FILTER (WHERE offer_expires_at > now()) AS held_count
+  FROM course_waitlist
+  GROUP BY course_id
+) w ON w.course_id = c.id
+WHERE c.is_active OR c.mentor_id = auth.uid();
+
+CREATE OR REPLACE FUNCTION active_enrollment_count(p_course_id uuid)
+RETURNS integer
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer FROM enrollments
+  WHERE course_id = p_course_id
+  AND dropped_at IS NULL;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION active_enrollment_count(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Paid seats held for waitlisted students, other than `p_student_id`'s own
+CREATE OR REPLACE FUNCTION held_seat_count(p_course_id uuid, p_student_id uuid DEFAULT NULL)
+RETURNS integer
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer FROM course_waitlist
+  WHERE course_id = p_course_id
+  AND offer_expires_at > now()
+  AND student_id IS DISTINCT FROM p_student_id;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION held_seat_count(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Runs for new enrollments and resumed (un-dropped) ones. Paid enrollments
+-- created by mark_order_paid were already checked under the same lock;
+-- seats held for other waitlisted students count as taken.
+CREATE OR REPLACE FUNCTION enforce_course_capacity()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course_row courses;
+BEGIN
+  IF NEW.dropped_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.dropped_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialises seat checks for the course until the transaction ends
+  SELECT * INTO course_row FROM courses WHERE id = NEW.course_id FOR UPDATE;
+
+  IF course_row.max_students IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF active_enrollment_count(NEW.course_id) + held_seat_count(NEW.course_id, NEW.student_id) >= course_row.max_students THEN
+    RAISE EXCEPTION 'Course is full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_capacity_trigger
+  BEFORE INSERT OR UPDATE OF dropped_at ON enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_course_capacity();
+
+-- An active enrollment, however it was created, ends the wait
+CREATE OR REPLACE FUNCTION clear_waitlist_entry()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM course_waitlist
+  WHERE course_id = NEW.course_id
+  AND student_id = NEW.student_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_clear_waitlist_trigger
+  AFTER INSERT OR UPDATE OF dropped_at ON enrollments
+  FOR EACH ROW
+  WHEN (NEW.dropped_at IS NULL)
+  EXECUTE FUNCTION clear_waitlist_entry();
+
+CREATE OR REPLACE FUNCTION promote_waitlist(p_course_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course_row courses;
+  open_seats integer;
+  entry course_waitlist;
+BEGIN
+  SELECT * INTO course_row FROM courses WHERE id = p_course_id FOR UPDATE;
+
+  IF course_row.id IS NULL OR NOT course_row.is_active THEN
+    RETURN;
+  END IF;
+
+  -- Lifting the limit lets everyone in
+  open_seats := CASE
+    WHEN course_row.max_students IS NULL THEN (SELECT COUNT(*) FROM course_waitlist WHERE course_id = p_course_id)
+    ELSE course_row.max_students - active_enrollment_count(p_course_id)
+  END;
+
+  IF COALESCE(course_row.price, 0) > 0 THEN
+    -- Students who let their hold lapse give up their place in line
+    DELETE FROM course_waitlist
+    WHERE course_id = p_course_id
+    AND offer_expires_at <= now();
+
+    -- Seats already offered to someone aren't offered twice
+    open_seats := open_seats - held_seat_count(p_course_id);
+
+    FOR entry IN
+      SELECT * FROM course_waitlist
+      WHERE course_id = p_course_id
+      AND notified_at IS NULL
+      ORDER BY created_at, id
+      LIMIT GREATEST(open_seats, 0)
+    LOOP
+      UPDATE course_waitlist
+      SET notified_at = now(),
+          offer_expires_at = now() + interval '48 hours'
+      WHERE id = entry.id;
+
+      PERFORM notify(
+        entry.student_id,
+        'waitlist_seat',
+        jsonb_build_object(
+          'course_id', course_row.id,
+          'course_title', course_row.title,
+          'enrolled', false,
+          'expires_at', now() + interval '48 hours'
+        )
+      );
+    END LOOP;
+
+    RETURN;
+  END IF;
+
+  FOR entry IN
+    SELECT * FROM course_waitlist
+    WHERE course_id = p_course_id
+    ORDER BY created_at, id
+    LIMIT GREATEST(open_seats, 0)
+  LOOP
+    -- Students who dropped earlier get their old enrollment back
+    INSERT INTO enrollments (student_id, course_id)
+    VALUES (entry.student_id, p_course_id)
+    ON CONFLICT (student_id, course_id) DO UPDATE
+    SET dropped_at = NULL
+    WHERE enrollments.dropped_at IS NOT NULL;
+
+    PERFORM notify(
+      entry.student_id,
+      'waitlist_seat',
+      jsonb_build_object(
+        'course_id', course_row.id,
+        'course_title', course_row.title,
+        'enrolled', true
+      )
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION promote_waitlist(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Offers the seats of lapsed holds to the next students in line. Returns
+-- the number of courses checked.
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lapsed_course_id uuid;
+  course_count integer := 0;
+BEGIN
+  FOR lapsed_course_id IN
+    SELECT DISTINCT course_id FROM course_waitlist
+    WHERE offer_expires_at <= now()
+  LOOP
+    PERFORM promote_waitlist(lapsed_course_id);
+    course_count := course_count + 1;
+  END LOOP;
+
+  RETURN course_count;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-waitlist-offers', '*/15 * * * *', 'SELECT expire_waitlist_offers()');
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION promote_waitlist_on_seat_freed()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM promote_waitlist(OLD.course_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enrollment_dropped_promote_trigger
+  AFTER UPDATE OF dropped_at ON enrollments
+  FOR EACH ROW
+  WHEN (OLD.dropped_at IS NULL AND NEW.dropped_at IS NOT NULL)
+  EXECUTE FUNCTION promote_waitlist_on_seat_freed();
+
+CREATE TRIGGER enrollment_deleted_promote_trigger
+  AFTER DELETE ON enrollments
+  FOR EACH ROW
+  WHEN (OLD.dropped_at IS NULL)
+  EXECUTE FUNCTION promote_waitlist_on_seat_freed();
+
+CREATE OR REPLACE FUNCTION promote_waitlist_on_course_change()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM promote_waitlist(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER course_capacity_promote_trigger
+  AFTER UPDATE OF max_students, is_active ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_waitlist_on_course_change();
+
+CREATE OR REPLACE FUNCTION waitlist_position(p_course_id uuid)
+RETURNS integer
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT position::integer FROM (
+    SELECT student_id, ROW_NUMBER() OVER (ORDER BY created_at, id) AS position
+    FROM course_waitlist
+    WHERE course_id = p_course_id
+  ) w
+  WHERE student_id = auth.uid();
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION join_waitlist(p_course_id uuid)
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course_row courses;
+BEGIN
+  SELECT * INTO course_row FROM courses WHERE id = p_course_id FOR UPDATE;
+
+  IF course_row.id IS NULL OR NOT course_row.is_active THEN
+    RAISE EXCEPTION 'Course not found';
+  END IF;
+
+  IF course_row.mentor_id = auth.uid() THEN
+    RAISE EXCEPTION 'Mentors cannot join their own waitlist';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE student_id = auth.uid()
+    AND course_id = p_course_id
+    AND dropped_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Already enrolled in this course';
+  END IF;
+
+  IF course_row.max_students IS NULL
+    OR active_enrollment_count(p_course_id) + held_seat_count(p_course_id) < course_row.max_students THEN
+    RAISE EXCEPTION 'Course still has seats available';
+  END IF;
+
+  INSERT INTO course_waitlist (course_id, student_id)
+  VALUES (p_course_id, auth.uid())
+  ON CONFLICT (course_id, student_id) DO NOTHING;
+
+  RETURN waitlist_position(p_course_id);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION waitlist_position(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_waitlist(uuid) TO authenticated;
+
+-- Same as before, plus the seat check. Seats held for other waitlisted
+-- students count as taken; the buyer's own hold does not.
+CREATE OR REPLACE FUNCTION create_course_order(p_student_id uuid, p_course_id uuid, p_provider text)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  course_row courses;
+  settings payment_settings;
+  order_row orders;
+BEGIN
+  SELECT * INTO course_row FROM courses WHERE id = p_course_id FOR UPDATE;
+
+  IF course_row.id IS NULL OR COALESCE(course_row.price, 0) <= 0 THEN
+    RAISE EXCEPTION 'Course is not available for purchase';
+  END IF;
+
+  IF course_row.mentor_id = p_student_id THEN
+    RAISE EXCEPTION 'Mentors cannot buy their own course';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE student_id = p_student_id
+    AND course_id = p_course_id
+  ) THEN
+    RAISE EXCEPTION 'Already enrolled in this course';
+  END IF;
+
+  -- Lapsed holds go to the next student in line, not to this buyer
+  PERFORM promote_waitlist(p_course_id);
+
+  IF course_row.max_students IS NOT NULL
+    AND active_enrollment_count(p_course_id) + held_seat_count(p_course_id, p_student_id) >= course_row.max_students THEN
+    RAISE EXCEPTION 'Course is full';
+  END IF;
+
+  -- Reuse an abandoned checkout at the current price
+  SELECT * INTO order_row FROM orders
+  WHERE student_id = p_student_id
+  AND course_id = p_course_id
+  AND provider = p_provider
+  AND status = 'pending'
+  AND amount = course_row.price
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF order_row.id IS NOT NULL THEN
+    RETURN order_row;
+  END IF;
+
+  SELECT * INTO settings FROM payment_settings;
+
+  INSERT INTO orders (
+    student_id, course_id, mentor_id, amount, currency,
+    commission_rate, platform_fee, mentor_amount, provider
+  )
+  VALUES (
+    p_student_id,
+    p_course_id,
+    course_row.mentor_id,
+    course_row.price,
+    settings.currency,
+    settings.commission_rate,
+    ROUND(course_row.price * settings.commission_rate, 2),
+    course_row.price - ROUND(course_row.price * settings.commission_rate, 2),
+    p_provider
+  )
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as before, plus the seat check under the course lock, so a payment
+-- that loses the race for the last seat fails before the order is paid
+-- and can be refunded.
+CREATE OR REPLACE FUNCTION mark_order_paid(p_order_id uuid, p_provider_payment_id text)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row orders;
+  course_row courses;
+BEGIN
+  SELECT * INTO order_row FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF order_row.status = 'paid' THEN
+    RETURN order_row;
+  END IF;
+
+  IF order_row.status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'Order % cannot be marked as paid', p_order_id;
+  END IF;
+
+  SELECT * INTO course_row FROM courses WHERE id = order_row.course_id FOR UPDATE;
+
+  IF course_row.max_students IS NOT NULL
+    AND active_enrollment_count(course_row.id) + held_seat_count(course_row.id, order_row.student_id) >= course_row.max_students THEN
+    RAISE EXCEPTION 'Course is full';
+  END IF;
+
+  UPDATE orders
+  SET status = 'paid',
+      provider_payment_id = p_provider_payment_id,
+      paid_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO order_row;
+
+  INSERT INTO enrollments (student_id, course_id)
+  VALUES (order_row.student_id, order_row.course_id)
+  ON CONFLICT (student_id, course_id) DO NOTHING;
+
+  INSERT INTO earnings_ledger (mentor_id, order_id, entry_type, amount, description)
+  VALUES (order_row.mentor_id, order_row.id, 'sale', order_row.mentor_amount, 'Sale: ' || course_row.title);
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The payment went through after the last seat was taken and has been
+-- refunded with the provider. The mentor was never credited.
+CREATE OR REPLACE FUNCTION refund_unfilled_order(
+  p_order_id uuid,
+  p_provider_payment_id text,
+  p_provider_refund_id text
+)
+RETURNS orders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row orders;
+BEGIN
+  UPDATE orders
+  SET status = 'failed',
+      failure_reason = 'Course is full. Your payment has been refunded',
+      provider_payment_id = p_provider_payment_id,
+      provider_refund_id = p_provider_refund_id,
+      refunded_at = now()
+  WHERE id = p_order_id
+  AND status = 'pending'
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION refund_unfilled_order(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_unfilled_order(uuid, text, text) TO service_role;
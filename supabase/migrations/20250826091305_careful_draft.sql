@@ -0,0 +1,333 @@
+/*
+  # Course Lifecycle
+
+  1. Changes
+    - `courses.status` - `draft`, `in_review`, `published` or `archived`.
+      Existing active courses become published, inactive ones archived.
+      `is_active` is kept equal to `status = 'published'` so the policies,
+      views and functions that read it keep working
+    - `courses` gains `published_at`, `submitted_at` and the review fields
+      `review_notes`, `reviewed_by` and `reviewed_at`
+    - New notification kind `course_reviewed`
+
+  2. New Tables
+    - `course_settings` - Single row; `require_approval` makes publishing a
+      course wait for an admin
+    - `course_revisions` - What changed in a course, field by field, when
+      it was edited while students were enrolled
+
+  3. Status Changes
+    - Mentors move their own courses: draft -> published (in_review when
+      approval is required), in_review -> draft to withdraw, published ->
+      archived, archived -> published again, and drafts or archived courses
+      back to draft
+    - Admins decide courses in review: in_review -> published or draft,
+      stamping the reviewer
+    - A course needs a title, description and domain to leave draft
+
+  4. Security
+    - Mentors read their own courses in any status, students read archived
+      courses they are actively enrolled in, admins read and review every
+      course
+    - Review fields are only written by the status trigger
+    - Revisions are readable by the course's mentor, its enrolled students
+      and admins, and are only written by the revision trigger. They only
+      note that the session link changed, never the link itself
+*/
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft'
+  CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS published_at timestamptz;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS submitted_at timestamptz;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS review_notes text;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+
+UPDATE courses
+SET status = CASE WHEN is_active THEN 'published' ELSE 'archived' END,
+    published_at = CASE WHEN is_active THEN created_at END;
+
+CREATE INDEX IF NOT EXISTS courses_status_idx ON courses (status, submitted_at);
+
+-- Create course_settings table
+CREATE TABLE course_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  require_approval boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO course_settings (id, require_approval) VALUES (true, false);
+
+-- Create course_revisions table
+CREATE TABLE course_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  -- { field: { "from": old value, "to": new value } }; session_link: {}
+  changes jsonb NOT NULL,
+  enrolled_count integer NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX course_revisions_course_idx ON course_revisions (course_id, created_at DESC);
+
+ALTER TABLE course_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Policies on courses can't query enrollments directly: the enrollments
+-- policies query courses, which would recurse. Dropped enrollments don't count.
+CREATE OR REPLACE FUNCTION is_enrolled(p_course_id uuid)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM enrollments
+    WHERE course_id = p_course_id
+    AND student_id = auth.uid()
+    AND dropped_at IS NULL
+  );
+$$ LANGUAGE sql;
+
+GRANT EXECUTE ON FUNCTION is_enrolled(uuid) TO authenticated;
+
+-- Courses policies
+CREATE POLICY "Mentors can read own courses" ON courses
+  FOR SELECT TO authenticated
+  USING (mentor_id = auth.uid());
+
+CREATE POLICY "Students can read enrolled courses" ON courses
+  FOR SELECT TO authenticated
+  USING (is_enrolled(id));
+
+CREATE POLICY "Admins can read all courses" ON courses
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can review courses" ON courses
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Course settings policies
+CREATE POLICY "Anyone can read course settings" ON course_settings
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update course settings" ON course_settings
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+-- Course revisions policies
+CREATE POLICY "Mentors can read revisions of own courses" ON course_revisions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM courses
+      WHERE id = course_revisions.course_id
+      AND mentor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students can read revisions of enrolled courses" ON course_revisions
+  FOR SELECT TO authenticated
+  USING (is_enrolled(course_id));
+
+CREATE POLICY "Admins can read all course revisions" ON course_revisions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE id = auth.uid()
+      AND role = 'admin'
+    )
+  );
+
+ALTER TABLE notifications DROP CONSTRAINT notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'enrollment',
+  'session_rescheduled',
+  'session_cancelled',
+  'badge_earned',
+  'certificate_issued',
+  'mentor_request_decided',
+  'community_resource',
+  'thread_reply',
+  'post_mention',
+  'waitlist_seat',
+  'course_reviewed'
+));
+
+-- Validates status changes, stamps reviews and keeps is_active in step.
+-- New courses are treated as coming from draft.
+CREATE OR REPLACE FUNCTION check_course_status()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous text;
+  is_admin boolean := EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+  approval_required boolean := COALESCE((SELECT require_approval FROM course_settings), false);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    previous = 'draft';
+    NEW.published_at = NULL;
+    NEW.submitted_at = NULL;
+    NEW.review_notes = NULL;
+    NEW.reviewed_by = NULL;
+    NEW.reviewed_at = NULL;
+  ELSE
+    previous = OLD.status;
+    NEW.published_at = OLD.published_at;
+    NEW.submitted_at = OLD.submitted_at;
+    NEW.reviewed_by = OLD.reviewed_by;
+    NEW.reviewed_at = OLD.reviewed_at;
+    IF NOT is_admin THEN
+      NEW.review_notes = OLD.review_notes;
+    END IF;
+    NEW.updated_at = now();
+  END IF;
+
+  IF NEW.status <> previous THEN
+    IF previous = 'in_review' AND NEW.status IN ('published', 'draft') AND is_admin THEN
+      NEW.reviewed_by = auth.uid();
+      NEW.reviewed_at = now();
+    ELSIF previous IN ('draft', 'archived') AND NEW.status IN ('published', 'in_review') THEN
+      IF NEW.status = 'published' AND approval_required AND NOT is_admin THEN
+        NEW.status = 'in_review';
+      END IF;
+      IF NEW.status = 'in_review' THEN
+        NEW.submitted_at = now();
+        NEW.review_notes = NULL;
+      END IF;
+    ELSIF NOT (
+      (previous = 'in_review' AND NEW.status = 'draft') OR
+      (previous = 'published' AND NEW.status = 'archived') OR
+      (previous = 'draft' AND NEW.status = 'archived') OR
+      (previous = 'archived' AND NEW.status = 'draft')
+    ) THEN
+      RAISE EXCEPTION 'A % course cannot be moved to %', replace(previous, '_', ' '), replace(NEW.status, '_', ' ');
+    END IF;
+
+    IF NEW.status IN ('in_review', 'published')
+      AND (btrim(NEW.title) = '' OR btrim(NEW.description) = '' OR btrim(NEW.domain) = '') THEN
+      RAISE EXCEPTION 'Add a title, description and domain before publishing';
+    END IF;
+
+    IF NEW.status = 'published' THEN
+      NEW.published_at = COALESCE(NEW.published_at, now());
+    END IF;
+  END IF;
+
+  NEW.is_active = NEW.status = 'published';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER course_status_trigger
+  BEFORE INSERT OR UPDATE ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION check_course_status();
+
+-- is_active is now set by the trigger above rather than by UPDATE ... SET
+DROP TRIGGER IF EXISTS course_capacity_promote_trigger ON courses;
+
+CREATE TRIGGER course_capacity_promote_trigger
+  AFTER UPDATE OF max_students, status ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_waitlist_on_course_change();
+
+-- Only edits made while students are enrolled are recorded. The session
+-- link is private (see course_session_link), so only the fact that it
+-- changed is kept.
+CREATE OR REPLACE FUNCTION record_course_revision()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changes jsonb;
+  enrolled integer := active_enrollment_count(NEW.id);
+BEGIN
+  IF enrolled = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_object_agg(
+    old_field.key,
+    jsonb_build_object('from', old_field.value, 'to', to_jsonb(NEW) -> old_field.key)
+  )
+  INTO changes
+  FROM jsonb_each(to_jsonb(OLD)) old_field
+  WHERE old_field.key IN (
+    'title', 'description', 'domain', 'price', 'duration_hours',
+    'max_students', 'course_image', 'min_attendance_percent'
+  )
+  AND old_field.value IS DISTINCT FROM to_jsonb(NEW) -> old_field.key;
+
+  IF NEW.session_link IS DISTINCT FROM OLD.session_link THEN
+    changes := COALESCE(changes, '{}'::jsonb) || jsonb_build_object('session_link', '{}'::jsonb);
+  END IF;
+
+  IF changes IS NOT NULL THEN
+    INSERT INTO course_revisions (course_id, changed_by, changes, enrolled_count)
+    VALUES (NEW.id, auth.uid(), changes, enrolled);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER course_revision_trigger
+  AFTER UPDATE ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION record_course_revision();
+
+CREATE OR REPLACE FUNCTION notify_course_reviewed()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at THEN
+    PERFORM notify(
+      NEW.mentor_id,
+      'course_reviewed',
+      jsonb_build_object(
+        'course_id', NEW.id,
+        'course_title', NEW.title,
+        'approved', NEW.status = 'published',
+        'review_notes', NEW.review_notes
+      ),
+      NEW.reviewed_by
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER course_review_notification_trigger
+  AFTER UPDATE ON courses
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_course_reviewed();
@@ -0,0 +1,39 @@
+/*
+  # Private Course Links
+
+  1. Security
+    - `courses.session_link` is no longer readable directly, the same way
+      `sessions.session_link` is hidden. `course_session_link` returns it to
+      the course's mentor and to students actively enrolled in the course
+    - Columns added to `courses` from here on must be granted explicitly
+*/
+
+-- Hide session_link from direct reads; everything else stays readable
+REVOKE SELECT ON courses FROM anon, authenticated;
+GRANT SELECT (
+  id, mentor_id, title, description, domain, price, duration_hours,
+  max_students, course_image, min_attendance_percent, search_vector,
+  status, is_active, published_at, submitted_at, review_notes,
+  reviewed_by, reviewed_at, created_at, updated_at
+) ON courses TO authenticated;
+
+CREATE OR REPLACE FUNCTION course_session_link(p_course_id uuid)
+RETURNS text
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.session_link FROM courses c
+  WHERE c.id = p_course_id
+  AND (
+    c.mentor_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM enrollments
+      WHERE course_id = c.id
+      AND student_id = auth.uid()
+      AND dropped_at IS NULL
+    )
+  );
+$$ LANGUAGE sql;
+
+GRANT EXECUTE ON FUNCTION course_session_link(uuid) TO authenticated;